@@ -0,0 +1,17 @@
+export { auditScope } from "./keys";
+export {
+  createConnectionId,
+  isAuditRecordingEnabled,
+  type RecordedFrame,
+  type RecordedSession,
+  redactFrame,
+  SessionRecorder,
+} from "./recorder";
+export {
+  getRecordedSession,
+  listRecordedSessions,
+  loadReplay,
+  type RecordedSessionSummary,
+  type ReplayFrame,
+  streamRecordedFrames,
+} from "./store";
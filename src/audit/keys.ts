@@ -0,0 +1,43 @@
+import type { GatewayConfig } from "../gateway/registry";
+
+/**
+ * R2 key layout for recorded WebSocket sessions, under the gateway's scope:
+ *
+ *   <scope>audit/sessions/<user>/<id>.json         session metadata
+ *   <scope>audit/frames/<user>/<id>/00001.jsonl    frames, in numbered parts
+ */
+
+export const AUDIT_SESSIONS_PREFIX = "audit/sessions/";
+export const AUDIT_FRAMES_PREFIX = "audit/frames/";
+
+/**
+ * Key prefix of one gateway's recordings in the shared bucket: its R2 prefix,
+ * or else its name. The default gateway without an R2 prefix keeps the bucket
+ * root, where recordings were kept before there were several gateways.
+ */
+export function auditScope(gateway: GatewayConfig): string {
+  const prefix =
+    gateway.r2Prefix?.replace(/^\/+|\/+$/g, "") || (gateway.isDefault ? "" : gateway.name);
+  return prefix ? `${prefix}/` : "";
+}
+
+/** Encode a user identity (email) for use as a single R2 key segment */
+export function userKey(user: string): string {
+  return encodeURIComponent(user);
+}
+
+export function sessionsPrefix(scope: string, user?: string): string {
+  return `${scope}${AUDIT_SESSIONS_PREFIX}${user ? `${userKey(user)}/` : ""}`;
+}
+
+export function sessionKey(scope: string, user: string, id: string): string {
+  return `${sessionsPrefix(scope, user)}${id}.json`;
+}
+
+export function framesPrefix(scope: string, user: string, id: string): string {
+  return `${scope}${AUDIT_FRAMES_PREFIX}${userKey(user)}/${id}/`;
+}
+
+export function framesKey(scope: string, user: string, id: string, part: number): string {
+  return `${framesPrefix(scope, user, id)}${String(part).padStart(5, "0")}.jsonl`;
+}
@@ -0,0 +1,221 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { parseGatewayRegistry } from "../gateway/registry";
+import { createMockBucket, createMockEnv, suppressConsole } from "../test-utils";
+import { auditScope } from "./keys";
+import { createConnectionId, redactFrame, SessionRecorder } from "./recorder";
+import {
+  getRecordedSession,
+  listRecordedSessions,
+  loadReplay,
+  streamRecordedFrames,
+} from "./store";
+
+function createRecorder(
+  bucket = createMockBucket(),
+  id = "2026-01-01T00-00-00-000Z-abcd1234",
+  scope = "",
+) {
+  const recorder = new SessionRecorder(
+    bucket,
+    createMockEnv({ OPENCLAW_GATEWAY_TOKEN: "gateway-token-abcdef" }),
+    {
+      id,
+      scope,
+      user: { kind: "human", email: "alice@example.com", name: "Alice" },
+      host: "claw.example.com",
+      path: "/",
+    },
+  );
+  return { bucket, recorder };
+}
+
+describe("createConnectionId", () => {
+  it("starts with a sortable timestamp", () => {
+    const id = createConnectionId(new Date("2026-03-04T05:06:07.089Z"));
+    expect(id).toMatch(/^2026-03-04T05-06-07-089Z-[0-9a-f]{8}$/);
+  });
+});
+
+describe("redactFrame", () => {
+  it("redacts values under sensitive keys", () => {
+    const frame = {
+      type: "req",
+      method: "connect",
+      params: { auth: { token: "abc" }, client: { id: "ui" } },
+    };
+    expect(redactFrame(frame, [])).toEqual({
+      type: "req",
+      method: "connect",
+      params: { auth: { token: "[REDACTED]" }, client: { id: "ui" } },
+    });
+  });
+
+  it("matches whole key segments and keeps numbers such as token counts", () => {
+    const frame = {
+      auth: { accessToken: "a", refresh_token: "b", "x-api-key": "c", clientSecret: "d" },
+      usage: { maxTokens: 1024, inputTokens: 12, outputTokens: 34, tokenCount: 46 },
+    };
+    expect(redactFrame(frame, [])).toEqual({
+      auth: {
+        accessToken: "[REDACTED]",
+        refresh_token: "[REDACTED]",
+        "x-api-key": "[REDACTED]",
+        clientSecret: "[REDACTED]",
+      },
+      usage: { maxTokens: 1024, inputTokens: 12, outputTokens: 34, tokenCount: 46 },
+    });
+  });
+
+  it("scrubs matching patterns in string values", () => {
+    expect(redactFrame({ output: "key sk-secret-1" }, [/sk-secret-\d/g])).toEqual({
+      output: "key [REDACTED]",
+    });
+  });
+});
+
+describe("SessionRecorder", () => {
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  it("writes session metadata on start", async () => {
+    const { bucket, recorder } = createRecorder();
+    await recorder.start();
+
+    const session = await getRecordedSession(bucket, "", "alice@example.com", recorder.id);
+    expect(session).toMatchObject({
+      id: recorder.id,
+      user: "alice@example.com",
+      userName: "Alice",
+      frames: 0,
+    });
+    expect(session?.endedAt).toBeUndefined();
+  });
+
+  it("records redacted frames and finalizes on close", async () => {
+    const { bucket, recorder } = createRecorder();
+    await recorder.start();
+
+    recorder.record(
+      "client-to-container",
+      JSON.stringify({ type: "req", id: "1", method: "chat.send", params: { text: "hi" } }),
+    );
+    recorder.record(
+      "container-to-client",
+      JSON.stringify({ type: "event", event: "agent", payload: { text: "gateway-token-abcdef" } }),
+    );
+    recorder.record("client-to-container", new ArrayBuffer(16));
+    recorder.record("client-to-container", '{"type":"req","id":"2","method":"config.set"}', {
+      dropped: true,
+    });
+    await recorder.close(1000, "bye");
+
+    const session = await getRecordedSession(bucket, "", "alice@example.com", recorder.id);
+    expect(session).toMatchObject({ frames: 4, parts: 1, closeCode: 1000, closeReason: "bye" });
+
+    const frames = await loadReplay(bucket, "", session!);
+    expect(frames).toHaveLength(4);
+    expect(frames[0].frame).toMatchObject({ method: "chat.send", params: { text: "hi" } });
+    expect(frames[1].frame).toMatchObject({ payload: { text: "[REDACTED]" } });
+    expect(frames[2]).toMatchObject({ binary: 16 });
+    expect(frames[3]).toMatchObject({ dropped: true });
+    expect(frames[0].offsetMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it("only finalizes once", async () => {
+    const { bucket, recorder } = createRecorder();
+    await recorder.close(1000, "first");
+    await recorder.close(1006, "second");
+
+    const session = await getRecordedSession(bucket, "", "alice@example.com", recorder.id);
+    expect(session).toMatchObject({ closeCode: 1000, closeReason: "first" });
+  });
+
+  it("flushes to numbered parts once the buffer is full", async () => {
+    const { bucket, recorder } = createRecorder();
+    for (let i = 0; i < 450; i++) {
+      recorder.record("container-to-client", JSON.stringify({ type: "event", seq: i }));
+    }
+    await recorder.close(1000);
+
+    const partKeys = [...bucket.objects.keys()].filter((key) => key.startsWith("audit/frames/"));
+    expect(partKeys.sort()).toEqual([
+      `audit/frames/alice%40example.com/${recorder.id}/00001.jsonl`,
+      `audit/frames/alice%40example.com/${recorder.id}/00002.jsonl`,
+      `audit/frames/alice%40example.com/${recorder.id}/00003.jsonl`,
+    ]);
+
+    const body = await new Response(
+      await streamRecordedFrames(bucket, "", "alice@example.com", recorder.id),
+    ).text();
+    const seqs = body
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line).frame.seq);
+    expect(seqs).toEqual(Array.from({ length: 450 }, (_, i) => i));
+  });
+
+  it("logs and swallows R2 write failures", async () => {
+    const { bucket, recorder } = createRecorder();
+    vi.mocked(bucket.put).mockRejectedValueOnce(new Error("R2 down"));
+
+    await expect(recorder.start()).resolves.toBeUndefined();
+    expect(console.error).toHaveBeenCalledWith(
+      `[AUDIT] Failed to write session ${recorder.id}:`,
+      expect.any(Error),
+    );
+  });
+});
+
+describe("listRecordedSessions", () => {
+  it("lists sessions newest first, optionally per user", async () => {
+    const bucket = createMockBucket();
+    await createRecorder(bucket, "2026-01-01T00-00-00-000Z-aaaaaaaa").recorder.start();
+    await createRecorder(bucket, "2026-01-02T00-00-00-000Z-bbbbbbbb").recorder.start();
+    const other = new SessionRecorder(bucket, createMockEnv(), {
+      id: "2026-01-03T00-00-00-000Z-cccccccc",
+      scope: "",
+      host: "claw.example.com",
+      path: "/",
+    });
+    await other.start();
+
+    const all = await listRecordedSessions(bucket, "");
+    expect(all.map((s) => s.id)).toEqual([
+      "2026-01-03T00-00-00-000Z-cccccccc",
+      "2026-01-02T00-00-00-000Z-bbbbbbbb",
+      "2026-01-01T00-00-00-000Z-aaaaaaaa",
+    ]);
+    expect(all[0]).toMatchObject({ user: "anonymous", endedAt: null });
+
+    const alice = await listRecordedSessions(bucket, "", { user: "alice@example.com", limit: 1 });
+    expect(alice.map((s) => s.id)).toEqual(["2026-01-02T00-00-00-000Z-bbbbbbbb"]);
+  });
+});
+
+describe("auditScope", () => {
+  it("keeps each gateway's recordings apart", async () => {
+    const [personal, company, team] = parseGatewayRegistry({
+      GATEWAYS: JSON.stringify([
+        { name: "personal", default: true },
+        { name: "company", r2Prefix: "/company/" },
+        { name: "team" },
+      ]),
+    });
+    expect([personal, company, team].map(auditScope)).toEqual(["", "company/", "team/"]);
+
+    const bucket = createMockBucket();
+    const id = "2026-01-01T00-00-00-000Z-aaaaaaaa";
+    await createRecorder(bucket, id, auditScope(company)).recorder.close(1000);
+
+    expect(await listRecordedSessions(bucket, auditScope(company))).toHaveLength(1);
+    expect(await listRecordedSessions(bucket, auditScope(personal))).toEqual([]);
+    expect(await listRecordedSessions(bucket, auditScope(team))).toEqual([]);
+    expect(
+      await getRecordedSession(bucket, auditScope(personal), "alice@example.com", id),
+    ).toBeNull();
+    expect(
+      await getRecordedSession(bucket, auditScope(company), "alice@example.com", id),
+    ).toMatchObject({ id });
+  });
+});
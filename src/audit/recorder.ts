@@ -0,0 +1,244 @@
+import type { FrameDirection } from "../proxy";
+import { buildRedactionPatterns, redactValue } from "../proxy/interceptors";
+import type { AccessUser, OpenClawEnv } from "../types";
+import { framesKey, sessionKey } from "./keys";
+
+/** Flush buffered frames to a new R2 part after this many frames... */
+const FLUSH_FRAME_COUNT = 200;
+/** ...or once the buffered JSONL exceeds this many bytes */
+const FLUSH_BYTE_SIZE = 256 * 1024;
+
+// Key segments whose string values are always replaced, regardless of content.
+// Whole segments only, so usage counts such as maxTokens are kept.
+const SENSITIVE_KEY_SEGMENTS = new Set([
+  "token",
+  "secret",
+  "password",
+  "passwd",
+  "apikey",
+  "authorization",
+  "cookie",
+]);
+
+/**
+ * Check a key's segments (split on camelCase, `_`, `-` and `.`) against the
+ * sensitive ones, e.g. accessToken, refresh_token, x-api-key or Set-Cookie
+ */
+function isSensitiveKey(key: string): boolean {
+  const segments = key
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .toLowerCase()
+    .split(/[\s_.-]+/);
+  return segments.some(
+    (segment, i) =>
+      SENSITIVE_KEY_SEGMENTS.has(segment) || (segment === "api" && segments[i + 1] === "key"),
+  );
+}
+
+/**
+ * One line of a recorded session (JSONL)
+ */
+export interface RecordedFrame {
+  /** Epoch milliseconds when the proxy saw the frame */
+  ts: number;
+  dir: FrameDirection;
+  /** Parsed (and redacted) frame, or the raw string if it wasn't JSON */
+  frame?: unknown;
+  /** Byte length of binary frames (content is not recorded) */
+  binary?: number;
+  /** Set when an interceptor dropped the frame instead of forwarding it */
+  dropped?: boolean;
+}
+
+/**
+ * Session metadata stored alongside the frames
+ */
+export interface RecordedSession {
+  id: string;
+  user: string;
+  userName?: string;
+  host: string;
+  path: string;
+  startedAt: string;
+  endedAt?: string;
+  frames: number;
+  parts: number;
+  closeCode?: number;
+  closeReason?: string;
+}
+
+/**
+ * Check if session recording is enabled
+ */
+export function isAuditRecordingEnabled(env: OpenClawEnv): boolean {
+  return env.AUDIT_RECORDING === "true";
+}
+
+/**
+ * Generate a connection ID that sorts chronologically in R2 listings
+ */
+export function createConnectionId(now: Date = new Date()): string {
+  const stamp = now.toISOString().replace(/[:.]/g, "-");
+  return `${stamp}-${crypto.randomUUID().slice(0, 8)}`;
+}
+
+/**
+ * Redact secrets from a frame: strings under sensitive keys are replaced
+ * outright, and other string values are scrubbed with the interceptor patterns.
+ */
+export function redactFrame(value: unknown, patterns: RegExp[]): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => redactFrame(item, patterns));
+  }
+
+  if (value && typeof value === "object") {
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      result[key] =
+        isSensitiveKey(key) && typeof item === "string"
+          ? "[REDACTED]"
+          : redactFrame(item, patterns);
+    }
+    return result;
+  }
+
+  return redactValue(value, patterns);
+}
+
+/**
+ * Records every frame of one proxied WebSocket session to R2 as JSONL.
+ *
+ * Frames are buffered in memory and written as numbered part objects
+ * (<scope>audit/frames/<user>/<id>/00001.jsonl, ...) so long-lived sessions
+ * don't hold everything until close. Session metadata is written to
+ * <scope>audit/sessions/<user>/<id>.json when the session opens and again on
+ * close. The scope keeps each gateway's recordings apart (see auditScope).
+ */
+export class SessionRecorder {
+  private readonly patterns: RegExp[];
+  private readonly session: RecordedSession;
+  private readonly scope: string;
+  private buffer: string[] = [];
+  private bufferBytes = 0;
+  private writes: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly bucket: R2Bucket,
+    env: OpenClawEnv,
+    options: { id: string; scope: string; user?: AccessUser; host: string; path: string },
+  ) {
+    this.patterns = buildRedactionPatterns(env);
+    this.scope = options.scope;
+    this.session = {
+      id: options.id,
+      user: options.user?.email || "anonymous",
+      userName: options.user?.name,
+      host: options.host,
+      path: options.path,
+      startedAt: new Date().toISOString(),
+      frames: 0,
+      parts: 0,
+    };
+  }
+
+  get id(): string {
+    return this.session.id;
+  }
+
+  /**
+   * Write the initial session metadata so open sessions show up in listings
+   */
+  start(): Promise<void> {
+    return this.enqueue(() => this.writeMeta());
+  }
+
+  /**
+   * Record a frame. Returns a promise when the buffer was flushed to R2,
+   * which callers should hand to waitUntil().
+   */
+  record(
+    dir: FrameDirection,
+    data: string | ArrayBuffer,
+    options: { dropped?: boolean } = {},
+  ): Promise<void> | undefined {
+    const entry: RecordedFrame = { ts: Date.now(), dir };
+
+    if (typeof data === "string") {
+      let frame: unknown = data;
+      try {
+        frame = JSON.parse(data);
+      } catch {
+        // Not JSON - record the raw (redacted) string
+      }
+      entry.frame = redactFrame(frame, this.patterns);
+    } else {
+      entry.binary = data.byteLength;
+    }
+    if (options.dropped) entry.dropped = true;
+
+    const line = JSON.stringify(entry);
+    this.buffer.push(line);
+    this.bufferBytes += line.length + 1;
+    this.session.frames++;
+
+    if (this.buffer.length >= FLUSH_FRAME_COUNT || this.bufferBytes >= FLUSH_BYTE_SIZE) {
+      return this.flush();
+    }
+    return undefined;
+  }
+
+  /**
+   * Write buffered frames as the next part object
+   */
+  flush(): Promise<void> {
+    if (this.buffer.length === 0) return this.writes.then(() => undefined);
+
+    const body = `${this.buffer.join("\n")}\n`;
+    this.buffer = [];
+    this.bufferBytes = 0;
+    const part = ++this.session.parts;
+
+    return this.enqueue(() =>
+      this.bucket.put(framesKey(this.scope, this.session.user, this.session.id, part), body, {
+        httpMetadata: { contentType: "application/x-ndjson" },
+      }),
+    );
+  }
+
+  /**
+   * Flush remaining frames and finalize the session metadata. Only the
+   * first call has an effect (both sides of the relay report the close).
+   */
+  close(code?: number, reason?: string): Promise<void> {
+    if (this.session.endedAt) return this.writes.then(() => undefined);
+
+    this.session.endedAt = new Date().toISOString();
+    this.session.closeCode = code;
+    this.session.closeReason = reason || undefined;
+    this.flush();
+    return this.enqueue(() => this.writeMeta());
+  }
+
+  private writeMeta(): Promise<unknown> {
+    const { id, user, startedAt, endedAt, frames, parts } = this.session;
+    return this.bucket.put(sessionKey(this.scope, user, id), JSON.stringify(this.session), {
+      httpMetadata: { contentType: "application/json" },
+      customMetadata: {
+        id,
+        user,
+        startedAt,
+        endedAt: endedAt || "",
+        frames: String(frames),
+        parts: String(parts),
+      },
+    });
+  }
+
+  // Serialize writes so parts land in order and metadata is written last
+  private enqueue(write: () => Promise<unknown>): Promise<void> {
+    this.writes = this.writes.then(write).catch((err) => {
+      console.error(`[AUDIT] Failed to write session ${this.session.id}:`, err);
+    });
+    return this.writes.then(() => undefined);
+  }
+}
@@ -0,0 +1,149 @@
+import { framesPrefix, sessionKey, sessionsPrefix } from "./keys";
+import type { RecordedFrame, RecordedSession } from "./recorder";
+
+/**
+ * Summary of a recorded session, built from R2 custom metadata so listing
+ * doesn't need to fetch every session object
+ */
+export interface RecordedSessionSummary {
+  id: string;
+  user: string;
+  startedAt: string;
+  endedAt: string | null;
+  frames: number;
+  size: number;
+}
+
+/**
+ * A frame positioned on the session timeline, for replay
+ */
+export interface ReplayFrame extends RecordedFrame {
+  /** Milliseconds since the session started */
+  offsetMs: number;
+}
+
+/**
+ * List a gateway's recorded sessions (see auditScope), newest first.
+ * Optionally filtered to one user.
+ */
+export async function listRecordedSessions(
+  bucket: R2Bucket,
+  scope: string,
+  options: { user?: string; limit?: number } = {},
+): Promise<RecordedSessionSummary[]> {
+  const prefix = sessionsPrefix(scope, options.user);
+  const sessions: RecordedSessionSummary[] = [];
+
+  let cursor: string | undefined;
+  do {
+    // `include` is supported at our compatibility date but missing from the default typings
+    const listed = await bucket.list({
+      prefix,
+      cursor,
+      include: ["customMetadata"],
+    } as R2ListOptions);
+    for (const obj of listed.objects) {
+      const meta = obj.customMetadata || {};
+      if (!meta.id || !meta.user) continue;
+      sessions.push({
+        id: meta.id,
+        user: meta.user,
+        startedAt: meta.startedAt,
+        endedAt: meta.endedAt || null,
+        frames: Number(meta.frames) || 0,
+        size: obj.size,
+      });
+    }
+    cursor = listed.truncated ? listed.cursor : undefined;
+  } while (cursor);
+
+  // Connection IDs start with an ISO timestamp, so this sorts by start time
+  sessions.sort((a, b) => b.id.localeCompare(a.id));
+  return options.limit ? sessions.slice(0, options.limit) : sessions;
+}
+
+/**
+ * Load a session's metadata, or null if it doesn't exist
+ */
+export async function getRecordedSession(
+  bucket: R2Bucket,
+  scope: string,
+  user: string,
+  id: string,
+): Promise<RecordedSession | null> {
+  const obj = await bucket.get(sessionKey(scope, user, id));
+  if (!obj) return null;
+  return obj.json<RecordedSession>();
+}
+
+/**
+ * Stream the session's JSONL parts, in order, as one body
+ */
+export async function streamRecordedFrames(
+  bucket: R2Bucket,
+  scope: string,
+  user: string,
+  id: string,
+): Promise<ReadableStream<Uint8Array>> {
+  const keys = await listFrameKeys(bucket, scope, user, id);
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const key = keys.shift();
+      if (!key) {
+        controller.close();
+        return;
+      }
+      const obj = await bucket.get(key);
+      if (obj) controller.enqueue(new Uint8Array(await obj.arrayBuffer()));
+    },
+  });
+}
+
+/**
+ * Load all frames of a session as a replay timeline, optionally filtered
+ * to one direction
+ */
+export async function loadReplay(
+  bucket: R2Bucket,
+  scope: string,
+  session: RecordedSession,
+  options: { direction?: string } = {},
+): Promise<ReplayFrame[]> {
+  const startedAt = Date.parse(session.startedAt);
+  const frames: ReplayFrame[] = [];
+
+  for (const key of await listFrameKeys(bucket, scope, session.user, session.id)) {
+    const obj = await bucket.get(key);
+    if (!obj) continue;
+    for (const line of (await obj.text()).split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        const frame = JSON.parse(line) as RecordedFrame;
+        if (options.direction && frame.dir !== options.direction) continue;
+        frames.push({ ...frame, offsetMs: frame.ts - startedAt });
+      } catch {
+        // Skip truncated lines
+      }
+    }
+  }
+
+  return frames;
+}
+
+async function listFrameKeys(
+  bucket: R2Bucket,
+  scope: string,
+  user: string,
+  id: string,
+): Promise<string[]> {
+  const keys: string[] = [];
+  let cursor: string | undefined;
+  do {
+    const listed = await bucket.list({ prefix: framesPrefix(scope, user, id), cursor });
+    keys.push(...listed.objects.map((obj) => obj.key));
+    cursor = listed.truncated ? listed.cursor : undefined;
+  } while (cursor);
+  // Part numbers are zero-padded, so lexical order is write order
+  return keys.sort();
+}
@@ -0,0 +1,265 @@
+import { Hono } from "hono";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createMockEnv, createMockStorage, suppressConsole } from "../test-utils";
+import type { AppEnv } from "../types";
+import { ApiKeyStore, createApiKeyMiddleware, parseApiKey, requiredScopeFor } from "./api-keys";
+import { requirePrincipalKind } from "./middleware";
+import { requireRole } from "./roles";
+
+describe("requiredScopeFor", () => {
+  it("maps programmatic routes to their scopes", () => {
+    expect(requiredScopeFor("POST", "/api/v1/agent")).toBe("agent");
+    expect(requiredScopeFor("GET", "/api/v1/sessions")).toBe("sessions");
+    expect(requiredScopeFor("POST", "/v1/chat/completions")).toBe("chat-completions");
+    expect(requiredScopeFor("GET", "/api/admin/devices")).toBe("admin-read");
+    expect(requiredScopeFor("GET", "/api/admin/audit/sessions")).toBe("audit-read");
+    expect(requiredScopeFor("GET", "/api/v1/health")).toBe("*");
+  });
+
+  it("rejects routes and methods outside the API key surface", () => {
+    expect(requiredScopeFor("POST", "/api/admin/gateway/restart")).toBeNull();
+    expect(requiredScopeFor("GET", "/api/v1/agent")).toBeNull();
+    expect(requiredScopeFor("GET", "/")).toBeNull();
+  });
+});
+
+describe("parseApiKey", () => {
+  it("parses well-formed keys", () => {
+    const secret = "a".repeat(43);
+    expect(parseApiKey(`tck_0123456789ab.${secret}`)).toEqual({ id: "0123456789ab", secret });
+  });
+
+  it("rejects malformed keys", () => {
+    expect(parseApiKey("tck_short.secret")).toBeNull();
+    expect(parseApiKey("Bearer something")).toBeNull();
+  });
+});
+
+describe("ApiKeyStore", () => {
+  it("mints keys that verify and stores only the hash", async () => {
+    const storage = createMockStorage();
+    const store = new ApiKeyStore(storage);
+
+    const { key, token } = await store.create({ name: "ci", scopes: ["agent", "agent"] });
+
+    expect(token).toMatch(/^tck_[a-f0-9]{12}\.[A-Za-z0-9_-]{43}$/);
+    expect(key.scopes).toEqual(["agent"]);
+    expect(key).not.toHaveProperty("hash");
+    expect(JSON.stringify([...storage.data.values()])).not.toContain(token.split(".")[1]);
+
+    const verified = await store.verify(token);
+    expect(verified?.id).toBe(key.id);
+    expect(verified?.lastUsedAt).not.toBeNull();
+  });
+
+  it("rejects tokens with the wrong secret", async () => {
+    const store = new ApiKeyStore(createMockStorage());
+    const { key } = await store.create({ name: "ci", scopes: ["agent"] });
+
+    expect(await store.verify(`tck_${key.id}.${"x".repeat(43)}`)).toBeNull();
+  });
+
+  it("rejects revoked keys", async () => {
+    const store = new ApiKeyStore(createMockStorage());
+    const { key, token } = await store.create({ name: "ci", scopes: ["agent"] });
+
+    const revoked = await store.revoke(key.id);
+
+    expect(revoked?.revokedAt).not.toBeNull();
+    expect(await store.verify(token)).toBeNull();
+    expect(await store.revoke("000000000000")).toBeNull();
+  });
+
+  it("rejects expired keys", async () => {
+    vi.useFakeTimers();
+    try {
+      const store = new ApiKeyStore(createMockStorage());
+      const { key, token } = await store.create({
+        name: "ci",
+        scopes: ["agent"],
+        expiresInDays: 1,
+      });
+      expect(key.expiresAt).not.toBeNull();
+
+      vi.advanceTimersByTime(24 * 60 * 60 * 1000 + 1);
+
+      expect(await store.verify(token)).toBeNull();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("only writes last-used once per minute", async () => {
+    const storage = createMockStorage();
+    const store = new ApiKeyStore(storage);
+    const { token } = await store.create({ name: "ci", scopes: ["agent"] });
+    vi.mocked(storage.put).mockClear();
+
+    await store.verify(token);
+    await store.verify(token);
+
+    expect(storage.put).toHaveBeenCalledTimes(1);
+  });
+
+  it("lists keys newest first", async () => {
+    vi.useFakeTimers();
+    try {
+      const store = new ApiKeyStore(createMockStorage());
+      await store.create({ name: "first", scopes: ["agent"] });
+      vi.advanceTimersByTime(1000);
+      await store.create({ name: "second", scopes: ["sessions"] });
+
+      expect((await store.list()).map((k) => k.name)).toEqual(["second", "first"]);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
+
+describe("createApiKeyMiddleware", () => {
+  let store: ApiKeyStore;
+
+  beforeEach(() => {
+    suppressConsole();
+    store = new ApiKeyStore(createMockStorage());
+  });
+
+  function createApp(pathPrefix = "") {
+    // Like the Worker, routes see paths without the gateway's path prefix
+    const app = new Hono<AppEnv>({
+      getPath: (request) => new URL(request.url).pathname.slice(pathPrefix.length) || "/",
+    });
+    app.use("*", async (c, next) => {
+      c.set("sandbox", { verifyApiKey: (token: string) => store.verify(token) } as any);
+      await next();
+    });
+    app.use("*", createApiKeyMiddleware());
+    app.all("*", (c) =>
+      c.json({ user: c.get("accessUser") ?? null, apiKey: c.get("apiKey")?.id ?? null }),
+    );
+    return app;
+  }
+
+  it("passes requests without an API key through untouched", async () => {
+    const res = await createApp().request("/api/v1/agent", { method: "POST" }, createMockEnv());
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ user: null, apiKey: null });
+  });
+
+  it("authenticates a key with the required scope", async () => {
+    const { key, token } = await store.create({ name: "ci", scopes: ["agent"] });
+
+    const res = await createApp().request(
+      "/api/v1/agent",
+      { method: "POST", headers: { Authorization: `Bearer ${token}` } },
+      createMockEnv(),
+    );
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({
+      user: { kind: "service", email: `apikey:${key.id}`, name: "ci", clientId: key.id },
+      apiKey: key.id,
+    });
+  });
+
+  it("accepts the X-API-Key header", async () => {
+    const { token } = await store.create({ name: "ci", scopes: ["sessions"] });
+
+    const res = await createApp().request(
+      "/api/v1/sessions",
+      { headers: { "X-API-Key": token } },
+      createMockEnv(),
+    );
+
+    expect(res.status).toBe(200);
+  });
+
+  it("returns 403 when the key lacks the scope", async () => {
+    const { token } = await store.create({ name: "ci", scopes: ["sessions"] });
+
+    const res = await createApp().request(
+      "/api/v1/agent",
+      { method: "POST", headers: { Authorization: `Bearer ${token}` } },
+      createMockEnv(),
+    );
+
+    expect(res.status).toBe(403);
+    expect(((await res.json()) as { hint: string }).hint).toBe(
+      'API key is missing the "agent" scope',
+    );
+  });
+
+  it("returns 403 for routes API keys cannot reach", async () => {
+    const { token } = await store.create({ name: "ci", scopes: ["admin-read"] });
+
+    const res = await createApp().request(
+      "/api/admin/gateway/restart",
+      { method: "POST", headers: { Authorization: `Bearer ${token}` } },
+      createMockEnv(),
+    );
+
+    expect(res.status).toBe(403);
+  });
+
+  it("keeps audit recordings from admin-read keys", async () => {
+    const { token } = await store.create({ name: "ci", scopes: ["admin-read"] });
+
+    const res = await createApp().request(
+      "/api/admin/audit/sessions",
+      { headers: { Authorization: `Bearer ${token}` } },
+      createMockEnv(),
+    );
+
+    expect(res.status).toBe(403);
+    expect(((await res.json()) as { hint: string }).hint).toBe(
+      'API key is missing the "audit-read" scope',
+    );
+  });
+
+  it("keeps admin-read keys from exporting bundles when no roles are configured", async () => {
+    const { token } = await store.create({ name: "ci", scopes: ["admin-read"] });
+    const app = new Hono<AppEnv>();
+    app.use("*", async (c, next) => {
+      c.set("sandbox", { verifyApiKey: (t: string) => store.verify(t) } as any);
+      await next();
+    });
+    app.use("*", createApiKeyMiddleware());
+    // As the admin API guards them
+    app.get("/api/admin/storage/export", requirePrincipalKind("human"), requireRole("owner"), (c) =>
+      c.json({ ok: true }),
+    );
+    app.get("/api/admin/storage/status", requireRole("owner"), (c) => c.json({ ok: true }));
+    const get = (path: string) =>
+      app.request(path, { headers: { Authorization: `Bearer ${token}` } }, createMockEnv());
+
+    expect((await get("/api/admin/storage/export")).status).toBe(403);
+    // Not owner just because no ROLE_* vars are set
+    expect((await get("/api/admin/storage/status")).status).toBe(403);
+  });
+
+  it("checks scopes against the path without the gateway's prefix", async () => {
+    const { token } = await store.create({ name: "ci", scopes: ["agent"] });
+
+    const res = await createApp("/company").request(
+      "/company/api/v1/agent",
+      { method: "POST", headers: { Authorization: `Bearer ${token}` } },
+      createMockEnv(),
+    );
+
+    expect(res.status).toBe(200);
+  });
+
+  it("returns 401 for unknown or revoked keys", async () => {
+    const { key, token } = await store.create({ name: "ci", scopes: ["agent"] });
+    await store.revoke(key.id);
+
+    const res = await createApp().request(
+      "/api/v1/agent",
+      { method: "POST", headers: { Authorization: `Bearer ${token}` } },
+      createMockEnv(),
+    );
+
+    expect(res.status).toBe(401);
+  });
+});
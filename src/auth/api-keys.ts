@@ -0,0 +1,242 @@
+import type { Context, Next } from "hono";
+import type { AppEnv, KeyValueStorage } from "../types";
+import { sha256Hex, timingSafeEqual, toHex } from "./crypto";
+
+/**
+ * Scopes an API key can be granted
+ * - agent: POST /api/v1/agent
+ * - sessions: GET /api/v1/sessions
+ * - chat-completions: POST /v1/chat/completions (proxied to the gateway)
+ * - admin-read: GET /api/admin/*, except audit recordings
+ * - audit-read: GET /api/admin/audit/* (recorded sessions, which can hold
+ *   whatever was said to the assistant)
+ */
+export const API_KEY_SCOPES = [
+  "agent",
+  "sessions",
+  "chat-completions",
+  "admin-read",
+  "audit-read",
+] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+/** Prefix that identifies our API keys in Authorization headers */
+export const API_KEY_PREFIX = "tck_";
+
+const STORAGE_PREFIX = "apikey:";
+
+// Avoid a storage write on every request; last-used is only tracked to the minute
+const LAST_USED_RESOLUTION_MS = 60_000;
+
+/**
+ * Stored API key record. Only the SHA-256 hash of the secret is kept.
+ */
+interface ApiKeyRecord {
+  id: string;
+  name: string;
+  scopes: ApiKeyScope[];
+  hash: string;
+  createdAt: string;
+  createdBy?: string;
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+}
+
+/**
+ * API key metadata returned to callers (never includes the hash)
+ */
+export type ApiKeyInfo = Omit<ApiKeyRecord, "hash">;
+
+export interface CreateApiKeyInput {
+  name: string;
+  scopes: ApiKeyScope[];
+  /** Days until the key expires; omit for a key that never expires */
+  expiresInDays?: number;
+  createdBy?: string;
+}
+
+/**
+ * Routes reachable with an API key, and the scope each requires.
+ * "*" means any valid key is enough.
+ */
+const API_KEY_ROUTES: Array<{ methods: string[]; path: RegExp; scope: ApiKeyScope | "*" }> = [
+  { methods: ["POST"], path: /^\/api\/v1\/agent$/, scope: "agent" },
+  { methods: ["GET"], path: /^\/api\/v1\/sessions$/, scope: "sessions" },
+  { methods: ["GET"], path: /^\/api\/v1\/health$/, scope: "*" },
+  { methods: ["POST"], path: /^\/v1\/chat\/completions$/, scope: "chat-completions" },
+  { methods: ["GET", "HEAD"], path: /^\/api\/admin\/audit\//, scope: "audit-read" },
+  { methods: ["GET", "HEAD"], path: /^\/api\/admin\//, scope: "admin-read" },
+];
+
+/**
+ * Check if a value is a known scope
+ */
+export function isApiKeyScope(value: unknown): value is ApiKeyScope {
+  return API_KEY_SCOPES.includes(value as ApiKeyScope);
+}
+
+/**
+ * Find the scope an API key needs for a request, or null if the route
+ * can't be accessed with an API key at all
+ */
+export function requiredScopeFor(method: string, pathname: string): ApiKeyScope | "*" | null {
+  const route = API_KEY_ROUTES.find(
+    (r) => r.methods.includes(method.toUpperCase()) && r.path.test(pathname),
+  );
+  return route ? route.scope : null;
+}
+
+/**
+ * Split a `tck_<id>.<secret>` key into its parts
+ */
+export function parseApiKey(token: string): { id: string; secret: string } | null {
+  const match = token.match(/^tck_([a-f0-9]{12})\.([A-Za-z0-9_-]{32,})$/);
+  return match ? { id: match[1], secret: match[2] } : null;
+}
+
+/**
+ * Extract an API key from the request (Authorization: Bearer or X-API-Key)
+ */
+export function extractApiKey(c: Context<AppEnv>): string | null {
+  const header =
+    c.req.header("X-API-Key") || c.req.header("Authorization")?.replace(/^Bearer\s+/i, "");
+  return header?.startsWith(API_KEY_PREFIX) ? header : null;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function toInfo(record: ApiKeyRecord): ApiKeyInfo {
+  const { hash: _hash, ...info } = record;
+  return info;
+}
+
+/**
+ * API keys stored in the Sandbox Durable Object's storage
+ */
+export class ApiKeyStore {
+  constructor(private readonly storage: KeyValueStorage) {}
+
+  /**
+   * Mint a new key. The plaintext token is only returned here.
+   */
+  async create(input: CreateApiKeyInput): Promise<{ key: ApiKeyInfo; token: string }> {
+    const id = toHex(crypto.getRandomValues(new Uint8Array(6)));
+    const token = `${API_KEY_PREFIX}${id}.${toBase64Url(crypto.getRandomValues(new Uint8Array(32)))}`;
+    const now = Date.now();
+
+    const record: ApiKeyRecord = {
+      id,
+      name: input.name,
+      scopes: [...new Set(input.scopes)],
+      hash: await sha256Hex(token),
+      createdAt: new Date(now).toISOString(),
+      createdBy: input.createdBy,
+      expiresAt: input.expiresInDays
+        ? new Date(now + input.expiresInDays * 24 * 60 * 60 * 1000).toISOString()
+        : null,
+      lastUsedAt: null,
+      revokedAt: null,
+    };
+    await this.storage.put(STORAGE_PREFIX + id, record);
+
+    return { key: toInfo(record), token };
+  }
+
+  /**
+   * List all keys, newest first
+   */
+  async list(): Promise<ApiKeyInfo[]> {
+    const records = await this.storage.list<ApiKeyRecord>({ prefix: STORAGE_PREFIX });
+    return [...records.values()].map(toInfo).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  /**
+   * Revoke a key. Returns the updated key, or null if it doesn't exist.
+   */
+  async revoke(id: string): Promise<ApiKeyInfo | null> {
+    const record = await this.storage.get<ApiKeyRecord>(STORAGE_PREFIX + id);
+    if (!record) return null;
+    if (!record.revokedAt) {
+      record.revokedAt = new Date().toISOString();
+      await this.storage.put(STORAGE_PREFIX + id, record);
+    }
+    return toInfo(record);
+  }
+
+  /**
+   * Verify a presented token. Returns the key if it is valid, unexpired and
+   * not revoked, and records when it was last used.
+   */
+  async verify(token: string): Promise<ApiKeyInfo | null> {
+    const parsed = parseApiKey(token);
+    if (!parsed) return null;
+
+    const record = await this.storage.get<ApiKeyRecord>(STORAGE_PREFIX + parsed.id);
+    if (!record || record.revokedAt) return null;
+    if (!timingSafeEqual(record.hash, await sha256Hex(token))) return null;
+
+    const now = Date.now();
+    if (record.expiresAt && Date.parse(record.expiresAt) <= now) return null;
+
+    if (!record.lastUsedAt || now - Date.parse(record.lastUsedAt) >= LAST_USED_RESOLUTION_MS) {
+      record.lastUsedAt = new Date(now).toISOString();
+      await this.storage.put(STORAGE_PREFIX + parsed.id, record);
+    }
+
+    return toInfo(record);
+  }
+}
+
+/**
+ * Authenticate requests that present an API key instead of a Cloudflare
+ * Access JWT. Requests without an API key pass through untouched so the
+ * Access middleware can handle them.
+ */
+export function createApiKeyMiddleware() {
+  return async (c: Context<AppEnv>, next: Next) => {
+    const token = extractApiKey(c);
+    if (!token) {
+      return next();
+    }
+
+    // c.req.path is without the path prefix of the gateway the request was routed to
+    const scope = requiredScopeFor(c.req.method, c.req.path);
+    if (!scope) {
+      return c.json(
+        { error: "Forbidden", hint: "This route cannot be accessed with an API key" },
+        403,
+      );
+    }
+
+    let key: ApiKeyInfo | null;
+    try {
+      key = await c.get("sandbox").verifyApiKey(token);
+    } catch (err) {
+      console.error("[AUTH] API key verification failed:", err);
+      return c.json({ error: "API key verification failed" }, 500);
+    }
+
+    if (!key) {
+      return c.json({ error: "Unauthorized", hint: "Invalid, expired or revoked API key" }, 401);
+    }
+
+    if (scope !== "*" && !key.scopes.includes(scope)) {
+      return c.json({ error: "Forbidden", hint: `API key is missing the "${scope}" scope` }, 403);
+    }
+
+    c.set("apiKey", key);
+    c.set("accessUser", {
+      kind: "service",
+      email: `apikey:${key.id}`,
+      name: key.name,
+      clientId: key.id,
+    });
+    return next();
+  };
+}
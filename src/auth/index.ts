@@ -1,2 +1,32 @@
-export { verifyAccessJWT } from "./jwt";
-export { createAccessMiddleware, extractJWT, isDevMode } from "./middleware";
+export {
+  API_KEY_SCOPES,
+  type ApiKeyInfo,
+  type ApiKeyScope,
+  ApiKeyStore,
+  type CreateApiKeyInput,
+  createApiKeyMiddleware,
+  isApiKeyScope,
+} from "./api-keys";
+export { getRemoteJWKS, verifyAccessJWT } from "./jwt";
+export {
+  accessUserFromPayload,
+  createAccessMiddleware,
+  extractJWT,
+  isDevMode,
+  requirePrincipalKind,
+} from "./middleware";
+export {
+  AUTH_PROVIDER_NAMES,
+  type AuthProvider,
+  type AuthProviderName,
+  createAuthProvider,
+} from "./providers";
+export {
+  areRolesConfigured,
+  isAllowedOnGateway,
+  ROLES,
+  type Role,
+  requireRole,
+  resolveRole,
+  roleAtLeast,
+} from "./roles";
@@ -1,5 +1,4 @@
 import { beforeEach, describe, expect, it, vi } from "vitest";
-import { verifyAccessJWT } from "./jwt";
 
 // Mock the jose module
 vi.mock("jose", () => ({
@@ -8,8 +7,13 @@ vi.mock("jose", () => ({
 }));
 
 describe("verifyAccessJWT", () => {
-  beforeEach(() => {
+  // Re-import per test so the module-level JWKS cache starts empty
+  let verifyAccessJWT: typeof import("./jwt").verifyAccessJWT;
+
+  beforeEach(async () => {
+    vi.resetModules();
     vi.clearAllMocks();
+    ({ verifyAccessJWT } = await import("./jwt"));
   });
 
   it("calls jwtVerify with correct parameters", async () => {
@@ -144,4 +148,57 @@ describe("verifyAccessJWT", () => {
     expect(result.email).toBe("user@company.com");
     expect(result.name).toBe("Test User");
   });
+
+  it("accepts service-token payloads without an email", async () => {
+    const { jwtVerify } = await import("jose");
+    const mockPayload = {
+      common_name: "abc123.access",
+      aud: ["app-aud-123"],
+      iss: "https://company.cloudflareaccess.com",
+      exp: Math.floor(Date.now() / 1000) + 3600,
+      iat: Math.floor(Date.now() / 1000),
+      sub: "",
+      type: "app",
+    };
+
+    vi.mocked(jwtVerify).mockResolvedValue({
+      payload: mockPayload,
+      protectedHeader: { alg: "RS256" },
+    } as never);
+
+    const result = await verifyAccessJWT(
+      "service.jwt.token",
+      "company.cloudflareaccess.com",
+      "app-aud-123",
+    );
+
+    expect(result.common_name).toBe("abc123.access");
+    expect(result.email).toBeUndefined();
+  });
+
+  it("rejects payloads with neither an email nor a common_name", async () => {
+    const { jwtVerify } = await import("jose");
+
+    vi.mocked(jwtVerify).mockResolvedValue({
+      payload: { aud: ["app-aud-123"], sub: "", type: "app" },
+      protectedHeader: { alg: "RS256" },
+    } as never);
+
+    await expect(
+      verifyAccessJWT("anon.jwt.token", "company.cloudflareaccess.com", "app-aud-123"),
+    ).rejects.toThrow("JWT has neither an email nor a service token common_name");
+  });
+
+  it("reuses the team's JWKS across verifications", async () => {
+    const { jwtVerify, createRemoteJWKSet } = await import("jose");
+    vi.mocked(jwtVerify).mockResolvedValue({
+      payload: { email: "test@example.com" },
+      protectedHeader: { alg: "RS256" },
+    } as never);
+
+    await verifyAccessJWT("one.jwt.token", "myteam.cloudflareaccess.com", "test-aud");
+    await verifyAccessJWT("two.jwt.token", "myteam.cloudflareaccess.com", "test-aud");
+
+    expect(createRemoteJWKSet).toHaveBeenCalledTimes(1);
+  });
 });
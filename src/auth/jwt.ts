@@ -1,6 +1,25 @@
-import { createRemoteJWKSet, jwtVerify } from "jose";
+import { createRemoteJWKSet, type JWTVerifyGetKey, jwtVerify } from "jose";
 import type { JWTPayload } from "../types";
 
+/**
+ * Remote key sets by JWKS URL. jose caches the fetched keys inside each key set
+ * (and refetches on unknown `kid`), so reusing them across requests in the same
+ * isolate avoids fetching the JWKS on every request.
+ */
+const jwksCache = new Map<string, JWTVerifyGetKey>();
+
+/**
+ * Get a cached remote JWKS for a URL
+ */
+export function getRemoteJWKS(url: string): JWTVerifyGetKey {
+  let jwks = jwksCache.get(url);
+  if (!jwks) {
+    jwks = createRemoteJWKSet(new URL(url));
+    jwksCache.set(url, jwks);
+  }
+  return jwks;
+}
+
 /**
  * Verify a Cloudflare Access JWT token using the jose library.
  *
@@ -21,8 +40,8 @@ export async function verifyAccessJWT(
   // Ensure teamDomain has https:// prefix for issuer check
   const issuer = teamDomain.startsWith("https://") ? teamDomain : `https://${teamDomain}`;
 
-  // Create JWKS from the team domain
-  const JWKS = createRemoteJWKSet(new URL(`${issuer}/cdn-cgi/access/certs`));
+  // Reuse the team's JWKS across requests
+  const JWKS = getRemoteJWKS(`${issuer}/cdn-cgi/access/certs`);
 
   // Verify the JWT using jose
   const { payload } = await jwtVerify(token, JWKS, {
@@ -30,6 +49,11 @@ export async function verifyAccessJWT(
     audience: expectedAud,
   });
 
+  // Every Access JWT identifies either a user (email) or a service token (common_name)
+  if (!payload.email && !payload.common_name) {
+    throw new Error("JWT has neither an email nor a service token common_name");
+  }
+
   // Cast to our JWTPayload type
   return payload as unknown as JWTPayload;
 }
@@ -2,7 +2,13 @@ import type { Context } from "hono";
 import { beforeEach, describe, expect, it, vi } from "vitest";
 import { createMockEnv } from "../test-utils";
 import type { AppEnv, OpenClawEnv } from "../types";
-import { extractJWT, isDevMode, isE2ETestMode } from "./middleware";
+import {
+  accessUserFromPayload,
+  extractJWT,
+  isDevMode,
+  isE2ETestMode,
+  requirePrincipalKind,
+} from "./middleware";
 
 describe("isDevMode", () => {
   it('returns true when DEV_MODE is "true"', () => {
@@ -121,6 +127,90 @@ describe("extractJWT", () => {
   });
 });
 
+describe("accessUserFromPayload", () => {
+  const base = {
+    aud: ["aud"],
+    exp: 0,
+    iat: 0,
+    iss: "https://team.cloudflareaccess.com",
+    type: "app",
+  };
+
+  it("maps user JWTs to human principals", () => {
+    expect(
+      accessUserFromPayload({ ...base, sub: "u1", email: "alice@example.com", name: "Alice" }),
+    ).toEqual({ kind: "human", email: "alice@example.com", name: "Alice" });
+  });
+
+  it("reads group claims from groups or a custom OIDC claim", () => {
+    expect(
+      accessUserFromPayload({ ...base, sub: "u1", email: "a@example.com", groups: ["admins"] })
+        .groups,
+    ).toEqual(["admins"]);
+    expect(
+      accessUserFromPayload({
+        ...base,
+        sub: "u1",
+        email: "a@example.com",
+        custom: { groups: "oncall" },
+      }).groups,
+    ).toEqual(["oncall"]);
+  });
+
+  it("maps service-token JWTs to service principals with the client ID", () => {
+    expect(accessUserFromPayload({ ...base, sub: "", common_name: "abc123.access" })).toEqual({
+      kind: "service",
+      email: "service:abc123.access",
+      name: "abc123.access",
+      clientId: "abc123.access",
+    });
+  });
+});
+
+describe("requirePrincipalKind", () => {
+  function createContext(accessUser?: AppEnv["Variables"]["accessUser"]) {
+    const jsonMock = vi.fn().mockReturnValue(new Response());
+    const c = {
+      get: (key: string) => (key === "accessUser" ? accessUser : undefined),
+      json: jsonMock,
+    } as unknown as Context<AppEnv>;
+    return { c, jsonMock };
+  }
+
+  it("allows matching principals", async () => {
+    const { c } = createContext({ kind: "human", email: "alice@example.com" });
+    const next = vi.fn();
+
+    await requirePrincipalKind("human")(c, next);
+
+    expect(next).toHaveBeenCalled();
+  });
+
+  it("rejects service principals on human-only routes", async () => {
+    const { c, jsonMock } = createContext({
+      kind: "service",
+      email: "service:abc123.access",
+      clientId: "abc123.access",
+    });
+    const next = vi.fn();
+
+    await requirePrincipalKind("human")(c, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(jsonMock).toHaveBeenCalledWith(expect.objectContaining({ error: "Forbidden" }), 403);
+  });
+
+  it("rejects unauthenticated requests", async () => {
+    const { c, jsonMock } = createContext();
+    const next = vi.fn();
+
+    await requirePrincipalKind("service")(c, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(jsonMock).toHaveBeenCalledWith({ error: "Unauthorized" }, 401);
+  });
+});
+
 describe("createAccessMiddleware", () => {
   // Import the function dynamically to allow mocking
   let createAccessMiddleware: typeof import("./middleware").createAccessMiddleware;
@@ -136,6 +226,8 @@ describe("createAccessMiddleware", () => {
     env?: Partial<OpenClawEnv>;
     jwtHeader?: string;
     cookies?: string;
+    headers?: Record<string, string>;
+    variables?: Record<string, unknown>;
   }): {
     c: Context<AppEnv>;
     jsonMock: ReturnType<typeof vi.fn>;
@@ -143,7 +235,7 @@ describe("createAccessMiddleware", () => {
     redirectMock: ReturnType<typeof vi.fn>;
     setMock: ReturnType<typeof vi.fn>;
   } {
-    const headers = new Headers();
+    const headers = new Headers(options.headers);
     if (options.jwtHeader) {
       headers.set("CF-Access-JWT-Assertion", options.jwtHeader);
     }
@@ -166,11 +258,27 @@ describe("createAccessMiddleware", () => {
       html: htmlMock,
       redirect: redirectMock,
       set: setMock,
+      get: (key: string) => options.variables?.[key],
     } as unknown as Context<AppEnv>;
 
     return { c, jsonMock, htmlMock, redirectMock, setMock };
   }
 
+  it("skips auth when an earlier middleware already authenticated the request", async () => {
+    const { c, jsonMock, setMock } = createFullMockContext({
+      env: {},
+      variables: { accessUser: { kind: "service", email: "apikey:abc", name: "CI" } },
+    });
+    const middleware = createAccessMiddleware({ type: "json" });
+    const next = vi.fn();
+
+    await middleware(c, next);
+
+    expect(next).toHaveBeenCalled();
+    expect(jsonMock).not.toHaveBeenCalled();
+    expect(setMock).not.toHaveBeenCalled();
+  });
+
   it("skips auth and sets dev user when DEV_MODE is true", async () => {
     const { c, setMock } = createFullMockContext({ env: { DEV_MODE: "true" } });
     const middleware = createAccessMiddleware({ type: "json" });
@@ -180,6 +288,7 @@ describe("createAccessMiddleware", () => {
 
     expect(next).toHaveBeenCalled();
     expect(setMock).toHaveBeenCalledWith("accessUser", {
+      kind: "human",
       email: "dev@localhost",
       name: "Dev User",
     });
@@ -194,6 +303,7 @@ describe("createAccessMiddleware", () => {
 
     expect(next).toHaveBeenCalled();
     expect(setMock).toHaveBeenCalledWith("accessUser", {
+      kind: "human",
       email: "dev@localhost",
       name: "Dev User",
     });
@@ -262,4 +372,51 @@ describe("createAccessMiddleware", () => {
     expect(next).not.toHaveBeenCalled();
     expect(redirectMock).toHaveBeenCalledWith("https://team.cloudflareaccess.com", 302);
   });
+
+  it("returns 500 when AUTH_PROVIDER names an unknown provider", async () => {
+    const { c, jsonMock } = createFullMockContext({ env: { AUTH_PROVIDER: "saml" } });
+    const middleware = createAccessMiddleware({ type: "json" });
+    const next = vi.fn();
+
+    await middleware(c, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(jsonMock).toHaveBeenCalledWith(
+      expect.objectContaining({ error: "Authentication not configured" }),
+      500,
+    );
+  });
+
+  it("authenticates with the provider selected by AUTH_PROVIDER", async () => {
+    const { c, setMock } = createFullMockContext({
+      env: { AUTH_PROVIDER: "bearer", AUTH_BEARER_TOKENS: "ci=ci-token" },
+      headers: { Authorization: "Bearer ci-token" },
+    });
+    const middleware = createAccessMiddleware({ type: "json" });
+    const next = vi.fn();
+
+    await middleware(c, next);
+
+    expect(next).toHaveBeenCalled();
+    expect(setMock).toHaveBeenCalledWith(
+      "accessUser",
+      expect.objectContaining({ kind: "service", email: "bearer:ci" }),
+    );
+    expect(setMock).toHaveBeenCalledWith("authorizationConsumed", true);
+  });
+
+  it("names the selected provider's env vars when it is not configured", async () => {
+    const { c, jsonMock } = createFullMockContext({ env: { AUTH_PROVIDER: "oidc" } });
+    const middleware = createAccessMiddleware({ type: "json" });
+
+    await middleware(c, vi.fn());
+
+    expect(jsonMock).toHaveBeenCalledWith(
+      {
+        error: "OIDC not configured",
+        hint: "Set OIDC_ISSUER, OIDC_AUDIENCE and OIDC_JWKS_URL environment variables",
+      },
+      500,
+    );
+  });
 });
@@ -1,6 +1,8 @@
 import type { Context, Next } from "hono";
-import type { AppEnv, OpenClawEnv } from "../types";
-import { verifyAccessJWT } from "./jwt";
+import type { AppEnv, OpenClawEnv, PrincipalKind } from "../types";
+import { type AuthProvider, createAuthProvider } from "./providers";
+
+export { accessUserFromPayload, extractJWT } from "./providers";
 
 /**
  * Options for creating an access middleware
@@ -27,21 +29,34 @@ export function isE2ETestMode(env: OpenClawEnv): boolean {
 }
 
 /**
- * Extract JWT from request headers or cookies
+ * Restrict a route to one kind of principal, e.g. keep service tokens and
+ * API keys away from routes that change credentials. Runs after authentication.
  */
-export function extractJWT(c: Context<AppEnv>): string | null {
-  const jwtHeader = c.req.header("CF-Access-JWT-Assertion");
-  const jwtCookie = c.req.raw.headers
-    .get("Cookie")
-    ?.split(";")
-    .find((cookie) => cookie.trim().startsWith("CF_Authorization="))
-    ?.split("=")[1];
-
-  return jwtHeader || jwtCookie || null;
+export function requirePrincipalKind(kind: PrincipalKind) {
+  return async (c: Context<AppEnv>, next: Next) => {
+    const user = c.get("accessUser");
+    if (!user) {
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+    if (user.kind !== kind) {
+      return c.json(
+        {
+          error: "Forbidden",
+          hint:
+            kind === "human"
+              ? "This route requires a user login; service tokens and API keys are not allowed"
+              : "This route is only available to service tokens and API keys",
+        },
+        403,
+      );
+    }
+    return next();
+  };
 }
 
 /**
- * Create a Cloudflare Access authentication middleware
+ * Create an authentication middleware using the provider selected by
+ * AUTH_PROVIDER (Cloudflare Access by default)
  *
  * @param options - Middleware options
  * @returns Hono middleware function
@@ -50,22 +65,46 @@ export function createAccessMiddleware(options: AccessMiddlewareOptions) {
   const { type, redirectOnMissing = false } = options;
 
   return async (c: Context<AppEnv>, next: Next) => {
+    // Already authenticated by an earlier middleware (e.g. an API key)
+    if (c.get("accessUser")) {
+      return next();
+    }
+
     // Skip auth in dev mode or E2E test mode
     if (isDevMode(c.env) || isE2ETestMode(c.env)) {
-      c.set("accessUser", { email: "dev@localhost", name: "Dev User" });
+      c.set("accessUser", { kind: "human", email: "dev@localhost", name: "Dev User" });
       return next();
     }
 
-    const teamDomain = c.env.CF_ACCESS_TEAM_DOMAIN;
-    const expectedAud = c.env.CF_ACCESS_AUD;
+    let provider: AuthProvider;
+    try {
+      provider = createAuthProvider(c.env);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Invalid AUTH_PROVIDER";
+      if (type === "json") {
+        return c.json({ error: "Authentication not configured", hint: message }, 500);
+      }
+      return c.html(
+        `
+          <html>
+            <body>
+              <h1>Admin UI Not Configured</h1>
+              <p>${message}</p>
+            </body>
+          </html>
+        `,
+        500,
+      );
+    }
 
-    // Check if CF Access is configured
-    if (!teamDomain || !expectedAud) {
+    // Check if the provider is configured
+    if (!provider.configured) {
+      const envList = provider.requiredEnv.join(", ").replace(/, ([^,]+)$/, " and $1");
       if (type === "json") {
         return c.json(
           {
-            error: "Cloudflare Access not configured",
-            hint: "Set CF_ACCESS_TEAM_DOMAIN and CF_ACCESS_AUD environment variables",
+            error: `${provider.label} not configured`,
+            hint: `Set ${envList} environment variables`,
           },
           500,
         );
@@ -75,7 +114,7 @@ export function createAccessMiddleware(options: AccessMiddlewareOptions) {
           <html>
             <body>
               <h1>Admin UI Not Configured</h1>
-              <p>Set CF_ACCESS_TEAM_DOMAIN and CF_ACCESS_AUD environment variables.</p>
+              <p>Set ${envList} environment variables.</p>
             </body>
           </html>
         `,
@@ -84,30 +123,31 @@ export function createAccessMiddleware(options: AccessMiddlewareOptions) {
       }
     }
 
-    // Get JWT
-    const jwt = extractJWT(c);
+    // Get credential
+    const credential = provider.extractCredential(c);
 
-    if (!jwt) {
-      if (type === "html" && redirectOnMissing) {
-        return c.redirect(`https://${teamDomain}`, 302);
+    if (!credential) {
+      if (type === "html" && redirectOnMissing && provider.loginUrl) {
+        return c.redirect(provider.loginUrl, 302);
       }
 
       if (type === "json") {
         return c.json(
           {
             error: "Unauthorized",
-            hint: "Missing Cloudflare Access JWT. Ensure this route is protected by Cloudflare Access.",
+            hint: provider.missingCredentialHint,
           },
           401,
         );
       } else {
+        const login = provider.loginUrl ? `<a href="${provider.loginUrl}">Login</a>` : "";
         return c.html(
           `
           <html>
             <body>
               <h1>Unauthorized</h1>
-              <p>Missing Cloudflare Access token.</p>
-              <a href="https://${teamDomain}">Login</a>
+              <p>Missing ${provider.label} credentials.</p>
+              ${login}
             </body>
           </html>
         `,
@@ -116,30 +156,34 @@ export function createAccessMiddleware(options: AccessMiddlewareOptions) {
       }
     }
 
-    // Verify JWT
+    // Verify credential
     try {
-      const payload = await verifyAccessJWT(jwt, teamDomain, expectedAud);
-      c.set("accessUser", { email: payload.email, name: payload.name });
+      const user = await provider.verify(credential.token);
+      c.set("accessUser", user);
+      if (credential.fromAuthorizationHeader) {
+        c.set("authorizationConsumed", true);
+      }
       await next();
     } catch (err) {
-      console.error("Access JWT verification failed:", err);
+      console.error(`${provider.label} verification failed:`, err);
 
       if (type === "json") {
         return c.json(
           {
             error: "Unauthorized",
-            details: err instanceof Error ? err.message : "JWT verification failed",
+            details: err instanceof Error ? err.message : "Credential verification failed",
           },
           401,
         );
       } else {
+        const login = provider.loginUrl ? `<a href="${provider.loginUrl}">Login again</a>` : "";
         return c.html(
           `
           <html>
             <body>
               <h1>Unauthorized</h1>
-              <p>Your Cloudflare Access session is invalid or expired.</p>
-              <a href="https://${teamDomain}">Login again</a>
+              <p>Your ${provider.label} session is invalid or expired.</p>
+              ${login}
             </body>
           </html>
         `,
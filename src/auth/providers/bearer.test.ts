@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { createMockEnv } from "../../test-utils";
+import { createBearerProvider, parseBearerTokens } from "./bearer";
+
+describe("parseBearerTokens", () => {
+  it("parses identity=token pairs and skips malformed entries", () => {
+    expect(parseBearerTokens(" alice@example.com=abc , ci=x=y, broken, =nope")).toEqual([
+      { identity: "alice@example.com", token: "abc" },
+      { identity: "ci", token: "x=y" },
+    ]);
+  });
+});
+
+describe("createBearerProvider", () => {
+  const provider = createBearerProvider(
+    createMockEnv({ AUTH_BEARER_TOKENS: "alice@example.com=s3cret,ci=ci-token" }),
+  );
+
+  it("is not configured without tokens", () => {
+    expect(createBearerProvider(createMockEnv()).configured).toBe(false);
+    expect(provider.configured).toBe(true);
+  });
+
+  it("maps email identities to humans and others to services", async () => {
+    expect(await provider.verify("s3cret")).toEqual({ kind: "human", email: "alice@example.com" });
+    expect(await provider.verify("ci-token")).toEqual({
+      kind: "service",
+      email: "bearer:ci",
+      name: "ci",
+      clientId: "ci",
+    });
+  });
+
+  it("rejects unknown tokens", async () => {
+    await expect(provider.verify("wrong")).rejects.toThrow("Unknown bearer token");
+  });
+});
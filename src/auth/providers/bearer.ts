@@ -0,0 +1,72 @@
+import type { AccessUser, OpenClawEnv } from "../../types";
+import { sha256Hex, timingSafeEqual } from "../crypto";
+import { type AuthProvider, extractBearerToken } from "./types";
+
+interface BearerTokenEntry {
+  identity: string;
+  token: string;
+}
+
+/**
+ * Parse AUTH_BEARER_TOKENS: comma-separated `identity=token` pairs.
+ * Entries without an identity or token are ignored.
+ */
+export function parseBearerTokens(value: string | undefined): BearerTokenEntry[] {
+  if (!value) return [];
+  return value
+    .split(",")
+    .map((entry) => {
+      const separator = entry.indexOf("=");
+      if (separator === -1) return null;
+      return {
+        identity: entry.slice(0, separator).trim(),
+        token: entry.slice(separator + 1).trim(),
+      };
+    })
+    .filter((entry): entry is BearerTokenEntry => Boolean(entry?.identity && entry.token));
+}
+
+/**
+ * Principal for a static token. Identities that look like emails are people;
+ * anything else names a service.
+ */
+function accessUserForIdentity(identity: string): AccessUser {
+  if (identity.includes("@")) {
+    return { kind: "human", email: identity };
+  }
+  return { kind: "service", email: `bearer:${identity}`, name: identity, clientId: identity };
+}
+
+/**
+ * Static bearer tokens from AUTH_BEARER_TOKENS, sent as `Authorization: Bearer <token>`.
+ * Meant for small deployments and scripts; there is no login flow for browsers.
+ */
+export function createBearerProvider(env: OpenClawEnv): AuthProvider {
+  const entries = parseBearerTokens(env.AUTH_BEARER_TOKENS);
+
+  return {
+    name: "bearer",
+    label: "Bearer token auth",
+    requiredEnv: ["AUTH_BEARER_TOKENS"],
+    configured: entries.length > 0,
+    missingCredentialHint: "Missing bearer token. Send it as Authorization: Bearer <token>.",
+    extractCredential(c) {
+      const token = extractBearerToken(c);
+      return token ? { token, fromAuthorizationHeader: true } : null;
+    },
+    async verify(token) {
+      const hash = await sha256Hex(token);
+      let match: BearerTokenEntry | null = null;
+      // Check every entry so the time taken doesn't reveal which one matched
+      for (const entry of entries) {
+        if (timingSafeEqual(await sha256Hex(entry.token), hash) && !match) {
+          match = entry;
+        }
+      }
+      if (!match) {
+        throw new Error("Unknown bearer token");
+      }
+      return accessUserForIdentity(match.identity);
+    },
+  };
+}
@@ -0,0 +1,68 @@
+import type { Context } from "hono";
+import type { AccessUser, AppEnv, JWTPayload, OpenClawEnv } from "../../types";
+import { verifyAccessJWT } from "../jwt";
+import type { AuthProvider } from "./types";
+
+/**
+ * Extract JWT from request headers or cookies
+ */
+export function extractJWT(c: Context<AppEnv>): string | null {
+  const jwtHeader = c.req.header("CF-Access-JWT-Assertion");
+  const jwtCookie = c.req.raw.headers
+    .get("Cookie")
+    ?.split(";")
+    .find((cookie) => cookie.trim().startsWith("CF_Authorization="))
+    ?.split("=")[1];
+
+  return jwtHeader || jwtCookie || null;
+}
+
+/**
+ * Build the principal for a verified Access JWT. Service-token JWTs carry
+ * the token's client ID in `common_name` and have no email. Group claims are
+ * read from `groups` or from a custom OIDC claim of the same name.
+ */
+export function accessUserFromPayload(payload: JWTPayload): AccessUser {
+  if (!payload.email && payload.common_name) {
+    return {
+      kind: "service",
+      email: `service:${payload.common_name}`,
+      name: payload.name || payload.common_name,
+      clientId: payload.common_name,
+    };
+  }
+  const groups = payload.groups ?? payload.custom?.groups;
+  return {
+    kind: "human",
+    email: payload.email as string,
+    name: payload.name,
+    ...(groups ? { groups: Array.isArray(groups) ? groups : [groups] } : {}),
+  };
+}
+
+/**
+ * Cloudflare Access: verifies the Access JWT from the CF-Access-JWT-Assertion
+ * header or the CF_Authorization cookie against the team's JWKS.
+ */
+export function createCloudflareAccessProvider(env: OpenClawEnv): AuthProvider {
+  const teamDomain = env.CF_ACCESS_TEAM_DOMAIN;
+  const expectedAud = env.CF_ACCESS_AUD;
+
+  return {
+    name: "cloudflare-access",
+    label: "Cloudflare Access",
+    requiredEnv: ["CF_ACCESS_TEAM_DOMAIN", "CF_ACCESS_AUD"],
+    configured: Boolean(teamDomain && expectedAud),
+    loginUrl: teamDomain ? `https://${teamDomain}` : undefined,
+    missingCredentialHint:
+      "Missing Cloudflare Access JWT. Ensure this route is protected by Cloudflare Access.",
+    extractCredential(c) {
+      const token = extractJWT(c);
+      return token ? { token, fromAuthorizationHeader: false } : null;
+    },
+    async verify(token) {
+      const payload = await verifyAccessJWT(token, teamDomain as string, expectedAud as string);
+      return accessUserFromPayload(payload);
+    },
+  };
+}
@@ -0,0 +1,40 @@
+import type { OpenClawEnv } from "../../types";
+import { createBearerProvider } from "./bearer";
+import { createCloudflareAccessProvider } from "./cloudflare-access";
+import { createOidcProvider } from "./oidc";
+import type { AuthProvider, AuthProviderName } from "./types";
+
+export { createBearerProvider, parseBearerTokens } from "./bearer";
+export {
+  accessUserFromPayload,
+  createCloudflareAccessProvider,
+  extractJWT,
+} from "./cloudflare-access";
+export { accessUserFromOidcClaims, createOidcProvider, type OidcProviderOptions } from "./oidc";
+export type { AuthCredential, AuthProvider, AuthProviderName } from "./types";
+
+const PROVIDERS: Record<AuthProviderName, (env: OpenClawEnv) => AuthProvider> = {
+  "cloudflare-access": createCloudflareAccessProvider,
+  oidc: createOidcProvider,
+  bearer: createBearerProvider,
+};
+
+/**
+ * Names accepted by AUTH_PROVIDER
+ */
+export const AUTH_PROVIDER_NAMES = Object.keys(PROVIDERS) as AuthProviderName[];
+
+/**
+ * Create the auth provider selected by AUTH_PROVIDER (default: cloudflare-access)
+ *
+ * @throws Error if AUTH_PROVIDER names an unknown provider
+ */
+export function createAuthProvider(env: OpenClawEnv): AuthProvider {
+  const name = (env.AUTH_PROVIDER || "cloudflare-access").trim().toLowerCase();
+  if (!AUTH_PROVIDER_NAMES.includes(name as AuthProviderName)) {
+    throw new Error(
+      `Unknown AUTH_PROVIDER "${name}". Expected one of: ${AUTH_PROVIDER_NAMES.join(", ")}`,
+    );
+  }
+  return PROVIDERS[name as AuthProviderName](env);
+}
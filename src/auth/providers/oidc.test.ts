@@ -0,0 +1,107 @@
+import { createLocalJWKSet, exportJWK, generateKeyPair, type JWTVerifyGetKey, SignJWT } from "jose";
+import { beforeAll, describe, expect, it } from "vitest";
+import { createMockEnv } from "../../test-utils";
+import { accessUserFromOidcClaims, createOidcProvider } from "./oidc";
+
+const ISSUER = "http://localhost:8080/default";
+const AUDIENCE = "tedix-claw";
+
+// A local stand-in for an IdP: a signing key and the JWKS it would publish
+let privateKey: CryptoKey;
+let jwks: JWTVerifyGetKey;
+
+beforeAll(async () => {
+  const pair = await generateKeyPair("RS256");
+  privateKey = pair.privateKey;
+  const publicJwk = { ...(await exportJWK(pair.publicKey)), kid: "test", alg: "RS256" };
+  jwks = createLocalJWKSet({ keys: [publicJwk] });
+});
+
+function sign(
+  claims: Record<string, unknown>,
+  overrides: { issuer?: string; audience?: string } = {},
+) {
+  return new SignJWT(claims)
+    .setProtectedHeader({ alg: "RS256", kid: "test" })
+    .setIssuer(overrides.issuer ?? ISSUER)
+    .setAudience(overrides.audience ?? AUDIENCE)
+    .setIssuedAt()
+    .setExpirationTime("5m")
+    .sign(privateKey);
+}
+
+function createProvider() {
+  const env = createMockEnv({
+    AUTH_PROVIDER: "oidc",
+    OIDC_ISSUER: ISSUER,
+    OIDC_AUDIENCE: AUDIENCE,
+    OIDC_JWKS_URL: `${ISSUER}/jwks`,
+  });
+  return createOidcProvider(env, { jwks });
+}
+
+describe("createOidcProvider", () => {
+  it("is only configured with an issuer, audience and JWKS URL", () => {
+    expect(createProvider().configured).toBe(true);
+    expect(createOidcProvider(createMockEnv({ OIDC_ISSUER: ISSUER })).configured).toBe(false);
+  });
+
+  it("verifies tokens from the issuer", async () => {
+    const token = await sign({
+      sub: "u1",
+      email: "alice@example.com",
+      email_verified: true,
+      name: "Alice",
+    });
+
+    expect(await createProvider().verify(token)).toEqual({
+      kind: "human",
+      email: "alice@example.com",
+      name: "Alice",
+    });
+  });
+
+  it("rejects tokens for another audience or issuer", async () => {
+    const provider = createProvider();
+
+    await expect(
+      provider.verify(await sign({ email: "a@example.com" }, { audience: "other" })),
+    ).rejects.toThrow();
+    await expect(
+      provider.verify(await sign({ email: "a@example.com" }, { issuer: "https://evil" })),
+    ).rejects.toThrow();
+  });
+});
+
+describe("accessUserFromOidcClaims", () => {
+  it("maps tokens without an email to service principals", () => {
+    expect(accessUserFromOidcClaims({ sub: "svc", azp: "ci-client" })).toEqual({
+      kind: "service",
+      email: "service:ci-client",
+      name: "ci-client",
+      clientId: "ci-client",
+    });
+  });
+
+  it("only trusts verified emails, identifying others by subject", () => {
+    expect(accessUserFromOidcClaims({ sub: "u1", email: "owner@example.com" })).toEqual({
+      kind: "human",
+      email: "sub:u1",
+      name: undefined,
+    });
+    expect(
+      accessUserFromOidcClaims({ sub: "u1", email: "owner@example.com", email_verified: "true" })
+        .email,
+    ).toBe("sub:u1");
+  });
+
+  it("keeps string group claims", () => {
+    expect(
+      accessUserFromOidcClaims({
+        email: "a@example.com",
+        email_verified: true,
+        groups: ["admins", 42],
+      }).groups,
+    ).toEqual(["admins"]);
+  });
+});
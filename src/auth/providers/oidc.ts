@@ -0,0 +1,96 @@
+import { type JWTPayload, type JWTVerifyGetKey, jwtVerify } from "jose";
+import type { AccessUser, OpenClawEnv } from "../../types";
+import { getRemoteJWKS } from "../jwt";
+import { type AuthProvider, extractBearerToken } from "./types";
+
+/**
+ * Options for the OIDC provider
+ */
+export interface OidcProviderOptions {
+  /** Key set to verify against instead of fetching OIDC_JWKS_URL (used by tests) */
+  jwks?: JWTVerifyGetKey;
+}
+
+/**
+ * Build the principal for a verified OIDC token. Tokens with an email claim
+ * belong to people, identified by the email only if the IdP verified it
+ * (`email_verified: true`); otherwise anyone could claim an owner's email, so
+ * they are identified as `sub:<subject>`. Tokens without an email (e.g.
+ * client-credentials grants) belong to services and are identified by their
+ * client ID.
+ */
+export function accessUserFromOidcClaims(payload: JWTPayload): AccessUser {
+  const name =
+    typeof payload.name === "string"
+      ? payload.name
+      : typeof payload.preferred_username === "string"
+        ? payload.preferred_username
+        : undefined;
+  const groups = Array.isArray(payload.groups)
+    ? payload.groups.filter((g): g is string => typeof g === "string")
+    : undefined;
+
+  if (typeof payload.email === "string" && payload.email) {
+    if (payload.email_verified === true) {
+      return { kind: "human", email: payload.email, name, ...(groups ? { groups } : {}) };
+    }
+    if (typeof payload.sub === "string" && payload.sub) {
+      return { kind: "human", email: `sub:${payload.sub}`, name, ...(groups ? { groups } : {}) };
+    }
+  }
+
+  const clientId = [payload.azp, payload.client_id, payload.sub].find(
+    (value): value is string => typeof value === "string" && value.length > 0,
+  );
+  if (!clientId) {
+    throw new Error("Token has neither an email nor a client ID");
+  }
+  return { kind: "service", email: `service:${clientId}`, name: name || clientId, clientId };
+}
+
+/**
+ * Generic OIDC: verifies a JWT access or ID token from `Authorization: Bearer`
+ * (or the OIDC_COOKIE_NAME cookie) against the issuer, audience and JWKS URL.
+ */
+export function createOidcProvider(
+  env: OpenClawEnv,
+  options: OidcProviderOptions = {},
+): AuthProvider {
+  const issuer = env.OIDC_ISSUER;
+  const audience = env.OIDC_AUDIENCE;
+  const jwksUrl = env.OIDC_JWKS_URL;
+  const cookieName = env.OIDC_COOKIE_NAME;
+
+  return {
+    name: "oidc",
+    label: "OIDC",
+    requiredEnv: ["OIDC_ISSUER", "OIDC_AUDIENCE", "OIDC_JWKS_URL"],
+    configured: Boolean(issuer && audience && jwksUrl),
+    loginUrl: env.OIDC_LOGIN_URL,
+    missingCredentialHint: "Missing OIDC token. Send it as Authorization: Bearer <token>.",
+    extractCredential(c) {
+      const bearer = extractBearerToken(c);
+      if (bearer) return { token: bearer, fromAuthorizationHeader: true };
+
+      if (cookieName) {
+        const cookie = c.req.raw.headers
+          .get("Cookie")
+          ?.split(";")
+          .map((part) => part.trim())
+          .find((part) => part.startsWith(`${cookieName}=`));
+        if (cookie) {
+          return { token: cookie.slice(cookieName.length + 1), fromAuthorizationHeader: false };
+        }
+      }
+      return null;
+    },
+    async verify(token) {
+      const jwks = options.jwks ?? getRemoteJWKS(jwksUrl as string);
+      const { payload } = await jwtVerify(token, jwks, {
+        issuer,
+        audience,
+      });
+      return accessUserFromOidcClaims(payload);
+    },
+  };
+}
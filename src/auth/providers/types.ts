@@ -0,0 +1,47 @@
+import type { Context } from "hono";
+import type { AccessUser, AppEnv } from "../../types";
+
+/**
+ * Names accepted by the AUTH_PROVIDER env var
+ */
+export type AuthProviderName = "cloudflare-access" | "oidc" | "bearer";
+
+/**
+ * A credential found on a request
+ */
+export interface AuthCredential {
+  token: string;
+  /** Whether the credential was sent in the Authorization header */
+  fromAuthorizationHeader: boolean;
+}
+
+/**
+ * An authentication provider verifies a request's credential and turns it
+ * into an AccessUser. The middleware handles dev-mode bypass and renders errors.
+ */
+export interface AuthProvider {
+  name: AuthProviderName;
+  /** Human-readable name for error messages, e.g. "Cloudflare Access" */
+  label: string;
+  /** Env vars the provider needs */
+  requiredEnv: string[];
+  /** Whether all required env vars are set */
+  configured: boolean;
+  /** Where browsers without a credential should log in, if anywhere */
+  loginUrl?: string;
+  /** Hint returned to API clients that sent no credential */
+  missingCredentialHint: string;
+  /** Find the credential on a request, or null if there is none */
+  extractCredential(c: Context<AppEnv>): AuthCredential | null;
+  /** Verify a credential; throws if it is invalid */
+  verify(token: string): Promise<AccessUser>;
+}
+
+/**
+ * Read a bearer token from the Authorization header
+ */
+export function extractBearerToken(c: Context<AppEnv>): string | null {
+  const header = c.req.header("Authorization");
+  const match = header?.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : null;
+}
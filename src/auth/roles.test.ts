@@ -0,0 +1,148 @@
+import { Hono } from "hono";
+import { describe, expect, it } from "vitest";
+import { createMockEnv } from "../test-utils";
+import type { AccessUser, AppEnv, OpenClawEnv } from "../types";
+import { isAllowedOnGateway, requireRole, resolveRole, roleAtLeast } from "./roles";
+
+const alice: AccessUser = { kind: "human", email: "Alice@Example.com", name: "Alice" };
+
+describe("roleAtLeast", () => {
+  it("orders roles viewer < operator < owner", () => {
+    expect(roleAtLeast("owner", "operator")).toBe(true);
+    expect(roleAtLeast("operator", "operator")).toBe(true);
+    expect(roleAtLeast("viewer", "operator")).toBe(false);
+  });
+});
+
+describe("resolveRole", () => {
+  it("makes everyone an owner when no roles are configured", () => {
+    expect(resolveRole(alice, createMockEnv())).toBe("owner");
+  });
+
+  it("makes everyone an owner in dev mode", () => {
+    const env = createMockEnv({ DEV_MODE: "true", ROLE_VIEWERS: "bob@example.com" });
+    expect(resolveRole(alice, env)).toBe("owner");
+  });
+
+  it("matches emails case-insensitively", () => {
+    const env = createMockEnv({ ROLE_OPERATORS: " alice@example.com , bob@example.com" });
+    expect(resolveRole(alice, env)).toBe("operator");
+  });
+
+  it("returns the most privileged matching role", () => {
+    const env = createMockEnv({
+      ROLE_OWNERS: "alice@example.com",
+      ROLE_VIEWERS: "*@example.com",
+    });
+    expect(resolveRole(alice, env)).toBe("owner");
+    expect(resolveRole({ kind: "human", email: "carol@example.com" }, env)).toBe("viewer");
+  });
+
+  it("matches group claims", () => {
+    const env = createMockEnv({ ROLE_OPERATORS: "group:oncall" });
+    expect(resolveRole({ ...alice, groups: ["OnCall"] }, env)).toBe("operator");
+    expect(resolveRole(alice, env)).toBeNull();
+  });
+
+  it("matches service tokens by client ID but not by domain wildcard", () => {
+    const service: AccessUser = {
+      kind: "service",
+      email: "service:abc123.access",
+      clientId: "abc123.access",
+    };
+    expect(resolveRole(service, createMockEnv({ ROLE_VIEWERS: "service:abc123.access" }))).toBe(
+      "viewer",
+    );
+    expect(resolveRole(service, createMockEnv({ ROLE_VIEWERS: "*@abc123.access" }))).toBeNull();
+  });
+
+  it("treats API keys as operators", () => {
+    const env = createMockEnv({ ROLE_OWNERS: "alice@example.com" });
+    const key: AccessUser = { kind: "service", email: "apikey:0123456789ab", clientId: "x" };
+    expect(resolveRole(key, env)).toBe("operator");
+  });
+
+  it("keeps API keys operators when no roles are configured", () => {
+    const key: AccessUser = { kind: "service", email: "apikey:0123456789ab", clientId: "x" };
+    expect(resolveRole(key, createMockEnv())).toBe("operator");
+  });
+});
+
+describe("requireRole", () => {
+  function createApp(user: AccessUser | undefined) {
+    const app = new Hono<AppEnv>();
+    app.use("*", async (c, next) => {
+      if (user) c.set("accessUser", user);
+      await next();
+    });
+    app.get("/restart", requireRole("operator"), (c) => c.json({ ok: true }));
+    return app;
+  }
+
+  const env: OpenClawEnv = createMockEnv({
+    ROLE_OPERATORS: "alice@example.com",
+    ROLE_VIEWERS: "bob@example.com",
+  });
+
+  it("allows principals with the role", async () => {
+    const res = await createApp(alice).request("/restart", {}, env);
+    expect(res.status).toBe(200);
+  });
+
+  it("rejects principals with a lower role", async () => {
+    const res = await createApp({ kind: "human", email: "bob@example.com" }).request(
+      "/restart",
+      {},
+      env,
+    );
+
+    expect(res.status).toBe(403);
+    expect(((await res.json()) as { hint: string }).hint).toBe(
+      'This action requires the "operator" role; you are a "viewer"',
+    );
+  });
+
+  it("rejects principals without a role", async () => {
+    const res = await createApp({ kind: "human", email: "mallory@example.com" }).request(
+      "/restart",
+      {},
+      env,
+    );
+
+    expect(res.status).toBe(403);
+  });
+
+  it("rejects unauthenticated requests", async () => {
+    const res = await createApp(undefined).request("/restart", {}, env);
+    expect(res.status).toBe(401);
+  });
+});
+
+describe("isAllowedOnGateway", () => {
+  const ci: AccessUser = { kind: "service", email: "bearer:ci", name: "ci", clientId: "ci" };
+  const other = (env: Partial<OpenClawEnv>) =>
+    createMockEnv({ AUTH_PROVIDER: "bearer", AUTH_BEARER_TOKENS: "ci=secret-a", ...env });
+
+  async function check(env: OpenClawEnv, user: AccessUser, headers: Record<string, string>) {
+    const app = new Hono<AppEnv>();
+    app.get("*", async (c) => {
+      c.set("accessUser", user);
+      return c.json({ allowed: await isAllowedOnGateway(c, env) });
+    });
+    const res = await app.request("/api/admin/gateway", { headers }, createMockEnv());
+    return ((await res.json()) as { allowed: boolean }).allowed;
+  }
+
+  it("requires the credential to pass the other gateway's provider", async () => {
+    const headers = { Authorization: "Bearer secret-a" };
+    expect(await check(other({}), ci, headers)).toBe(true);
+    expect(await check(other({ AUTH_BEARER_TOKENS: "ci=secret-b" }), ci, headers)).toBe(false);
+    expect(await check(other({}), ci, {})).toBe(false);
+  });
+
+  it("requires a role on the other gateway", async () => {
+    const headers = { Authorization: "Bearer secret-a" };
+    expect(await check(other({ ROLE_VIEWERS: "bearer:ci" }), ci, headers)).toBe(true);
+    expect(await check(other({ ROLE_VIEWERS: "bearer:ops" }), ci, headers)).toBe(false);
+  });
+});
@@ -0,0 +1,145 @@
+import type { Context, Next } from "hono";
+import type { AccessUser, AppEnv, OpenClawEnv } from "../types";
+import { isDevMode, isE2ETestMode } from "./middleware";
+import { createAuthProvider } from "./providers";
+
+/**
+ * Admin roles, least to most privileged. Each role includes everything the
+ * roles before it can do:
+ * - viewer: read-only admin API (devices, storage, gateway status)
+ * - operator: approve devices, sync storage, restart the gateway, run agent
+ *   turns, use the Control UI and debug routes
+ * - owner: manage model provider credentials, API keys and sensitive debug routes
+ */
+export const ROLES = ["viewer", "operator", "owner"] as const;
+
+export type Role = (typeof ROLES)[number];
+
+/**
+ * Role granted to API keys. Their scopes already limit which routes they can
+ * reach, so the role only has to be high enough for those routes.
+ */
+const API_KEY_ROLE: Role = "operator";
+
+/**
+ * Env var holding the principals for each role
+ */
+const ROLE_ENV_VARS: Record<Role, keyof OpenClawEnv> = {
+  owner: "ROLE_OWNERS",
+  operator: "ROLE_OPERATORS",
+  viewer: "ROLE_VIEWERS",
+};
+
+/**
+ * Check whether a role is at least as privileged as another
+ */
+export function roleAtLeast(role: Role, minimum: Role): boolean {
+  return ROLES.indexOf(role) >= ROLES.indexOf(minimum);
+}
+
+function parseEntries(value: string | undefined): string[] {
+  if (!value) return [];
+  return value
+    .split(",")
+    .map((entry) => entry.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/**
+ * Whether any role assignments are configured. Without them every
+ * authenticated principal is an owner, matching the behaviour before roles existed.
+ */
+export function areRolesConfigured(env: OpenClawEnv): boolean {
+  return ROLES.some((role) => parseEntries(env[ROLE_ENV_VARS[role]] as string).length > 0);
+}
+
+/**
+ * Check a principal against one role assignment entry. Supported entries:
+ * - `alice@example.com` - exact email
+ * - `*@example.com` - any email in the domain
+ * - `group:admins` - a Cloudflare Access group claim
+ * - `service:<client id>` - a Cloudflare Access service token
+ */
+function matchesEntry(user: AccessUser, entry: string): boolean {
+  if (entry.startsWith("group:")) {
+    const group = entry.slice("group:".length);
+    return (user.groups ?? []).some((g) => g.toLowerCase() === group);
+  }
+
+  const email = user.email.toLowerCase();
+  if (entry.startsWith("*@")) {
+    return user.kind === "human" && email.endsWith(entry.slice(1));
+  }
+  return email === entry;
+}
+
+/**
+ * Resolve the role of an authenticated principal from the ROLE_* env vars.
+ * Returns the most privileged matching role, or null if none match.
+ */
+export function resolveRole(user: AccessUser, env: OpenClawEnv): Role | null {
+  // Before the shortcut below, so a key never gets more than its role
+  if (user.email.startsWith("apikey:")) {
+    return API_KEY_ROLE;
+  }
+
+  // Local dev and E2E runs have no real identities to assign roles to
+  if (isDevMode(env) || isE2ETestMode(env) || !areRolesConfigured(env)) {
+    return "owner";
+  }
+
+  for (const role of [...ROLES].reverse()) {
+    const entries = parseEntries(env[ROLE_ENV_VARS[role]] as string);
+    if (entries.some((entry) => matchesEntry(user, entry))) {
+      return role;
+    }
+  }
+  return null;
+}
+
+/**
+ * Restrict a route to principals with at least the given role. Runs after authentication.
+ */
+export function requireRole(minimum: Role) {
+  return async (c: Context<AppEnv>, next: Next) => {
+    const user = c.get("accessUser");
+    if (!user) {
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    const role = resolveRole(user, c.env);
+    if (!role || !roleAtLeast(role, minimum)) {
+      return c.json(
+        {
+          error: "Forbidden",
+          hint: role
+            ? `This action requires the "${minimum}" role; you are a "${role}"`
+            : "You have not been assigned a role on this gateway",
+        },
+        403,
+      );
+    }
+    return next();
+  };
+}
+
+/**
+ * Check whether the request's principal is also let in by another gateway's
+ * settings (`env`), before acting on that gateway: the credential has to pass
+ * that gateway's auth provider, and the principal needs a role there. API keys
+ * only work on the gateway that issued them.
+ */
+export async function isAllowedOnGateway(c: Context<AppEnv>, env: OpenClawEnv): Promise<boolean> {
+  const user = c.get("accessUser");
+  if (!user || c.get("apiKey")) return false;
+  if (isDevMode(env) || isE2ETestMode(env)) return true;
+
+  try {
+    const provider = createAuthProvider(env);
+    const credential = provider.configured ? provider.extractCredential(c) : null;
+    if (!credential) return false;
+    return resolveRole(await provider.verify(credential.token), env) !== null;
+  } catch {
+    return false;
+  }
+}
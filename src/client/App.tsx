@@ -1,15 +1,91 @@
+import { useEffect, useState } from "react";
+import {
+  type GatewayInfo,
+  getMe,
+  hasRole,
+  listGateways,
+  type MeResponse,
+  selectGateway,
+} from "./api";
 import AdminPage from "./pages/AdminPage";
+import ApiKeysPage from "./pages/ApiKeysPage";
 import "./App.css";
 
+type Tab = "admin" | "api-keys";
+
+const TABS: Array<{ id: Tab; label: string; ownerOnly?: boolean }> = [
+  { id: "admin", label: "Gateway" },
+  { id: "api-keys", label: "API Keys", ownerOnly: true },
+];
+
 export default function App() {
+  const [tab, setTab] = useState<Tab>("admin");
+  const [me, setMe] = useState<MeResponse | null>(null);
+  const [gateways, setGateways] = useState<GatewayInfo[]>([]);
+  const [gateway, setGateway] = useState<string | null>(null);
+
+  useEffect(() => {
+    listGateways()
+      .then(({ gateways }) => {
+        setGateways(gateways);
+        setGateway(gateways.find((g) => g.current)?.name ?? null);
+      })
+      .catch((err) => console.error("Failed to fetch gateways:", err));
+  }, []);
+
+  // Roles can differ between gateways, so the principal is fetched for each
+  useEffect(() => {
+    selectGateway(gateway);
+    getMe()
+      .then(setMe)
+      .catch((err) => console.error("Failed to fetch current user:", err));
+  }, [gateway]);
+
+  const role = me?.role ?? null;
+  const tabs = TABS.filter((t) => !t.ownerOnly || hasRole(role, "owner"));
+
   return (
     <div className="app">
       <header className="app-header">
         <img src="/logo-small.png" alt="Tedix" className="header-logo" />
         <h1>Tedix</h1>
+        {gateways.length > 1 && (
+          <select
+            className="app-gateway"
+            aria-label="Gateway"
+            value={gateway ?? ""}
+            onChange={(e) => setGateway(e.target.value)}
+          >
+            {gateways.map((g) => (
+              <option key={g.name} value={g.name}>
+                {g.phase ? `${g.label} (${g.phase})` : g.label}
+              </option>
+            ))}
+          </select>
+        )}
+        <nav className="app-tabs">
+          {tabs.map((t) => (
+            <button
+              key={t.id}
+              type="button"
+              className={`app-tab${tab === t.id ? " active" : ""}`}
+              onClick={() => setTab(t.id)}
+            >
+              {t.label}
+            </button>
+          ))}
+        </nav>
+        {me && (
+          <span className="app-user" title={me.email}>
+            {me.name || me.email}
+            <span className="app-role">{role ?? "no role"}</span>
+          </span>
+        )}
       </header>
-      <main className="app-main">
-        <AdminPage />
+      {/* Remount the pages on a gateway switch so they reload everything */}
+      <main className="app-main" key={gateway ?? ""}>
+        {tab === "admin" && <AdminPage role={role} />}
+        {tab === "api-keys" && hasRole(role, "owner") && <ApiKeysPage />}
       </main>
     </div>
   );
@@ -3,6 +3,13 @@
 
 const API_BASE = "/api/admin";
 
+// Gateway the admin UI is looking at; null lets the Worker pick it from the hostname
+let selectedGateway: string | null = null;
+
+export function selectGateway(name: string | null): void {
+  selectedGateway = name;
+}
+
 export interface PendingDevice {
   requestId: string;
   deviceId: string;
@@ -33,9 +40,6 @@ export interface PairedDevice {
 export interface DeviceListResponse {
   pending: PendingDevice[];
   paired: PairedDevice[];
-  raw?: string;
-  stderr?: string;
-  parseError?: string;
   error?: string;
 }
 
@@ -43,8 +47,7 @@ export interface ApproveResponse {
   success: boolean;
   requestId: string;
   message?: string;
-  stdout?: string;
-  stderr?: string;
+  device?: PairedDevice;
   error?: string;
 }
 
@@ -62,12 +65,25 @@ export class AuthError extends Error {
   }
 }
 
+/** A failed request, with the response body for errors that say more than a message */
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly data: unknown,
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
 async function apiRequest<T>(path: string, options: globalThis.RequestInit = {}): Promise<T> {
   const response = await fetch(`${API_BASE}${path}`, {
     ...options,
     credentials: "include",
     headers: {
       "Content-Type": "application/json",
+      ...(selectedGateway ? { "X-OpenClaw-Gateway": selectedGateway } : {}),
       ...options.headers,
     },
   } as globalThis.RequestInit);
@@ -79,12 +95,35 @@ async function apiRequest<T>(path: string, options: globalThis.RequestInit = {})
   const data = (await response.json()) as T & { error?: string };
 
   if (!response.ok) {
-    throw new Error(data.error || `API error: ${response.status}`);
+    throw new ApiError(data.error || `API error: ${response.status}`, response.status, data);
   }
 
   return data;
 }
 
+// Current principal and role
+
+export type Role = "viewer" | "operator" | "owner";
+
+const ROLE_ORDER: Role[] = ["viewer", "operator", "owner"];
+
+export interface MeResponse {
+  email: string;
+  name?: string;
+  kind: "human" | "service";
+  role: Role | null;
+  rolesConfigured: boolean;
+}
+
+export async function getMe(): Promise<MeResponse> {
+  return apiRequest<MeResponse>("/me");
+}
+
+/** Whether a role can perform actions that need at least `minimum` */
+export function hasRole(role: Role | null, minimum: Role): boolean {
+  return role !== null && ROLE_ORDER.indexOf(role) >= ROLE_ORDER.indexOf(minimum);
+}
+
 export async function listDevices(): Promise<DeviceListResponse> {
   return apiRequest<DeviceListResponse>("/devices");
 }
@@ -135,8 +174,155 @@ export async function restartGateway(): Promise<RestartGatewayResponse> {
   });
 }
 
+export type GatewayPhase = "stopped" | "starting" | "ready" | "degraded" | "crashed" | "crash_loop";
+
+export interface GatewayStatusResponse {
+  phase: GatewayPhase;
+  processId: string | null;
+  restarts: number;
+  consecutiveFailures: number;
+  lastError: string | null;
+  nextAttemptAt: number | null;
+  startedAt: number | null;
+  readyAt: number | null;
+}
+
+export async function getGatewayStatus(): Promise<GatewayStatusResponse> {
+  return apiRequest<GatewayStatusResponse>("/gateway");
+}
+
+export interface GatewayInfo {
+  name: string;
+  label: string;
+  hosts: string[];
+  pathPrefix: string | null;
+  isDefault: boolean;
+  current: boolean;
+  phase: GatewayPhase | null;
+}
+
+export async function listGateways(): Promise<{ gateways: GatewayInfo[] }> {
+  return apiRequest<{ gateways: GatewayInfo[] }>("/gateways");
+}
+
+export type IncidentKind =
+  | "unhealthy"
+  | "exited"
+  | "container_stopped"
+  | "orphaned_process"
+  | "stale_lock"
+  | "resource_pressure";
+
+export interface Incident {
+  id: string;
+  at: number;
+  kind: IncidentKind;
+  message: string;
+  action: "restarted" | "restart_failed" | "backoff" | "cleaned_up" | "alerted";
+  error?: string;
+}
+
+export async function getGatewayIncidents(): Promise<{ incidents: Incident[] }> {
+  return apiRequest<{ incidents: Incident[] }>("/gateway/incidents");
+}
+
+export type ResourceKind = "cpu" | "memory" | "disk";
+
+export interface ResourceAlert {
+  resource: ResourceKind;
+  percent: number;
+  threshold: number;
+  message: string;
+}
+
+export interface ResourceSample {
+  at: number;
+  cpuCores: number | null;
+  memoryUsedBytes: number;
+  memoryTotalBytes: number;
+  diskUsedBytes: number;
+  rootBytes: number | null;
+  dataBytes: number | null;
+  gatewayRssBytes: number | null;
+  alerts: ResourceAlert[];
+}
+
+export interface ResourcesResponse {
+  instanceType: string;
+  limits: { vcpu: number; memoryBytes: number; diskBytes: number };
+  thresholds: Record<ResourceKind, number>;
+  samples: ResourceSample[];
+}
+
+export async function getResources(): Promise<ResourcesResponse> {
+  return apiRequest<ResourcesResponse>("/resources");
+}
+
+export interface SampleResourcesResponse {
+  success?: boolean;
+  sample?: ResourceSample;
+  fired?: ResourceAlert[];
+  error?: string;
+}
+
+export async function sampleResources(): Promise<SampleResourcesResponse> {
+  return apiRequest<SampleResourcesResponse>("/resources/sample", {
+    method: "POST",
+  });
+}
+
+export type SleepMode = "always-on" | "sleep-after" | "active-hours" | "prewarm" | "off-hours";
+
+export interface SleepPolicy {
+  mode: SleepMode;
+  keepAlive: boolean;
+  sleepAfter: string | null;
+}
+
+export interface SleepSchedule {
+  timeZone: string;
+  activeFrom: number;
+  activeUntil: number;
+  days: number[];
+  idleSleepAfter: string;
+  prewarmMs: number;
+}
+
+export interface SleepStatusResponse {
+  policy: SleepPolicy;
+  schedule: SleepSchedule | null;
+  awakeUntil: number | null;
+}
+
+export async function getSleepStatus(): Promise<SleepStatusResponse> {
+  return apiRequest<SleepStatusResponse>("/sleep");
+}
+
+export interface StayAwakeResponse {
+  success?: boolean;
+  awakeUntil: number | null;
+  error?: string;
+}
+
+export async function stayAwake(hours: number): Promise<StayAwakeResponse> {
+  return apiRequest<StayAwakeResponse>("/sleep/awake", {
+    method: "POST",
+    body: JSON.stringify({ hours }),
+  });
+}
+
+export async function cancelStayAwake(): Promise<StayAwakeResponse> {
+  return apiRequest<StayAwakeResponse>("/sleep/awake", {
+    method: "DELETE",
+  });
+}
+
 export interface StorageStatusResponse {
   configured: boolean;
+  /** How backups reach R2 (BACKUP_STORAGE) */
+  storage: "mount" | "binding";
+  /** Whether backups are encrypted (BACKUP_ENCRYPTION_KEY is set) */
+  encrypted: boolean;
   missing?: string[];
   lastSync: string | null;
   message: string;
@@ -150,13 +336,130 @@ export interface SyncResponse {
   success: boolean;
   message?: string;
   lastSync?: string;
+  snapshotId?: string;
+  /** Files added, changed and deleted since the previous snapshot */
+  added?: number;
+  changed?: number;
+  deleted?: number;
+  bytesTransferred?: number;
   error?: string;
   details?: string;
+  /** Why the backup was refused: invalid-config or shrink */
+  problem?: string;
 }
 
-export async function triggerSync(): Promise<SyncResponse> {
+/**
+ * Back up now. With force, a backup refused for losing most of the workspace
+ * goes through anyway.
+ */
+export async function triggerSync(force = false): Promise<SyncResponse> {
   return apiRequest<SyncResponse>("/storage/sync", {
     method: "POST",
+    body: force ? JSON.stringify({ force }) : undefined,
+  });
+}
+
+export interface SnapshotInfo {
+  id: string;
+  createdAt: string;
+  fileCount: number;
+  totalBytes: number;
+  /** Data key of an encrypted snapshot */
+  keyId?: string;
+  /** Why boots skip this snapshot, if they do */
+  quarantined?: string;
+  pinned: boolean;
+}
+
+export interface SnapshotsResponse {
+  snapshots: SnapshotInfo[];
+  retention: { latest: number; hourly: number; daily: number };
+}
+
+export async function listSnapshots(): Promise<SnapshotsResponse> {
+  return apiRequest<SnapshotsResponse>("/storage/snapshots");
+}
+
+export interface PinSnapshotResponse {
+  success?: boolean;
+  id?: string;
+  pinned?: boolean;
+  error?: string;
+}
+
+export type BackupArea = "config" | "workspace" | "skills";
+
+export interface SnapshotFile {
+  area: BackupArea;
+  path: string;
+  hash: string;
+  size: number;
+}
+
+export interface RestoreSnapshotResponse {
+  success?: boolean;
+  dryRun?: boolean;
+  id?: string;
+  areas?: BackupArea[];
+  added?: SnapshotFile[];
+  changed?: SnapshotFile[];
+  removed?: SnapshotFile[];
+  unchanged?: number;
+  /** Snapshot of the state before the restore, to undo it */
+  previousSnapshotId?: string;
+  message?: string;
+  error?: string;
+}
+
+export async function restoreSnapshot(
+  id: string,
+  areas: BackupArea[],
+  dryRun: boolean,
+): Promise<RestoreSnapshotResponse> {
+  return apiRequest<RestoreSnapshotResponse>(
+    `/storage/snapshots/${encodeURIComponent(id)}/restore`,
+    {
+      method: "POST",
+      body: JSON.stringify({ areas, dryRun }),
+    },
+  );
+}
+
+export async function pinSnapshot(id: string, pinned: boolean): Promise<PinSnapshotResponse> {
+  return apiRequest<PinSnapshotResponse>(`/storage/snapshots/${encodeURIComponent(id)}/pin`, {
+    method: pinned ? "POST" : "DELETE",
+  });
+}
+
+export interface QuarantineSnapshotResponse {
+  success?: boolean;
+  id?: string;
+  quarantined?: string;
+  error?: string;
+}
+
+/** Keep boots from restoring a snapshot, or let them again */
+export async function quarantineSnapshot(
+  id: string,
+  quarantined: boolean,
+): Promise<QuarantineSnapshotResponse> {
+  return apiRequest<QuarantineSnapshotResponse>(
+    `/storage/snapshots/${encodeURIComponent(id)}/quarantine`,
+    { method: quarantined ? "POST" : "DELETE" },
+  );
+}
+
+export interface RotateBackupKeyResponse {
+  success?: boolean;
+  keyId?: string;
+  /** Snapshots re-encrypted with the new data key */
+  snapshots?: number;
+  error?: string;
+}
+
+export async function rotateBackupKey(): Promise<RotateBackupKeyResponse> {
+  return apiRequest<RotateBackupKeyResponse>("/storage/encryption/rotate", {
+    method: "POST",
   });
 }
 
@@ -197,3 +500,49 @@ export async function removeAuthProvider(profileId: string): Promise<SetupTokenR
     method: "DELETE",
   });
 }
+
+// API keys for programmatic access
+
+export type ApiKeyScope = "agent" | "sessions" | "chat-completions" | "admin-read" | "audit-read";
+
+export interface ApiKey {
+  id: string;
+  name: string;
+  scopes: ApiKeyScope[];
+  createdAt: string;
+  createdBy?: string;
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+}
+
+export interface ApiKeyListResponse {
+  keys: ApiKey[];
+  scopes: ApiKeyScope[];
+}
+
+export interface CreateApiKeyResponse {
+  key: ApiKey;
+  token: string;
+}
+
+export async function listApiKeys(): Promise<ApiKeyListResponse> {
+  return apiRequest<ApiKeyListResponse>("/api-keys");
+}
+
+export async function createApiKey(
+  name: string,
+  scopes: ApiKeyScope[],
+  expiresInDays?: number,
+): Promise<CreateApiKeyResponse> {
+  return apiRequest<CreateApiKeyResponse>("/api-keys", {
+    method: "POST",
+    body: JSON.stringify({ name, scopes, expiresInDays }),
+  });
+}
+
+export async function revokeApiKey(id: string): Promise<{ success: boolean; key: ApiKey }> {
+  return apiRequest<{ success: boolean; key: ApiKey }>(`/api-keys/${id}`, {
+    method: "DELETE",
+  });
+}
@@ -1,20 +1,49 @@
 import { useCallback, useEffect, useState } from "react";
 import {
+  ApiError,
   AuthError,
   type AuthProvider,
   approveAllDevices,
   approveChannelPairing,
   approveDevice,
+  type BackupArea,
+  cancelStayAwake,
   type DeviceListResponse,
+  type GatewayPhase,
+  type GatewayStatusResponse,
   getAuthProviders,
+  getGatewayIncidents,
+  getGatewayStatus,
+  getResources,
+  getSleepStatus,
   getStorageStatus,
+  hasRole,
+  type Incident,
+  type IncidentKind,
   listDevices,
+  listSnapshots,
   type PairedDevice,
   type PendingDevice,
+  pinSnapshot,
+  quarantineSnapshot,
+  type ResourceKind,
+  type ResourceSample,
+  type ResourcesResponse,
+  type RestoreSnapshotResponse,
+  type Role,
   removeAuthProvider,
   restartGateway,
+  restoreSnapshot,
+  rotateBackupKey,
+  type SleepMode,
+  type SleepSchedule,
+  type SleepStatusResponse,
+  type SnapshotsResponse,
   type StorageStatusResponse,
+  type SyncResponse,
+  sampleResources,
   saveSetupToken,
+  stayAwake,
   triggerSync,
 } from "../api";
 import "./AdminPage.css";
@@ -24,6 +53,25 @@ function ButtonSpinner() {
   return <span className="btn-spinner" />;
 }
 
+function formatBytes(bytes: number) {
+  if (bytes >= 1e9) return `${(bytes / 1e9).toFixed(1)} GB`;
+  return `${Math.round(bytes / 1024 / 1024)} MiB`;
+}
+
+// Percent-of-limit trend as a small inline chart
+function Sparkline({ values }: { values: number[] }) {
+  if (values.length < 2) return null;
+  const points = values
+    .map((v, i) => `${(i / (values.length - 1)) * 100},${20 - (Math.min(v, 100) / 100) * 20}`)
+    .join(" ");
+  return (
+    <svg className="resource-sparkline" viewBox="0 0 100 20" preserveAspectRatio="none">
+      <title>Last 12 hours</title>
+      <polyline points={points} />
+    </svg>
+  );
+}
+
 function formatSyncTime(isoString: string | null) {
   if (!isoString) return "Never";
   try {
@@ -50,15 +98,111 @@ function formatTimeAgo(ts: number) {
   return `${days}d ago`;
 }
 
-export default function AdminPage() {
+const GATEWAY_PHASE_LABELS: Record<GatewayPhase, string> = {
+  stopped: "Stopped",
+  starting: "Starting",
+  ready: "Ready",
+  degraded: "Degraded",
+  crashed: "Crashed",
+  crash_loop: "Crash loop",
+};
+
+const INCIDENT_LABELS: Record<IncidentKind, string> = {
+  unhealthy: "Unhealthy",
+  exited: "Exited",
+  container_stopped: "Container stopped",
+  orphaned_process: "Orphaned process",
+  stale_lock: "Stale lock",
+  resource_pressure: "Resource pressure",
+};
+
+const INCIDENT_ACTION_LABELS: Record<Incident["action"], string> = {
+  restarted: "restarted",
+  restart_failed: "restart failed",
+  backoff: "restart deferred",
+  cleaned_up: "cleaned up",
+  alerted: "alert",
+};
+
+const RESOURCE_LABELS: Record<ResourceKind, string> = {
+  cpu: "CPU",
+  memory: "Memory",
+  disk: "Disk",
+};
+
+// Usage of each resource in percent of the instance's limit
+function resourcePercents(sample: ResourceSample, limits: ResourcesResponse["limits"]) {
+  const memoryLimit = Math.min(limits.memoryBytes, sample.memoryTotalBytes || Infinity);
+  return {
+    cpu: sample.cpuCores === null ? null : (sample.cpuCores / limits.vcpu) * 100,
+    memory: (sample.memoryUsedBytes / memoryLimit) * 100,
+    disk: (sample.diskUsedBytes / limits.diskBytes) * 100,
+  };
+}
+
+const SLEEP_MODE_LABELS: Record<SleepMode, string> = {
+  "always-on": "Always on",
+  "sleep-after": "Sleeps when idle",
+  "active-hours": "Active hours",
+  prewarm: "Warming up",
+  "off-hours": "Off hours",
+};
+
+const BACKUP_AREAS: BackupArea[] = ["config", "workspace", "skills"];
+
+const BACKUP_AREA_LABELS: Record<BackupArea, string> = {
+  config: "Config",
+  workspace: "Workspace",
+  skills: "Skills",
+};
+
+/** Files of each kind of change listed in a restore preview */
+const RESTORE_PREVIEW_FILES = 20;
+
+const DAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+function formatClock(minutes: number) {
+  const hours = Math.floor(minutes / 60);
+  return `${String(hours).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+}
+
+function formatSchedule(schedule: SleepSchedule) {
+  const days =
+    schedule.days.length === 7 ? "every day" : schedule.days.map((d) => DAY_LABELS[d]).join(", ");
+  return `${formatClock(schedule.activeFrom)}–${formatClock(schedule.activeUntil)} ${schedule.timeZone}, ${days}`;
+}
+
+interface AdminPageProps {
+  role: Role | null;
+}
+
+export default function AdminPage({ role }: AdminPageProps) {
+  const canOperate = hasRole(role, "operator");
+  const isOwner = hasRole(role, "owner");
+
   const [pending, setPending] = useState<PendingDevice[]>([]);
   const [paired, setPaired] = useState<PairedDevice[]>([]);
   const [storageStatus, setStorageStatus] = useState<StorageStatusResponse | null>(null);
+  const [snapshots, setSnapshots] = useState<SnapshotsResponse | null>(null);
+  const [pinInProgress, setPinInProgress] = useState<string | null>(null);
+  const [rotateInProgress, setRotateInProgress] = useState(false);
+  const [restoreTarget, setRestoreTarget] = useState<string | null>(null);
+  const [restoreAreas, setRestoreAreas] = useState<BackupArea[]>([...BACKUP_AREAS]);
+  const [restorePreview, setRestorePreview] = useState<RestoreSnapshotResponse | null>(null);
+  const [restoreInProgress, setRestoreInProgress] = useState(false);
+  const [gatewayStatus, setGatewayStatus] = useState<GatewayStatusResponse | null>(null);
+  const [incidents, setIncidents] = useState<Incident[]>([]);
+  const [resources, setResources] = useState<ResourcesResponse | null>(null);
+  const [sampleInProgress, setSampleInProgress] = useState(false);
+  const [sleepStatus, setSleepStatus] = useState<SleepStatusResponse | null>(null);
+  const [awakeHours, setAwakeHours] = useState("4");
+  const [awakeInProgress, setAwakeInProgress] = useState(false);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [actionInProgress, setActionInProgress] = useState<string | null>(null);
   const [restartInProgress, setRestartInProgress] = useState(false);
   const [syncInProgress, setSyncInProgress] = useState(false);
+  const [lastSyncResult, setLastSyncResult] = useState<SyncResponse | null>(null);
   const [authProviders, setAuthProviders] = useState<AuthProvider[]>([]);
   const [authLoading, setAuthLoading] = useState(true);
   const [setupToken, setSetupToken] = useState("");
@@ -77,8 +221,6 @@ export default function AdminPage() {
 
       if (data.error) {
         setError(data.error);
-      } else if (data.parseError) {
-        setError(`Parse error: ${data.parseError}`);
       }
     } catch (err) {
       if (err instanceof AuthError) {
@@ -101,6 +243,44 @@ export default function AdminPage() {
     }
   }, []);
 
+  const fetchSnapshots = useCallback(async () => {
+    try {
+      setSnapshots(await listSnapshots());
+    } catch (err) {
+      // Not available without R2 storage
+      console.error("Failed to fetch snapshots:", err);
+    }
+  }, []);
+
+  const fetchGatewayStatus = useCallback(async () => {
+    try {
+      setGatewayStatus(await getGatewayStatus());
+    } catch (err) {
+      console.error("Failed to fetch gateway status:", err);
+    }
+    try {
+      setIncidents((await getGatewayIncidents()).incidents);
+    } catch (err) {
+      console.error("Failed to fetch gateway incidents:", err);
+    }
+  }, []);
+
+  const fetchResources = useCallback(async () => {
+    try {
+      setResources(await getResources());
+    } catch (err) {
+      console.error("Failed to fetch resource usage:", err);
+    }
+  }, []);
+
+  const fetchSleepStatus = useCallback(async () => {
+    try {
+      setSleepStatus(await getSleepStatus());
+    } catch (err) {
+      console.error("Failed to fetch sleep status:", err);
+    }
+  }, []);
+
   const fetchAuthProviders = useCallback(async () => {
     try {
       setAuthLoading(true);
@@ -116,8 +296,20 @@ export default function AdminPage() {
   useEffect(() => {
     fetchDevices();
     fetchStorageStatus();
+    fetchSnapshots();
+    fetchGatewayStatus();
+    fetchResources();
+    fetchSleepStatus();
     fetchAuthProviders();
-  }, [fetchDevices, fetchStorageStatus, fetchAuthProviders]);
+  }, [
+    fetchDevices,
+    fetchStorageStatus,
+    fetchSnapshots,
+    fetchGatewayStatus,
+    fetchResources,
+    fetchSleepStatus,
+    fetchAuthProviders,
+  ]);
 
   const handleApprove = async (requestId: string) => {
     setActionInProgress(requestId);
@@ -177,6 +369,50 @@ export default function AdminPage() {
       setError(err instanceof Error ? err.message : "Failed to restart gateway");
     } finally {
       setRestartInProgress(false);
+      fetchGatewayStatus();
+    }
+  };
+
+  const handleSampleResources = async () => {
+    setSampleInProgress(true);
+    try {
+      const result = await sampleResources();
+      if (result.error) setError(result.error);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to sample resource usage");
+    } finally {
+      setSampleInProgress(false);
+      fetchResources();
+      fetchGatewayStatus();
+    }
+  };
+
+  const handleStayAwake = async () => {
+    const hours = Number(awakeHours);
+    if (!(hours > 0)) return;
+
+    setAwakeInProgress(true);
+    try {
+      const result = await stayAwake(hours);
+      if (result.error) setError(result.error);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to keep the container awake");
+    } finally {
+      setAwakeInProgress(false);
+      fetchSleepStatus();
+    }
+  };
+
+  const handleCancelStayAwake = async () => {
+    setAwakeInProgress(true);
+    try {
+      const result = await cancelStayAwake();
+      if (result.error) setError(result.error);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to cancel the override");
+    } finally {
+      setAwakeInProgress(false);
+      fetchSleepStatus();
     }
   };
 
@@ -220,18 +456,136 @@ export default function AdminPage() {
   const handleSync = async () => {
     setSyncInProgress(true);
     try {
-      const result = await triggerSync();
+      let result: SyncResponse;
+      try {
+        result = await triggerSync();
+      } catch (err) {
+        // Losing most of the workspace can be intended, e.g. after a cleanup
+        const data = err instanceof ApiError ? (err.data as SyncResponse) : null;
+        if (data?.problem !== "shrink") throw err;
+        if (!confirm(`${data.details}. Back up anyway?`)) return;
+        result = await triggerSync(true);
+      }
       if (result.success) {
         // Update the storage status with new lastSync time
         setStorageStatus((prev) => (prev ? { ...prev, lastSync: result.lastSync || null } : null));
+        setLastSyncResult(result);
         setError(null);
       } else {
         setError(result.error || "Sync failed");
       }
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to sync");
+      const details = err instanceof ApiError ? (err.data as SyncResponse).details : undefined;
+      const message = err instanceof Error ? err.message : "Failed to sync";
+      setError(details ? `${message}: ${details}` : message);
     } finally {
       setSyncInProgress(false);
+      fetchSnapshots();
+    }
+  };
+
+  const openRestore = (id: string | null) => {
+    setRestoreTarget(id);
+    setRestoreAreas([...BACKUP_AREAS]);
+    setRestorePreview(null);
+  };
+
+  const toggleRestoreArea = (area: BackupArea) => {
+    setRestorePreview(null);
+    setRestoreAreas((areas) =>
+      areas.includes(area) ? areas.filter((a) => a !== area) : [...areas, area],
+    );
+  };
+
+  const handlePreviewRestore = async () => {
+    if (!restoreTarget) return;
+    setRestoreInProgress(true);
+    try {
+      setRestorePreview(await restoreSnapshot(restoreTarget, restoreAreas, true));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to compare snapshot");
+    } finally {
+      setRestoreInProgress(false);
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!restoreTarget || !restorePreview) return;
+    const changes =
+      (restorePreview.added?.length ?? 0) +
+      (restorePreview.changed?.length ?? 0) +
+      (restorePreview.removed?.length ?? 0);
+    if (
+      !confirm(
+        `Restore ${restoreAreas.join(", ")} from this snapshot? ${changes} files will be replaced or deleted and the gateway restarts. The current state is backed up first.`,
+      )
+    ) {
+      return;
+    }
+
+    setRestoreInProgress(true);
+    try {
+      const result = await restoreSnapshot(restoreTarget, restoreAreas, false);
+      setError(null);
+      openRestore(null);
+      alert(
+        result.previousSnapshotId
+          ? `${result.message} To undo, restore snapshot ${result.previousSnapshotId}.`
+          : result.message,
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to restore snapshot");
+    } finally {
+      setRestoreInProgress(false);
+      fetchSnapshots();
+      fetchStorageStatus();
+      fetchGatewayStatus();
+    }
+  };
+
+  const handlePinSnapshot = async (id: string, pinned: boolean) => {
+    setPinInProgress(id);
+    try {
+      const result = await pinSnapshot(id, pinned);
+      if (result.error) setError(result.error);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update snapshot");
+    } finally {
+      setPinInProgress(null);
+      fetchSnapshots();
+    }
+  };
+
+  const handleQuarantineSnapshot = async (id: string, quarantined: boolean) => {
+    setPinInProgress(id);
+    try {
+      const result = await quarantineSnapshot(id, quarantined);
+      if (result.error) setError(result.error);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update snapshot");
+    } finally {
+      setPinInProgress(null);
+      fetchSnapshots();
+    }
+  };
+
+  const handleRotateKey = async () => {
+    if (!confirm("Re-encrypt all snapshots with a new data key? This can take a while.")) return;
+    setRotateInProgress(true);
+    try {
+      const result = await rotateBackupKey();
+      if (result.error) {
+        setError(result.error);
+      } else {
+        setError(null);
+        alert(`Re-encrypted ${result.snapshots} snapshots with data key ${result.keyId}.`);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to rotate the backup key");
+    } finally {
+      setRotateInProgress(false);
+      fetchSnapshots();
     }
   };
 
@@ -254,6 +608,12 @@ export default function AdminPage() {
     }
   };
 
+  const latestSample = resources?.samples.at(-1);
+  const resourceHistory = resources
+    ? resources.samples.map((sample) => resourcePercents(sample, resources.limits))
+    : [];
+  const latestPercents = resourceHistory.at(-1);
+
   return (
     <div className="devices-page">
       {error && (
@@ -298,12 +658,19 @@ export default function AdminPage() {
               <span className="last-sync">
                 Last backup: {formatSyncTime(storageStatus.lastSync)}
               </span>
+              {lastSyncResult && (
+                <span className="last-sync">
+                  {lastSyncResult.added} added · {lastSyncResult.changed} changed ·{" "}
+                  {lastSyncResult.deleted} deleted ·{" "}
+                  {formatBytes(lastSyncResult.bytesTransferred ?? 0)} uploaded
+                </span>
+              )}
             </div>
             <button
               type="button"
               className="btn btn-secondary btn-sm"
               onClick={handleSync}
-              disabled={syncInProgress}
+              disabled={syncInProgress || !canOperate}
             >
               {syncInProgress && <ButtonSpinner />}
               {syncInProgress ? "Syncing..." : "Backup Now"}
@@ -312,6 +679,149 @@ export default function AdminPage() {
         </div>
       )}
 
+      {storageStatus?.configured && snapshots && (
+        <section className="devices-section snapshots-section">
+          <div className="section-header">
+            <h2>Backup Snapshots</h2>
+            {storageStatus.encrypted && isOwner && (
+              <button
+                type="button"
+                className="btn btn-secondary btn-sm"
+                onClick={handleRotateKey}
+                disabled={rotateInProgress}
+              >
+                {rotateInProgress && <ButtonSpinner />}
+                {rotateInProgress ? "Rotating..." : "Rotate Key"}
+              </button>
+            )}
+          </div>
+          {snapshots.snapshots.length === 0 ? (
+            <div className="empty-state">
+              <p>No snapshots yet</p>
+            </div>
+          ) : (
+            <ul className="snapshot-list">
+              {snapshots.snapshots.map((snapshot) => (
+                <li key={snapshot.id} className={snapshot.pinned ? "snapshot-pinned" : ""}>
+                  <span className="snapshot-time" title={snapshot.id}>
+                    {formatSyncTime(snapshot.createdAt)}
+                  </span>
+                  <span className="snapshot-meta">
+                    {snapshot.fileCount} files · {formatBytes(snapshot.totalBytes)}
+                    {snapshot.keyId && " · encrypted"}
+                    {snapshot.quarantined && (
+                      <span className="snapshot-quarantined" title={snapshot.quarantined}>
+                        {" "}
+                        · quarantined
+                      </span>
+                    )}
+                  </span>
+                  <button
+                    type="button"
+                    className="btn btn-secondary btn-sm"
+                    onClick={() => handleQuarantineSnapshot(snapshot.id, !snapshot.quarantined)}
+                    disabled={pinInProgress !== null || !canOperate}
+                  >
+                    {snapshot.quarantined ? "Release" : "Quarantine"}
+                  </button>
+                  <button
+                    type="button"
+                    className="btn btn-secondary btn-sm"
+                    onClick={() => handlePinSnapshot(snapshot.id, !snapshot.pinned)}
+                    disabled={pinInProgress !== null || !canOperate}
+                  >
+                    {pinInProgress === snapshot.id && <ButtonSpinner />}
+                    {snapshot.pinned ? "Unpin" : "Pin"}
+                  </button>
+                  <button
+                    type="button"
+                    className="btn btn-secondary btn-sm"
+                    onClick={() => openRestore(restoreTarget === snapshot.id ? null : snapshot.id)}
+                    disabled={restoreInProgress || !canOperate}
+                  >
+                    {restoreTarget === snapshot.id ? "Cancel" : "Restore..."}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+          {restoreTarget && (
+            <div className="restore-panel">
+              <h3>Restore snapshot {restoreTarget}</h3>
+              <div className="restore-areas">
+                {BACKUP_AREAS.map((area) => (
+                  <label key={area}>
+                    <input
+                      type="checkbox"
+                      checked={restoreAreas.includes(area)}
+                      onChange={() => toggleRestoreArea(area)}
+                      disabled={restoreInProgress}
+                    />
+                    {BACKUP_AREA_LABELS[area]}
+                  </label>
+                ))}
+              </div>
+              {restorePreview && (
+                <div className="restore-preview">
+                  <p>
+                    {restorePreview.added?.length ?? 0} added ·{" "}
+                    {restorePreview.changed?.length ?? 0} changed ·{" "}
+                    {restorePreview.removed?.length ?? 0} deleted · {restorePreview.unchanged ?? 0}{" "}
+                    unchanged
+                  </p>
+                  <ul className="restore-changes">
+                    {(
+                      [
+                        ["added", restorePreview.added],
+                        ["changed", restorePreview.changed],
+                        ["removed", restorePreview.removed],
+                      ] as const
+                    ).flatMap(([change, files]) =>
+                      (files ?? []).slice(0, RESTORE_PREVIEW_FILES).map((file) => (
+                        <li
+                          key={`${change}:${file.area}:${file.path}`}
+                          className={`restore-${change}`}
+                        >
+                          <span className="restore-change">{change}</span>
+                          <code>
+                            {file.area}/{file.path}
+                          </code>
+                        </li>
+                      )),
+                    )}
+                  </ul>
+                </div>
+              )}
+              <div className="restore-actions">
+                <button
+                  type="button"
+                  className="btn btn-secondary btn-sm"
+                  onClick={handlePreviewRestore}
+                  disabled={restoreInProgress || restoreAreas.length === 0}
+                >
+                  {restoreInProgress && !restorePreview && <ButtonSpinner />}
+                  Preview changes
+                </button>
+                <button
+                  type="button"
+                  className="btn btn-danger btn-sm"
+                  onClick={handleRestore}
+                  disabled={restoreInProgress || !restorePreview}
+                >
+                  {restoreInProgress && restorePreview && <ButtonSpinner />}
+                  Restore
+                </button>
+              </div>
+            </div>
+          )}
+          <p className="hint">
+            Every backup is a snapshot. Keeping the newest {snapshots.retention.latest}, one per
+            hour for {snapshots.retention.hourly} hours and one per day for{" "}
+            {snapshots.retention.daily} days; pinned snapshots are kept until unpinned.
+          </p>
+        </section>
+      )}
+
       <section className="devices-section gateway-section">
         <div className="section-header">
           <h2>Gateway Controls</h2>
@@ -319,18 +829,193 @@ export default function AdminPage() {
             type="button"
             className="btn btn-danger"
             onClick={handleRestartGateway}
-            disabled={restartInProgress}
+            disabled={restartInProgress || !canOperate}
           >
             {restartInProgress && <ButtonSpinner />}
             {restartInProgress ? "Restarting..." : "Restart Gateway"}
           </button>
         </div>
+        {gatewayStatus && (
+          <div className="gateway-status">
+            <span className={`gateway-phase gateway-phase-${gatewayStatus.phase}`}>
+              {GATEWAY_PHASE_LABELS[gatewayStatus.phase]}
+            </span>
+            <span className="gateway-meta">
+              Restarts: {gatewayStatus.restarts}
+              {gatewayStatus.readyAt && (
+                <> · Ready since {formatTimestamp(gatewayStatus.readyAt)}</>
+              )}
+              {gatewayStatus.phase === "crashed" && gatewayStatus.nextAttemptAt && (
+                <> · Next attempt {formatTimestamp(gatewayStatus.nextAttemptAt)}</>
+              )}
+            </span>
+            {gatewayStatus.lastError && (
+              <pre className="gateway-error">{gatewayStatus.lastError}</pre>
+            )}
+          </div>
+        )}
+        {incidents.length > 0 && (
+          <div className="gateway-incidents">
+            <h3>Watchdog Incidents</h3>
+            <ul>
+              {incidents.slice(0, 10).map((incident) => (
+                <li key={incident.id}>
+                  <span className="incident-kind">{INCIDENT_LABELS[incident.kind]}</span>
+                  <span className={`incident-action incident-action-${incident.action}`}>
+                    {INCIDENT_ACTION_LABELS[incident.action]}
+                  </span>
+                  <span className="incident-time" title={formatTimestamp(incident.at)}>
+                    {formatTimeAgo(incident.at)}
+                  </span>
+                  <span className="incident-message">{incident.message}</span>
+                  {incident.error && <pre className="gateway-error">{incident.error}</pre>}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
         <p className="hint">
           Restart the gateway to apply configuration changes or recover from errors. All connected
-          clients will be temporarily disconnected.
+          clients will be temporarily disconnected. A gateway that keeps crashing is not started
+          again until it is restarted here.
         </p>
       </section>
 
+      {sleepStatus && (
+        <section className="devices-section sleep-section">
+          <div className="section-header">
+            <h2>Sleep Schedule</h2>
+          </div>
+          <div className="gateway-status">
+            <span className={`sleep-mode sleep-mode-${sleepStatus.policy.mode}`}>
+              {SLEEP_MODE_LABELS[sleepStatus.policy.mode]}
+            </span>
+            <span className="gateway-meta">
+              {sleepStatus.schedule
+                ? `Active ${formatSchedule(sleepStatus.schedule)}`
+                : "No schedule"}
+              {sleepStatus.policy.sleepAfter && (
+                <> · Sleeps after {sleepStatus.policy.sleepAfter} idle</>
+              )}
+              {sleepStatus.awakeUntil && (
+                <> · Staying awake until {formatTimestamp(sleepStatus.awakeUntil)}</>
+              )}
+            </span>
+          </div>
+          <div className="token-form">
+            <input
+              type="number"
+              className="token-input sleep-hours-input"
+              min={1}
+              max={72}
+              value={awakeHours}
+              onChange={(e) => setAwakeHours(e.target.value)}
+              disabled={awakeInProgress || !canOperate}
+            />
+            <button
+              type="button"
+              className="btn btn-primary"
+              onClick={handleStayAwake}
+              disabled={awakeInProgress || !canOperate || !(Number(awakeHours) > 0)}
+            >
+              {awakeInProgress && <ButtonSpinner />}
+              Stay awake for {awakeHours || 0}h
+            </button>
+            {sleepStatus.awakeUntil && (
+              <button
+                type="button"
+                className="btn btn-secondary"
+                onClick={handleCancelStayAwake}
+                disabled={awakeInProgress || !canOperate}
+              >
+                Back to schedule
+              </button>
+            )}
+          </div>
+          <p className="hint">
+            Set active hours with SANDBOX_SCHEDULE. Keeping the container awake overrides the
+            schedule, e.g. for a long-running task outside active hours.
+          </p>
+        </section>
+      )}
+
+      {resources && (
+        <section className="devices-section resources-section">
+          <div className="section-header">
+            <h2>Resources</h2>
+            <button
+              type="button"
+              className="btn btn-secondary btn-sm"
+              onClick={handleSampleResources}
+              disabled={sampleInProgress || !canOperate}
+            >
+              {sampleInProgress && <ButtonSpinner />}
+              {sampleInProgress ? "Sampling..." : "Sample Now"}
+            </button>
+          </div>
+          {resources && latestSample && latestPercents ? (
+            <>
+              {latestSample.alerts.length > 0 && (
+                <ul className="resource-alerts">
+                  {latestSample.alerts.map((alert) => (
+                    <li key={alert.resource}>{alert.message}</li>
+                  ))}
+                </ul>
+              )}
+              <div className="resource-meters">
+                {(["cpu", "memory", "disk"] as const).map((kind) => {
+                  const percent = latestPercents[kind];
+                  const alerting = percent !== null && percent >= resources.thresholds[kind];
+                  return (
+                    <div key={kind} className="resource-meter">
+                      <span className="resource-label">{RESOURCE_LABELS[kind]}</span>
+                      <div className="resource-bar">
+                        <div
+                          className={`resource-bar-fill ${alerting ? "resource-bar-alert" : ""}`}
+                          style={{ width: `${Math.min(percent ?? 0, 100)}%` }}
+                        />
+                      </div>
+                      <span className="resource-value">
+                        {percent === null ? "—" : `${Math.round(percent)}%`}
+                      </span>
+                      <Sparkline
+                        values={resourceHistory.flatMap((h) => (h[kind] === null ? [] : [h[kind]]))}
+                      />
+                    </div>
+                  );
+                })}
+              </div>
+              <p className="gateway-meta">
+                {formatBytes(latestSample.memoryUsedBytes)} of{" "}
+                {formatBytes(resources.limits.memoryBytes)} memory
+                {latestSample.gatewayRssBytes !== null && (
+                  <> · Gateway {formatBytes(latestSample.gatewayRssBytes)}</>
+                )}
+                {latestSample.rootBytes !== null && (
+                  <> · /root {formatBytes(latestSample.rootBytes)}</>
+                )}
+                {latestSample.dataBytes !== null && (
+                  <> · R2 mount {formatBytes(latestSample.dataBytes)}</>
+                )}
+                {" · "}
+                <span title={formatTimestamp(latestSample.at)}>
+                  Sampled {formatTimeAgo(latestSample.at)}
+                </span>
+              </p>
+            </>
+          ) : (
+            <div className="empty-state">
+              <p>No samples yet</p>
+            </div>
+          )}
+          <p className="hint">
+            Sampled every 5 minutes while the container is awake, against the limits of the{" "}
+            {resources.instanceType} instance. Crossing an alert threshold is recorded as an
+            incident under Gateway Controls.
+          </p>
+        </section>
+      )}
+
       <section className="devices-section providers-section">
         <div className="section-header">
           <h2>Model Providers</h2>
@@ -363,15 +1048,17 @@ export default function AdminPage() {
                         <span className="provider-preview">{provider.tokenPreview}</span>
                       )}
                     </div>
-                    <button
-                      type="button"
-                      className="btn btn-danger btn-sm"
-                      onClick={() => handleDeleteProvider(provider.id)}
-                      disabled={deletingProvider === provider.id}
-                    >
-                      {deletingProvider === provider.id && <ButtonSpinner />}
-                      {deletingProvider === provider.id ? "Removing..." : "Remove"}
-                    </button>
+                    {isOwner && (
+                      <button
+                        type="button"
+                        className="btn btn-danger btn-sm"
+                        onClick={() => handleDeleteProvider(provider.id)}
+                        disabled={deletingProvider === provider.id}
+                      >
+                        {deletingProvider === provider.id && <ButtonSpinner />}
+                        {deletingProvider === provider.id ? "Removing..." : "Remove"}
+                      </button>
+                    )}
                   </div>
                 ))}
               </div>
@@ -381,31 +1068,36 @@ export default function AdminPage() {
               </div>
             )}
 
-            <div className="token-form">
-              <input
-                type="text"
-                className="token-input"
-                placeholder="Paste setup token from 'claude setup-token'"
-                value={setupToken}
-                onChange={(e) => setSetupToken(e.target.value)}
-                onKeyDown={(e) => {
-                  if (e.key === "Enter" && setupToken.trim()) handleSaveSetupToken();
-                }}
-                disabled={setupTokenSaving}
-              />
-              <button
-                type="button"
-                className="btn btn-primary"
-                onClick={handleSaveSetupToken}
-                disabled={setupTokenSaving || !setupToken.trim()}
-              >
-                {setupTokenSaving && <ButtonSpinner />}
-                {setupTokenSaving ? "Saving..." : "Save Token"}
-              </button>
-            </div>
-            <p className="token-form-hint">
-              Generate a setup token by running <code>claude setup-token</code> in your terminal.
-            </p>
+            {isOwner && (
+              <>
+                <div className="token-form">
+                  <input
+                    type="text"
+                    className="token-input"
+                    placeholder="Paste setup token from 'claude setup-token'"
+                    value={setupToken}
+                    onChange={(e) => setSetupToken(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter" && setupToken.trim()) handleSaveSetupToken();
+                    }}
+                    disabled={setupTokenSaving}
+                  />
+                  <button
+                    type="button"
+                    className="btn btn-primary"
+                    onClick={handleSaveSetupToken}
+                    disabled={setupTokenSaving || !setupToken.trim()}
+                  >
+                    {setupTokenSaving && <ButtonSpinner />}
+                    {setupTokenSaving ? "Saving..." : "Save Token"}
+                  </button>
+                </div>
+                <p className="token-form-hint">
+                  Generate a setup token by running <code>claude setup-token</code> in your
+                  terminal.
+                </p>
+              </>
+            )}
           </>
         )}
       </section>
@@ -426,7 +1118,7 @@ export default function AdminPage() {
                     type="button"
                     className="btn btn-primary"
                     onClick={handleApproveAll}
-                    disabled={actionInProgress !== null}
+                    disabled={actionInProgress !== null || !canOperate}
                   >
                     {actionInProgress === "all" && <ButtonSpinner />}
                     {actionInProgress === "all"
@@ -505,7 +1197,7 @@ export default function AdminPage() {
                         type="button"
                         className="btn btn-success"
                         onClick={() => handleApprove(device.requestId)}
-                        disabled={actionInProgress !== null}
+                        disabled={actionInProgress !== null || !canOperate}
                       >
                         {actionInProgress === device.requestId && <ButtonSpinner />}
                         {actionInProgress === device.requestId ? "Approving..." : "Approve"}
@@ -530,7 +1222,7 @@ export default function AdminPage() {
                 style={{ maxWidth: 140, flexShrink: 0 }}
                 value={pairingChannel}
                 onChange={(e) => setPairingChannel(e.target.value)}
-                disabled={pairingInProgress}
+                disabled={pairingInProgress || !canOperate}
               >
                 <option value="telegram">Telegram</option>
                 <option value="discord">Discord</option>
@@ -544,13 +1236,13 @@ export default function AdminPage() {
                 onKeyDown={(e) => {
                   if (e.key === "Enter" && pairingCode.trim()) handleApprovePairing();
                 }}
-                disabled={pairingInProgress}
+                disabled={pairingInProgress || !canOperate}
               />
               <button
                 type="button"
                 className="btn btn-primary"
                 onClick={handleApprovePairing}
-                disabled={pairingInProgress || !pairingCode.trim()}
+                disabled={pairingInProgress || !canOperate || !pairingCode.trim()}
               >
                 {pairingInProgress && <ButtonSpinner />}
                 {pairingInProgress ? "Approving..." : "Approve"}
@@ -0,0 +1,278 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  type ApiKey,
+  type ApiKeyScope,
+  AuthError,
+  createApiKey,
+  listApiKeys,
+  revokeApiKey,
+} from "../api";
+import "./AdminPage.css";
+import "./ApiKeysPage.css";
+
+const SCOPE_DESCRIPTIONS: Record<ApiKeyScope, string> = {
+  agent: "Run agent turns (POST /api/v1/agent)",
+  sessions: "List sessions (GET /api/v1/sessions)",
+  "chat-completions": "OpenAI-compatible API (POST /v1/chat/completions)",
+  "admin-read": "Read-only admin API (GET /api/admin/*), without audit recordings",
+  "audit-read": "Audit recordings (GET /api/admin/audit/*)",
+};
+
+const EXPIRY_OPTIONS = [
+  { label: "30 days", days: 30 },
+  { label: "90 days", days: 90 },
+  { label: "1 year", days: 365 },
+  { label: "Never", days: 0 },
+];
+
+// Small inline spinner for buttons
+function ButtonSpinner() {
+  return <span className="btn-spinner" />;
+}
+
+function formatDate(iso: string | null, fallback: string) {
+  if (!iso) return fallback;
+  return new Date(iso).toLocaleString();
+}
+
+function keyStatus(key: ApiKey): "active" | "expired" | "revoked" {
+  if (key.revokedAt) return "revoked";
+  if (key.expiresAt && Date.parse(key.expiresAt) <= Date.now()) return "expired";
+  return "active";
+}
+
+export default function ApiKeysPage() {
+  const [keys, setKeys] = useState<ApiKey[]>([]);
+  const [scopes, setScopes] = useState<ApiKeyScope[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [selectedScopes, setSelectedScopes] = useState<ApiKeyScope[]>([]);
+  const [expiresInDays, setExpiresInDays] = useState(90);
+  const [creating, setCreating] = useState(false);
+  const [newToken, setNewToken] = useState<string | null>(null);
+  const [revoking, setRevoking] = useState<string | null>(null);
+
+  const fetchKeys = useCallback(async () => {
+    try {
+      setError(null);
+      const data = await listApiKeys();
+      setKeys(data.keys);
+      setScopes(data.scopes);
+    } catch (err) {
+      if (err instanceof AuthError) {
+        setError("Authentication required. Please log in via Cloudflare Access.");
+      } else {
+        setError(err instanceof Error ? err.message : "Failed to fetch API keys");
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchKeys();
+  }, [fetchKeys]);
+
+  const toggleScope = (scope: ApiKeyScope) => {
+    setSelectedScopes((prev) =>
+      prev.includes(scope) ? prev.filter((s) => s !== scope) : [...prev, scope],
+    );
+  };
+
+  const handleCreate = async () => {
+    if (!name.trim() || selectedScopes.length === 0) return;
+
+    setCreating(true);
+    try {
+      const result = await createApiKey(
+        name.trim(),
+        selectedScopes,
+        expiresInDays > 0 ? expiresInDays : undefined,
+      );
+      setNewToken(result.token);
+      setName("");
+      setSelectedScopes([]);
+      setError(null);
+      await fetchKeys();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to create API key");
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevoke = async (key: ApiKey) => {
+    if (!confirm(`Revoke API key "${key.name}"? Clients using it will stop working immediately.`)) {
+      return;
+    }
+
+    setRevoking(key.id);
+    try {
+      await revokeApiKey(key.id);
+      setError(null);
+      await fetchKeys();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to revoke API key");
+    } finally {
+      setRevoking(null);
+    }
+  };
+
+  return (
+    <div className="devices-page">
+      {error && (
+        <div className="error-banner">
+          <span>{error}</span>
+          <button type="button" onClick={() => setError(null)} className="dismiss-btn">
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      {newToken && (
+        <div className="success-banner new-key-banner">
+          <strong>Copy your new API key now. It won't be shown again.</strong>
+          <code className="new-key-token">{newToken}</code>
+          <div className="header-actions">
+            <button
+              type="button"
+              className="btn btn-secondary btn-sm"
+              onClick={() => navigator.clipboard.writeText(newToken)}
+            >
+              Copy
+            </button>
+            <button
+              type="button"
+              className="btn btn-secondary btn-sm"
+              onClick={() => setNewToken(null)}
+            >
+              Done
+            </button>
+          </div>
+        </div>
+      )}
+
+      <section className="devices-section providers-section">
+        <div className="section-header">
+          <h2>Create API Key</h2>
+        </div>
+
+        <div className="token-form">
+          <input
+            type="text"
+            className="token-input"
+            placeholder="Key name, e.g. ci-agent"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            disabled={creating}
+          />
+          <select
+            className="token-input expiry-select"
+            value={expiresInDays}
+            onChange={(e) => setExpiresInDays(Number(e.target.value))}
+            disabled={creating}
+          >
+            {EXPIRY_OPTIONS.map((option) => (
+              <option key={option.days} value={option.days}>
+                Expires: {option.label}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            className="btn btn-primary"
+            onClick={handleCreate}
+            disabled={creating || !name.trim() || selectedScopes.length === 0}
+          >
+            {creating && <ButtonSpinner />}
+            {creating ? "Creating..." : "Create Key"}
+          </button>
+        </div>
+
+        <div className="scope-list">
+          {scopes.map((scope) => (
+            <label key={scope} className="scope-option">
+              <input
+                type="checkbox"
+                checked={selectedScopes.includes(scope)}
+                onChange={() => toggleScope(scope)}
+                disabled={creating}
+              />
+              <span className="provider-badge">{scope}</span>
+              <span className="scope-description">{SCOPE_DESCRIPTIONS[scope]}</span>
+            </label>
+          ))}
+        </div>
+        <p className="token-form-hint">
+          Send the key as <code>Authorization: Bearer tck_...</code> or <code>X-API-Key</code>.
+        </p>
+      </section>
+
+      <section className="devices-section">
+        <div className="section-header">
+          <h2>API Keys</h2>
+          <button
+            type="button"
+            className="btn btn-secondary"
+            onClick={fetchKeys}
+            disabled={loading}
+          >
+            Refresh
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="loading" style={{ minHeight: 100 }}>
+            <div className="spinner" style={{ width: 24, height: 24 }} />
+          </div>
+        ) : keys.length === 0 ? (
+          <div className="empty-state">
+            <p>No API keys yet</p>
+          </div>
+        ) : (
+          <div className="providers-list">
+            {keys.map((key) => {
+              const status = keyStatus(key);
+              return (
+                <div key={key.id} className={`provider-card api-key-card ${status}`}>
+                  <div className="provider-info">
+                    <span className="provider-name">
+                      {key.name}
+                      <span className={`device-badge api-key-status ${status}`}>{status}</span>
+                    </span>
+                    <span className="provider-preview">tck_{key.id}.••••••••</span>
+                    <span className="api-key-scopes">
+                      {key.scopes.map((scope) => (
+                        <span key={scope} className="provider-badge">
+                          {scope}
+                        </span>
+                      ))}
+                    </span>
+                    <span className="api-key-meta">
+                      Created {formatDate(key.createdAt, "")}
+                      {key.createdBy ? ` by ${key.createdBy}` : ""} · Expires{" "}
+                      {formatDate(key.expiresAt, "never")} · Last used{" "}
+                      {formatDate(key.lastUsedAt, "never")}
+                    </span>
+                  </div>
+                  {status !== "revoked" && (
+                    <button
+                      type="button"
+                      className="btn btn-danger btn-sm"
+                      onClick={() => handleRevoke(key)}
+                      disabled={revoking === key.id}
+                    >
+                      {revoking === key.id && <ButtonSpinner />}
+                      {revoking === key.id ? "Revoking..." : "Revoke"}
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
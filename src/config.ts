@@ -5,9 +5,19 @@
 /** Port that the OpenClaw gateway listens on inside the container */
 export const GATEWAY_PORT = 18789;
 
+/**
+ * Port a replacement gateway boots on during a zero-downtime reload, while the
+ * current one keeps serving. The two alternate after each reload. Far enough
+ * from GATEWAY_PORT that the ports OpenClaw derives from it don't collide.
+ */
+export const GATEWAY_STANDBY_PORT = 19789;
+
 /** Maximum time to wait for OpenClaw to start (3 minutes) */
 export const STARTUP_TIMEOUT_MS = 180_000;
 
+/** Upper bound for the configurable readiness check that runs once the port is open */
+export const MAX_READY_TIMEOUT_MS = 300_000;
+
 /** Mount path for R2 persistent storage inside the container */
 export const R2_MOUNT_PATH = "/data/openclaw";
 
@@ -0,0 +1,102 @@
+import type { Sandbox } from "@cloudflare/sandbox";
+import { describe, expect, it } from "vitest";
+import { createMockBucket, createMockEnv } from "../test-utils";
+import {
+  BackupKeyring,
+  copyCommand,
+  decryptBytes,
+  decryptText,
+  encryptBytes,
+  encryptText,
+} from "./backup-crypto";
+import { BucketSnapshotStore } from "./snapshot-store";
+
+function createStore() {
+  const bucket = createMockBucket();
+  return { bucket, store: new BucketSnapshotStore({} as Sandbox, bucket) };
+}
+
+describe("encryptBytes and decryptBytes", () => {
+  it("round-trips in openssl's salted format", async () => {
+    const data = new Uint8Array(100).map((_, i) => i);
+
+    const sealed = await encryptBytes(data, "passphrase");
+
+    expect(new TextDecoder().decode(sealed.slice(0, 8))).toBe("Salted__");
+    // Salt, then the data padded to whole blocks
+    expect(sealed.byteLength).toBe(16 + 112);
+    expect([...(await decryptBytes(sealed, "passphrase"))]).toEqual([...data]);
+  });
+
+  it("rejects a wrong passphrase and files that aren't encrypted", async () => {
+    const sealed = await encryptBytes(new TextEncoder().encode("secret"), "passphrase");
+    await expect(decryptBytes(sealed, "wrong")).rejects.toThrow();
+    await expect(decryptBytes(new Uint8Array(40), "passphrase")).rejects.toThrow(
+      "Not an encrypted backup file",
+    );
+  });
+
+  it("encrypts text to single-line base64", async () => {
+    const sealed = await encryptText("config\tfile\n".repeat(100), "passphrase");
+    expect(sealed).toMatch(/^[A-Za-z0-9+/]+=*$/);
+    expect(await decryptText(`${sealed}\n`, "passphrase")).toBe("config\tfile\n".repeat(100));
+  });
+});
+
+describe("copyCommand", () => {
+  it("copies, or encrypts and decrypts with the data key from the environment", () => {
+    expect(copyCommand('"$src"', "/tmp/a")).toBe('cp "$src" /tmp/a');
+    expect(copyCommand('"$src"', "/tmp/a", "encrypt")).toBe(
+      'openssl enc -aes-256-cbc -pbkdf2 -iter 1000 -md sha256 -pass env:BACKUP_DATA_KEY -in "$src" -out /tmp/a',
+    );
+    expect(copyCommand("/tmp/a", '"$dest"', "decrypt")).toContain(
+      "sha256 -d -pass env:BACKUP_DATA_KEY",
+    );
+  });
+});
+
+describe("BackupKeyring", () => {
+  it("is only created with BACKUP_ENCRYPTION_KEY", () => {
+    const { store } = createStore();
+    expect(BackupKeyring.fromEnv(store, createMockEnv())).toBeNull();
+    expect(
+      BackupKeyring.fromEnv(store, createMockEnv({ BACKUP_ENCRYPTION_KEY: "passphrase" })),
+    ).toBeInstanceOf(BackupKeyring);
+  });
+
+  it("creates the first data key and stores it encrypted", async () => {
+    const { bucket, store } = createStore();
+    const keyring = new BackupKeyring(store, ["passphrase"]);
+
+    const key = await keyring.current();
+
+    expect(key.id).toMatch(/^[0-9a-f]{12}$/);
+    expect(key.secret).toMatch(/^[0-9a-f]{64}$/);
+    expect(await store.readText("keys/current")).toBe(key.id);
+    const wrapped = (await store.readText(`keys/${key.id}.key`)) ?? "";
+    expect(wrapped).not.toContain(key.secret);
+    expect(await decryptText(wrapped, "passphrase")).toBe(key.secret);
+    expect(bucket.objects.size).toBe(2);
+    expect(await new BackupKeyring(store, ["passphrase"]).current()).toEqual(key);
+  });
+
+  it("unlocks data keys with the previous passphrase during a rotation", async () => {
+    const { store } = createStore();
+    const old = await new BackupKeyring(store, ["old"]).current();
+
+    const keyring = new BackupKeyring(store, ["new", "old"]);
+    expect(await keyring.get(old.id)).toEqual(old);
+
+    // New data keys are stored with the new passphrase
+    const key = await keyring.rotate();
+    expect(key.id).not.toBe(old.id);
+    expect(await new BackupKeyring(store, ["new"]).current()).toEqual(key);
+
+    await expect(new BackupKeyring(store, ["new"]).get(old.id)).rejects.toThrow(
+      `Data key ${old.id} can't be decrypted with BACKUP_ENCRYPTION_KEY`,
+    );
+    await expect(keyring.get("000000000000")).rejects.toThrow(
+      "Data key 000000000000 is missing in R2",
+    );
+  });
+});
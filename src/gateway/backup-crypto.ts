@@ -0,0 +1,184 @@
+import { sha256Hex, toHex } from "../auth/crypto";
+import type { OpenClawEnv } from "../types";
+import type { SnapshotStore } from "./snapshot-store";
+
+/**
+ * Backups are encrypted with data keys, which are stored in R2 encrypted with
+ * BACKUP_ENCRYPTION_KEY (envelope encryption). Everything encrypted uses
+ * openssl's `enc` format, so the container (openssl) and the Worker
+ * (WebCrypto) can both read what the other wrote.
+ *
+ * The passphrases are random keys rather than passwords, so few PBKDF2
+ * iterations are enough, and cheap enough to run once per file.
+ */
+export const OPENSSL_ENC = "openssl enc -aes-256-cbc -pbkdf2 -iter 1000 -md sha256";
+const PBKDF2_ITERATIONS = 1000;
+const SALT_HEADER = new TextEncoder().encode("Salted__");
+
+/** Environment variable holding the data key for container commands */
+export const DATA_KEY_ENV = "BACKUP_DATA_KEY";
+
+/** The data key currently used for new snapshots */
+const CURRENT_KEY = "keys/current";
+
+/**
+ * A data key. Its ID names the objects and manifests it encrypted.
+ */
+export interface DataKey {
+  id: string;
+  /** Passphrase for openssl and encryptBytes(), as 64 hex characters */
+  secret: string;
+}
+
+export function dataKeyPath(id: string): string {
+  return `keys/${id}.key`;
+}
+
+/**
+ * A shell command copying `src` to `dest`, encrypting or decrypting with the
+ * data key in $BACKUP_DATA_KEY. Paths are inserted as given, so quote them.
+ */
+export function copyCommand(src: string, dest: string, crypt?: "encrypt" | "decrypt"): string {
+  if (!crypt) return `cp ${src} ${dest}`;
+  const decrypt = crypt === "decrypt" ? " -d" : "";
+  return `${OPENSSL_ENC}${decrypt} -pass env:${DATA_KEY_ENV} -in ${src} -out ${dest}`;
+}
+
+export function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.byteLength; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+async function deriveKey(passphrase: string, salt: Uint8Array<ArrayBuffer>) {
+  const material = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(passphrase),
+    "PBKDF2",
+    false,
+    ["deriveBits"],
+  );
+  const bits = new Uint8Array(
+    await crypto.subtle.deriveBits(
+      { name: "PBKDF2", hash: "SHA-256", salt, iterations: PBKDF2_ITERATIONS },
+      material,
+      48 * 8,
+    ),
+  );
+  const key = await crypto.subtle.importKey("raw", bits.slice(0, 32), "AES-CBC", false, [
+    "encrypt",
+    "decrypt",
+  ]);
+  return { key, iv: bits.slice(32) };
+}
+
+/**
+ * Encrypt like `${OPENSSL_ENC} -pass pass:<passphrase>`
+ */
+export async function encryptBytes(data: Uint8Array<ArrayBuffer>, passphrase: string) {
+  const salt = crypto.getRandomValues(new Uint8Array(8));
+  const { key, iv } = await deriveKey(passphrase, salt);
+  const ciphertext = new Uint8Array(
+    await crypto.subtle.encrypt({ name: "AES-CBC", iv }, key, data),
+  );
+
+  const out = new Uint8Array(16 + ciphertext.byteLength);
+  out.set(SALT_HEADER);
+  out.set(salt, 8);
+  out.set(ciphertext, 16);
+  return out;
+}
+
+/**
+ * Decrypt like `${OPENSSL_ENC} -d -pass pass:<passphrase>`. Throws on a wrong
+ * passphrase, almost always.
+ */
+export async function decryptBytes(data: Uint8Array<ArrayBuffer>, passphrase: string) {
+  if (data.byteLength < 32 || !SALT_HEADER.every((byte, i) => data[i] === byte)) {
+    throw new Error("Not an encrypted backup file");
+  }
+  const { key, iv } = await deriveKey(passphrase, data.slice(8, 16));
+  return new Uint8Array(await crypto.subtle.decrypt({ name: "AES-CBC", iv }, key, data.slice(16)));
+}
+
+/** Text is encrypted to single-line base64, like `${OPENSSL_ENC} -a -A` */
+export async function encryptText(text: string, passphrase: string): Promise<string> {
+  return toBase64(await encryptBytes(new TextEncoder().encode(text), passphrase));
+}
+
+export async function decryptText(text: string, passphrase: string): Promise<string> {
+  const bytes = Uint8Array.from(atob(text.replace(/\s/g, "")), (c) => c.charCodeAt(0));
+  return new TextDecoder().decode(await decryptBytes(bytes, passphrase));
+}
+
+async function keyId(secret: string): Promise<string> {
+  return (await sha256Hex(secret)).slice(0, 12);
+}
+
+/**
+ * The data keys of a bucket, unlocked with BACKUP_ENCRYPTION_KEY, or during
+ * a rotation also with BACKUP_ENCRYPTION_KEY_PREVIOUS
+ */
+export class BackupKeyring {
+  private keys = new Map<string, DataKey>();
+
+  constructor(
+    private store: SnapshotStore,
+    private secrets: string[],
+  ) {}
+
+  /**
+   * The keyring for BACKUP_ENCRYPTION_KEY, or null if backups aren't encrypted
+   */
+  static fromEnv(store: SnapshotStore, env: OpenClawEnv): BackupKeyring | null {
+    if (!env.BACKUP_ENCRYPTION_KEY) return null;
+    const secrets = [env.BACKUP_ENCRYPTION_KEY, env.BACKUP_ENCRYPTION_KEY_PREVIOUS];
+    return new BackupKeyring(
+      store,
+      secrets.filter((s): s is string => !!s),
+    );
+  }
+
+  /** The data key with the given ID */
+  async get(id: string): Promise<DataKey> {
+    const cached = this.keys.get(id);
+    if (cached) return cached;
+
+    const wrapped = await this.store.readText(dataKeyPath(id));
+    if (!wrapped) throw new Error(`Data key ${id} is missing in R2`);
+    for (const secret of this.secrets) {
+      try {
+        const key = { id, secret: await decryptText(wrapped, secret) };
+        // A wrong passphrase can still happen to unpad
+        if ((await keyId(key.secret)) !== id) continue;
+        this.keys.set(id, key);
+        return key;
+      } catch {
+        // Try the next one
+      }
+    }
+    throw new Error(`Data key ${id} can't be decrypted with BACKUP_ENCRYPTION_KEY`);
+  }
+
+  /** The data key for new snapshots, created with the first one */
+  async current(): Promise<DataKey> {
+    const id = (await this.store.readText(CURRENT_KEY))?.trim();
+    return id ? this.get(id) : this.rotate();
+  }
+
+  /**
+   * Create a new data key, stored encrypted with BACKUP_ENCRYPTION_KEY, and
+   * use it for new snapshots
+   */
+  async rotate(): Promise<DataKey> {
+    const secret = toHex(crypto.getRandomValues(new Uint8Array(32)));
+    const key = { id: await keyId(secret), secret };
+    // Key before pointer, so the current key can always be read
+    await this.store.writeText(dataKeyPath(key.id), await encryptText(secret, this.secrets[0]));
+    await this.store.writeText(CURRENT_KEY, key.id);
+    this.keys.set(key.id, key);
+    return key;
+  }
+}
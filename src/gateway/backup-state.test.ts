@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { createMockStorage } from "../test-utils";
+import { BACKUP_LEASE_MS, BackupStateStore } from "./backup-state";
+import type { SyncSpec } from "./sync-spec";
+
+const NOW = Date.parse("2026-03-02T12:30:00Z");
+
+describe("BackupStateStore", () => {
+  it("lets one backup hold the lease at a time", async () => {
+    const store = new BackupStateStore(createMockStorage());
+
+    const first = await store.claim(NOW);
+    expect(first.ok).toBe(true);
+    expect(await store.claim(NOW + 1000)).toEqual({
+      ok: false,
+      expiresAt: NOW + BACKUP_LEASE_MS,
+    });
+
+    if (first.ok) await store.release(first.leaseId);
+    expect((await store.claim(NOW + 2000)).ok).toBe(true);
+  });
+
+  it("takes over an expired lease, which its holder can then no longer release", async () => {
+    const store = new BackupStateStore(createMockStorage());
+    const stale = await store.claim(NOW);
+
+    const next = await store.claim(NOW + BACKUP_LEASE_MS);
+    expect(next.ok).toBe(true);
+
+    if (stale.ok) await store.release(stale.leaseId);
+    expect((await store.claim(NOW + BACKUP_LEASE_MS + 1000)).ok).toBe(false);
+  });
+
+  it("records sync times for the rules of the spec", async () => {
+    const store = new BackupStateStore(createMockStorage());
+    const rule = { area: "workspace" as const, include: [], exclude: [], every: "5m" };
+    const spec: SyncSpec = { rules: [{ ...rule, name: "config", area: "config" }] };
+    expect(await store.getSchedule()).toEqual({ spec: null, syncedAt: {} });
+
+    await store.recordSync(spec, ["config"], NOW);
+    const wider = { rules: [...spec.rules, { ...rule, name: "memory" }] };
+    await store.recordSync(wider, ["memory"], NOW + 60_000);
+    expect(await store.getSchedule()).toEqual({
+      spec: wider,
+      syncedAt: { config: NOW, memory: NOW + 60_000 },
+    });
+
+    // Rules that were dropped from the spec are forgotten
+    await store.recordSync(spec, [], NOW + 120_000);
+    expect((await store.getSchedule()).syncedAt).toEqual({ config: NOW });
+
+    await store.recordSpec(null);
+    expect(await store.getSchedule()).toEqual({ spec: null, syncedAt: { config: NOW } });
+  });
+});
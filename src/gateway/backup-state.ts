@@ -0,0 +1,81 @@
+import type { KeyValueStorage } from "../types";
+import type { SyncSpec } from "./sync-spec";
+
+/**
+ * How long a backup lease lasts. Longer than a sync, prune or key rotation
+ * takes, so it only expires when the Worker running one died.
+ */
+export const BACKUP_LEASE_MS = 15 * 60_000;
+
+/**
+ * What the cron needs to know whether a backup is due, without touching the
+ * container (which would keep it from going to sleep)
+ */
+export interface BackupSchedule {
+  /** The sync spec as of the last backup or change, or null for the default */
+  spec: SyncSpec | null;
+  /** When each sync rule was last backed up, by name */
+  syncedAt: Record<string, number>;
+}
+
+/**
+ * Outcome of asking to run a backup. Only one sync, prune or key rotation
+ * rewrites the snapshot index at a time.
+ */
+export type BackupClaim = { ok: true; leaseId: string } | { ok: false; expiresAt: number };
+
+const LEASE_KEY = "backup:lease";
+const SCHEDULE_KEY = "backup:schedule";
+
+/**
+ * Backup lease and schedule in Durable Object storage. Each method reads and
+ * writes one key without awaiting anything else, so the Durable Object's
+ * input gate makes claims single-flight across concurrent requests.
+ */
+export class BackupStateStore {
+  constructor(private storage: KeyValueStorage) {}
+
+  /** Take the lease, unless another backup holds one that hasn't expired */
+  async claim(now = Date.now()): Promise<BackupClaim> {
+    const lease = await this.storage.get<{ id: string; expiresAt: number }>(LEASE_KEY);
+    if (lease && lease.expiresAt > now) {
+      return { ok: false, expiresAt: lease.expiresAt };
+    }
+    const id = crypto.randomUUID();
+    await this.storage.put(LEASE_KEY, { id, expiresAt: now + BACKUP_LEASE_MS });
+    return { ok: true, leaseId: id };
+  }
+
+  /** Give the lease back. A lease that has since been taken over is left alone. */
+  async release(leaseId: string): Promise<void> {
+    const lease = await this.storage.get<{ id: string; expiresAt: number }>(LEASE_KEY);
+    if (lease?.id === leaseId) {
+      await this.storage.delete(LEASE_KEY);
+    }
+  }
+
+  async getSchedule(): Promise<BackupSchedule> {
+    return (await this.storage.get<BackupSchedule>(SCHEDULE_KEY)) ?? { spec: null, syncedAt: {} };
+  }
+
+  /** Remember the spec the next backups follow; null goes back to the default */
+  async recordSpec(spec: SyncSpec | null): Promise<BackupSchedule> {
+    const schedule = { ...(await this.getSchedule()), spec };
+    await this.storage.put(SCHEDULE_KEY, schedule);
+    return schedule;
+  }
+
+  /** Record a backup of `rules` at `now`, following `spec` */
+  async recordSync(spec: SyncSpec, rules: string[], now = Date.now()): Promise<BackupSchedule> {
+    const current = await this.getSchedule();
+    const syncedAt: Record<string, number> = {};
+    // Rules the spec no longer has don't need a time
+    for (const rule of spec.rules) {
+      const at = rules.includes(rule.name) ? now : current.syncedAt[rule.name];
+      if (at !== undefined) syncedAt[rule.name] = at;
+    }
+    const schedule = { spec, syncedAt };
+    await this.storage.put(SCHEDULE_KEY, schedule);
+    return schedule;
+  }
+}
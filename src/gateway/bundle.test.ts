@@ -0,0 +1,176 @@
+import type { Sandbox } from "@cloudflare/sandbox";
+import { describe, expect, it, vi } from "vitest";
+import type { Sandbox as SupervisedSandbox } from "../sandbox";
+import { createMockEnv } from "../test-utils";
+import {
+  BUNDLE_FORMAT,
+  type BundleManifest,
+  checkBundleCompatibility,
+  compareVersions,
+  exportBundle,
+  importBundle,
+  readBundle,
+} from "./bundle";
+import { packTar } from "./tar";
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+const MANIFEST: BundleManifest = {
+  format: BUNDLE_FORMAT,
+  openclawVersion: "2026.2.6",
+  createdAt: "2026-03-02T12:30:00.000Z",
+  areas: ["config", "workspace"],
+  authProfiles: true,
+  fileCount: 2,
+  totalBytes: 7,
+};
+
+async function gzip(bytes: Uint8Array<ArrayBuffer>): Promise<Uint8Array<ArrayBuffer>> {
+  const stream = new Blob([bytes]).stream().pipeThrough(new CompressionStream("gzip"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function createBundle(manifest: object = MANIFEST, names = ["config/openclaw.json"]) {
+  return gzip(
+    packTar([
+      { name: "bundle.json", data: encode(JSON.stringify(manifest)) },
+      ...names.map((name) => ({ name, data: encode("{}") })),
+    ]),
+  );
+}
+
+/** A container with OpenClaw `version`, answering the commands bundles run */
+function createBundleSandbox(version = "2026.2.6") {
+  const ok = (stdout = "") => ({ stdout, stderr: "", exitCode: 0, success: true });
+  const exec = vi.fn(async (command: string) => {
+    if (command === "openclaw --version") return ok(`${version}\n`);
+    if (command.startsWith("echo '=== config'")) {
+      return ok(
+        [
+          "=== config",
+          "S\t2\t1.5\topenclaw.json",
+          "S\t40\t1.5\tagents/main/agent/auth-profiles.json",
+          "=== workspace",
+          "S\t5\t1.5\tMEMORY.md",
+          "=== skills",
+        ].join("\n"),
+      );
+    }
+    return ok();
+  });
+  const writeFile = vi.fn();
+  const events = [
+    { type: "metadata", isBinary: true, encoding: "base64" },
+    { type: "chunk", data: Buffer.from("bundle").toString("base64") },
+  ];
+  const readFileStream = vi.fn(async () =>
+    new Blob([events.map((event) => `data: ${JSON.stringify(event)}\n\n`).join("")]).stream(),
+  );
+  const sandbox = { exec, writeFile, readFileStream } as unknown as Sandbox;
+  return { sandbox, exec, writeFile };
+}
+
+describe("compareVersions", () => {
+  it("compares each part as a number", () => {
+    expect(compareVersions("2026.2.6", "2026.2.6")).toBe(0);
+    expect(compareVersions("2026.10.1", "2026.2.6")).toBeGreaterThan(0);
+    expect(compareVersions("2026.2", "2026.2.1")).toBeLessThan(0);
+  });
+});
+
+describe("checkBundleCompatibility", () => {
+  it("refuses bundles from a newer OpenClaw unless forced", () => {
+    const newer = { ...MANIFEST, openclawVersion: "2026.3.1" };
+    expect(checkBundleCompatibility(newer, "2026.2.6").errors).toEqual([
+      "Bundle is from OpenClaw 2026.3.1, newer than the installed 2026.2.6. Update the Dockerfile pin, or import with force",
+    ]);
+    expect(checkBundleCompatibility(newer, "2026.2.6", true)).toEqual({
+      errors: [],
+      warnings: ["Bundle is from OpenClaw 2026.3.1, newer than the installed 2026.2.6"],
+    });
+  });
+
+  it("warns about older versions, missing auth profiles and unknown formats", () => {
+    const old = { ...MANIFEST, openclawVersion: "2026.1.20", authProfiles: false };
+    expect(checkBundleCompatibility(old, "2026.2.6")).toEqual({
+      errors: [],
+      warnings: [
+        "Bundle is from OpenClaw 2026.1.20; 2026.2.6 migrates its config on start",
+        "Bundle has no auth profiles; providers need to be set up again",
+      ],
+    });
+    expect(
+      checkBundleCompatibility({ ...MANIFEST, format: BUNDLE_FORMAT + 1 }, "2026.2.6").errors,
+    ).toHaveLength(1);
+  });
+});
+
+describe("readBundle", () => {
+  it("reads the manifest and the files of each area", async () => {
+    const bundle = await createBundle(MANIFEST, ["config/openclaw.json", "workspace/MEMORY.md"]);
+    expect(await readBundle(bundle)).toEqual({
+      manifest: MANIFEST,
+      files: [
+        { area: "config", path: "openclaw.json" },
+        { area: "workspace", path: "MEMORY.md" },
+      ],
+    });
+  });
+
+  it("rejects files outside the manifest's areas", async () => {
+    await expect(
+      readBundle(await createBundle(MANIFEST, ["config/../../etc/passwd"])),
+    ).rejects.toThrow("Unexpected file in bundle: config/../../etc/passwd");
+    await expect(readBundle(await createBundle(MANIFEST, ["skills/x/SKILL.md"]))).rejects.toThrow(
+      "Unexpected file in bundle: skills/x/SKILL.md",
+    );
+  });
+
+  it("rejects archives that aren't bundles", async () => {
+    await expect(readBundle(encode("not gzip"))).rejects.toMatchObject({
+      problem: "invalid",
+      message: "Not a gzipped tar archive",
+    });
+    const noManifest = await gzip(packTar([{ name: "config/openclaw.json", data: encode("{}") }]));
+    await expect(readBundle(noManifest)).rejects.toThrow("bundle.json must come first");
+  });
+});
+
+describe("exportBundle", () => {
+  it("packs each area under its name, leaving out auth profiles if asked", async () => {
+    const { sandbox, exec, writeFile } = createBundleSandbox();
+
+    const { manifest, stream } = await exportBundle(
+      sandbox,
+      { authProfiles: false },
+      Date.parse(MANIFEST.createdAt),
+    );
+
+    expect(manifest).toEqual({ ...MANIFEST, authProfiles: false, totalBytes: 7 });
+    expect(writeFile).toHaveBeenCalledWith("/tmp/openclaw-export/config.list", "openclaw.json\0");
+    expect(writeFile).toHaveBeenCalledWith("/tmp/openclaw-export/workspace.list", "MEMORY.md\0");
+    const pack = exec.mock.calls.map(([command]) => command).find((c) => c.includes("gzip"));
+    expect(pack).toContain("-C /root/clawd --transform 's,^,workspace/,'");
+    expect(await new Response(stream).text()).toBe("bundle");
+    expect(exec).toHaveBeenLastCalledWith("rm -f /tmp/openclaw-export.tar.gz", expect.anything());
+  });
+});
+
+describe("importBundle", () => {
+  it("checks compatibility before touching the container", async () => {
+    const { sandbox, writeFile } = createBundleSandbox("2026.1.0");
+    const bundle = await createBundle();
+    const supervised = sandbox as unknown as SupervisedSandbox;
+
+    await expect(importBundle(supervised, createMockEnv(), bundle)).rejects.toMatchObject({
+      problem: "incompatible",
+    });
+    const result = await importBundle(supervised, createMockEnv(), bundle, {
+      force: true,
+      dryRun: true,
+    });
+    expect(result).toMatchObject({ installedVersion: "2026.1.0", snapshotId: null });
+    expect(result.warnings[0]).toContain("newer than the installed 2026.1.0");
+    expect(writeFile).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,391 @@
+import type { Sandbox } from "@cloudflare/sandbox";
+import type { Sandbox as SupervisedSandbox } from "../sandbox";
+import type { OpenClawEnv } from "../types";
+import { toBase64 } from "./backup-crypto";
+import { checkConfigFiles, criticalConfigPaths, describeProblems } from "./integrity";
+import { cleanupGatewayProcesses, stopGateway } from "./process";
+import { fileBytes, isBackupConfigured } from "./snapshot-store";
+import {
+  AREA_DIRS,
+  BACKUP_AREAS,
+  type BackupArea,
+  buildListCommand,
+  findConfigDir,
+  parseFileListing,
+} from "./snapshots";
+import { syncToR2 } from "./sync";
+import { unpackTar } from "./tar";
+
+/**
+ * A bundle is the assistant's state as one gzipped tar, for moving it to
+ * another deployment: bundle.json, then the files of each area under
+ * config/, workspace/ and skills/. It holds the same files as a backup.
+ */
+export const BUNDLE_FORMAT = 1;
+const MANIFEST_NAME = "bundle.json";
+
+/** Workers can't receive larger request bodies on most plans */
+export const MAX_BUNDLE_BYTES = 100 * 1024 * 1024;
+
+const EXPORT_DIR = "/tmp/openclaw-export";
+const EXPORT_PATH = "/tmp/openclaw-export.tar.gz";
+const IMPORT_DIR = "/tmp/openclaw-import";
+const IMPORT_PATH = "/tmp/openclaw-import.tar.gz";
+/** Uploaded bundles are written to the container in parts of this size */
+const IMPORT_PART_BYTES = 8 * 1024 * 1024;
+
+const TRANSFER_TIMEOUT_MS = 120_000;
+const VERSION_TIMEOUT_MS = 30_000;
+
+/**
+ * bundle.json: what a bundle holds and what wrote it
+ */
+export interface BundleManifest {
+  format: number;
+  /** OpenClaw version of the exporting container, null if it couldn't be read */
+  openclawVersion: string | null;
+  createdAt: string;
+  areas: BackupArea[];
+  /** Whether auth profiles (API keys and OAuth tokens) are included */
+  authProfiles: boolean;
+  fileCount: number;
+  totalBytes: number;
+}
+
+/**
+ * Why a bundle can't be imported
+ * - invalid: not a bundle, or one with unsafe paths or a config that doesn't parse
+ * - incompatible: written by a newer format or OpenClaw version
+ */
+export type BundleProblem = "invalid" | "incompatible";
+
+export class BundleError extends Error {
+  constructor(
+    message: string,
+    readonly problem: BundleProblem,
+  ) {
+    super(message);
+    this.name = "BundleError";
+  }
+}
+
+async function run(sandbox: Sandbox, command: string, timeout = TRANSFER_TIMEOUT_MS) {
+  const result = await sandbox.exec(command, { timeout });
+  if (result.exitCode !== 0) {
+    throw new Error(result.stderr.trim() || `exit code ${result.exitCode}`);
+  }
+  return result.stdout;
+}
+
+function isAuthProfile(path: string): boolean {
+  return path === "auth-profiles.json" || path.endsWith("/auth-profiles.json");
+}
+
+/**
+ * The installed OpenClaw version, e.g. "2026.2.6", or null if it can't be read
+ */
+export async function readOpenClawVersion(sandbox: Sandbox): Promise<string | null> {
+  try {
+    const result = await sandbox.exec("openclaw --version", { timeout: VERSION_TIMEOUT_MS });
+    return result.stdout.match(/\d+(\.\d+)+(-[\w.]+)?/)?.[0] ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Compare dotted versions numerically: negative if `a` is older than `b`
+ */
+export function compareVersions(a: string, b: string): number {
+  const parts = (version: string) => version.split(/[.-]/).map((p) => Number.parseInt(p, 10) || 0);
+  const left = parts(a);
+  const right = parts(b);
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const diff = (left[i] ?? 0) - (right[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+export interface BundleCompatibility {
+  /** Reasons the bundle can't be imported */
+  errors: string[];
+  /** Things to know that don't stop an import */
+  warnings: string[];
+}
+
+/**
+ * Check whether a bundle can be imported into a container running
+ * `installedVersion` of OpenClaw. OpenClaw migrates config from older
+ * versions when it starts, but an older OpenClaw may not understand config
+ * from a newer one, so that needs `force`.
+ */
+export function checkBundleCompatibility(
+  manifest: BundleManifest,
+  installedVersion: string | null,
+  force = false,
+): BundleCompatibility {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  if (manifest.format > BUNDLE_FORMAT) {
+    errors.push(
+      `Bundle format ${manifest.format} is newer than this deployment supports (${BUNDLE_FORMAT})`,
+    );
+  }
+
+  const exported = manifest.openclawVersion;
+  if (!exported || !installedVersion) {
+    warnings.push("The OpenClaw version of the bundle or this deployment is unknown");
+  } else if (compareVersions(exported, installedVersion) > 0) {
+    const message = `Bundle is from OpenClaw ${exported}, newer than the installed ${installedVersion}`;
+    if (force) warnings.push(message);
+    else errors.push(`${message}. Update the Dockerfile pin, or import with force`);
+  } else if (compareVersions(exported, installedVersion) < 0) {
+    warnings.push(
+      `Bundle is from OpenClaw ${exported}; ${installedVersion} migrates its config on start`,
+    );
+  }
+
+  if (!manifest.authProfiles) {
+    warnings.push("Bundle has no auth profiles; providers need to be set up again");
+  }
+  return { errors, warnings };
+}
+
+/**
+ * A bundle of the container's state, streamed as it is read from the
+ * container. Without `authProfiles`, auth-profiles.json files are left out.
+ */
+export async function exportBundle(
+  sandbox: Sandbox,
+  options: { authProfiles?: boolean } = {},
+  now = Date.now(),
+): Promise<{ manifest: BundleManifest; stream: ReadableStream<Uint8Array> }> {
+  const authProfiles = options.authProfiles !== false;
+  const configDir = await findConfigDir(sandbox);
+  const files = parseFileListing(await run(sandbox, buildListCommand(configDir))).filter(
+    (f) => authProfiles || f.area !== "config" || !isAuthProfile(f.path),
+  );
+  if (files.length === 0) throw new Error("No files to export");
+
+  const manifest: BundleManifest = {
+    format: BUNDLE_FORMAT,
+    openclawVersion: await readOpenClawVersion(sandbox),
+    createdAt: new Date(now).toISOString(),
+    areas: BACKUP_AREAS.filter((area) => files.some((f) => f.area === area)),
+    authProfiles,
+    fileCount: files.length,
+    totalBytes: files.reduce((sum, f) => sum + f.size, 0),
+  };
+
+  await run(sandbox, `rm -rf ${EXPORT_DIR} ${EXPORT_PATH} && mkdir -p ${EXPORT_DIR}`);
+  await sandbox.writeFile(`${EXPORT_DIR}/${MANIFEST_NAME}`, JSON.stringify(manifest, null, 2));
+  // One tar append per area, so each area's files get its prefix
+  const appends: string[] = [];
+  for (const area of manifest.areas) {
+    const list = `${EXPORT_DIR}/${area}.list`;
+    await sandbox.writeFile(
+      list,
+      files
+        .filter((f) => f.area === area)
+        .map((f) => `${f.path}\0`)
+        .join(""),
+    );
+    const dir = area === "config" ? configDir : AREA_DIRS[area];
+    appends.push(
+      `tar -rf ${EXPORT_DIR}.tar -C ${dir} --transform 's,^,${area}/,' --null --verbatim-files-from -T ${list}`,
+    );
+  }
+  await run(
+    sandbox,
+    [
+      `tar -cf ${EXPORT_DIR}.tar -C ${EXPORT_DIR} ${MANIFEST_NAME}`,
+      ...appends,
+      `gzip -c ${EXPORT_DIR}.tar > ${EXPORT_PATH}`,
+      `rm -rf ${EXPORT_DIR} ${EXPORT_DIR}.tar`,
+    ].join(" && "),
+  );
+
+  const cleanup = () => sandbox.exec(`rm -f ${EXPORT_PATH}`, { timeout: VERSION_TIMEOUT_MS });
+  const stream = fileBytes(await sandbox.readFileStream(EXPORT_PATH)).pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      async flush() {
+        await cleanup();
+      },
+    }),
+  );
+  return { manifest, stream };
+}
+
+/** A path inside a bundle: an area, then a relative path without `..` */
+const ENTRY_PATTERN = /^(config|workspace|skills)\/(.+)$/;
+
+function parseManifest(data: Uint8Array): BundleManifest {
+  let manifest: Partial<BundleManifest>;
+  try {
+    manifest = JSON.parse(new TextDecoder().decode(data));
+  } catch {
+    throw new BundleError(`${MANIFEST_NAME} is not valid JSON`, "invalid");
+  }
+  if (
+    typeof manifest.format !== "number" ||
+    !Array.isArray(manifest.areas) ||
+    !manifest.areas.every((area) => BACKUP_AREAS.includes(area))
+  ) {
+    throw new BundleError(`${MANIFEST_NAME} is not a bundle manifest`, "invalid");
+  }
+  return {
+    format: manifest.format,
+    openclawVersion: typeof manifest.openclawVersion === "string" ? manifest.openclawVersion : null,
+    createdAt: typeof manifest.createdAt === "string" ? manifest.createdAt : "",
+    areas: manifest.areas,
+    authProfiles: manifest.authProfiles !== false,
+    fileCount: manifest.fileCount ?? 0,
+    totalBytes: manifest.totalBytes ?? 0,
+  };
+}
+
+/**
+ * Read a bundle's manifest and check every file in it without unpacking it:
+ * each must belong to an area the manifest lists, with a path that stays
+ * inside it. Returns the manifest and the files.
+ */
+export async function readBundle(
+  bundle: Uint8Array<ArrayBuffer>,
+): Promise<{ manifest: BundleManifest; files: { area: BackupArea; path: string }[] }> {
+  const stream = new Blob([bundle]).stream().pipeThrough(new DecompressionStream("gzip"));
+  let manifest: BundleManifest | null = null;
+  const files: { area: BackupArea; path: string }[] = [];
+  try {
+    for await (const entry of unpackTar(stream)) {
+      if (!manifest) {
+        if (entry.name !== MANIFEST_NAME) break;
+        manifest = parseManifest(entry.data);
+        continue;
+      }
+      const match = entry.name.match(ENTRY_PATTERN);
+      const area = match?.[1] as BackupArea | undefined;
+      const path = match?.[2] ?? "";
+      if (!area || !manifest.areas.includes(area) || path.split("/").includes("..")) {
+        throw new BundleError(`Unexpected file in bundle: ${entry.name}`, "invalid");
+      }
+      files.push({ area, path });
+    }
+  } catch (err) {
+    if (err instanceof BundleError) throw err;
+    throw new BundleError("Not a gzipped tar archive", "invalid");
+  }
+  if (!manifest) {
+    throw new BundleError(`Not a bundle: ${MANIFEST_NAME} must come first`, "invalid");
+  }
+  return { manifest, files };
+}
+
+export interface ImportResult {
+  manifest: BundleManifest;
+  installedVersion: string | null;
+  warnings: string[];
+  /** Snapshot of the state before the import, to undo it; null if none was taken */
+  previousSnapshotId: string | null;
+  /** Snapshot of the imported state, so the next boot doesn't restore over it */
+  snapshotId: string | null;
+}
+
+/**
+ * Import a bundle into the container. With `dryRun`, only reads and checks it.
+ *
+ * Otherwise the bundle is unpacked to a staging directory and its config
+ * checked before anything is replaced. The current state is backed up first
+ * if backups are configured, and the gateway is stopped while the bundle's
+ * files are copied over the container's; files the bundle doesn't have are
+ * kept. The imported state is backed up afterwards. The caller starts the
+ * gateway again.
+ *
+ * Throws a BundleError if the bundle is invalid, or incompatible without `force`.
+ */
+export async function importBundle(
+  sandbox: SupervisedSandbox,
+  env: OpenClawEnv,
+  bundle: Uint8Array<ArrayBuffer>,
+  options: { force?: boolean; dryRun?: boolean } = {},
+): Promise<ImportResult> {
+  const { manifest, files } = await readBundle(bundle);
+  const installedVersion = await readOpenClawVersion(sandbox);
+  const { errors, warnings } = checkBundleCompatibility(manifest, installedVersion, options.force);
+  if (errors.length > 0) throw new BundleError(errors.join("; "), "incompatible");
+
+  const result: ImportResult = {
+    manifest,
+    installedVersion,
+    warnings,
+    previousSnapshotId: null,
+    snapshotId: null,
+  };
+  if (options.dryRun) return result;
+
+  await run(sandbox, `rm -rf ${IMPORT_DIR} ${IMPORT_PATH} && mkdir -p ${IMPORT_DIR}`);
+  try {
+    const parts: string[] = [];
+    for (let offset = 0; offset < bundle.byteLength; offset += IMPORT_PART_BYTES) {
+      const part = `${IMPORT_DIR}.part${String(parts.length).padStart(4, "0")}`;
+      await sandbox.writeFile(part, toBase64(bundle.subarray(offset, offset + IMPORT_PART_BYTES)), {
+        encoding: "base64",
+      });
+      parts.push(part);
+    }
+    // Links could point outside the areas, so only files are kept
+    await run(
+      sandbox,
+      `cat ${parts.join(" ")} > ${IMPORT_PATH} && rm -f ${parts.join(" ")} && ` +
+        `tar -xzf ${IMPORT_PATH} -C ${IMPORT_DIR} --no-same-owner && rm -f ${IMPORT_PATH} && ` +
+        `find ${IMPORT_DIR} ! -type f ! -type d -delete`,
+    );
+
+    const problems = await checkConfigFiles(
+      sandbox,
+      `${IMPORT_DIR}/config`,
+      criticalConfigPaths(files),
+    );
+    if (problems.length > 0) {
+      throw new BundleError(`Bundle config is broken: ${describeProblems(problems)}`, "invalid");
+    }
+
+    if (isBackupConfigured(env)) {
+      const backup = await syncToR2(sandbox, env);
+      if (!backup.success) {
+        console.error(
+          "[IMPORT] Could not back up the current state:",
+          backup.error,
+          backup.details,
+        );
+      }
+      result.previousSnapshotId = backup.snapshotId ?? null;
+    }
+
+    // The gateway writes to its config and sessions while running
+    await stopGateway(sandbox, { reset: true });
+    await cleanupGatewayProcesses(sandbox);
+    const configDir = await findConfigDir(sandbox);
+    for (const area of BACKUP_AREAS.filter((a) => files.some((f) => f.area === a))) {
+      const dir = area === "config" ? configDir : AREA_DIRS[area];
+      await run(sandbox, `mkdir -p ${dir} && cp -a ${IMPORT_DIR}/${area}/. ${dir}/`);
+    }
+  } finally {
+    await sandbox.exec(`rm -rf ${IMPORT_DIR} ${IMPORT_DIR}.part* ${IMPORT_PATH}`, {
+      timeout: VERSION_TIMEOUT_MS,
+    });
+  }
+  console.log(
+    `[IMPORT] Imported ${manifest.fileCount} files (${manifest.areas.join(", ")})`,
+    `from a bundle of ${manifest.createdAt}, OpenClaw ${manifest.openclawVersion ?? "unknown"}`,
+  );
+
+  if (isBackupConfigured(env)) {
+    const backup = await syncToR2(sandbox, env, { force: true });
+    if (!backup.success) {
+      console.error("[IMPORT] Could not back up the imported state:", backup.error, backup.details);
+    }
+    result.snapshotId = backup.snapshotId ?? null;
+  }
+  return result;
+}
@@ -144,12 +144,27 @@ describe("buildEnvVars", () => {
     expect(result.CF_ACCOUNT_ID).toBe("acct-123");
   });
 
+  it("passes backup encryption keys to container only for the mount", () => {
+    const keys = { BACKUP_ENCRYPTION_KEY: "new", BACKUP_ENCRYPTION_KEY_PREVIOUS: "old" };
+    expect(buildEnvVars(createMockEnv(keys))).toMatchObject(keys);
+
+    const result = buildEnvVars(createMockEnv({ ...keys, BACKUP_STORAGE: "binding" }));
+    expect(result.BACKUP_ENCRYPTION_KEY).toBeUndefined();
+    expect(result.BACKUP_ENCRYPTION_KEY_PREVIOUS).toBeUndefined();
+  });
+
   it("passes CLAUDE_SETUP_TOKEN to container", () => {
     const env = createMockEnv({ CLAUDE_SETUP_TOKEN: "setup-tok-123" });
     const result = buildEnvVars(env);
     expect(result.CLAUDE_SETUP_TOKEN).toBe("setup-tok-123");
   });
 
+  it("passes the gateway's path prefix as OPENCLAW_BASE_PATH", () => {
+    const env = createMockEnv({ GATEWAY_BASE_PATH: "/company" });
+    const result = buildEnvVars(env);
+    expect(result.OPENCLAW_BASE_PATH).toBe("/company");
+  });
+
   it("combines all env vars correctly", () => {
     const env = createMockEnv({
       ANTHROPIC_API_KEY: "sk-key",
@@ -1,4 +1,5 @@
 import type { OpenClawEnv } from "../types";
+import { parseBackupStorage } from "./snapshot-store";
 
 /**
  * Build environment variables to pass to the OpenClaw container process
@@ -50,6 +51,15 @@ export function buildEnvVars(env: OpenClawEnv): Record<string, string> {
   if (env.CF_ACCOUNT_ID) envVars.CF_ACCOUNT_ID = env.CF_ACCOUNT_ID;
   if (env.CDP_SECRET) envVars.CDP_SECRET = env.CDP_SECRET;
   if (env.WORKER_URL) envVars.WORKER_URL = env.WORKER_URL;
+  if (env.GATEWAY_BASE_PATH) envVars.OPENCLAW_BASE_PATH = env.GATEWAY_BASE_PATH;
+  // The startup script decrypts backups on the mount itself; through the
+  // binding, the Worker restores them
+  if (parseBackupStorage(env) === "mount") {
+    if (env.BACKUP_ENCRYPTION_KEY) envVars.BACKUP_ENCRYPTION_KEY = env.BACKUP_ENCRYPTION_KEY;
+    if (env.BACKUP_ENCRYPTION_KEY_PREVIOUS) {
+      envVars.BACKUP_ENCRYPTION_KEY_PREVIOUS = env.BACKUP_ENCRYPTION_KEY_PREVIOUS;
+    }
+  }
 
   return envVars;
 }
@@ -0,0 +1,173 @@
+import type { Process, Sandbox } from "@cloudflare/sandbox";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { GATEWAY_STANDBY_PORT } from "../config";
+import type { Sandbox as SupervisedSandbox } from "../sandbox";
+import { createMockEnv, createMockGatewaySocket, suppressConsole } from "../test-utils";
+import {
+  checkGatewayLiveness,
+  DEFAULT_HEALTH_CHECK_CONFIG,
+  healthSummaryFailures,
+  parseHealthCheckConfig,
+  probeGatewayHealth,
+  waitForGatewayReady,
+} from "./health";
+
+function gatewayAnswering(health: unknown) {
+  const gateway = createMockGatewaySocket((req) =>
+    req.method === "health" ? { ok: true, payload: health } : { ok: true, payload: {} },
+  );
+  const sandbox = { wsConnect: vi.fn().mockResolvedValue(gateway.response) };
+  return { gateway, sandbox: sandbox as unknown as Sandbox };
+}
+
+describe("parseHealthCheckConfig", () => {
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  it("uses the defaults when GATEWAY_HEALTH is unset", () => {
+    expect(parseHealthCheckConfig(createMockEnv())).toEqual(DEFAULT_HEALTH_CHECK_CONFIG);
+  });
+
+  it("reads overrides and ignores invalid entries", () => {
+    const config = parseHealthCheckConfig(
+      createMockEnv({
+        GATEWAY_HEALTH:
+          "ready-timeout=2m, probe-timeout=5s,liveness-failures=5,channels=optional,probe=udp",
+      }),
+    );
+
+    expect(config).toEqual({
+      probe: "rpc",
+      readyTimeoutMs: 120_000,
+      probeTimeoutMs: 5_000,
+      livenessFailures: 5,
+      requireChannels: false,
+    });
+  });
+});
+
+describe("healthSummaryFailures", () => {
+  it("reports a gateway that says it is unhealthy", () => {
+    expect(healthSummaryFailures({ ok: false, error: "config invalid" }).gateway).toEqual([
+      "config invalid",
+    ]);
+  });
+
+  it("reports channels that failed to log in", () => {
+    const { channels } = healthSummaryFailures({
+      ok: true,
+      channels: {
+        telegram: { configured: true, probe: { ok: false, error: "401 Unauthorized" } },
+        whatsapp: { configured: true, linked: false },
+        discord: { configured: true, probe: { ok: true } },
+        slack: { configured: false, linked: false },
+      },
+    });
+
+    expect(channels).toEqual(["telegram: 401 Unauthorized", "whatsapp: not logged in"]);
+  });
+});
+
+describe("probeGatewayHealth", () => {
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  it("passes when the gateway completes the handshake and reports healthy", async () => {
+    const { gateway, sandbox } = gatewayAnswering({ ok: true, channels: {} });
+
+    const result = await probeGatewayHealth(sandbox, createMockEnv());
+
+    expect(result).toMatchObject({ healthy: true, failures: [] });
+    expect(gateway.requests.map((r) => r.method)).toEqual(["connect", "health"]);
+    expect(gateway.socket.close).toHaveBeenCalled();
+  });
+
+  it("fails with the reason when the gateway rejects the handshake", async () => {
+    const gateway = createMockGatewaySocket(() => ({
+      ok: false,
+      error: { code: "INVALID_REQUEST", message: "unauthorized: gateway token mismatch" },
+    }));
+    const sandbox = { wsConnect: vi.fn().mockResolvedValue(gateway.response) };
+
+    const result = await probeGatewayHealth(sandbox as unknown as Sandbox, createMockEnv());
+
+    expect(result).toMatchObject({
+      healthy: false,
+      failures: ["unauthorized: gateway token mismatch"],
+    });
+  });
+
+  it("treats channel failures as warnings when channels are optional", async () => {
+    const { sandbox } = gatewayAnswering({
+      ok: true,
+      channels: { telegram: { configured: true, probe: { ok: false, error: "bad token" } } },
+    });
+
+    const result = await probeGatewayHealth(
+      sandbox,
+      createMockEnv({ GATEWAY_HEALTH: "channels=optional" }),
+    );
+
+    expect(result).toMatchObject({ healthy: true, warnings: ["telegram: bad token"] });
+  });
+});
+
+describe("waitForGatewayReady", () => {
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  const process = {
+    getLogs: vi.fn().mockResolvedValue({ stdout: "", stderr: "" }),
+  } as unknown as Process;
+
+  it("only relies on the open port with probe=tcp", async () => {
+    const sandbox = { wsConnect: vi.fn() };
+
+    await waitForGatewayReady(
+      sandbox as unknown as Sandbox,
+      process,
+      createMockEnv({ GATEWAY_HEALTH: "probe=tcp" }),
+    );
+
+    expect(sandbox.wsConnect).not.toHaveBeenCalled();
+  });
+
+  it("throws the failure reasons once the ready timeout is used up", async () => {
+    const { sandbox } = gatewayAnswering({ ok: false, error: "no model provider configured" });
+
+    await expect(
+      waitForGatewayReady(sandbox, process, createMockEnv({ GATEWAY_HEALTH: "ready-timeout=1s" })),
+    ).rejects.toThrow("Gateway failed its readiness check: no model provider configured");
+  });
+});
+
+describe("checkGatewayLiveness", () => {
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  it("reports failed probes to the supervisor with the liveness threshold", async () => {
+    const { sandbox } = gatewayAnswering({ ok: false, error: "stuck" });
+    const recordGatewayEvent = vi.fn();
+    Object.assign(sandbox, {
+      recordGatewayEvent,
+      getGatewayState: vi.fn().mockResolvedValue({ port: GATEWAY_STANDBY_PORT }),
+    });
+
+    await checkGatewayLiveness(
+      sandbox as unknown as SupervisedSandbox,
+      createMockEnv({ GATEWAY_HEALTH: "liveness-failures=2" }),
+    );
+
+    expect(recordGatewayEvent).toHaveBeenCalledWith({
+      type: "unhealthy",
+      error: "stuck",
+      threshold: 2,
+    });
+    // Probes the port the supervisor routes traffic to
+    expect(sandbox.wsConnect).toHaveBeenCalledWith(expect.anything(), GATEWAY_STANDBY_PORT);
+  });
+});
@@ -0,0 +1,223 @@
+import type { Process, Sandbox } from "@cloudflare/sandbox";
+import { GATEWAY_PORT, MAX_READY_TIMEOUT_MS } from "../config";
+import type { Sandbox as SupervisedSandbox } from "../sandbox";
+import type { OpenClawEnv } from "../types";
+import { parseDuration } from "../utils/duration";
+import { GatewayRpcClient } from "./rpc";
+
+/**
+ * Gateway health check settings
+ */
+export interface HealthCheckConfig {
+  /** rpc: connect and call `health`; tcp: only check the port is open (the old behaviour) */
+  probe: "rpc" | "tcp";
+  /** How long after the port opens a start keeps probing before it counts as failed */
+  readyTimeoutMs: number;
+  /** Timeout for a single probe */
+  probeTimeoutMs: number;
+  /** Consecutive failed liveness probes before a ready gateway is marked degraded */
+  livenessFailures: number;
+  /** Whether a channel that failed to log in keeps the gateway from being ready */
+  requireChannels: boolean;
+}
+
+export const DEFAULT_HEALTH_CHECK_CONFIG: HealthCheckConfig = {
+  probe: "rpc",
+  readyTimeoutMs: 60_000,
+  probeTimeoutMs: 10_000,
+  livenessFailures: 3,
+  requireChannels: true,
+};
+
+/** Pause between readiness probes */
+const READY_PROBE_INTERVAL_MS = 2000;
+
+/**
+ * Build the health check settings from GATEWAY_HEALTH, a comma-separated list of
+ * `probe=rpc|tcp`, `ready-timeout=<duration>`, `probe-timeout=<duration>`,
+ * `liveness-failures=<n>` and `channels=required|optional`.
+ * Invalid entries are logged and ignored.
+ */
+export function parseHealthCheckConfig(env: OpenClawEnv): HealthCheckConfig {
+  const config = { ...DEFAULT_HEALTH_CHECK_CONFIG };
+  const value = env.GATEWAY_HEALTH?.trim();
+  if (!value) return config;
+
+  for (const entry of value.split(",")) {
+    const trimmed = entry.trim();
+    if (!trimmed) continue;
+
+    const [key, raw = ""] = trimmed.split("=").map((part) => part.trim().toLowerCase());
+    const duration = parseDuration(raw);
+    const count = /^\d+$/.test(raw) ? Number.parseInt(raw, 10) : 0;
+
+    if (key === "probe" && (raw === "rpc" || raw === "tcp")) {
+      config.probe = raw;
+    } else if (key === "ready-timeout" && duration) {
+      config.readyTimeoutMs = Math.min(duration, MAX_READY_TIMEOUT_MS);
+    } else if (key === "probe-timeout" && duration) {
+      config.probeTimeoutMs = duration;
+    } else if (key === "liveness-failures" && count > 0) {
+      config.livenessFailures = count;
+    } else if (key === "channels" && (raw === "required" || raw === "optional")) {
+      config.requireChannels = raw === "required";
+    } else {
+      console.error(`[HEALTH] Ignoring invalid GATEWAY_HEALTH entry: ${trimmed}`);
+    }
+  }
+  return config;
+}
+
+/**
+ * Outcome of one health probe
+ */
+export interface HealthProbeResult {
+  healthy: boolean;
+  /** Why the gateway is unhealthy, e.g. a rejected handshake or a channel that failed to log in */
+  failures: string[];
+  /** Problems that don't affect health (optional channels) */
+  warnings: string[];
+  durationMs: number;
+  /** The gateway's `health` response */
+  summary?: unknown;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function describeError(error: unknown): string {
+  if (typeof error === "string") return error;
+  if (isRecord(error) && typeof error.message === "string") return error.message;
+  return "failed";
+}
+
+/**
+ * Collect problems from the gateway's `health` summary. It reports
+ * `ok: false` for a gateway that is up but broken, and per-channel state such
+ * as `{ configured, linked, probe: { ok, error } }`.
+ */
+export function healthSummaryFailures(summary: unknown): {
+  gateway: string[];
+  channels: string[];
+} {
+  const gateway: string[] = [];
+  const channels: string[] = [];
+  if (!isRecord(summary)) return { gateway, channels };
+
+  if (summary.ok === false) {
+    gateway.push(
+      summary.error ? describeError(summary.error) : "Gateway reported itself unhealthy",
+    );
+  }
+
+  if (isRecord(summary.channels)) {
+    for (const [name, channel] of Object.entries(summary.channels)) {
+      if (!isRecord(channel)) continue;
+      if (isRecord(channel.probe) && channel.probe.ok === false) {
+        channels.push(`${name}: ${describeError(channel.probe.error)}`);
+      } else if (channel.configured === true && channel.linked === false) {
+        channels.push(`${name}: not logged in`);
+      }
+    }
+  }
+  return { gateway, channels };
+}
+
+/**
+ * Probe the gateway at the protocol level: open a WebSocket, complete the
+ * `connect` handshake and call `health`.
+ */
+export async function probeGatewayHealth(
+  sandbox: Sandbox,
+  env: OpenClawEnv,
+  port: number = GATEWAY_PORT,
+  config: HealthCheckConfig = parseHealthCheckConfig(env),
+): Promise<HealthProbeResult> {
+  const startedAt = Date.now();
+  let client: GatewayRpcClient | null = null;
+  try {
+    ({ client } = await GatewayRpcClient.connect(sandbox, env, {
+      port,
+      timeoutMs: config.probeTimeoutMs,
+    }));
+    const summary = await client.health();
+    const { gateway, channels } = healthSummaryFailures(summary);
+    const failures = config.requireChannels ? [...gateway, ...channels] : gateway;
+    return {
+      healthy: failures.length === 0,
+      failures,
+      warnings: config.requireChannels ? [] : channels,
+      durationMs: Date.now() - startedAt,
+      summary,
+    };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return {
+      healthy: false,
+      failures: [message],
+      warnings: [],
+      durationMs: Date.now() - startedAt,
+    };
+  } finally {
+    client?.close();
+  }
+}
+
+/**
+ * Wait until a freshly started gateway passes its readiness check.
+ * Call once the port is open; with `probe=tcp` that is all that's checked.
+ *
+ * @throws Error listing the failure reasons if it isn't ready within the ready timeout
+ */
+export async function waitForGatewayReady(
+  sandbox: Sandbox,
+  process: Process,
+  env: OpenClawEnv,
+  port: number = GATEWAY_PORT,
+): Promise<void> {
+  const config = parseHealthCheckConfig(env);
+  if (config.probe === "tcp") return;
+
+  console.log("[Gateway] Verifying gateway health...");
+  const deadline = Date.now() + config.readyTimeoutMs;
+  for (;;) {
+    const result = await probeGatewayHealth(sandbox, env, port, config);
+    if (result.healthy) {
+      for (const warning of result.warnings) console.log("[Gateway] Health warning:", warning);
+      console.log("[Gateway] Health check passed in", result.durationMs, "ms");
+      return;
+    }
+
+    console.log("[Gateway] Health check failed:", result.failures.join("; "));
+    if (Date.now() + READY_PROBE_INTERVAL_MS >= deadline) {
+      const logs = await process.getLogs().catch(() => null);
+      if (logs?.stderr) console.error("[Gateway] stderr:", logs.stderr);
+      throw new Error(`Gateway failed its readiness check: ${result.failures.join("; ")}`);
+    }
+    await new Promise((r) => setTimeout(r, READY_PROBE_INTERVAL_MS));
+  }
+}
+
+/**
+ * Probe a running gateway and report the result to the supervisor, which
+ * marks it degraded after `liveness-failures` failed probes in a row.
+ */
+export async function checkGatewayLiveness(
+  sandbox: SupervisedSandbox,
+  env: OpenClawEnv,
+): Promise<HealthProbeResult> {
+  const config = parseHealthCheckConfig(env);
+  const { port } = await sandbox.getGatewayState();
+  const result = await probeGatewayHealth(sandbox, env, port, config);
+  await sandbox.recordGatewayEvent(
+    result.healthy
+      ? { type: "healthy" }
+      : {
+          type: "unhealthy",
+          error: result.failures.join("; "),
+          threshold: config.livenessFailures,
+        },
+  );
+  return result;
+}
@@ -0,0 +1,63 @@
+import type { KeyValueStorage } from "../types";
+
+/**
+ * What the watchdog found
+ * - unhealthy: the gateway kept failing health checks (hung)
+ * - exited: the supervised gateway process is gone
+ * - container_stopped: the container stopped although it should stay awake
+ * - orphaned_process: an `openclaw gateway` whose startup script was killed
+ * - stale_lock: a startup lockfile left behind with no startup script running
+ * - resource_pressure: CPU, memory or disk usage crossed its alert threshold
+ */
+export type IncidentKind =
+  | "unhealthy"
+  | "exited"
+  | "container_stopped"
+  | "orphaned_process"
+  | "stale_lock"
+  | "resource_pressure";
+
+/**
+ * What the watchdog did about it
+ * - restarted: a new gateway started and passed its readiness check
+ * - restart_failed: the restart was attempted and failed
+ * - backoff: the supervisor refused to restart yet (backing off or crash-looping)
+ * - cleaned_up: the orphaned process was killed or the lockfile removed
+ * - alerted: nothing yet; the alert is a warning to act before the container runs out
+ */
+export type IncidentAction = "restarted" | "restart_failed" | "backoff" | "cleaned_up" | "alerted";
+
+export interface Incident {
+  id: string;
+  at: number;
+  kind: IncidentKind;
+  message: string;
+  action: IncidentAction;
+  /** Error from the restart, if it failed */
+  error?: string;
+}
+
+export type IncidentInput = Omit<Incident, "id" | "at">;
+
+/** Incidents kept, newest first */
+export const MAX_INCIDENTS = 50;
+
+const STORAGE_KEY = "gateway:incidents";
+
+/**
+ * Watchdog incident history in Durable Object storage
+ */
+export class IncidentStore {
+  constructor(private storage: KeyValueStorage) {}
+
+  async list(): Promise<Incident[]> {
+    return (await this.storage.get<Incident[]>(STORAGE_KEY)) ?? [];
+  }
+
+  async record(input: IncidentInput, now = Date.now()): Promise<Incident> {
+    const incident: Incident = { id: crypto.randomUUID(), at: now, ...input };
+    const incidents = [incident, ...(await this.list())].slice(0, MAX_INCIDENTS);
+    await this.storage.put(STORAGE_KEY, incidents);
+    return incident;
+  }
+}
@@ -1,5 +1,124 @@
+export { BackupKeyring, type DataKey } from "./backup-crypto";
+export {
+  BundleError,
+  type BundleManifest,
+  exportBundle,
+  type ImportResult,
+  importBundle,
+  MAX_BUNDLE_BYTES,
+} from "./bundle";
 export { buildEnvVars } from "./env";
-export { ensureGateway, findExistingGateway } from "./process";
+export {
+  checkGatewayLiveness,
+  type HealthCheckConfig,
+  type HealthProbeResult,
+  parseHealthCheckConfig,
+  probeGatewayHealth,
+} from "./health";
+export {
+  type Incident,
+  type IncidentAction,
+  type IncidentKind,
+  MAX_INCIDENTS,
+} from "./incidents";
+export {
+  BackupIntegrityError,
+  type IntegrityProblem,
+  parseMaxShrink,
+} from "./integrity";
+export {
+  ensureGateway,
+  findExistingGateway,
+  findSupervisedGateway,
+  type GatewayInstance,
+  stopGateway,
+} from "./process";
+export {
+  parseStartupMarkers,
+  readStartupProgress,
+  STARTUP_PHASES,
+  type StartupPhase,
+  type StartupPhaseName,
+  type StartupProgress,
+} from "./progress";
 export { lastMountError, mountR2Storage } from "./r2";
-export { syncToR2 } from "./sync";
+export {
+  DEFAULT_SANDBOX_ID,
+  GATEWAY_HEADER,
+  type GatewayConfig,
+  gatewayEnv,
+  parseGatewayRegistry,
+  type ResolvedGateway,
+  resolveGateway,
+  stripGatewayPrefix,
+} from "./registry";
+export {
+  parseReloadStrategy,
+  type ReloadResult,
+  type ReloadStrategy,
+  reloadGateway,
+} from "./reload";
+export {
+  INSTANCE_LIMITS,
+  MAX_RESOURCE_SAMPLES,
+  parseResourceMonitorConfig,
+  type ResourceAlert,
+  type ResourceKind,
+  type ResourceMonitorConfig,
+  type ResourceSample,
+  sampleResources,
+} from "./resources";
+export { parseBackupAreas, type RestoreResult, restoreBackup } from "./restore";
+export { GatewayRpcClient, GatewayRpcError } from "./rpc";
+export {
+  isWithinActiveHours,
+  MAX_AWAKE_OVERRIDE_HOURS,
+  parseSleepSchedule,
+  resolveSleepPolicy,
+  type SleepPolicy,
+  type SleepSchedule,
+  sleepPolicyOptions,
+} from "./schedule";
+export {
+  type BackupStorage,
+  isBackupConfigured,
+  openSnapshotStore,
+  parseBackupStorage,
+  type SnapshotStore,
+} from "./snapshot-store";
+export {
+  BACKUP_AREAS,
+  type BackupArea,
+  type KeyRotationResult,
+  LAST_SYNC_KEY,
+  parseRetentionPolicy,
+  type RetentionPolicy,
+  readPinnedSnapshots,
+  readSnapshotIndex,
+  rotateSnapshotKeys,
+  type SnapshotDiff,
+  type SnapshotFile,
+  type SnapshotSummary,
+  setSnapshotPinned,
+  setSnapshotQuarantine,
+} from "./snapshots";
+export {
+  type GatewayEvent,
+  type GatewayPhase,
+  type GatewayState,
+  GatewayUnavailableError,
+  type ReloadClaim,
+  type StartClaim,
+} from "./supervisor";
+export { dueBackupRules, syncToR2, withBackupLease } from "./sync";
+export {
+  DEFAULT_SYNC_SPEC,
+  parseSyncSpec,
+  readSyncSpec,
+  SYNC_SPEC_KEY,
+  type SyncRule,
+  type SyncSpec,
+  writeSyncSpec,
+} from "./sync-spec";
 export { waitForProcess } from "./utils";
+export { isWatchdogEnabled, runWatchdog, type WatchdogReport } from "./watchdog";
@@ -0,0 +1,59 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { suppressConsole } from "../test-utils";
+import { criticalConfigPaths, DEFAULT_MAX_SHRINK, findShrink, parseMaxShrink } from "./integrity";
+import type { BackupArea } from "./snapshots";
+
+const hashOf = (n: number) => n.toString(16).padStart(64, "0");
+const file = (area: BackupArea, path: string, size = 100) => ({
+  area,
+  path,
+  hash: hashOf(size),
+  size,
+});
+const workspace = (count: number, size = 100) =>
+  Array.from({ length: count }, (_, i) => file("workspace", `notes/${i}.md`, size));
+
+describe("parseMaxShrink", () => {
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  it("parses percentages and off, falling back to the default", () => {
+    expect(parseMaxShrink({})).toBe(DEFAULT_MAX_SHRINK);
+    expect(parseMaxShrink({ BACKUP_MAX_SHRINK: "80%" })).toBe(80);
+    expect(parseMaxShrink({ BACKUP_MAX_SHRINK: " OFF " })).toBeNull();
+    expect(parseMaxShrink({ BACKUP_MAX_SHRINK: "150" })).toBe(DEFAULT_MAX_SHRINK);
+    expect(parseMaxShrink({ BACKUP_MAX_SHRINK: "lots" })).toBe(DEFAULT_MAX_SHRINK);
+  });
+});
+
+describe("findShrink", () => {
+  it("reports losing more than the limit of workspace files or bytes", () => {
+    expect(findShrink(workspace(20), workspace(10), 50)).toBeNull();
+    expect(findShrink(workspace(20), workspace(9), 50)).toBe(
+      "Workspace shrank from 20 files (2 KB) to 9 files (1 KB)",
+    );
+    expect(findShrink(workspace(2, 100_000), workspace(2, 10_000), 50)).toBe(
+      "Workspace shrank from 2 files (195 KB) to 2 files (20 KB)",
+    );
+  });
+
+  it("ignores small workspaces and other areas", () => {
+    expect(findShrink(workspace(5), [], 50)).toBeNull();
+    const skills = Array.from({ length: 20 }, (_, i) => file("skills", `s/${i}.md`));
+    expect(findShrink(skills, [], 50)).toBeNull();
+  });
+});
+
+describe("criticalConfigPaths", () => {
+  it("picks the gateway config and auth profiles", () => {
+    expect(
+      criticalConfigPaths([
+        file("config", "openclaw.json"),
+        file("config", "agents/main/agent/auth-profiles.json"),
+        file("config", "agents/main/sessions/sessions.json"),
+        file("workspace", "openclaw.json"),
+      ]),
+    ).toEqual(["openclaw.json", "agents/main/agent/auth-profiles.json"]);
+  });
+});
@@ -0,0 +1,155 @@
+import type { Sandbox } from "@cloudflare/sandbox";
+import type { OpenClawEnv } from "../types";
+import type { SnapshotFile } from "./snapshots";
+
+/**
+ * Why a backup or restore was refused
+ * - invalid-config: openclaw.json or an auth profile doesn't parse
+ * - shrink: the workspace lost most of its files or bytes since the last backup
+ * - checksum: a restored file doesn't match the snapshot's hash
+ */
+export type IntegrityProblem = "invalid-config" | "shrink" | "checksum";
+
+/**
+ * Thrown when a container isn't fit to back up, or a snapshot isn't fit to restore
+ */
+export class BackupIntegrityError extends Error {
+  constructor(
+    message: string,
+    readonly problem: IntegrityProblem,
+    /** Config files that don't parse, relative to the config directory */
+    readonly paths: string[] = [],
+  ) {
+    super(message);
+    this.name = "BackupIntegrityError";
+  }
+}
+
+/** Default for BACKUP_MAX_SHRINK: percent of workspace files or bytes a backup may lose */
+export const DEFAULT_MAX_SHRINK = 50;
+
+/** Small workspaces swing by more than half with a single file */
+const MIN_SHRINK_FILES = 10;
+const MIN_SHRINK_BYTES = 64 * 1024;
+
+const READ_TIMEOUT_MS = 15_000;
+
+/**
+ * Parse BACKUP_MAX_SHRINK: a percentage, or 'off' to back up any shrink.
+ * Invalid values fall back to the default.
+ */
+export function parseMaxShrink(env: Pick<OpenClawEnv, "BACKUP_MAX_SHRINK">): number | null {
+  const value = env.BACKUP_MAX_SHRINK?.trim().toLowerCase();
+  if (!value) return DEFAULT_MAX_SHRINK;
+  if (value === "off") return null;
+
+  const percent = Number(value.replace(/%$/, ""));
+  if (!Number.isFinite(percent) || percent <= 0 || percent > 100) {
+    console.warn(`[BACKUP] Invalid BACKUP_MAX_SHRINK "${env.BACKUP_MAX_SHRINK}", using default`);
+    return DEFAULT_MAX_SHRINK;
+  }
+  return percent;
+}
+
+function describeWorkspace(files: SnapshotFile[]): string {
+  const bytes = files.reduce((sum, f) => sum + f.size, 0);
+  return `${files.length} files (${Math.round(bytes / 1024)} KB)`;
+}
+
+/**
+ * Describe how the workspace shrank from `previous` to `next`, if it lost more
+ * than `maxShrink` percent of its files or bytes. Returns null otherwise.
+ */
+export function findShrink(
+  previous: SnapshotFile[],
+  next: SnapshotFile[],
+  maxShrink: number,
+): string | null {
+  const before = previous.filter((f) => f.area === "workspace");
+  const after = next.filter((f) => f.area === "workspace");
+  const bytes = (files: SnapshotFile[]) => files.reduce((sum, f) => sum + f.size, 0);
+  const lost = (from: number, to: number) => (from - to) / from > maxShrink / 100;
+
+  const fewerFiles = before.length >= MIN_SHRINK_FILES && lost(before.length, after.length);
+  const fewerBytes = bytes(before) >= MIN_SHRINK_BYTES && lost(bytes(before), bytes(after));
+  if (!fewerFiles && !fewerBytes) return null;
+  return `Workspace shrank from ${describeWorkspace(before)} to ${describeWorkspace(after)}`;
+}
+
+/**
+ * The config files the gateway can't start without, relative to the config
+ * directory: openclaw.json (or the legacy clawdbot.json) and auth profiles
+ */
+export function criticalConfigPaths(files: Pick<SnapshotFile, "area" | "path">[]): string[] {
+  return files
+    .filter(
+      (f) =>
+        f.area === "config" &&
+        (f.path === "openclaw.json" ||
+          f.path === "clawdbot.json" ||
+          f.path.endsWith("/auth-profiles.json")),
+    )
+    .map((f) => f.path);
+}
+
+export interface ConfigProblem {
+  /** Relative to the config directory */
+  path: string;
+  message: string;
+}
+
+function shellQuote(path: string): string {
+  return `'${path.replace(/'/g, "'\\''")}'`;
+}
+
+/**
+ * Check that the given config files parse. Returns a problem per file that
+ * doesn't, e.g. a config that was half written.
+ */
+export async function checkConfigFiles(
+  sandbox: Sandbox,
+  configDir: string,
+  paths: string[],
+): Promise<ConfigProblem[]> {
+  const problems: ConfigProblem[] = [];
+  for (const path of paths) {
+    const result = await sandbox.exec(`cat ${shellQuote(`${configDir}/${path}`)}`, {
+      timeout: READ_TIMEOUT_MS,
+    });
+    if (result.exitCode !== 0) {
+      problems.push({ path, message: `${path} can't be read` });
+      continue;
+    }
+    try {
+      JSON.parse(result.stdout);
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : String(err);
+      problems.push({ path, message: `${path} is not valid JSON (${reason})` });
+    }
+  }
+  return problems;
+}
+
+export function describeProblems(problems: ConfigProblem[]): string {
+  return problems.map((p) => p.message).join("; ");
+}
+
+/**
+ * Move the given config files out of the way (to <name>.broken) if they
+ * still don't parse, so the gateway is onboarded again instead of failing
+ * to start with them
+ */
+export async function setAsideBrokenConfig(
+  sandbox: Sandbox,
+  configDir: string,
+  paths: string[],
+): Promise<string[]> {
+  const problems = await checkConfigFiles(sandbox, configDir, paths);
+  for (const { path } of problems) {
+    const full = `${configDir}/${path}`;
+    await sandbox.exec(`mv -f ${shellQuote(full)} ${shellQuote(`${full}.broken`)} 2>/dev/null`, {
+      timeout: READ_TIMEOUT_MS,
+    });
+  }
+  return problems.map((p) => p.path);
+}
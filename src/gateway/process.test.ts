@@ -1,7 +1,16 @@
 import type { Process, Sandbox } from "@cloudflare/sandbox";
-import { describe, expect, it, vi } from "vitest";
-import { createMockSandbox } from "../test-utils";
-import { findExistingGateway } from "./process";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { GATEWAY_PORT, GATEWAY_STANDBY_PORT } from "../config";
+import type { Sandbox as SupervisedSandbox } from "../sandbox";
+import {
+  createMockEnv,
+  createMockSandbox,
+  createMockStorage,
+  suppressConsole,
+} from "../test-utils";
+import { ensureGateway, findExistingGateway } from "./process";
+import { StartupProgressStore, type StartupUpdate } from "./progress";
+import { GatewaySupervisorStore, GatewayUnavailableError } from "./supervisor";
 
 function createFullMockProcess(overrides: Partial<Process> = {}): Process {
   return {
@@ -117,3 +126,117 @@ describe("findExistingGateway", () => {
     expect(result).toBeNull();
   });
 });
+
+describe("ensureGateway", () => {
+  // Protocol-level readiness probes are covered in health.test.ts
+  const TCP_ONLY = createMockEnv({ GATEWAY_HEALTH: "probe=tcp" });
+
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  function createSupervisedSandbox() {
+    const mock = createMockSandbox();
+    const storage = createMockStorage();
+    const store = new GatewaySupervisorStore(storage);
+    const progress = new StartupProgressStore(storage);
+    const sandbox = Object.assign(mock.sandbox, {
+      getGatewayState: () => store.get(),
+      claimGatewayStart: async () => {
+        const claim = await store.claimStart();
+        if (claim.ok) await progress.begin(claim.leaseId);
+        return claim;
+      },
+      recordGatewayEvent: (event: Parameters<typeof store.record>[0]) => store.record(event),
+      getStartupRecord: () => progress.get(),
+      recordStartupUpdate: (attemptId: string, update: StartupUpdate) =>
+        progress.update(attemptId, update),
+    }) as unknown as SupervisedSandbox;
+    return { ...mock, sandbox, store, progress };
+  }
+
+  it("starts the gateway once and then reuses the supervised process", async () => {
+    const { sandbox, store, startProcessMock, listProcessesMock } = createSupervisedSandbox();
+    const gatewayProcess = createFullMockProcess({
+      id: "gateway-1",
+      command: "/usr/local/bin/start-openclaw.sh",
+    });
+    startProcessMock.mockResolvedValue(gatewayProcess);
+
+    expect(await ensureGateway(sandbox, TCP_ONLY)).toEqual({
+      process: gatewayProcess,
+      port: GATEWAY_PORT,
+    });
+    expect(await store.get()).toMatchObject({ phase: "ready", processId: "gateway-1" });
+
+    listProcessesMock.mockResolvedValue([gatewayProcess]);
+    expect(await ensureGateway(sandbox, TCP_ONLY)).toEqual({
+      process: gatewayProcess,
+      port: GATEWAY_PORT,
+    });
+    expect(startProcessMock).toHaveBeenCalledTimes(1);
+    expect(gatewayProcess.waitForPort).toHaveBeenCalledTimes(1);
+  });
+
+  it("reports startup progress for the attempt", async () => {
+    const { sandbox, progress, startProcessMock } = createSupervisedSandbox();
+    startProcessMock.mockResolvedValue(
+      createFullMockProcess({ id: "gateway-1", command: "/usr/local/bin/start-openclaw.sh" }),
+    );
+
+    await ensureGateway(sandbox, TCP_ONLY);
+
+    const record = await progress.get();
+    expect(record).toMatchObject({ processId: "gateway-1", error: null });
+    expect(record.finishedAt).not.toBeNull();
+    expect(record.events.map((e) => [e.phase, e.status])).toEqual([
+      ["mount", "running"],
+      ["mount", "skipped"],
+      ["port", "done"],
+      ["health", "skipped"],
+    ]);
+  });
+
+  it("adopts a running gateway on the port it was started with", async () => {
+    const { sandbox, store, startProcessMock, listProcessesMock } = createSupervisedSandbox();
+    const standby = createFullMockProcess({
+      id: "gateway-2",
+      command: `/usr/local/bin/start-openclaw.sh --port ${GATEWAY_STANDBY_PORT}`,
+    });
+    listProcessesMock.mockResolvedValue([standby]);
+
+    expect(await ensureGateway(sandbox, TCP_ONLY)).toEqual({
+      process: standby,
+      port: GATEWAY_STANDBY_PORT,
+    });
+    expect(standby.waitForPort).toHaveBeenCalledWith(GATEWAY_STANDBY_PORT, expect.anything());
+    expect(await store.get()).toMatchObject({ phase: "ready", port: GATEWAY_STANDBY_PORT });
+    expect(startProcessMock).not.toHaveBeenCalledWith(
+      expect.stringContaining("start-openclaw.sh"),
+      expect.anything(),
+    );
+  });
+
+  it("records a failed start", async () => {
+    const { sandbox, store, progress, startProcessMock } = createSupervisedSandbox();
+    startProcessMock.mockRejectedValue(new Error("container is gone"));
+
+    await expect(ensureGateway(sandbox, TCP_ONLY)).rejects.toThrow("container is gone");
+    expect((await progress.get()).error).toBe("container is gone");
+    expect(await store.get()).toMatchObject({
+      phase: "crashed",
+      consecutiveFailures: 1,
+      lastError: "container is gone",
+    });
+  });
+
+  it("refuses to start while backing off", async () => {
+    const { sandbox, startProcessMock } = createSupervisedSandbox();
+    startProcessMock.mockRejectedValue(new Error("boom"));
+
+    await expect(ensureGateway(sandbox, TCP_ONLY)).rejects.toThrow("boom");
+    await expect(ensureGateway(sandbox, TCP_ONLY)).rejects.toThrow("boom");
+    await expect(ensureGateway(sandbox, TCP_ONLY)).rejects.toBeInstanceOf(GatewayUnavailableError);
+    expect(startProcessMock).toHaveBeenCalledTimes(2);
+  });
+});
@@ -1,8 +1,22 @@
 import type { Process, Sandbox } from "@cloudflare/sandbox";
-import { GATEWAY_PORT, STARTUP_TIMEOUT_MS } from "../config";
+import { GATEWAY_PORT, GATEWAY_STANDBY_PORT, STARTUP_TIMEOUT_MS } from "../config";
+import type { Sandbox as SupervisedSandbox } from "../sandbox";
 import type { OpenClawEnv } from "../types";
+import { BackupKeyring } from "./backup-crypto";
 import { buildEnvVars } from "./env";
-import { mountR2Storage } from "./r2";
+import { parseHealthCheckConfig, waitForGatewayReady } from "./health";
+import { reportStartupFinished, reportStartupPhase, reportStartupProcess } from "./progress";
+import { lastMountError, mountR2Storage } from "./r2";
+import { BucketSnapshotStore, parseBackupStorage } from "./snapshot-store";
+import { restoreLatestSnapshot } from "./snapshots";
+import { GatewayUnavailableError, START_LEASE_MS, type StartClaim } from "./supervisor";
+import { waitForProcess } from "./utils";
+
+/** How often requests waiting on another request's startup poll the supervisor */
+const START_POLL_INTERVAL_MS = 1000;
+
+/** Outcome of the Worker's restore, which start-openclaw.sh reports as its restore phase */
+const RESTORE_RESULT_PATH = "/tmp/openclaw-restore-result";
 
 /**
  * Find an existing OpenClaw gateway process
@@ -36,41 +50,179 @@ export async function findExistingGateway(sandbox: Sandbox): Promise<Process | n
   return null;
 }
 
+/**
+ * Find the gateway process the supervisor is tracking
+ *
+ * @param sandbox - The sandbox instance
+ * @param processId - Process ID from the supervisor state
+ * @returns The process if it is still starting or running, null otherwise
+ */
+export async function findSupervisedGateway(
+  sandbox: Sandbox,
+  processId: string | null,
+): Promise<Process | null> {
+  if (!processId) return null;
+  try {
+    const processes = await sandbox.listProcesses();
+    const proc = processes.find((p) => p.id === processId);
+    if (proc && (proc.status === "starting" || proc.status === "running")) {
+      return proc;
+    }
+  } catch (e) {
+    console.log("Could not list processes:", e);
+  }
+  return null;
+}
+
+function unavailableMessage(claim: Extract<StartClaim, { ok: false }>): string {
+  const { state } = claim;
+  if (claim.reason === "crash_loop") {
+    return `Gateway is crash-looping (${state.recentFailures.length} failures recently). Last error: ${state.lastError ?? "unknown"}. Restart it from the admin UI once the cause is fixed.`;
+  }
+  const seconds = Math.max(1, Math.ceil(((state.nextAttemptAt ?? Date.now()) - Date.now()) / 1000));
+  return `Gateway failed to start, retrying in ${seconds}s. Last error: ${state.lastError ?? "unknown"}`;
+}
+
+/**
+ * A running gateway and the port to reach it on
+ */
+export interface GatewayInstance {
+  process: Process;
+  port: number;
+}
+
+/**
+ * Port a gateway process listens on, from its `--port` argument
+ */
+export function gatewayPortOf(process: Pick<Process, "command">): number {
+  const match = process.command.match(/--port[= ](\d+)/);
+  return match ? Number.parseInt(match[1], 10) : GATEWAY_PORT;
+}
+
 /**
  * Ensure the OpenClaw gateway is running
  *
- * This will:
- * 1. Mount R2 storage if configured
- * 2. Check for an existing gateway process
- * 3. Wait for it to be ready, or start a new one
+ * The supervisor in the Sandbox Durable Object tracks the gateway's lifecycle:
+ * 1. If it is ready and its process is still running, return it straight away
+ * 2. Otherwise claim the start lease, so only one request starts the gateway
+ *    while concurrent requests wait for it. The gateway is ready once its port
+ *    is open and it passes a protocol-level health check (see ./health).
+ *    Each step is reported to the startup progress timeline (see ./progress)
+ * 3. Refuse to start while backing off after a failure or when crash-looping
  *
  * @param sandbox - The sandbox instance
  * @param env - Worker environment bindings
- * @returns The running gateway process
+ * @returns The running gateway process and its port (which changes after a reload)
+ * @throws GatewayUnavailableError if the supervisor won't start the gateway right now
  */
-export async function ensureGateway(sandbox: Sandbox, env: OpenClawEnv): Promise<Process> {
-  // Mount R2 storage for persistent data (non-blocking if not configured)
-  // R2 is used as a backup - the startup script will restore from it on boot
-  await mountR2Storage(sandbox, env);
+export async function ensureGateway(
+  sandbox: SupervisedSandbox,
+  env: OpenClawEnv,
+): Promise<GatewayInstance> {
+  const deadline = Date.now() + START_LEASE_MS;
+  for (;;) {
+    const state = await sandbox.getGatewayState();
+
+    if (state.phase === "ready" || state.phase === "degraded") {
+      const proc = await findSupervisedGateway(sandbox, state.processId);
+      if (proc) return { process: proc, port: state.port };
+
+      console.log("[Gateway] Supervised process", state.processId, "is gone");
+      await sandbox.recordGatewayEvent({
+        type: "exited",
+        error: "Gateway process exited unexpectedly",
+      });
+    }
+
+    const claim = await sandbox.claimGatewayStart();
+    if (claim.ok) {
+      return startGateway(sandbox, env, claim.leaseId);
+    }
+    if (claim.reason !== "in_progress") {
+      throw new GatewayUnavailableError(unavailableMessage(claim), claim.state);
+    }
+
+    // Another request is starting the gateway; wait for it to finish
+    if (Date.now() >= deadline) {
+      throw new Error("Timed out waiting for the gateway to start");
+    }
+    await new Promise((r) => setTimeout(r, START_POLL_INTERVAL_MS));
+  }
+}
+
+/**
+ * Start the gateway while holding the supervisor's start lease, adopting a
+ * gateway that is already running (e.g. started before the supervisor knew about it)
+ */
+async function startGateway(
+  sandbox: SupervisedSandbox,
+  env: OpenClawEnv,
+  leaseId: string,
+): Promise<GatewayInstance> {
+  try {
+    // Mount R2 storage for persistent data (non-blocking if not configured)
+    // R2 is used as a backup - the startup script will restore from it on boot
+    await reportStartupPhase(sandbox, leaseId, "mount", "running");
+    if (parseBackupStorage(env) === "binding") {
+      await reportStartupPhase(sandbox, leaseId, "mount", "skipped", "using the R2 binding");
+    } else if (await mountR2Storage(sandbox, env)) {
+      await reportStartupPhase(sandbox, leaseId, "mount", "done");
+    } else {
+      const reason = lastMountError?.split("\n")[0] ?? "R2 storage not configured";
+      await reportStartupPhase(sandbox, leaseId, "mount", "skipped", reason);
+    }
+
+    const instance = await bootGateway(sandbox, env, leaseId);
+    await reportStartupPhase(sandbox, leaseId, "port", "done", `port ${instance.port}`);
 
+    // An open port isn't enough: only a gateway that answers the protocol is ready
+    if (parseHealthCheckConfig(env).probe === "tcp") {
+      await reportStartupPhase(sandbox, leaseId, "health", "skipped", "probe=tcp");
+    } else {
+      await reportStartupPhase(sandbox, leaseId, "health", "running");
+      await waitForGatewayReady(sandbox, instance.process, env, instance.port);
+      await reportStartupPhase(sandbox, leaseId, "health", "done");
+    }
+
+    await sandbox.recordGatewayEvent({
+      type: "ready",
+      leaseId,
+      processId: instance.process.id,
+      port: instance.port,
+    });
+    await reportStartupFinished(sandbox, leaseId, null);
+    return instance;
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    await sandbox.recordGatewayEvent({ type: "start_failed", leaseId, error: message });
+    await reportStartupFinished(sandbox, leaseId, message);
+    throw err;
+  }
+}
+
+async function bootGateway(
+  sandbox: SupervisedSandbox,
+  env: OpenClawEnv,
+  leaseId: string,
+): Promise<GatewayInstance> {
   // Check if gateway is already running or starting
   const existingProcess = await findExistingGateway(sandbox);
   if (existingProcess) {
+    const port = gatewayPortOf(existingProcess);
     console.log(
       "Found existing gateway process:",
       existingProcess.id,
       "status:",
       existingProcess.status,
     );
+    await reportStartupProcess(sandbox, leaseId, existingProcess.id);
 
-    // Always use full startup timeout - a process can be "running" but not ready yet
-    // (e.g., just started by another concurrent request). Using a shorter timeout
-    // causes race conditions where we kill processes that are still initializing.
+    // Use the full startup timeout - a process can be "running" but not ready yet
     try {
-      console.log("Waiting for gateway on port", GATEWAY_PORT, "timeout:", STARTUP_TIMEOUT_MS);
-      await existingProcess.waitForPort(GATEWAY_PORT, { mode: "tcp", timeout: STARTUP_TIMEOUT_MS });
+      console.log("Waiting for gateway on port", port, "timeout:", STARTUP_TIMEOUT_MS);
+      await existingProcess.waitForPort(port, { mode: "tcp", timeout: STARTUP_TIMEOUT_MS });
       console.log("Gateway is reachable");
-      return existingProcess;
+      return { process: existingProcess, port };
       // eslint-disable-next-line no-unused-vars
     } catch (_e) {
       // Timeout waiting for port - process is likely dead or stuck, kill and restart
@@ -83,30 +235,74 @@ export async function ensureGateway(sandbox: Sandbox, env: OpenClawEnv): Promise
     }
   }
 
-  // Start a new OpenClaw gateway
-  console.log("Starting new OpenClaw gateway...");
+  if (parseBackupStorage(env) === "binding") {
+    await restoreThroughBinding(sandbox, env);
+  }
+  const process = await launchGateway(sandbox, env, GATEWAY_PORT);
+  await sandbox.recordGatewayEvent({ type: "process_started", leaseId, processId: process.id });
+  await reportStartupProcess(sandbox, leaseId, process.id);
+  await waitForGatewayPort(process, GATEWAY_PORT);
+  return { process, port: GATEWAY_PORT };
+}
+
+/**
+ * Restore the newest snapshot before the startup script runs, since the
+ * container can't reach R2 without the mount. A failed restore starts fresh,
+ * like the script's own restore does.
+ */
+async function restoreThroughBinding(sandbox: Sandbox, env: OpenClawEnv): Promise<void> {
+  let result: string;
+  try {
+    const store = new BucketSnapshotStore(sandbox, env.OPENCLAW_BUCKET, env.R2_PREFIX);
+    result = await restoreLatestSnapshot(sandbox, store, BackupKeyring.fromEnv(store, env));
+  } catch (err) {
+    console.error("[Gateway] Snapshot restore through the R2 binding failed:", err);
+    result = "snapshot restore failed, starting fresh";
+  }
+  console.log("[Gateway] Restore:", result);
+  await sandbox.writeFile(RESTORE_RESULT_PATH, result);
+}
+
+/**
+ * Start a new OpenClaw gateway on `port` through the startup script
+ */
+export async function launchGateway(
+  sandbox: Sandbox,
+  env: OpenClawEnv,
+  port: number,
+): Promise<Process> {
+  console.log("Starting new OpenClaw gateway on port", port);
   const envVars = buildEnvVars(env);
-  const command = "/usr/local/bin/start-openclaw.sh";
+  const command =
+    port === GATEWAY_PORT
+      ? "/usr/local/bin/start-openclaw.sh"
+      : `/usr/local/bin/start-openclaw.sh --port ${port}`;
 
   console.log("Starting process with command:", command);
   console.log("Environment vars being passed:", Object.keys(envVars));
 
-  let process: Process;
   try {
-    process = await sandbox.startProcess(command, {
+    const process = await sandbox.startProcess(command, {
       env: Object.keys(envVars).length > 0 ? envVars : undefined,
     });
     console.log("Process started with id:", process.id, "status:", process.status);
+    return process;
   } catch (startErr) {
     console.error("Failed to start process:", startErr);
     throw startErr;
   }
+}
 
-  // Wait for the gateway to be ready
+/**
+ * Wait for a freshly launched gateway to open its port
+ *
+ * @throws Error with the gateway's stderr if it doesn't within the startup timeout
+ */
+export async function waitForGatewayPort(process: Process, port: number): Promise<void> {
   try {
-    console.log("[Gateway] Waiting for OpenClaw gateway to be ready on port", GATEWAY_PORT);
-    await process.waitForPort(GATEWAY_PORT, { mode: "tcp", timeout: STARTUP_TIMEOUT_MS });
-    console.log("[Gateway] OpenClaw gateway is ready!");
+    console.log("[Gateway] Waiting for OpenClaw gateway to be ready on port", port);
+    await process.waitForPort(port, { mode: "tcp", timeout: STARTUP_TIMEOUT_MS });
+    console.log("[Gateway] OpenClaw gateway is listening");
 
     const logs = await process.getLogs();
     if (logs.stdout) console.log("[Gateway] stdout:", logs.stdout);
@@ -125,9 +321,64 @@ export async function ensureGateway(sandbox: Sandbox, env: OpenClawEnv): Promise
       throw e;
     }
   }
+}
 
-  // Verify gateway is actually responding
-  console.log("[Gateway] Verifying gateway health...");
+/**
+ * Lockfile start-openclaw.sh holds while it boots a gateway on `port`
+ */
+export function startupLockfile(port: number): string {
+  return port === GATEWAY_PORT ? "/tmp/start-openclaw.lock" : `/tmp/start-openclaw-${port}.lock`;
+}
+
+/**
+ * Kill whatever is left of a gateway after its startup script was killed:
+ * the `openclaw gateway &` child survives the bash wrapper, and SIGKILL skips
+ * the trap that removes the startup lockfile.
+ *
+ * @param port - Only clean up the gateway on this port, or all gateways when omitted
+ */
+export async function cleanupGatewayProcesses(sandbox: Sandbox, port?: number): Promise<void> {
+  const pattern = port ? `openclaw gateway --port ${port} ` : "openclaw gateway";
+  const lockfiles = port
+    ? startupLockfile(port)
+    : `${startupLockfile(GATEWAY_PORT)} ${startupLockfile(GATEWAY_STANDBY_PORT)}`;
+  try {
+    const cleanup = await sandbox.startProcess(
+      `pkill -f "${pattern}" 2>/dev/null; rm -rf ${lockfiles}; sleep 1; true`,
+    );
+    await waitForProcess(cleanup, 10000);
+  } catch {
+    // Non-fatal
+  }
+}
+
+/**
+ * Stop the gateway on purpose (restart, config change) and tell the supervisor,
+ * so the next ensureGateway starts a fresh one instead of counting a crash.
+ *
+ * @param sandbox - The sandbox instance
+ * @param options.reset - Also clear failure history, e.g. to leave a crash loop
+ * @returns The process that was stopped, if any
+ */
+export async function stopGateway(
+  sandbox: SupervisedSandbox,
+  options: { reset?: boolean } = {},
+): Promise<Process | null> {
+  const state = await sandbox.getGatewayState();
+  const existingProcess =
+    (await findSupervisedGateway(sandbox, state.processId)) ?? (await findExistingGateway(sandbox));
+
+  if (existingProcess) {
+    console.log("Killing existing gateway process:", existingProcess.id);
+    try {
+      await existingProcess.kill();
+    } catch (killErr) {
+      console.error("Error killing process:", killErr);
+    }
+    // Wait a moment for the process to die
+    await new Promise((r) => setTimeout(r, 2000));
+  }
 
-  return process;
+  await sandbox.recordGatewayEvent({ type: options.reset ? "reset" : "stopped" });
+  return existingProcess;
 }
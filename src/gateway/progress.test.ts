@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import { createMockStorage } from "../test-utils";
+import {
+  buildStartupPhases,
+  emptyStartupRecord,
+  parseStartupMarkers,
+  StartupProgressStore,
+  type StartupRecord,
+} from "./progress";
+
+function record(overrides: Partial<StartupRecord> = {}): StartupRecord {
+  return { ...emptyStartupRecord(), attemptId: "a", startedAt: 0, ...overrides };
+}
+
+describe("parseStartupMarkers", () => {
+  it("reads phase markers and ignores other output", () => {
+    const output = [
+      "Config directory: /root/.openclaw",
+      "[phase] restore start 100",
+      "Restoring from R2 backup...",
+      "[phase] restore done 250 restored from R2 backup",
+      "[phase] onboard skip 260 existing config",
+      "[phase] unknown start 270",
+    ].join("\n");
+
+    expect(parseStartupMarkers(output)).toEqual([
+      { phase: "restore", status: "running", at: 100 },
+      { phase: "restore", status: "done", at: 250, detail: "restored from R2 backup" },
+      { phase: "onboard", status: "skipped", at: 260, detail: "existing config" },
+    ]);
+  });
+});
+
+describe("buildStartupPhases", () => {
+  it("merges Worker events and script markers into one timeline", () => {
+    const phases = buildStartupPhases(
+      record({
+        events: [
+          { phase: "mount", status: "running", at: 10 },
+          { phase: "mount", status: "done", at: 50 },
+        ],
+      }),
+      [{ phase: "restore", status: "running", at: 100 }],
+    );
+
+    expect(phases.map((p) => [p.name, p.status])).toEqual([
+      ["mount", "done"],
+      ["restore", "running"],
+      ["onboard", "pending"],
+      ["config", "pending"],
+      ["port", "pending"],
+      ["health", "pending"],
+    ]);
+    expect(phases[0]).toMatchObject({ startedAt: 10, finishedAt: 50 });
+  });
+
+  it("puts the error on the phase that was running when the start failed", () => {
+    const phases = buildStartupPhases(
+      record({ finishedAt: 900, error: "OpenClaw gateway failed to start. Stderr: bad config" }),
+      [
+        { phase: "restore", status: "done", at: 100 },
+        { phase: "config", status: "running", at: 200 },
+        { phase: "config", status: "failed", at: 300, detail: "exited with code 1" },
+      ],
+    );
+
+    expect(phases.find((p) => p.name === "config")).toMatchObject({
+      status: "failed",
+      finishedAt: 300,
+      detail: "OpenClaw gateway failed to start. Stderr: bad config",
+    });
+    expect(phases.find((p) => p.name === "port")?.status).toBe("pending");
+  });
+
+  it("fails the phase after the last one reached when the start failed between phases", () => {
+    const phases = buildStartupPhases(
+      record({
+        finishedAt: 900,
+        error: "Gateway failed its readiness check: no model provider configured",
+        events: [
+          { phase: "mount", status: "skipped", at: 10 },
+          { phase: "port", status: "done", at: 500 },
+        ],
+      }),
+      [],
+    );
+
+    expect(phases.filter((p) => p.status === "failed").map((p) => p.name)).toEqual(["health"]);
+  });
+});
+
+describe("StartupProgressStore", () => {
+  it("ignores updates from an attempt that was replaced", async () => {
+    const store = new StartupProgressStore(createMockStorage());
+    await store.begin("a", 0);
+    await store.begin("b", 1);
+
+    await store.update("a", { type: "finished", at: 2, error: "boom" });
+    await store.update("b", { type: "process", processId: "p1" });
+    await store.update("b", { type: "phase", phase: "mount", status: "done", at: 3 });
+
+    expect(await store.get()).toEqual({
+      attemptId: "b",
+      processId: "p1",
+      startedAt: 1,
+      finishedAt: null,
+      error: null,
+      events: [{ phase: "mount", status: "done", at: 3 }],
+    });
+  });
+});
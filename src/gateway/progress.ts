@@ -0,0 +1,298 @@
+import type { Sandbox as SupervisedSandbox } from "../sandbox";
+import type { KeyValueStorage } from "../types";
+import type { GatewayState } from "./supervisor";
+
+/**
+ * Steps of a gateway start, in order. mount, port and health are reported by
+ * the Worker; restore, onboard and config by start-openclaw.sh.
+ */
+export const STARTUP_PHASES = [
+  { name: "mount", label: "Mount R2 storage" },
+  { name: "restore", label: "Restore from backup" },
+  { name: "onboard", label: "Onboard" },
+  { name: "config", label: "Patch config" },
+  { name: "port", label: "Open gateway port" },
+  { name: "health", label: "Health check" },
+] as const;
+
+export type StartupPhaseName = (typeof STARTUP_PHASES)[number]["name"];
+
+export type StartupPhaseStatus = "pending" | "running" | "done" | "skipped" | "failed";
+
+/**
+ * A phase starting or finishing, from the Worker or a startup script marker
+ */
+export interface StartupPhaseEvent {
+  phase: StartupPhaseName;
+  status: Exclude<StartupPhaseStatus, "pending">;
+  at: number;
+  detail?: string;
+}
+
+/**
+ * Updates the Worker records for the start attempt holding `attemptId`
+ */
+export type StartupUpdate =
+  | ({ type: "phase" } & StartupPhaseEvent)
+  | { type: "process"; processId: string }
+  | { type: "finished"; at: number; error: string | null };
+
+/**
+ * What the Worker knows about the latest start attempt, persisted in the
+ * Sandbox Durable Object. Script phases are read from the process logs.
+ */
+export interface StartupRecord {
+  /** Start lease of the attempt */
+  attemptId: string | null;
+  /** Process running start-openclaw.sh for the attempt */
+  processId: string | null;
+  startedAt: number | null;
+  finishedAt: number | null;
+  error: string | null;
+  events: StartupPhaseEvent[];
+}
+
+export interface StartupPhase {
+  name: StartupPhaseName;
+  label: string;
+  status: StartupPhaseStatus;
+  startedAt: number | null;
+  finishedAt: number | null;
+  detail: string | null;
+}
+
+/**
+ * Timeline of the latest start attempt, as streamed to the loading page
+ */
+export interface StartupProgress {
+  status: "idle" | "starting" | "ready" | "failed";
+  attemptId: string | null;
+  startedAt: number | null;
+  finishedAt: number | null;
+  error: string | null;
+  phases: StartupPhase[];
+  gateway: Pick<GatewayState, "phase" | "restarts" | "nextAttemptAt">;
+}
+
+const STORAGE_KEY = "gateway:startup";
+
+/** Prefix of the phase markers start-openclaw.sh prints: `[phase] <name> <status> <epoch ms> [detail]` */
+const MARKER_PATTERN = /^\[phase\] (\w+) (start|done|skip|fail) (\d+)(?: (.*))?$/;
+
+const MARKER_STATUS: Record<string, StartupPhaseEvent["status"]> = {
+  start: "running",
+  done: "done",
+  skip: "skipped",
+  fail: "failed",
+};
+
+export function emptyStartupRecord(): StartupRecord {
+  return {
+    attemptId: null,
+    processId: null,
+    startedAt: null,
+    finishedAt: null,
+    error: null,
+    events: [],
+  };
+}
+
+function isPhaseName(name: string): name is StartupPhaseName {
+  return STARTUP_PHASES.some((phase) => phase.name === name);
+}
+
+/**
+ * Read the phase markers start-openclaw.sh printed to stdout
+ */
+export function parseStartupMarkers(output: string): StartupPhaseEvent[] {
+  const events: StartupPhaseEvent[] = [];
+  for (const line of output.split("\n")) {
+    const match = line.trim().match(MARKER_PATTERN);
+    if (!match || !isPhaseName(match[1])) continue;
+    events.push({
+      phase: match[1],
+      status: MARKER_STATUS[match[2]],
+      at: Number.parseInt(match[3], 10),
+      ...(match[4] ? { detail: match[4] } : {}),
+    });
+  }
+  return events;
+}
+
+/**
+ * Build the timeline from the Worker's record and the script's markers.
+ * If the attempt failed, the phase that was running (or the one after the
+ * last phase reached) is marked failed with the error.
+ */
+export function buildStartupPhases(
+  record: StartupRecord,
+  markers: StartupPhaseEvent[],
+): StartupPhase[] {
+  const phases: StartupPhase[] = STARTUP_PHASES.map(({ name, label }) => ({
+    name,
+    label,
+    status: "pending",
+    startedAt: null,
+    finishedAt: null,
+    detail: null,
+  }));
+
+  const events = [...record.events, ...markers].sort((a, b) => a.at - b.at);
+  for (const event of events) {
+    const phase = phases.find((p) => p.name === event.phase);
+    if (!phase) continue;
+    if (event.status === "running") {
+      phase.startedAt = event.at;
+    } else {
+      phase.startedAt ??= event.at;
+      phase.finishedAt = event.at;
+    }
+    phase.status = event.status;
+    if (event.detail) phase.detail = event.detail;
+  }
+
+  if (record.error) {
+    let reached = -1;
+    phases.forEach((p, i) => {
+      if (p.status !== "pending") reached = i;
+    });
+    const failed =
+      phases.find((p) => p.status === "failed") ??
+      phases.find((p) => p.status === "running") ??
+      phases.find((p, i) => i > reached && p.status === "pending");
+    if (failed) {
+      failed.status = "failed";
+      failed.finishedAt ??= record.finishedAt;
+      // The Worker's error carries the gateway's stderr, which says more than an exit code
+      failed.detail = record.error;
+    }
+  }
+  return phases;
+}
+
+/**
+ * Startup progress in Durable Object storage. A new start attempt replaces
+ * the previous one; updates from an older attempt are ignored.
+ */
+export class StartupProgressStore {
+  constructor(private storage: KeyValueStorage) {}
+
+  async get(): Promise<StartupRecord> {
+    return (await this.storage.get<StartupRecord>(STORAGE_KEY)) ?? emptyStartupRecord();
+  }
+
+  async begin(attemptId: string, now = Date.now()): Promise<void> {
+    await this.storage.put(STORAGE_KEY, { ...emptyStartupRecord(), attemptId, startedAt: now });
+  }
+
+  async update(attemptId: string, update: StartupUpdate): Promise<void> {
+    const record = await this.get();
+    if (record.attemptId !== attemptId) return;
+
+    let next: StartupRecord;
+    if (update.type === "process") {
+      next = { ...record, processId: update.processId };
+    } else if (update.type === "finished") {
+      next = { ...record, finishedAt: update.at, error: update.error };
+    } else {
+      const { type: _type, ...event } = update;
+      next = { ...record, events: [...record.events, event] };
+    }
+    await this.storage.put(STORAGE_KEY, next);
+  }
+}
+
+async function report(
+  sandbox: SupervisedSandbox,
+  attemptId: string,
+  update: StartupUpdate,
+): Promise<void> {
+  try {
+    await sandbox.recordStartupUpdate(attemptId, update);
+  } catch (err) {
+    // Progress is informational; never fail a start over it
+    console.error("[Gateway] Could not record startup progress:", err);
+  }
+}
+
+/**
+ * Report a Worker-side phase of the start attempt holding `attemptId`
+ */
+export function reportStartupPhase(
+  sandbox: SupervisedSandbox,
+  attemptId: string,
+  phase: StartupPhaseName,
+  status: StartupPhaseEvent["status"],
+  detail?: string,
+): Promise<void> {
+  return report(sandbox, attemptId, {
+    type: "phase",
+    phase,
+    status,
+    at: Date.now(),
+    ...(detail ? { detail } : {}),
+  });
+}
+
+/**
+ * Report the process running the startup script, so its phase markers can be read
+ */
+export function reportStartupProcess(
+  sandbox: SupervisedSandbox,
+  attemptId: string,
+  processId: string,
+): Promise<void> {
+  return report(sandbox, attemptId, { type: "process", processId });
+}
+
+/**
+ * Report that the start attempt holding `attemptId` finished, with the error if it failed
+ */
+export function reportStartupFinished(
+  sandbox: SupervisedSandbox,
+  attemptId: string,
+  error: string | null,
+): Promise<void> {
+  return report(sandbox, attemptId, { type: "finished", at: Date.now(), error });
+}
+
+/**
+ * Current startup timeline: the Worker's record merged with the phase
+ * markers in the startup script's output
+ */
+export async function readStartupProgress(sandbox: SupervisedSandbox): Promise<StartupProgress> {
+  const [record, state] = await Promise.all([
+    sandbox.getStartupRecord(),
+    sandbox.getGatewayState(),
+  ]);
+
+  let markers: StartupPhaseEvent[] = [];
+  if (record.processId) {
+    try {
+      const logs = await sandbox.getProcessLogs(record.processId);
+      markers = parseStartupMarkers(logs.stdout || "");
+    } catch {
+      // The process is gone (e.g. the container restarted); show what the Worker saw
+    }
+  }
+
+  const serving = state.phase === "ready" || state.phase === "degraded";
+  let status: StartupProgress["status"] = "idle";
+  if (serving) status = "ready";
+  else if (record.error) status = "failed";
+  else if (state.phase === "starting") status = "starting";
+
+  return {
+    status,
+    attemptId: record.attemptId,
+    startedAt: record.startedAt,
+    finishedAt: record.finishedAt,
+    error: record.error,
+    phases: buildStartupPhases(record, markers),
+    gateway: {
+      phase: state.phase,
+      restarts: state.restarts,
+      nextAttemptAt: state.nextAttemptAt,
+    },
+  };
+}
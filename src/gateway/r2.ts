@@ -54,10 +54,13 @@ export async function mountR2Storage(sandbox: Sandbox, env: OpenClawEnv): Promis
   const bucketName = getR2BucketName(env);
   try {
     const endpoint = `https://${env.CF_ACCOUNT_ID}.r2.cloudflarestorage.com`;
+    const prefix = env.R2_PREFIX?.replace(/^\/+|\/+$/g, "");
     console.log("Mounting R2 bucket", bucketName, "at", R2_MOUNT_PATH, "endpoint:", endpoint);
     await sandbox.mountBucket(bucketName, R2_MOUNT_PATH, {
       endpoint,
       provider: "r2",
+      // Each gateway of a multi-gateway deployment keeps its data under its own prefix
+      ...(prefix ? { prefix: `/${prefix}/` } : {}),
       credentials: {
         accessKeyId: env.R2_ACCESS_KEY_ID,
         secretAccessKey: env.R2_SECRET_ACCESS_KEY,
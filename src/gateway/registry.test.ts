@@ -0,0 +1,155 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { createMockEnv, suppressConsole } from "../test-utils";
+import {
+  DEFAULT_SANDBOX_ID,
+  GATEWAY_HEADER,
+  gatewayEnv,
+  parseGatewayRegistry,
+  resolveGateway,
+  stripGatewayPrefix,
+} from "./registry";
+
+const GATEWAYS = JSON.stringify([
+  { name: "personal", hosts: ["Claw.example.com"], sandboxId: "openclaw" },
+  {
+    name: "company",
+    label: "Company",
+    pathPrefix: "/company/",
+    r2Prefix: "company",
+    sleepAfter: "30m",
+    env: { TELEGRAM_BOT_TOKEN: "company-bot", OPENCLAW_BUCKET: "nope" },
+    default: true,
+  },
+  { name: "company-eu", pathPrefix: "/company/eu" },
+]);
+
+describe("parseGatewayRegistry", () => {
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  it("has one default gateway on the original sandbox when GATEWAYS is not set", () => {
+    expect(parseGatewayRegistry({})).toMatchObject([
+      { name: DEFAULT_SANDBOX_ID, sandboxId: DEFAULT_SANDBOX_ID, isDefault: true },
+    ]);
+  });
+
+  it("parses entries, normalizing hosts and prefixes", () => {
+    const [personal, company, eu] = parseGatewayRegistry({ GATEWAYS });
+
+    expect(personal).toMatchObject({
+      hosts: ["claw.example.com"],
+      sandboxId: "openclaw",
+      isDefault: false,
+    });
+    expect(company).toMatchObject({
+      label: "Company",
+      pathPrefix: "/company",
+      sandboxId: "company",
+      r2Prefix: "company",
+      sleepAfter: "30m",
+      isDefault: true,
+    });
+    expect(eu).toMatchObject({ label: "company-eu", pathPrefix: "/company/eu" });
+  });
+
+  it("doesn't let env overrides replace bindings", () => {
+    const company = parseGatewayRegistry({ GATEWAYS })[1];
+    expect(company.env).toEqual({ TELEGRAM_BOT_TOKEN: "company-bot" });
+  });
+
+  it("ignores invalid, duplicate and reserved entries", () => {
+    const gateways = parseGatewayRegistry({
+      GATEWAYS: JSON.stringify([
+        { name: "Bad Name" },
+        { name: "admin", pathPrefix: "/_admin" },
+        { name: "a" },
+        { name: "b", sandboxId: "a" },
+      ]),
+    });
+
+    expect(gateways.map((g) => g.name)).toEqual(["a"]);
+    expect(gateways[0].isDefault).toBe(true);
+  });
+
+  it("falls back to the default gateway on invalid JSON", () => {
+    expect(parseGatewayRegistry({ GATEWAYS: "{not json" })).toMatchObject([
+      { name: DEFAULT_SANDBOX_ID },
+    ]);
+  });
+});
+
+describe("resolveGateway", () => {
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  const resolve = (url: string, headers: Record<string, string> = {}) =>
+    resolveGateway(parseGatewayRegistry({ GATEWAYS }), new Request(url, { headers }));
+
+  it("routes by hostname", () => {
+    expect(resolve("https://claw.example.com/chat")).toMatchObject({
+      gateway: { name: "personal" },
+      basePath: "",
+    });
+  });
+
+  it("routes by the longest matching path prefix", () => {
+    expect(resolve("https://w.example.com/company/eu/api/status")).toMatchObject({
+      gateway: { name: "company-eu" },
+      basePath: "/company/eu",
+    });
+    expect(resolve("https://w.example.com/company")).toMatchObject({
+      gateway: { name: "company" },
+      basePath: "/company",
+    });
+    expect(resolve("https://w.example.com/companyx").basePath).toBe("");
+  });
+
+  it("keeps the path prefix of another gateway when the hostname picks the gateway", () => {
+    expect(resolve("https://claw.example.com/company/api/status")).toMatchObject({
+      gateway: { name: "personal" },
+      basePath: "",
+    });
+  });
+
+  it("sends unmatched requests to the default gateway", () => {
+    expect(resolve("https://w.example.com/").gateway.name).toBe("company");
+  });
+
+  it("ignores the gateway named in the header", () => {
+    const { gateway } = resolve("https://claw.example.com/api/admin/gateway", {
+      [GATEWAY_HEADER]: "company-eu",
+    });
+    expect(gateway.name).toBe("personal");
+  });
+});
+
+describe("stripGatewayPrefix", () => {
+  it("removes the prefix the request was routed by", () => {
+    expect(stripGatewayPrefix("/company/api/status", "/company")).toBe("/api/status");
+    expect(stripGatewayPrefix("/company", "/company")).toBe("/");
+    expect(stripGatewayPrefix("/api/status", "")).toBe("/api/status");
+  });
+});
+
+describe("gatewayEnv", () => {
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  it("applies the gateway's overrides to the shared settings", () => {
+    const company = parseGatewayRegistry({ GATEWAYS })[1];
+    const env = gatewayEnv(
+      createMockEnv({ TELEGRAM_BOT_TOKEN: "shared-bot", SANDBOX_SLEEP_AFTER: "never" }),
+      company,
+    );
+
+    expect(env).toMatchObject({
+      TELEGRAM_BOT_TOKEN: "company-bot",
+      SANDBOX_SLEEP_AFTER: "30m",
+      R2_PREFIX: "company",
+      GATEWAY_BASE_PATH: "/company",
+    });
+  });
+});
@@ -0,0 +1,220 @@
+import type { OpenClawEnv } from "../types";
+
+/** Sandbox ID of the gateway when GATEWAYS isn't set, and of existing deployments */
+export const DEFAULT_SANDBOX_ID = "openclaw";
+
+/**
+ * Header the admin UI sends to manage a gateway other than the one the
+ * request was routed to. Only the admin API honors it, for principals the
+ * other gateway lets in.
+ */
+export const GATEWAY_HEADER = "X-OpenClaw-Gateway";
+
+/** First path segments the Worker serves itself, so they can't be a gateway's prefix */
+const RESERVED_SEGMENTS = new Set(["api", "_admin", "debug", "cdp", "v1", "sandbox-health"]);
+
+/**
+ * Settings that only GATEWAYS may set: bindings, and the per-gateway fields below
+ */
+const PROTECTED_ENV_KEYS = new Set([
+  "Sandbox",
+  "ASSETS",
+  "OPENCLAW_BUCKET",
+  "BROWSER",
+  "GATEWAYS",
+  "R2_PREFIX",
+  "GATEWAY_BASE_PATH",
+  "SANDBOX_SLEEP_AFTER",
+]);
+
+const NAME_PATTERN = /^[a-z0-9][a-z0-9-]{0,62}$/;
+
+/**
+ * One gateway fronted by this Worker, with its own sandbox (container and
+ * Durable Object state)
+ */
+export interface GatewayConfig {
+  name: string;
+  label: string;
+  /** Hostnames routed to this gateway */
+  hosts: string[];
+  /** Path prefix routed to this gateway, e.g. "/company" */
+  pathPrefix: string | null;
+  sandboxId: string;
+  /** Key prefix the container's R2 mount is limited to */
+  r2Prefix: string | null;
+  /** SANDBOX_SLEEP_AFTER for this gateway's container */
+  sleepAfter: string | null;
+  /** Worker settings overridden for this gateway */
+  env: Record<string, string>;
+  /** Serves requests that match no hostname or path prefix */
+  isDefault: boolean;
+}
+
+/**
+ * The gateway a request was routed to
+ */
+export interface ResolvedGateway {
+  gateway: GatewayConfig;
+  /** Path prefix the request came in under, which the Worker's own routes don't see */
+  basePath: string;
+}
+
+function defaultGateway(): GatewayConfig {
+  return {
+    name: DEFAULT_SANDBOX_ID,
+    label: "OpenClaw",
+    hosts: [],
+    pathPrefix: null,
+    sandboxId: DEFAULT_SANDBOX_ID,
+    r2Prefix: null,
+    sleepAfter: null,
+    env: {},
+    isDefault: true,
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function optionalString(value: unknown): string | null {
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+function normalizePathPrefix(value: string): string | null {
+  const prefix = `/${value.replace(/^\/+|\/+$/g, "")}`;
+  if (prefix === "/" || !/^(\/[A-Za-z0-9._~-]+)+$/.test(prefix)) return null;
+  if (RESERVED_SEGMENTS.has(prefix.split("/")[1])) return null;
+  return prefix;
+}
+
+function parseGatewayEntry(entry: unknown): GatewayConfig | string {
+  if (!isRecord(entry)) return "entry must be an object";
+  const name = optionalString(entry.name)?.toLowerCase();
+  if (!name || !NAME_PATTERN.test(name)) {
+    return "name must be lowercase letters, digits and dashes";
+  }
+
+  let pathPrefix: string | null = null;
+  if (entry.pathPrefix !== undefined) {
+    const raw = optionalString(entry.pathPrefix);
+    pathPrefix = raw && normalizePathPrefix(raw);
+    if (!pathPrefix) return `${name}: invalid or reserved pathPrefix ${String(entry.pathPrefix)}`;
+  }
+
+  const hosts = Array.isArray(entry.hosts)
+    ? entry.hosts.flatMap((host) => optionalString(host)?.toLowerCase() ?? [])
+    : [];
+
+  const env: Record<string, string> = {};
+  if (isRecord(entry.env)) {
+    for (const [key, value] of Object.entries(entry.env)) {
+      if (typeof value !== "string" || PROTECTED_ENV_KEYS.has(key)) {
+        console.error(`[GATEWAYS] ${name}: ignoring env override ${key}`);
+        continue;
+      }
+      env[key] = value;
+    }
+  }
+
+  return {
+    name,
+    label: optionalString(entry.label) ?? name,
+    hosts,
+    pathPrefix,
+    sandboxId: optionalString(entry.sandboxId) ?? name,
+    r2Prefix: optionalString(entry.r2Prefix),
+    sleepAfter: optionalString(entry.sleepAfter),
+    env,
+    isDefault: entry.default === true,
+  };
+}
+
+/**
+ * Build the gateway registry from GATEWAYS, a JSON array of
+ * `{ name, label?, hosts?, pathPrefix?, sandboxId?, r2Prefix?, sleepAfter?, env?, default? }`.
+ * Invalid entries are logged and ignored. Without GATEWAYS (or without a
+ * valid entry) there is one gateway on the "openclaw" sandbox, as before.
+ * The entry marked `default`, or else the first one, serves unmatched requests.
+ */
+export function parseGatewayRegistry(env: Pick<OpenClawEnv, "GATEWAYS">): GatewayConfig[] {
+  const value = env.GATEWAYS?.trim();
+  if (!value) return [defaultGateway()];
+
+  let entries: unknown;
+  try {
+    entries = JSON.parse(value);
+  } catch (err) {
+    console.error("[GATEWAYS] Invalid JSON, using the default gateway:", err);
+    return [defaultGateway()];
+  }
+  if (!Array.isArray(entries)) {
+    console.error("[GATEWAYS] Expected a JSON array, using the default gateway");
+    return [defaultGateway()];
+  }
+
+  const gateways: GatewayConfig[] = [];
+  for (const entry of entries) {
+    const gateway = parseGatewayEntry(entry);
+    if (typeof gateway === "string") {
+      console.error(`[GATEWAYS] Ignoring invalid entry: ${gateway}`);
+    } else if (gateways.some((g) => g.name === gateway.name || g.sandboxId === gateway.sandboxId)) {
+      console.error(`[GATEWAYS] Ignoring duplicate gateway ${gateway.name}`);
+    } else {
+      gateways.push(gateway);
+    }
+  }
+  if (gateways.length === 0) return [defaultGateway()];
+
+  const fallback = gateways.find((g) => g.isDefault) ?? gateways[0];
+  return gateways.map((g) => ({ ...g, isDefault: g === fallback }));
+}
+
+function matchesPrefix(pathname: string, prefix: string): boolean {
+  return pathname === prefix || pathname.startsWith(`${prefix}/`);
+}
+
+/**
+ * Pick the gateway for a request: a hostname match, then the longest matching
+ * path prefix, then the default gateway
+ */
+export function resolveGateway(registry: GatewayConfig[], request: Request): ResolvedGateway {
+  const url = new URL(request.url);
+  const byPrefix = registry
+    .filter((g) => g.pathPrefix && matchesPrefix(url.pathname, g.pathPrefix))
+    .sort((a, b) => (b.pathPrefix?.length ?? 0) - (a.pathPrefix?.length ?? 0))[0];
+
+  const gateway =
+    registry.find((g) => g.hosts.includes(url.hostname.toLowerCase())) ||
+    byPrefix ||
+    registry.find((g) => g.isDefault) ||
+    registry[0];
+  // Only the chosen gateway's own prefix is stripped: a hostname match may
+  // have picked a gateway other than the one the path's prefix belongs to
+  const basePath =
+    gateway.pathPrefix && matchesPrefix(url.pathname, gateway.pathPrefix) ? gateway.pathPrefix : "";
+  return { gateway, basePath };
+}
+
+/**
+ * Request path as the Worker's routes see it, without the gateway's path prefix
+ */
+export function stripGatewayPrefix(pathname: string, basePath: string): string {
+  if (!basePath) return pathname;
+  return pathname.slice(basePath.length) || "/";
+}
+
+/**
+ * Worker settings for one gateway: the shared settings with the gateway's
+ * overrides, sleep policy, R2 prefix and path prefix applied
+ */
+export function gatewayEnv(env: OpenClawEnv, gateway: GatewayConfig): OpenClawEnv {
+  return {
+    ...env,
+    ...gateway.env,
+    SANDBOX_SLEEP_AFTER: gateway.sleepAfter ?? env.SANDBOX_SLEEP_AFTER,
+    R2_PREFIX: gateway.r2Prefix ?? env.R2_PREFIX,
+    GATEWAY_BASE_PATH: gateway.pathPrefix ?? undefined,
+  };
+}
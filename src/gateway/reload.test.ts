@@ -0,0 +1,147 @@
+import type { Process } from "@cloudflare/sandbox";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { GATEWAY_PORT, GATEWAY_STANDBY_PORT } from "../config";
+import type { Sandbox as SupervisedSandbox } from "../sandbox";
+import {
+  createMockEnv,
+  createMockGatewaySocket,
+  createMockProcess,
+  createMockSandbox,
+  createMockStorage,
+  suppressConsole,
+} from "../test-utils";
+import { parseReloadStrategy, reloadGateway } from "./reload";
+import { GatewaySupervisorStore } from "./supervisor";
+
+function gatewayProcess(id: string, command: string): Process {
+  return {
+    id,
+    command,
+    status: "running",
+    waitForPort: vi.fn(),
+    kill: vi.fn().mockResolvedValue(undefined),
+    getLogs: vi.fn().mockResolvedValue({ stdout: "", stderr: "" }),
+  } as unknown as Process;
+}
+
+/**
+ * A sandbox whose supervisor has `serving` ready on the default port
+ */
+async function createServingSandbox(serving: Process) {
+  const mock = createMockSandbox({ processes: [serving] });
+  const store = new GatewaySupervisorStore(createMockStorage());
+  const claim = await store.claimStart();
+  if (!claim.ok) throw new Error("expected to claim the start");
+  await store.record({
+    type: "ready",
+    leaseId: claim.leaseId,
+    processId: serving.id,
+    port: GATEWAY_PORT,
+  });
+
+  const sandbox = Object.assign(mock.sandbox, {
+    getGatewayState: () => store.get(),
+    claimGatewayStart: () => store.claimStart(),
+    claimGatewayReload: (port: number) => store.claimReload(port),
+    recordGatewayEvent: (event: Parameters<typeof store.record>[0]) => store.record(event),
+  }) as unknown as SupervisedSandbox;
+  return { ...mock, sandbox, store };
+}
+
+describe("parseReloadStrategy", () => {
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  it("defaults to auto and ignores unknown strategies", () => {
+    expect(parseReloadStrategy(createMockEnv())).toBe("auto");
+    expect(parseReloadStrategy(createMockEnv({ GATEWAY_RELOAD: "Blue-Green" }))).toBe("blue-green");
+    expect(parseReloadStrategy(createMockEnv({ GATEWAY_RELOAD: "rolling" }))).toBe("auto");
+  });
+});
+
+describe("reloadGateway", () => {
+  const BLUE_GREEN = createMockEnv({ GATEWAY_RELOAD: "blue-green", GATEWAY_HEALTH: "probe=tcp" });
+
+  beforeEach(() => {
+    suppressConsole();
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("switches traffic to a replacement on the standby port, then stops the old gateway", async () => {
+    const current = gatewayProcess("gateway-1", "/usr/local/bin/start-openclaw.sh");
+    const replacement = gatewayProcess(
+      "gateway-2",
+      `/usr/local/bin/start-openclaw.sh --port ${GATEWAY_STANDBY_PORT}`,
+    );
+    const { sandbox, store, startProcessMock } = await createServingSandbox(current);
+    startProcessMock.mockImplementation(async (command: string) =>
+      command.startsWith("/usr/local/bin/start-openclaw.sh") ? replacement : createMockProcess(),
+    );
+
+    const reload = reloadGateway(sandbox, BLUE_GREEN);
+    await vi.runAllTimersAsync();
+
+    expect(await reload).toEqual({
+      mode: "blue-green",
+      processId: "gateway-2",
+      port: GATEWAY_STANDBY_PORT,
+    });
+    expect(startProcessMock).toHaveBeenCalledWith(
+      `/usr/local/bin/start-openclaw.sh --port ${GATEWAY_STANDBY_PORT}`,
+      expect.anything(),
+    );
+    expect(await store.get()).toMatchObject({
+      phase: "ready",
+      processId: "gateway-2",
+      port: GATEWAY_STANDBY_PORT,
+      restarts: 1,
+      reloadLease: null,
+    });
+    expect(current.kill).toHaveBeenCalled();
+  });
+
+  it("keeps the current gateway serving if the replacement fails to start", async () => {
+    const current = gatewayProcess("gateway-1", "/usr/local/bin/start-openclaw.sh");
+    const replacement = gatewayProcess("gateway-2", "start-openclaw.sh --port 19789");
+    vi.mocked(replacement.waitForPort).mockRejectedValue(new Error("port never opened"));
+    const { sandbox, store, startProcessMock } = await createServingSandbox(current);
+    startProcessMock.mockImplementation(async (command: string) =>
+      command.startsWith("/usr/local/bin/start-openclaw.sh") ? replacement : createMockProcess(),
+    );
+
+    const reload = reloadGateway(sandbox, BLUE_GREEN);
+    const assertion = expect(reload).rejects.toThrow("port never opened");
+    await vi.runAllTimersAsync();
+    await assertion;
+
+    expect(await store.get()).toMatchObject({
+      phase: "ready",
+      processId: "gateway-1",
+      port: GATEWAY_PORT,
+      reloadLease: null,
+    });
+    expect(current.kill).not.toHaveBeenCalled();
+    expect(replacement.kill).toHaveBeenCalled();
+  });
+
+  it("lets the gateway apply a config change in place when it stays healthy", async () => {
+    const current = gatewayProcess("gateway-1", "/usr/local/bin/start-openclaw.sh");
+    const { sandbox, startProcessMock } = await createServingSandbox(current);
+    const gateway = createMockGatewaySocket((req) =>
+      req.method === "health" ? { ok: true, payload: { ok: true } } : { ok: true, payload: {} },
+    );
+    vi.mocked(sandbox.wsConnect).mockResolvedValue(gateway.response);
+
+    const reload = reloadGateway(sandbox, createMockEnv(), { configChanged: true });
+    await vi.runAllTimersAsync();
+
+    expect(await reload).toEqual({ mode: "hot", processId: "gateway-1", port: GATEWAY_PORT });
+    expect(startProcessMock).not.toHaveBeenCalled();
+    expect(current.kill).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,169 @@
+import type { Process } from "@cloudflare/sandbox";
+import { GATEWAY_PORT, GATEWAY_STANDBY_PORT } from "../config";
+import type { Sandbox as SupervisedSandbox } from "../sandbox";
+import type { OpenClawEnv } from "../types";
+import { probeGatewayHealth, waitForGatewayReady } from "./health";
+import {
+  cleanupGatewayProcesses,
+  ensureGateway,
+  findSupervisedGateway,
+  launchGateway,
+  stopGateway,
+  waitForGatewayPort,
+} from "./process";
+
+/**
+ * How restarts and config changes reach the gateway (GATEWAY_RELOAD)
+ * - auto: let OpenClaw apply config changes itself; otherwise boot a replacement
+ *   next to the running gateway and switch over, falling back to a restart
+ * - blue-green: always boot a replacement and switch over, never restart in place
+ * - restart: kill the gateway and start a new one (1-2 minutes of downtime)
+ */
+export type ReloadStrategy = "auto" | "blue-green" | "restart";
+
+const RELOAD_STRATEGIES: readonly ReloadStrategy[] = ["auto", "blue-green", "restart"];
+
+/**
+ * How the change was applied
+ */
+export interface ReloadResult {
+  mode: "hot" | "blue-green" | "restart";
+  processId: string;
+  port: number;
+}
+
+/** Time OpenClaw gets to notice a changed openclaw.json and apply it */
+const HOT_RELOAD_SETTLE_MS = 3000;
+
+/** Time requests already sent to the old gateway get to finish after the switch */
+const DRAIN_MS = 5000;
+
+export function parseReloadStrategy(env: OpenClawEnv): ReloadStrategy {
+  const value = env.GATEWAY_RELOAD?.trim().toLowerCase();
+  if (!value) return "auto";
+  if ((RELOAD_STRATEGIES as readonly string[]).includes(value)) return value as ReloadStrategy;
+  console.error(`[RELOAD] Ignoring invalid GATEWAY_RELOAD: ${value}`);
+  return "auto";
+}
+
+/**
+ * Kill the gateway and start a new one, with downtime
+ */
+async function restartGateway(
+  sandbox: SupervisedSandbox,
+  env: OpenClawEnv,
+  reset: boolean,
+): Promise<ReloadResult> {
+  await stopGateway(sandbox, { reset });
+  await cleanupGatewayProcesses(sandbox);
+  const { process, port } = await ensureGateway(sandbox, env);
+  return { mode: "restart", processId: process.id, port };
+}
+
+/**
+ * Boot a replacement gateway on the other port while the current one keeps
+ * serving, switch traffic over once it passes its readiness check, then stop
+ * the old one.
+ */
+async function swapGateway(
+  sandbox: SupervisedSandbox,
+  env: OpenClawEnv,
+  leaseId: string,
+  current: { process: Process; port: number },
+  port: number,
+): Promise<ReloadResult> {
+  console.log("[RELOAD] Booting replacement gateway on port", port);
+  let process: Process | null = null;
+  try {
+    process = await launchGateway(sandbox, env, port);
+    await waitForGatewayPort(process, port);
+    await waitForGatewayReady(sandbox, process, env, port);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    await process?.kill().catch(() => {});
+    await cleanupGatewayProcesses(sandbox, port);
+    await sandbox.recordGatewayEvent({ type: "reload_failed", leaseId, error: message });
+    throw err;
+  }
+
+  const state = await sandbox.recordGatewayEvent({
+    type: "reload_ready",
+    leaseId,
+    processId: process.id,
+  });
+  if (state.processId !== process.id) {
+    // The serving gateway died or was stopped meanwhile and a fresh start took
+    // over; keep that one rather than switching under it
+    await process.kill().catch(() => {});
+    await cleanupGatewayProcesses(sandbox, port);
+    const instance = await ensureGateway(sandbox, env);
+    return { mode: "restart", processId: instance.process.id, port: instance.port };
+  }
+
+  console.log("[RELOAD] Switched to port", port, "- stopping gateway on port", current.port);
+  await new Promise((r) => setTimeout(r, DRAIN_MS));
+  await current.process.kill().catch((err: unknown) => {
+    console.error("[RELOAD] Error killing previous gateway:", err);
+  });
+  await cleanupGatewayProcesses(sandbox, current.port);
+
+  return { mode: "blue-green", processId: process.id, port };
+}
+
+/**
+ * Apply a restart or config change with as little downtime as the strategy
+ * allows. If no gateway is serving, this is a plain (re)start.
+ *
+ * @param options.configChanged - openclaw.json was just rewritten; try letting OpenClaw apply it first
+ * @param options.reset - Clear the supervisor's failure history if a restart is needed
+ */
+export async function reloadGateway(
+  sandbox: SupervisedSandbox,
+  env: OpenClawEnv,
+  options: { configChanged?: boolean; reset?: boolean } = {},
+): Promise<ReloadResult> {
+  const strategy = parseReloadStrategy(env);
+  const state = await sandbox.getGatewayState();
+  const serving =
+    state.phase === "ready" || state.phase === "degraded"
+      ? await findSupervisedGateway(sandbox, state.processId)
+      : null;
+
+  if (!serving || strategy === "restart") {
+    return restartGateway(sandbox, env, options.reset ?? false);
+  }
+
+  if (options.configChanged && strategy === "auto") {
+    // OpenClaw watches openclaw.json and applies changes without dropping connections
+    await new Promise((r) => setTimeout(r, HOT_RELOAD_SETTLE_MS));
+    const health = await probeGatewayHealth(sandbox, env, state.port);
+    if (health.healthy) {
+      console.log("[RELOAD] Gateway applied the config change in place");
+      return { mode: "hot", processId: serving.id, port: state.port };
+    }
+    console.log("[RELOAD] Gateway unhealthy after config change:", health.failures.join("; "));
+  }
+
+  const port = state.port === GATEWAY_PORT ? GATEWAY_STANDBY_PORT : GATEWAY_PORT;
+  const claim = await sandbox.claimGatewayReload(port);
+  if (!claim.ok) {
+    if (claim.reason === "in_progress") {
+      throw new Error("Another gateway reload is already in progress");
+    }
+    return restartGateway(sandbox, env, options.reset ?? false);
+  }
+
+  try {
+    return await swapGateway(
+      sandbox,
+      env,
+      claim.leaseId,
+      { process: serving, port: state.port },
+      port,
+    );
+  } catch (err) {
+    if (strategy !== "auto") throw err;
+    console.error("[RELOAD] Zero-downtime reload failed, restarting instead:", err);
+    return restartGateway(sandbox, env, options.reset ?? false);
+  }
+}
@@ -0,0 +1,200 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { Sandbox as SupervisedSandbox } from "../sandbox";
+import { createMockEnv, createMockStorage, suppressConsole } from "../test-utils";
+import { IncidentStore } from "./incidents";
+import {
+  evaluateResourceAlerts,
+  INSTANCE_LIMITS,
+  MAX_RESOURCE_SAMPLES,
+  parseResourceMonitorConfig,
+  parseResourceSample,
+  type ResourceSample,
+  ResourceSampleStore,
+  sampleResources,
+} from "./resources";
+
+const GIB_KB = 1024 * 1024;
+
+function sampleOutput({
+  memTotalKb = 4 * GIB_KB,
+  memAvailableKb = 3 * GIB_KB,
+  cpu = "cpu  1000 0 500 8000 500 0 0 0 0 0",
+  diskUsedKb = 2_000_000,
+} = {}) {
+  return `MemTotal:       ${memTotalKb} kB
+MemFree:          524288 kB
+MemAvailable:   ${memAvailableKb} kB
+---
+${cpu}
+---
+2
+---
+/dev/vda        8000000 ${diskUsedKb} 6000000  25% /
+---
+102400\t/root
+51200\t/data/openclaw
+---
+ 3000 /container-server/sandbox
+ 2000 /bin/bash /usr/local/bin/start-openclaw.sh
+512000 node /usr/local/bin/openclaw gateway --port 18789 --verbose --bind lan
+256000 node /usr/local/lib/node_modules/openclaw/worker.js openclaw-gateway
+ 1000 ps -eo rss=,args=
+`;
+}
+
+describe("parseResourceMonitorConfig", () => {
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  it("defaults to the standard-1 instance", () => {
+    expect(parseResourceMonitorConfig({})).toEqual({
+      instanceType: "standard-1",
+      limits: INSTANCE_LIMITS["standard-1"],
+      thresholds: { cpu: 90, memory: 80, disk: 80 },
+    });
+  });
+
+  it("parses the instance type and thresholds, ignoring invalid entries", () => {
+    const config = parseResourceMonitorConfig({
+      RESOURCE_ALERTS: "instance=basic, memory=70%, disk=95, cpu=lots, instance=huge",
+    });
+    expect(config).toEqual({
+      instanceType: "basic",
+      limits: INSTANCE_LIMITS.basic,
+      thresholds: { cpu: 90, memory: 70, disk: 95 },
+    });
+  });
+});
+
+describe("parseResourceSample", () => {
+  it("reads memory, disk, directory sizes and gateway RSS", () => {
+    const sample = parseResourceSample(sampleOutput(), null, 1000);
+
+    expect(sample).toEqual({
+      at: 1000,
+      cpuCores: null,
+      cpuTicks: { busy: 1500, total: 10000 },
+      memoryUsedBytes: 1024 ** 3,
+      memoryTotalBytes: 4 * 1024 ** 3,
+      diskUsedBytes: 2_000_000 * 1024,
+      rootBytes: 102400 * 1024,
+      dataBytes: 51200 * 1024,
+      gatewayRssBytes: (512000 + 256000) * 1024,
+      alerts: [],
+    });
+  });
+
+  it("averages CPU usage over the time since the previous sample", () => {
+    const previous = parseResourceSample(sampleOutput(), null);
+    // 500 of the 1000 jiffies since were busy, on 2 CPUs
+    const sample = parseResourceSample(
+      sampleOutput({ cpu: "cpu  1300 0 700 8400 600 0 0 0 0 0" }),
+      previous,
+    );
+    expect(sample.cpuCores).toBe(1);
+  });
+
+  it("has no CPU usage when the counters started over", () => {
+    const previous = parseResourceSample(sampleOutput(), null);
+    const sample = parseResourceSample(
+      sampleOutput({ cpu: "cpu  10 0 5 80 5 0 0 0 0 0" }),
+      previous,
+    );
+    expect(sample.cpuCores).toBeNull();
+  });
+
+  it("has no gateway RSS when no gateway is running", () => {
+    const sample = parseResourceSample(
+      "---\n---\n---\n---\n---\n 3000 /container-server/sandbox\n",
+      null,
+    );
+    expect(sample.gatewayRssBytes).toBeNull();
+    expect(sample.rootBytes).toBeNull();
+  });
+});
+
+describe("evaluateResourceAlerts", () => {
+  const config = parseResourceMonitorConfig({});
+
+  it("alerts on resources at or above their threshold", () => {
+    const sample = parseResourceSample(
+      sampleOutput({ memAvailableKb: 0.5 * GIB_KB, diskUsedKb: 7_000_000 }),
+      null,
+    );
+    const alerts = evaluateResourceAlerts(sample, config);
+
+    expect(alerts.map((a) => [a.resource, a.percent])).toEqual([
+      ["memory", 88],
+      ["disk", 90],
+    ]);
+    expect(alerts[0].message).toContain("gateway 750 MiB");
+  });
+
+  it("measures memory against what the container reports when that is less", () => {
+    const sample = parseResourceSample(
+      sampleOutput({ memTotalKb: 2 * GIB_KB, memAvailableKb: 0.25 * GIB_KB }),
+      null,
+    );
+    expect(evaluateResourceAlerts(sample, config)).toMatchObject([
+      { resource: "memory", percent: 88 },
+    ]);
+  });
+
+  it("is quiet well below the limits", () => {
+    expect(evaluateResourceAlerts(parseResourceSample(sampleOutput(), null), config)).toEqual([]);
+  });
+});
+
+describe("sampleResources", () => {
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  function createSampledSandbox(outputs: string[]) {
+    const storage = createMockStorage();
+    const samples = new ResourceSampleStore(storage);
+    const incidents = new IncidentStore(storage);
+    const exec = vi.fn();
+    for (const stdout of outputs) {
+      exec.mockResolvedValueOnce({ stdout, stderr: "", exitCode: 0 });
+    }
+    const sandbox = {
+      exec,
+      getLatestResourceSample: () => samples.latest(),
+      recordResourceSample: (sample: ResourceSample) => samples.record(sample),
+      recordIncident: (input: Parameters<typeof incidents.record>[0]) => incidents.record(input),
+    } as unknown as SupervisedSandbox;
+    return { sandbox, samples, incidents };
+  }
+
+  it("records an incident when an alert starts, not while it lasts", async () => {
+    const high = sampleOutput({ memAvailableKb: 0.5 * GIB_KB });
+    const { sandbox, samples, incidents } = createSampledSandbox([high, high, sampleOutput()]);
+    const env = createMockEnv();
+
+    expect((await sampleResources(sandbox, env)).fired).toHaveLength(1);
+    expect((await sampleResources(sandbox, env)).fired).toHaveLength(0);
+    expect((await sampleResources(sandbox, env)).sample.alerts).toEqual([]);
+
+    expect(await samples.list()).toHaveLength(3);
+    expect(await incidents.list()).toMatchObject([
+      { kind: "resource_pressure", action: "alerted" },
+    ]);
+  });
+});
+
+describe("ResourceSampleStore", () => {
+  it("keeps the most recent samples, oldest first", async () => {
+    const store = new ResourceSampleStore(createMockStorage());
+    const sample = parseResourceSample(sampleOutput(), null);
+    for (let i = 0; i < MAX_RESOURCE_SAMPLES + 2; i++) {
+      await store.record({ ...sample, at: i });
+    }
+
+    const samples = await store.list();
+    expect(samples).toHaveLength(MAX_RESOURCE_SAMPLES);
+    expect(samples[0].at).toBe(2);
+    expect((await store.latest())?.at).toBe(MAX_RESOURCE_SAMPLES + 1);
+  });
+});
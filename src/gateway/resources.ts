@@ -0,0 +1,312 @@
+import { R2_MOUNT_PATH } from "../config";
+import type { Sandbox as SupervisedSandbox } from "../sandbox";
+import type { KeyValueStorage, OpenClawEnv } from "../types";
+import { GATEWAY_PATTERN } from "./watchdog";
+
+const MIB = 1024 * 1024;
+const GB = 1000 * 1000 * 1000;
+
+/**
+ * What a container instance type provides
+ * (https://developers.cloudflare.com/containers/platform-details/#instance-types)
+ */
+export interface InstanceLimits {
+  vcpu: number;
+  memoryBytes: number;
+  diskBytes: number;
+}
+
+export const INSTANCE_LIMITS: Record<string, InstanceLimits> = {
+  lite: { vcpu: 1 / 16, memoryBytes: 256 * MIB, diskBytes: 2 * GB },
+  basic: { vcpu: 1 / 4, memoryBytes: 1024 * MIB, diskBytes: 4 * GB },
+  "standard-1": { vcpu: 1 / 2, memoryBytes: 4096 * MIB, diskBytes: 8 * GB },
+  "standard-2": { vcpu: 1, memoryBytes: 6144 * MIB, diskBytes: 12 * GB },
+  "standard-3": { vcpu: 2, memoryBytes: 8192 * MIB, diskBytes: 16 * GB },
+  "standard-4": { vcpu: 4, memoryBytes: 12288 * MIB, diskBytes: 20 * GB },
+};
+
+/** Instance type in wrangler.jsonc */
+export const DEFAULT_INSTANCE_TYPE = "standard-1";
+
+export type ResourceKind = "cpu" | "memory" | "disk";
+
+/**
+ * Resource monitoring settings: the instance type the container runs on,
+ * and how close to each of its limits (percent) raises an alert
+ */
+export interface ResourceMonitorConfig {
+  instanceType: string;
+  limits: InstanceLimits;
+  thresholds: Record<ResourceKind, number>;
+}
+
+export const DEFAULT_RESOURCE_THRESHOLDS: Record<ResourceKind, number> = {
+  cpu: 90,
+  memory: 80,
+  disk: 80,
+};
+
+/**
+ * Samples kept: 12 hours at the cron's 5-minute interval, which keeps the
+ * series well within the 128 KiB a storage value may hold
+ */
+export const MAX_RESOURCE_SAMPLES = 144;
+
+/** Timeout for the command that reads the container's resource usage */
+const SAMPLE_TIMEOUT_MS = 15_000;
+
+/**
+ * Reads memory and CPU counters, root filesystem usage, the size of the
+ * config directory and R2 mount, and every process's RSS
+ */
+const SAMPLE_COMMAND = [
+  "cat /proc/meminfo",
+  "head -1 /proc/stat",
+  "nproc",
+  "df -kP / | tail -1",
+  // Sizing the R2 mount lists the bucket, so don't let a slow listing hold up the rest
+  `du -sk /root 2>/dev/null; timeout 10 du -sk ${R2_MOUNT_PATH} 2>/dev/null`,
+  "ps -eo rss=,args=",
+].join("; echo ---; ");
+
+/**
+ * An alert for a resource close to the instance's limit
+ */
+export interface ResourceAlert {
+  resource: ResourceKind;
+  /** Usage in percent of the limit */
+  percent: number;
+  threshold: number;
+  message: string;
+}
+
+/**
+ * Resource usage of the container at one point in time
+ */
+export interface ResourceSample {
+  at: number;
+  /** vCPUs in use on average since the previous sample; null for the first sample */
+  cpuCores: number | null;
+  /** Cumulative /proc/stat jiffies the next sample's CPU usage is computed from */
+  cpuTicks: { busy: number; total: number } | null;
+  memoryUsedBytes: number;
+  memoryTotalBytes: number;
+  /** Used space on the container's root filesystem */
+  diskUsedBytes: number;
+  /** Size of /root (config and workspace) */
+  rootBytes: number | null;
+  /** Size of the R2 mount, if it is mounted */
+  dataBytes: number | null;
+  /** Resident memory of the gateway processes; null if none is running */
+  gatewayRssBytes: number | null;
+  alerts: ResourceAlert[];
+}
+
+/**
+ * Build the monitoring settings from RESOURCE_ALERTS, a comma-separated list
+ * of `instance=<instance type>`, `cpu=<percent>`, `memory=<percent>` and
+ * `disk=<percent>`. Invalid entries are logged and ignored.
+ */
+export function parseResourceMonitorConfig(
+  env: Pick<OpenClawEnv, "RESOURCE_ALERTS">,
+): ResourceMonitorConfig {
+  const config: ResourceMonitorConfig = {
+    instanceType: DEFAULT_INSTANCE_TYPE,
+    limits: INSTANCE_LIMITS[DEFAULT_INSTANCE_TYPE],
+    thresholds: { ...DEFAULT_RESOURCE_THRESHOLDS },
+  };
+  const value = env.RESOURCE_ALERTS?.trim();
+  if (!value) return config;
+
+  for (const entry of value.split(",")) {
+    const trimmed = entry.trim();
+    if (!trimmed) continue;
+
+    const [key, raw = ""] = trimmed.split("=").map((part) => part.trim().toLowerCase());
+    const percent = /^\d+%?$/.test(raw) ? Number.parseInt(raw, 10) : 0;
+
+    if (key === "instance" && INSTANCE_LIMITS[raw]) {
+      config.instanceType = raw;
+      config.limits = INSTANCE_LIMITS[raw];
+    } else if ((key === "cpu" || key === "memory" || key === "disk") && percent > 0) {
+      config.thresholds[key] = Math.min(percent, 100);
+    } else {
+      console.error(`[RESOURCES] Ignoring invalid RESOURCE_ALERTS entry: ${trimmed}`);
+    }
+  }
+  return config;
+}
+
+function parseMeminfo(output: string): { total: number; available: number } {
+  const field = (name: string) => {
+    const match = output.match(new RegExp(`^${name}:\\s+(\\d+) kB`, "m"));
+    return match ? Number.parseInt(match[1], 10) * 1024 : 0;
+  };
+  return { total: field("MemTotal"), available: field("MemAvailable") };
+}
+
+function parseCpuTicks(line: string): { busy: number; total: number } | null {
+  const fields = line.trim().split(/\s+/);
+  if (fields[0] !== "cpu") return null;
+  const ticks = fields.slice(1, 9).map((n) => Number.parseInt(n, 10) || 0);
+  const total = ticks.reduce((sum, n) => sum + n, 0);
+  // idle and iowait
+  const idle = ticks[3] + ticks[4];
+  return { busy: total - idle, total };
+}
+
+/**
+ * Parse the output of SAMPLE_COMMAND. CPU usage is averaged over the time
+ * since `previous`.
+ */
+export function parseResourceSample(
+  output: string,
+  previous: ResourceSample | null,
+  now = Date.now(),
+): ResourceSample {
+  const [meminfo = "", stat = "", nproc = "", df = "", du = "", ps = ""] = output.split(/^---$/m);
+
+  const memory = parseMeminfo(meminfo);
+  const cpuTicks = parseCpuTicks(stat);
+  const cpus = Number.parseInt(nproc.trim(), 10) || 1;
+  let cpuCores: number | null = null;
+  if (cpuTicks && previous?.cpuTicks) {
+    const busy = cpuTicks.busy - previous.cpuTicks.busy;
+    const total = cpuTicks.total - previous.cpuTicks.total;
+    // Counters start over when the container restarts
+    if (total > 0 && busy >= 0) cpuCores = (busy / total) * cpus;
+  }
+
+  // Filesystem 1024-blocks Used Available Capacity Mounted-on
+  const dfUsed = Number.parseInt(df.trim().split(/\s+/)[2] ?? "", 10);
+
+  const sizes = new Map<string, number>();
+  for (const line of du.split("\n")) {
+    const match = line.trim().match(/^(\d+)\s+(\S+)$/);
+    if (match) sizes.set(match[2], Number.parseInt(match[1], 10) * 1024);
+  }
+
+  let gatewayRssBytes: number | null = null;
+  for (const line of ps.split("\n")) {
+    const match = line.trim().match(/^(\d+)\s+(.*)$/);
+    if (!match || !GATEWAY_PATTERN.test(match[2]) || match[2].includes("start-openclaw.sh")) {
+      continue;
+    }
+    gatewayRssBytes = (gatewayRssBytes ?? 0) + Number.parseInt(match[1], 10) * 1024;
+  }
+
+  return {
+    at: now,
+    cpuCores,
+    cpuTicks,
+    memoryUsedBytes: memory.total - memory.available,
+    memoryTotalBytes: memory.total,
+    diskUsedBytes: Number.isNaN(dfUsed) ? 0 : dfUsed * 1024,
+    rootBytes: sizes.get("/root") ?? null,
+    dataBytes: sizes.get(R2_MOUNT_PATH) ?? null,
+    gatewayRssBytes,
+    alerts: [],
+  };
+}
+
+function formatBytes(bytes: number): string {
+  return bytes >= GB ? `${(bytes / GB).toFixed(1)} GB` : `${Math.round(bytes / MIB)} MiB`;
+}
+
+/**
+ * Resources whose usage is at or above its alert threshold. Memory is
+ * measured against the smaller of the instance's limit and what the
+ * container reports, since either one is where the OOM killer steps in.
+ */
+export function evaluateResourceAlerts(
+  sample: ResourceSample,
+  config: ResourceMonitorConfig,
+): ResourceAlert[] {
+  const { limits, thresholds, instanceType } = config;
+  const memoryLimit = Math.min(limits.memoryBytes, sample.memoryTotalBytes || Infinity);
+  const usage: Array<[ResourceKind, number | null, string]> = [
+    [
+      "cpu",
+      sample.cpuCores,
+      `CPU at ${sample.cpuCores?.toFixed(2)} of ${limits.vcpu} vCPU on ${instanceType}`,
+    ],
+    [
+      "memory",
+      sample.memoryTotalBytes > 0 ? sample.memoryUsedBytes : null,
+      `Memory at ${formatBytes(sample.memoryUsedBytes)} of ${formatBytes(memoryLimit)}` +
+        (sample.gatewayRssBytes !== null
+          ? ` (gateway ${formatBytes(sample.gatewayRssBytes)})`
+          : ""),
+    ],
+    [
+      "disk",
+      sample.diskUsedBytes,
+      `Disk at ${formatBytes(sample.diskUsedBytes)} of ${formatBytes(limits.diskBytes)}`,
+    ],
+  ];
+  const limitOf: Record<ResourceKind, number> = {
+    cpu: limits.vcpu,
+    memory: memoryLimit,
+    disk: limits.diskBytes,
+  };
+
+  const alerts: ResourceAlert[] = [];
+  for (const [resource, used, message] of usage) {
+    if (used === null) continue;
+    const percent = Math.round((used / limitOf[resource]) * 100);
+    if (percent >= thresholds[resource]) {
+      alerts.push({ resource, percent, threshold: thresholds[resource], message });
+    }
+  }
+  return alerts;
+}
+
+/**
+ * Read the container's resource usage, store the sample and record an
+ * incident for each alert that wasn't already active in the previous sample.
+ * Returns the sample and the alerts that just fired.
+ */
+export async function sampleResources(
+  sandbox: SupervisedSandbox,
+  env: OpenClawEnv,
+): Promise<{ sample: ResourceSample; fired: ResourceAlert[] }> {
+  const config = parseResourceMonitorConfig(env);
+  const previous = await sandbox.getLatestResourceSample();
+  const result = await sandbox.exec(SAMPLE_COMMAND, { timeout: SAMPLE_TIMEOUT_MS });
+  const sample = parseResourceSample(result.stdout || "", previous);
+  sample.alerts = evaluateResourceAlerts(sample, config);
+  await sandbox.recordResourceSample(sample);
+
+  const active = new Set(previous?.alerts.map((a) => a.resource));
+  const fired = sample.alerts.filter((a) => !active.has(a.resource));
+  for (const alert of fired) {
+    await sandbox.recordIncident({
+      kind: "resource_pressure",
+      message: alert.message,
+      action: "alerted",
+    });
+  }
+  return { sample, fired };
+}
+
+const STORAGE_KEY = "resources:samples";
+
+/**
+ * Resource usage time series in Durable Object storage, oldest first
+ */
+export class ResourceSampleStore {
+  constructor(private storage: KeyValueStorage) {}
+
+  async list(): Promise<ResourceSample[]> {
+    return (await this.storage.get<ResourceSample[]>(STORAGE_KEY)) ?? [];
+  }
+
+  async latest(): Promise<ResourceSample | null> {
+    return (await this.list()).at(-1) ?? null;
+  }
+
+  async record(sample: ResourceSample): Promise<void> {
+    const samples = [...(await this.list()), sample].slice(-MAX_RESOURCE_SAMPLES);
+    await this.storage.put(STORAGE_KEY, samples);
+  }
+}
@@ -0,0 +1,96 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { Sandbox as SupervisedSandbox } from "../sandbox";
+import {
+  createMockBackupState,
+  createMockEnvWithR2,
+  createMockSandbox,
+  suppressConsole,
+} from "../test-utils";
+import { parseBackupAreas, restoreBackup } from "./restore";
+
+const HASH = "b".repeat(64);
+const ID = "20260302T123000Z";
+
+describe("parseBackupAreas", () => {
+  it("defaults to every area", () => {
+    expect(parseBackupAreas(undefined)).toEqual(["config", "workspace", "skills"]);
+    expect(parseBackupAreas([])).toEqual(["config", "workspace", "skills"]);
+  });
+
+  it("parses lists and comma-separated strings in a fixed order", () => {
+    expect(parseBackupAreas(["skills", "config"])).toEqual(["config", "skills"]);
+    expect(parseBackupAreas("workspace, skills")).toEqual(["workspace", "skills"]);
+  });
+
+  it("rejects unknown areas", () => {
+    expect(parseBackupAreas(["config", "secrets"])).toBeNull();
+  });
+});
+
+describe("restoreBackup", () => {
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  /** A container whose MEMORY.md changed since snapshot ID */
+  function createRestoreSandbox(options: { objectMissing?: boolean } = {}) {
+    const mock = createMockSandbox({ mounted: true });
+    const ok = (stdout = "") => ({ stdout, stderr: "", exitCode: 0, success: true });
+    const exec = vi.fn(async (command: string) => {
+      if (command.startsWith(`cat /data/openclaw/snapshots/${ID}.tsv`)) {
+        return ok(`workspace\t${HASH}\t3\tMEMORY.md\n`);
+      }
+      if (command.startsWith("echo '=== config'"))
+        return ok("=== workspace\nS\t4\t1.5\tMEMORY.md\n");
+      if (command.startsWith("xargs -0 -r sha256sum")) {
+        return ok(`${"c".repeat(64)}  /root/clawd/MEMORY.md\n`);
+      }
+      if (command.includes("[ -f") && command.includes("echo")) {
+        return ok(options.objectMissing ? HASH : "");
+      }
+      if (command.startsWith("cat ")) return { ...ok(), exitCode: 1, success: false };
+      return ok();
+    });
+    // Stopping the gateway starts with reading its state
+    const getGatewayState = vi.fn();
+    const sandbox = Object.assign(mock.sandbox, createMockBackupState(), {
+      exec,
+      writeFile: vi.fn(),
+      getGatewayState: getGatewayState.mockResolvedValue({ phase: "stopped", processId: null }),
+    }) as unknown as SupervisedSandbox;
+    return { sandbox, exec, getGatewayState };
+  }
+
+  it("only reports the changes on a dry run", async () => {
+    const { sandbox, exec, getGatewayState } = createRestoreSandbox();
+
+    const result = await restoreBackup(sandbox, createMockEnvWithR2(), ID, ["workspace"], {
+      dryRun: true,
+    });
+
+    expect(result?.diff).toMatchObject({
+      areas: ["workspace"],
+      changed: [{ path: "MEMORY.md", hash: HASH }],
+      added: [],
+      removed: [],
+    });
+    expect(getGatewayState).not.toHaveBeenCalled();
+    expect(exec.mock.calls.some(([command]) => command.includes("snapshot-restore"))).toBe(false);
+  });
+
+  it("returns null for an unknown snapshot", async () => {
+    const { sandbox } = createRestoreSandbox();
+    expect(
+      await restoreBackup(sandbox, createMockEnvWithR2(), "20200101T000000Z", ["config"]),
+    ).toBeNull();
+  });
+
+  it("refuses to restore before stopping the gateway when objects are missing", async () => {
+    const { sandbox, getGatewayState } = createRestoreSandbox({ objectMissing: true });
+
+    await expect(restoreBackup(sandbox, createMockEnvWithR2(), ID, ["workspace"])).rejects.toThrow(
+      `Snapshot ${ID} is missing 1 objects in R2`,
+    );
+    expect(getGatewayState).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,97 @@
+import type { Sandbox as SupervisedSandbox } from "../sandbox";
+import type { OpenClawEnv } from "../types";
+import { BackupKeyring } from "./backup-crypto";
+import { BackupIntegrityError } from "./integrity";
+import { cleanupGatewayProcesses, stopGateway } from "./process";
+import { openSnapshotStore } from "./snapshot-store";
+import {
+  BACKUP_AREAS,
+  type BackupArea,
+  diffSnapshot,
+  findConfigDir,
+  objectName,
+  restoreCheckedSnapshot,
+  type SnapshotDiff,
+  setSnapshotQuarantine,
+} from "./snapshots";
+import { syncToR2, withBackupLease } from "./sync";
+
+export interface RestoreResult {
+  diff: SnapshotDiff;
+  /** Snapshot of the state before the restore, to undo it; null if it couldn't be taken */
+  previousSnapshotId: string | null;
+}
+
+/**
+ * Parse a comma-separated list of backup areas. Empty means all of them;
+ * returns null if any is unknown.
+ */
+export function parseBackupAreas(value: string | string[] | undefined): BackupArea[] | null {
+  const names = (Array.isArray(value) ? value : (value ?? "").split(","))
+    .map((name) => name.trim())
+    .filter(Boolean);
+  if (names.length === 0) return [...BACKUP_AREAS];
+  if (!names.every((name) => BACKUP_AREAS.includes(name as BackupArea))) return null;
+  return BACKUP_AREAS.filter((area) => names.includes(area));
+}
+
+/**
+ * Restore the given areas of a snapshot into the container. With `dryRun`,
+ * only reports what would change.
+ *
+ * Otherwise the current state is backed up first, so the restore can be
+ * undone, and the gateway is stopped while its files are replaced. The caller
+ * starts it again. Returns null if there is no such snapshot.
+ *
+ * A snapshot whose files don't match their checksums, or whose config doesn't
+ * parse, is quarantined and the error rethrown.
+ */
+export async function restoreBackup(
+  sandbox: SupervisedSandbox,
+  env: OpenClawEnv,
+  id: string,
+  areas: BackupArea[],
+  options: { dryRun?: boolean } = {},
+): Promise<RestoreResult | null> {
+  const store = await openSnapshotStore(sandbox, env);
+  if (!store) {
+    throw new Error("Failed to mount R2 storage");
+  }
+
+  const keyring = BackupKeyring.fromEnv(store, env);
+  const configDir = await findConfigDir(sandbox);
+  const diff = await diffSnapshot(sandbox, store, keyring, configDir, id, areas);
+  if (!diff || options.dryRun) return diff && { diff, previousSnapshotId: null };
+
+  // Check before touching anything, e.g. in case objects were deleted by hand
+  const missing = await store.findMissingObjects(
+    [...diff.added, ...diff.changed].map((file) => objectName(file.hash, diff.keyId)),
+  );
+  if (missing.length > 0) {
+    throw new Error(`Snapshot ${id} is missing ${missing.length} objects in R2`);
+  }
+
+  const backup = await syncToR2(sandbox, env);
+  if (!backup.success) {
+    console.error("[RESTORE] Could not back up the current state:", backup.error, backup.details);
+  }
+
+  // The gateway writes to its config and sessions while running
+  await stopGateway(sandbox, { reset: true });
+  await cleanupGatewayProcesses(sandbox);
+  try {
+    await restoreCheckedSnapshot(sandbox, store, keyring, configDir, diff);
+  } catch (err) {
+    // Keep the next boot from restoring it
+    if (err instanceof BackupIntegrityError) {
+      await withBackupLease(sandbox, () => setSnapshotQuarantine(store, id, err.message));
+    }
+    throw err;
+  }
+  console.log(
+    `[RESTORE] Restored ${areas.join(", ")} from snapshot ${id}:`,
+    `${diff.added.length} added, ${diff.changed.length} changed, ${diff.removed.length} removed`,
+  );
+
+  return { diff, previousSnapshotId: backup.snapshotId ?? null };
+}
@@ -0,0 +1,108 @@
+import type { Sandbox } from "@cloudflare/sandbox";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createMockEnv, createMockGatewaySocket, suppressConsole } from "../test-utils";
+import { GatewayRpcClient, GatewayRpcError } from "./rpc";
+
+describe("GatewayRpcClient", () => {
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  function connect(gateway: ReturnType<typeof createMockGatewaySocket>, token?: string) {
+    const sandbox = { wsConnect: vi.fn().mockResolvedValue(gateway.response) };
+    return GatewayRpcClient.connect(
+      sandbox as unknown as Sandbox,
+      createMockEnv({ OPENCLAW_GATEWAY_TOKEN: token }),
+      { timeoutMs: 50 },
+    );
+  }
+
+  it("completes the connect handshake with the gateway token", async () => {
+    const gateway = createMockGatewaySocket(() => ({ ok: true, payload: { type: "hello-ok" } }));
+
+    const { hello } = await connect(gateway, "secret");
+
+    expect(hello).toEqual({ type: "hello-ok" });
+    expect(gateway.requests[0]).toMatchObject({
+      method: "connect",
+      params: { role: "operator", auth: { token: "secret" } },
+    });
+  });
+
+  it("returns response payloads and rejects error responses with their code", async () => {
+    const gateway = createMockGatewaySocket((req) => {
+      if (req.method === "connect" || req.method === "health") {
+        return { ok: true, payload: { method: req.method } };
+      }
+      return { ok: false, error: { code: "INVALID_REQUEST", message: "unknown method" } };
+    });
+    const { client } = await connect(gateway);
+
+    await expect(client.call("health")).resolves.toEqual({ method: "health" });
+    const error = await client.call("nope").catch((err) => err);
+    expect(error).toBeInstanceOf(GatewayRpcError);
+    expect(error).toMatchObject({ message: "unknown method", code: "INVALID_REQUEST" });
+  });
+
+  it("rejects a handshake the gateway never answers", async () => {
+    const gateway = createMockGatewaySocket(() => undefined);
+
+    await expect(connect(gateway)).rejects.toMatchObject({ code: "TIMEOUT" });
+    expect(gateway.socket.close).toHaveBeenCalled();
+  });
+
+  it("fails pending requests when the gateway drops the connection", async () => {
+    const gateway = createMockGatewaySocket((req) =>
+      req.method === "connect" ? { ok: true } : undefined,
+    );
+    const { client } = await connect(gateway);
+
+    const pending = client.call("health");
+    gateway.socket.drop(1012, "restarting");
+
+    await expect(pending).rejects.toThrow("Gateway closed the connection (1012 restarting)");
+    await expect(client.call("health")).rejects.toMatchObject({ code: "UNAVAILABLE" });
+  });
+
+  it("lists and approves devices over the protocol", async () => {
+    const gateway = createMockGatewaySocket((req) => {
+      if (req.method === "device.pair.list") {
+        return {
+          ok: true,
+          payload: { pending: [{ requestId: "r1", deviceId: "d1" }], paired: [] },
+        };
+      }
+      return { ok: true, payload: { requestId: req.params?.requestId } };
+    });
+    const { client } = await connect(gateway, "secret");
+
+    expect((await client.listDevices()).pending).toHaveLength(1);
+    await expect(client.approveDevice("r1")).resolves.toEqual({ requestId: "r1" });
+    expect(gateway.requests.map((r) => r.method)).toEqual([
+      "connect",
+      "device.pair.list",
+      "device.pair.approve",
+    ]);
+    expect(gateway.requests[0].params.scopes).toContain("operator.pairing");
+  });
+
+  it("waits past the accepted acknowledgement for an agent turn's final response", async () => {
+    const gateway = createMockGatewaySocket((req) =>
+      req.method === "connect"
+        ? { ok: true }
+        : [
+            { ok: true, payload: { runId: "run-1", status: "accepted" } },
+            { ok: true, payload: { runId: "run-1", status: "ok", summary: "done" } },
+          ],
+    );
+    const { client } = await connect(gateway);
+
+    const result = await client.runAgent({ message: "hi", sessionId: "s1" }, 50);
+
+    expect(result).toEqual({ runId: "run-1", status: "ok", summary: "done" });
+    expect(gateway.requests[1]).toMatchObject({
+      method: "agent",
+      params: { message: "hi", sessionId: "s1", idempotencyKey: expect.any(String) },
+    });
+  });
+});
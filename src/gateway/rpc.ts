@@ -0,0 +1,299 @@
+import type { Sandbox } from "@cloudflare/sandbox";
+import { GATEWAY_PORT } from "../config";
+import type { GatewayFrame } from "../proxy/interceptors";
+import type { OpenClawEnv } from "../types";
+
+/** Gateway protocol versions this client can speak */
+const MIN_PROTOCOL = 1;
+const MAX_PROTOCOL = 3;
+
+const DEFAULT_TIMEOUT_MS = 10_000;
+
+/** Scopes the Worker asks for: it administers the gateway on behalf of admins and API clients */
+const OPERATOR_SCOPES = ["operator.admin", "operator.approvals", "operator.pairing"];
+
+/**
+ * An error response from the gateway, or a request it never answered
+ */
+export class GatewayRpcError extends Error {
+  constructor(
+    message: string,
+    readonly code?: string,
+  ) {
+    super(message);
+    this.name = "GatewayRpcError";
+  }
+}
+
+export interface GatewayRpcOptions {
+  /** Port of the gateway to connect to (default: GATEWAY_PORT) */
+  port?: number;
+  /** Timeout for opening the socket and for each request, including `connect` */
+  timeoutMs?: number;
+  /** Client identity announced in the `connect` handshake */
+  client?: { id: string; mode: string; displayName: string };
+}
+
+export interface GatewayCallOptions {
+  /** Timeout for this request (default: the client's timeout) */
+  timeoutMs?: number;
+  /**
+   * Wait past an `accepted` acknowledgement for the final response. Long
+   * running methods such as `agent` answer the same request id twice.
+   */
+  expectFinal?: boolean;
+}
+
+interface PendingRequest {
+  resolve: (payload: unknown) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+  expectFinal: boolean;
+}
+
+/**
+ * A device waiting for an operator to approve its pairing request
+ */
+export interface PendingDevice {
+  requestId: string;
+  deviceId: string;
+  displayName?: string;
+  platform?: string;
+  clientId?: string;
+  clientMode?: string;
+  role?: string;
+  roles?: string[];
+  scopes?: string[];
+  remoteIp?: string;
+  ts: number;
+}
+
+export interface PairedDevice {
+  deviceId: string;
+  displayName?: string;
+  platform?: string;
+  clientId?: string;
+  clientMode?: string;
+  role?: string;
+  roles?: string[];
+  scopes?: string[];
+  createdAtMs: number;
+  approvedAtMs: number;
+}
+
+export interface DeviceList {
+  pending: PendingDevice[];
+  paired: PairedDevice[];
+}
+
+export interface SessionList {
+  count?: number;
+  sessions: Array<{ key: string; [field: string]: unknown }>;
+  [field: string]: unknown;
+}
+
+export interface AgentParams {
+  message: string;
+  sessionId?: string;
+  agentId?: string;
+  thinking?: string;
+}
+
+/**
+ * Final response of an agent turn: the run's status, a summary, and the
+ * reply payloads with run metadata in `result`
+ */
+export interface AgentResult {
+  runId: string;
+  status: string;
+  summary?: string;
+  result?: { payloads?: Array<{ text?: string; [field: string]: unknown }>; meta?: unknown };
+  [field: string]: unknown;
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number, message: string): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new GatewayRpcError(message, "TIMEOUT")), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * A WebSocket connection to the gateway that speaks its request/response
+ * protocol directly, without spawning the openclaw CLI in the container.
+ */
+export class GatewayRpcClient {
+  private pending = new Map<string, PendingRequest>();
+  private nextId = 0;
+  private closedReason: string | null = null;
+
+  private constructor(
+    private socket: WebSocket,
+    private timeoutMs: number,
+  ) {
+    socket.addEventListener("message", (event: MessageEvent) => this.onMessage(event.data));
+    socket.addEventListener("close", (event: CloseEvent) => {
+      this.fail(
+        `Gateway closed the connection (${event.code}${event.reason ? ` ${event.reason}` : ""})`,
+      );
+    });
+    socket.addEventListener("error", () => this.fail("Gateway connection failed"));
+  }
+
+  /**
+   * Open a socket to the gateway and complete the `connect` handshake
+   *
+   * @returns The client and the gateway's `connect` response payload
+   * @throws GatewayRpcError if the gateway can't be reached or rejects the handshake
+   */
+  static async connect(
+    sandbox: Sandbox,
+    env: OpenClawEnv,
+    options: GatewayRpcOptions = {},
+  ): Promise<{ client: GatewayRpcClient; hello: unknown }> {
+    const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    const port = options.port ?? GATEWAY_PORT;
+    const token = env.OPENCLAW_GATEWAY_TOKEN;
+    const url = new URL(`http://localhost:${port}/`);
+    if (token) url.searchParams.set("token", token);
+
+    const response = await withTimeout(
+      sandbox.wsConnect(new Request(url.toString(), { headers: { Upgrade: "websocket" } }), port),
+      timeoutMs,
+      "Timed out opening a gateway WebSocket",
+    );
+    if (!response.webSocket) {
+      throw new GatewayRpcError(`Gateway WebSocket upgrade failed with status ${response.status}`);
+    }
+    response.webSocket.accept();
+
+    const client = new GatewayRpcClient(response.webSocket, timeoutMs);
+    const identity = options.client ?? {
+      id: "gateway-client",
+      mode: "backend",
+      displayName: "tedix-claw worker",
+    };
+    try {
+      const hello = await client.call("connect", {
+        minProtocol: MIN_PROTOCOL,
+        maxProtocol: MAX_PROTOCOL,
+        client: { ...identity, version: "1.0.0", platform: "cloudflare-workers" },
+        role: "operator",
+        scopes: OPERATOR_SCOPES,
+        auth: token ? { token } : undefined,
+      });
+      return { client, hello };
+    } catch (err) {
+      client.close();
+      throw err;
+    }
+  }
+
+  /**
+   * Send a request and wait for its response payload
+   *
+   * @throws GatewayRpcError with the gateway's error code if it answers ok: false
+   */
+  call<T = unknown>(
+    method: string,
+    params?: unknown,
+    options: GatewayCallOptions = {},
+  ): Promise<T> {
+    if (this.closedReason) {
+      return Promise.reject(new GatewayRpcError(this.closedReason, "UNAVAILABLE"));
+    }
+
+    const id = `worker-${++this.nextId}`;
+    return new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new GatewayRpcError(`Gateway did not answer ${method} in time`, "TIMEOUT"));
+      }, options.timeoutMs ?? this.timeoutMs);
+      this.pending.set(id, {
+        resolve: resolve as (payload: unknown) => void,
+        reject,
+        timer,
+        expectFinal: options.expectFinal ?? false,
+      });
+      this.socket.send(JSON.stringify({ type: "req", id, method, params }));
+    });
+  }
+
+  /** The gateway's health summary */
+  health(): Promise<unknown> {
+    return this.call("health");
+  }
+
+  /** Pending and paired devices */
+  listDevices(): Promise<DeviceList> {
+    return this.call<DeviceList>("device.pair.list", {});
+  }
+
+  /** Approve a pending device's pairing request */
+  approveDevice(requestId: string): Promise<{ requestId: string; device?: PairedDevice }> {
+    return this.call("device.pair.approve", { requestId });
+  }
+
+  /** Agent sessions in the gateway's session store */
+  listSessions(): Promise<SessionList> {
+    return this.call<SessionList>("sessions.list", {});
+  }
+
+  /**
+   * Run an agent turn and wait for its final response
+   */
+  runAgent(params: AgentParams, timeoutMs: number): Promise<AgentResult> {
+    return this.call<AgentResult>(
+      "agent",
+      { ...params, idempotencyKey: crypto.randomUUID() },
+      { timeoutMs, expectFinal: true },
+    );
+  }
+
+  close(): void {
+    this.fail("Connection closed");
+    try {
+      this.socket.close(1000, "done");
+    } catch {
+      // Already closed
+    }
+  }
+
+  private onMessage(data: unknown): void {
+    if (typeof data !== "string") return;
+    let frame: GatewayFrame;
+    try {
+      frame = JSON.parse(data);
+    } catch {
+      return;
+    }
+    // Events (presence, ticks, connect.challenge) aren't needed here
+    if (frame.type !== "res" || typeof frame.id !== "string") return;
+
+    const request = this.pending.get(frame.id);
+    if (!request) return;
+    const payload = frame.payload as { status?: unknown } | undefined;
+    if (frame.ok && request.expectFinal && payload?.status === "accepted") return;
+    this.pending.delete(frame.id);
+    clearTimeout(request.timer);
+
+    if (frame.ok) {
+      request.resolve(frame.payload);
+    } else {
+      request.reject(
+        new GatewayRpcError(frame.error?.message || "Gateway request failed", frame.error?.code),
+      );
+    }
+  }
+
+  private fail(reason: string): void {
+    if (this.closedReason) return;
+    this.closedReason = reason;
+    for (const request of this.pending.values()) {
+      clearTimeout(request.timer);
+      request.reject(new GatewayRpcError(reason, "UNAVAILABLE"));
+    }
+    this.pending.clear();
+  }
+}
@@ -0,0 +1,181 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { createMockEnv, createMockStorage, suppressConsole } from "../test-utils";
+import {
+  AwakeOverrideStore,
+  isWithinActiveHours,
+  parseSleepSchedule,
+  resolveSleepPolicy,
+  sleepPolicyOptions,
+} from "./schedule";
+
+// Monday 2026-03-02
+const at = (time: string) => Date.parse(`2026-03-02T${time}:00Z`);
+const DAY = 24 * 3_600_000;
+
+describe("parseSleepSchedule", () => {
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  it("returns null when SANDBOX_SCHEDULE is not set", () => {
+    expect(parseSleepSchedule({})).toBeNull();
+  });
+
+  it("parses active hours, time zone, days, idle and prewarm", () => {
+    expect(
+      parseSleepSchedule({
+        SANDBOX_SCHEDULE:
+          "active=08:00-22:30, timezone=Europe/Berlin, days=mon-fri, idle=5m, prewarm=30m",
+      }),
+    ).toEqual({
+      timeZone: "Europe/Berlin",
+      activeFrom: 8 * 60,
+      activeUntil: 22 * 60 + 30,
+      days: [1, 2, 3, 4, 5],
+      idleSleepAfter: "5m",
+      prewarmMs: 30 * 60_000,
+    });
+  });
+
+  it("accepts day lists and ranges that wrap around the week", () => {
+    expect(
+      parseSleepSchedule({ SANDBOX_SCHEDULE: "active=09:00-17:00,days=sat+sun" })?.days,
+    ).toEqual([0, 6]);
+    expect(
+      parseSleepSchedule({ SANDBOX_SCHEDULE: "active=09:00-17:00,days=fri-mon" })?.days,
+    ).toEqual([0, 1, 5, 6]);
+  });
+
+  it("uses defaults for everything but active hours", () => {
+    expect(parseSleepSchedule({ SANDBOX_SCHEDULE: "active=09:00-24:00" })).toEqual({
+      timeZone: "UTC",
+      activeFrom: 9 * 60,
+      activeUntil: 0,
+      days: [0, 1, 2, 3, 4, 5, 6],
+      idleSleepAfter: "10m",
+      prewarmMs: 15 * 60_000,
+    });
+  });
+
+  it("ignores invalid entries", () => {
+    const schedule = parseSleepSchedule({
+      SANDBOX_SCHEDULE: "active=09:00-17:00,timezone=Mars/Olympus,days=someday,idle=soon,color=red",
+    });
+    expect(schedule).toMatchObject({ timeZone: "UTC", idleSleepAfter: "10m" });
+    expect(schedule?.days).toHaveLength(7);
+  });
+
+  it("has no schedule without valid active hours", () => {
+    expect(parseSleepSchedule({ SANDBOX_SCHEDULE: "active=25:00-08:00" })).toBeNull();
+    expect(parseSleepSchedule({ SANDBOX_SCHEDULE: "timezone=UTC" })).toBeNull();
+  });
+});
+
+describe("isWithinActiveHours", () => {
+  const schedule = (value: string) => {
+    const parsed = parseSleepSchedule({ SANDBOX_SCHEDULE: value });
+    if (!parsed) throw new Error(`invalid schedule ${value}`);
+    return parsed;
+  };
+
+  it("checks the time of day", () => {
+    const workday = schedule("active=08:00-22:00");
+    expect(isWithinActiveHours(workday, at("07:59"))).toBe(false);
+    expect(isWithinActiveHours(workday, at("08:00"))).toBe(true);
+    expect(isWithinActiveHours(workday, at("21:59"))).toBe(true);
+    expect(isWithinActiveHours(workday, at("22:00"))).toBe(false);
+  });
+
+  it("checks the day of the week", () => {
+    const weekdays = schedule("active=08:00-22:00,days=mon-fri");
+    expect(isWithinActiveHours(weekdays, at("12:00"))).toBe(true);
+    expect(isWithinActiveHours(weekdays, at("12:00") - 2 * DAY)).toBe(false);
+  });
+
+  it("counts hours after midnight towards the day they started on", () => {
+    const nights = schedule("active=20:00-02:00,days=mon");
+    expect(isWithinActiveHours(nights, at("21:00"))).toBe(true);
+    expect(isWithinActiveHours(nights, at("01:00") + DAY)).toBe(true);
+    expect(isWithinActiveHours(nights, at("01:00"))).toBe(false);
+    expect(isWithinActiveHours(nights, at("03:00") + DAY)).toBe(false);
+  });
+
+  it("uses the schedule's time zone", () => {
+    const tokyo = schedule("active=09:00-17:00,timezone=Asia/Tokyo");
+    // 01:00 UTC is 10:00 in Tokyo
+    expect(isWithinActiveHours(tokyo, at("01:00"))).toBe(true);
+    expect(isWithinActiveHours(tokyo, at("10:00"))).toBe(false);
+  });
+});
+
+describe("resolveSleepPolicy", () => {
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  it("follows SANDBOX_SLEEP_AFTER without a schedule", () => {
+    expect(resolveSleepPolicy(createMockEnv())).toEqual({
+      mode: "always-on",
+      keepAlive: true,
+      sleepAfter: null,
+    });
+    expect(resolveSleepPolicy(createMockEnv({ SANDBOX_SLEEP_AFTER: "1H" }))).toEqual({
+      mode: "sleep-after",
+      keepAlive: false,
+      sleepAfter: "1h",
+    });
+  });
+
+  it("keeps the container awake during and just before active hours", () => {
+    const env = createMockEnv({ SANDBOX_SCHEDULE: "active=08:00-22:00,prewarm=15m,idle=5m" });
+    expect(resolveSleepPolicy(env, at("12:00")).mode).toBe("active-hours");
+    expect(resolveSleepPolicy(env, at("07:50"))).toEqual({
+      mode: "prewarm",
+      keepAlive: true,
+      sleepAfter: null,
+    });
+    expect(resolveSleepPolicy(env, at("07:30"))).toEqual({
+      mode: "off-hours",
+      keepAlive: false,
+      sleepAfter: "5m",
+    });
+  });
+
+  it("doesn't prewarm when prewarm is 0", () => {
+    const env = createMockEnv({ SANDBOX_SCHEDULE: "active=08:00-22:00,prewarm=0" });
+    expect(resolveSleepPolicy(env, at("07:59")).mode).toBe("off-hours");
+  });
+});
+
+describe("sleepPolicyOptions", () => {
+  const offHours = { mode: "off-hours", keepAlive: false, sleepAfter: "5m" } as const;
+
+  it("applies the idle time on requests", () => {
+    expect(sleepPolicyOptions(offHours)).toEqual({ keepAlive: false, sleepAfter: "5m" });
+    expect(sleepPolicyOptions({ mode: "active-hours", keepAlive: true, sleepAfter: null })).toEqual(
+      { keepAlive: true },
+    );
+  });
+
+  it("leaves the idle time out of scheduled runs, which would renew activity", () => {
+    expect(sleepPolicyOptions(offHours, { scheduled: true })).toEqual({ keepAlive: false });
+  });
+});
+
+describe("AwakeOverrideStore", () => {
+  it("returns the override until it expires", async () => {
+    const store = new AwakeOverrideStore(createMockStorage());
+    expect(await store.get()).toBeNull();
+
+    await store.set(at("12:00"));
+    expect(await store.get(at("11:00"))).toBe(at("12:00"));
+    expect(await store.get(at("12:00"))).toBeNull();
+  });
+
+  it("clears the override", async () => {
+    const store = new AwakeOverrideStore(createMockStorage());
+    await store.set(Date.now() + 60_000);
+    await store.set(null);
+    expect(await store.get()).toBeNull();
+  });
+});
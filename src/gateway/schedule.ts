@@ -0,0 +1,224 @@
+import type { KeyValueStorage, OpenClawEnv } from "../types";
+import { parseDuration } from "../utils/duration";
+
+const DAY_NAMES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+/** Longest "stay awake" override the admin UI can set */
+export const MAX_AWAKE_OVERRIDE_HOURS = 72;
+
+/**
+ * Active hours for the container: always on inside them, sleeping after a
+ * short idle period outside them
+ */
+export interface SleepSchedule {
+  timeZone: string;
+  /** Start of active hours, in minutes after midnight */
+  activeFrom: number;
+  /** End of active hours, in minutes after midnight; before activeFrom if they span midnight */
+  activeUntil: number;
+  /** Days active hours start on (0 = Sunday) */
+  days: number[];
+  /** SANDBOX_SLEEP_AFTER outside active hours */
+  idleSleepAfter: string;
+  /** How long before active hours the cron starts the gateway */
+  prewarmMs: number;
+}
+
+export const DEFAULT_SLEEP_SCHEDULE: Omit<SleepSchedule, "activeFrom" | "activeUntil"> = {
+  timeZone: "UTC",
+  days: [0, 1, 2, 3, 4, 5, 6],
+  idleSleepAfter: "10m",
+  prewarmMs: 15 * 60_000,
+};
+
+/**
+ * How the container sleeps right now
+ * - always-on: SANDBOX_SLEEP_AFTER=never without a schedule
+ * - sleep-after: a fixed SANDBOX_SLEEP_AFTER without a schedule
+ * - active-hours / prewarm: inside active hours, or about to enter them
+ * - off-hours: outside active hours
+ */
+export interface SleepPolicy {
+  mode: "always-on" | "sleep-after" | "active-hours" | "prewarm" | "off-hours";
+  keepAlive: boolean;
+  /** Idle time before the container sleeps, when keepAlive is off */
+  sleepAfter: string | null;
+}
+
+function parseClock(value: string): number | null {
+  const match = value.match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) return null;
+  const hours = Number.parseInt(match[1], 10);
+  const minutes = Number.parseInt(match[2], 10);
+  if (hours > 24 || minutes > 59 || (hours === 24 && minutes > 0)) return null;
+  return hours * 60 + minutes;
+}
+
+function parseDays(value: string): number[] | null {
+  const days = new Set<number>();
+  for (const part of value.split("+")) {
+    const [from, to = from] = part.split("-").map((day) => DAY_NAMES.indexOf(day));
+    if (from < 0 || to < 0) return null;
+    for (let day = from; ; day = (day + 1) % 7) {
+      days.add(day);
+      if (day === to) break;
+    }
+  }
+  return [...days].sort((a, b) => a - b);
+}
+
+function isTimeZone(value: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Build the sleep schedule from SANDBOX_SCHEDULE, a comma-separated list of
+ * `active=<HH:MM>-<HH:MM>` (required), `timezone=<IANA name>`,
+ * `days=<mon-fri|sat+sun|...>`, `idle=<duration>` and `prewarm=<duration>`.
+ * Invalid entries are logged and ignored; without valid active hours there
+ * is no schedule.
+ */
+export function parseSleepSchedule(
+  env: Pick<OpenClawEnv, "SANDBOX_SCHEDULE">,
+): SleepSchedule | null {
+  const value = env.SANDBOX_SCHEDULE?.trim();
+  if (!value) return null;
+
+  const schedule: Partial<SleepSchedule> = { ...DEFAULT_SLEEP_SCHEDULE };
+  for (const entry of value.split(",")) {
+    const trimmed = entry.trim();
+    if (!trimmed) continue;
+
+    const [key, raw = ""] = trimmed.split("=").map((part) => part.trim());
+    const lower = raw.toLowerCase();
+    const [from, until] = lower.split("-").map(parseClock);
+    const duration = parseDuration(lower);
+    const days = parseDays(lower);
+
+    if (key === "active" && from != null && until != null && from !== until) {
+      schedule.activeFrom = from;
+      schedule.activeUntil = until % (24 * 60);
+    } else if (key === "timezone" && isTimeZone(raw)) {
+      schedule.timeZone = raw;
+    } else if (key === "days" && days) {
+      schedule.days = days;
+    } else if (key === "idle" && duration) {
+      schedule.idleSleepAfter = lower;
+    } else if (key === "prewarm" && (duration || lower === "0")) {
+      schedule.prewarmMs = duration ?? 0;
+    } else {
+      console.error(`[SCHEDULE] Ignoring invalid SANDBOX_SCHEDULE entry: ${trimmed}`);
+    }
+  }
+
+  if (schedule.activeFrom === undefined || schedule.activeUntil === undefined) {
+    console.error("[SCHEDULE] SANDBOX_SCHEDULE needs active=<HH:MM>-<HH:MM>, ignoring it");
+    return null;
+  }
+  return schedule as SleepSchedule;
+}
+
+/**
+ * Weekday (0 = Sunday) and minutes after midnight at `now` in `timeZone`
+ */
+function localTime(timeZone: string, now: number): { day: number; minutes: number } {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    weekday: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(new Date(now));
+  const part = (type: string) => parts.find((p) => p.type === type)?.value ?? "";
+  return {
+    day: DAY_NAMES.indexOf(part("weekday").toLowerCase()),
+    minutes: Number.parseInt(part("hour"), 10) * 60 + Number.parseInt(part("minute"), 10),
+  };
+}
+
+/**
+ * Whether `now` falls in active hours. Hours that span midnight belong to
+ * the day they start on.
+ */
+export function isWithinActiveHours(schedule: SleepSchedule, now: number): boolean {
+  const { day, minutes } = localTime(schedule.timeZone, now);
+  const { activeFrom, activeUntil, days } = schedule;
+  if (activeFrom < activeUntil) {
+    return days.includes(day) && minutes >= activeFrom && minutes < activeUntil;
+  }
+  const previousDay = (day + 6) % 7;
+  return (
+    (days.includes(day) && minutes >= activeFrom) ||
+    (days.includes(previousDay) && minutes < activeUntil)
+  );
+}
+
+/**
+ * The sleep policy at `now`, from SANDBOX_SCHEDULE or else SANDBOX_SLEEP_AFTER
+ */
+export function resolveSleepPolicy(env: OpenClawEnv, now = Date.now()): SleepPolicy {
+  const schedule = parseSleepSchedule(env);
+  if (!schedule) {
+    const sleepAfter = env.SANDBOX_SLEEP_AFTER?.toLowerCase() || "never";
+    return sleepAfter === "never"
+      ? { mode: "always-on", keepAlive: true, sleepAfter: null }
+      : { mode: "sleep-after", keepAlive: false, sleepAfter };
+  }
+
+  if (isWithinActiveHours(schedule, now)) {
+    return { mode: "active-hours", keepAlive: true, sleepAfter: null };
+  }
+  if (schedule.prewarmMs > 0 && isWithinActiveHours(schedule, now + schedule.prewarmMs)) {
+    return { mode: "prewarm", keepAlive: true, sleepAfter: null };
+  }
+  return { mode: "off-hours", keepAlive: false, sleepAfter: schedule.idleSleepAfter };
+}
+
+/**
+ * getSandbox options for a sleep policy. keepAlive has to be switched off
+ * explicitly, or a container kept alive during active hours would never sleep.
+ *
+ * The SDK renews the container's activity timeout whenever sleepAfter is set,
+ * so scheduled runs leave it out: with the cron firing every minute, the
+ * container would otherwise never go idle.
+ */
+export function sleepPolicyOptions(
+  policy: SleepPolicy,
+  { scheduled = false }: { scheduled?: boolean } = {},
+): { keepAlive: boolean; sleepAfter?: string } {
+  if (policy.keepAlive) {
+    return { keepAlive: true };
+  }
+  if (scheduled || !policy.sleepAfter) {
+    return { keepAlive: false };
+  }
+  return { keepAlive: false, sleepAfter: policy.sleepAfter };
+}
+
+const AWAKE_UNTIL_KEY = "sandbox:awake-until";
+
+/**
+ * Manual "stay awake" override in Durable Object storage
+ */
+export class AwakeOverrideStore {
+  constructor(private storage: KeyValueStorage) {}
+
+  /** End of the override, or null if there is none or it has expired */
+  async get(now = Date.now()): Promise<number | null> {
+    const until = await this.storage.get<number>(AWAKE_UNTIL_KEY);
+    return until !== undefined && until > now ? until : null;
+  }
+
+  async set(until: number | null): Promise<void> {
+    if (until === null) {
+      await this.storage.delete(AWAKE_UNTIL_KEY);
+    } else {
+      await this.storage.put(AWAKE_UNTIL_KEY, until);
+    }
+  }
+}
@@ -0,0 +1,225 @@
+import type { Sandbox } from "@cloudflare/sandbox";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createMockBucket, createMockEnv, suppressConsole } from "../test-utils";
+import { decryptBytes, encryptBytes } from "./backup-crypto";
+import { BucketSnapshotStore, isBackupConfigured, parseBackupStorage } from "./snapshot-store";
+import { packTar, unpackTar } from "./tar";
+
+const hashOf = (n: number) => n.toString(16).padStart(64, "0");
+const encode = (text: string) => new TextEncoder().encode(text);
+
+async function gzip(bytes: Uint8Array<ArrayBuffer>): Promise<Uint8Array> {
+  const stream = new Blob([bytes]).stream().pipeThrough(new CompressionStream("gzip"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/** How readFileStream() sends a binary file: SSE events with base64 chunks */
+function fileEvents(bytes: Uint8Array): ReadableStream<Uint8Array> {
+  const half = Math.ceil(bytes.byteLength / 2);
+  const events = [
+    {
+      type: "metadata",
+      mimeType: "application/gzip",
+      size: bytes.byteLength,
+      isBinary: true,
+      encoding: "base64",
+    },
+    { type: "chunk", data: Buffer.from(bytes.subarray(0, half)).toString("base64") },
+    { type: "chunk", data: Buffer.from(bytes.subarray(half)).toString("base64") },
+    { type: "complete", bytesRead: bytes.byteLength },
+  ];
+  const text = events.map((event) => `data: ${JSON.stringify(event)}\n\n`).join("");
+  return new Blob([text]).stream();
+}
+
+/**
+ * A container whose files are a map of paths to contents. Packing copies the
+ * upload list's files into a gzipped tar; unpacking records what arrived.
+ */
+function createBindingSandbox(files: Map<string, string>) {
+  const ok = (stdout = "") => ({ stdout, stderr: "", exitCode: 0, success: true });
+  let pack: Uint8Array | null = null;
+  const staged = new Map<string, string>();
+
+  const exec = vi.fn(async (command: string) => {
+    if (command.includes("tar -czf")) {
+      const list = files.get("/tmp/openclaw-snapshot-upload.tsv") ?? "";
+      const entries = list
+        .split("\n")
+        .filter(Boolean)
+        .map((line) => {
+          const [hash, src] = line.split("\t");
+          return { name: `./${hash}`, data: new TextEncoder().encode(files.get(src) ?? "") };
+        });
+      pack = await gzip(packTar(entries));
+      return ok();
+    }
+    if (command.includes("tar -xzf")) {
+      const bytes = Buffer.from(files.get("/tmp/openclaw-snapshot-stage.tar.gz") ?? "", "base64");
+      const tar = new Blob([bytes]).stream().pipeThrough(new DecompressionStream("gzip"));
+      for await (const entry of unpackTar(tar)) {
+        staged.set(entry.name, new TextDecoder().decode(entry.data));
+      }
+      return ok();
+    }
+    return ok();
+  });
+  const writeFile = vi.fn(async (path: string, content: string) => {
+    files.set(path, content);
+  });
+  const readFileStream = vi.fn(async () => {
+    if (!pack) throw new Error("No pack");
+    return fileEvents(pack);
+  });
+  const sandbox = { exec, writeFile, readFileStream } as unknown as Sandbox;
+  return { sandbox, exec, writeFile, staged };
+}
+
+describe("parseBackupStorage", () => {
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  it("defaults to the mount and ignores invalid values", () => {
+    expect(parseBackupStorage({})).toBe("mount");
+    expect(parseBackupStorage({ BACKUP_STORAGE: " Binding " })).toBe("binding");
+    expect(parseBackupStorage({ BACKUP_STORAGE: "s3" })).toBe("mount");
+  });
+});
+
+describe("isBackupConfigured", () => {
+  it("needs S3 credentials for the mount but only the bucket for the binding", () => {
+    expect(isBackupConfigured(createMockEnv())).toBe(false);
+    expect(isBackupConfigured(createMockEnv({ BACKUP_STORAGE: "binding" }))).toBe(true);
+    expect(
+      isBackupConfigured(
+        createMockEnv({
+          R2_ACCESS_KEY_ID: "key",
+          R2_SECRET_ACCESS_KEY: "secret",
+          CF_ACCOUNT_ID: "account",
+        }),
+      ),
+    ).toBe(true);
+  });
+});
+
+describe("BucketSnapshotStore", () => {
+  it("reads, writes and deletes keys under the prefix", async () => {
+    const bucket = createMockBucket();
+    const { sandbox } = createBindingSandbox(new Map());
+    const store = new BucketSnapshotStore(sandbox, bucket, "/backups/");
+
+    await store.writeText("snapshots/index.json", "{}");
+    expect([...bucket.objects.keys()]).toEqual(["backups/snapshots/index.json"]);
+    expect(await store.readText("snapshots/index.json")).toBe("{}");
+    expect(await store.readText(".last-sync")).toBeNull();
+
+    await store.deleteKeys(["snapshots/index.json"]);
+    expect(bucket.objects.size).toBe(0);
+  });
+
+  it("streams new objects from the container into the bucket", async () => {
+    const bucket = createMockBucket();
+    const files = new Map([
+      ["/root/.openclaw/openclaw.json", "{}"],
+      ["/root/clawd/MEMORY.md", "remember"],
+    ]);
+    const { sandbox, exec } = createBindingSandbox(files);
+    const store = new BucketSnapshotStore(sandbox, bucket);
+
+    await store.uploadObjects(
+      new Map([
+        [hashOf(1), "/root/.openclaw/openclaw.json"],
+        [hashOf(2), "/root/clawd/MEMORY.md"],
+      ]),
+    );
+
+    expect(await store.readText(`objects/${hashOf(2)}`)).toBe("remember");
+    expect((await store.listObjects()).sort()).toEqual([hashOf(1), hashOf(2)]);
+    expect(await store.findMissingObjects([hashOf(1), hashOf(3)])).toEqual([hashOf(3)]);
+    // The pack is removed from the container afterwards
+    expect(exec).toHaveBeenLastCalledWith("rm -f /tmp/openclaw-snapshot-pack.tar.gz", {
+      timeout: expect.any(Number),
+    });
+  });
+
+  it("fails when objects don't arrive from the container", async () => {
+    const { sandbox } = createBindingSandbox(new Map());
+    const empty = await gzip(packTar([]));
+    Object.assign(sandbox, { readFileStream: vi.fn(async () => fileEvents(empty)) });
+    const store = new BucketSnapshotStore(sandbox, createMockBucket());
+
+    await expect(
+      store.uploadObjects(new Map([[hashOf(1), "/root/clawd/MEMORY.md"]])),
+    ).rejects.toThrow("Only 0 of 1 objects arrived from the container");
+  });
+
+  it("stages objects in the container for a restore", async () => {
+    const bucket = createMockBucket();
+    await bucket.put(`objects/${hashOf(1)}`, "one");
+    await bucket.put(`objects/${hashOf(2)}`, "two");
+    const { sandbox, writeFile, staged } = createBindingSandbox(new Map());
+    const store = new BucketSnapshotStore(sandbox, bucket);
+
+    const dir = await store.stageObjects([
+      { name: hashOf(1), size: 3 },
+      { name: hashOf(2), size: 3 },
+      { name: hashOf(1), size: 3 },
+    ]);
+
+    expect(dir).toBe("/tmp/openclaw-snapshot-objects");
+    expect(Object.fromEntries(staged)).toEqual({ [hashOf(1)]: "one", [hashOf(2)]: "two" });
+    expect(writeFile).toHaveBeenCalledWith(
+      "/tmp/openclaw-snapshot-stage.tar.gz",
+      expect.any(String),
+      {
+        encoding: "base64",
+      },
+    );
+    await expect(store.stageObjects([{ name: hashOf(3), size: 1 }])).rejects.toThrow(
+      `Object ${hashOf(3)} is missing in R2`,
+    );
+  });
+
+  it("re-encrypts objects with a new data key", async () => {
+    const bucket = createMockBucket();
+    const { sandbox } = createBindingSandbox(new Map());
+    const store = new BucketSnapshotStore(sandbox, bucket);
+    const from = { id: "aaaaaaaaaaaa", secret: "old" };
+    const to = { id: "bbbbbbbbbbbb", secret: "new" };
+    await bucket.put(`objects/${hashOf(1)}`, "plain");
+    await bucket.put(
+      `objects/${hashOf(2)}.${from.id}`,
+      await encryptBytes(encode("sealed"), "old"),
+    );
+
+    await store.reencryptObjects([{ from: hashOf(1), to: `${hashOf(1)}.${to.id}` }], null, to);
+    await store.reencryptObjects(
+      [{ from: `${hashOf(2)}.${from.id}`, to: `${hashOf(2)}.${to.id}` }],
+      from,
+      to,
+    );
+
+    for (const [n, text] of [
+      [1, "plain"],
+      [2, "sealed"],
+    ] as const) {
+      const object = await bucket.get(`objects/${hashOf(n)}.${to.id}`);
+      const data = new Uint8Array((await object?.arrayBuffer()) ?? new ArrayBuffer(0));
+      expect(new TextDecoder().decode(await decryptBytes(data, "new"))).toBe(text);
+    }
+    // The old objects are left to garbage collection
+    expect(await store.listObjects()).toHaveLength(4);
+  });
+
+  it("deletes objects in batches", async () => {
+    const bucket = createMockBucket();
+    const { sandbox } = createBindingSandbox(new Map());
+    const store = new BucketSnapshotStore(sandbox, bucket);
+    const hashes = Array.from({ length: 1001 }, (_, i) => hashOf(i));
+
+    await store.deleteObjects(hashes);
+
+    expect(bucket.delete).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,442 @@
+import type { FileStreamEvent, Sandbox } from "@cloudflare/sandbox";
+import { R2_MOUNT_PATH } from "../config";
+import type { OpenClawEnv } from "../types";
+import {
+  copyCommand,
+  DATA_KEY_ENV,
+  type DataKey,
+  decryptBytes,
+  encryptBytes,
+  OPENSSL_ENC,
+  toBase64,
+} from "./backup-crypto";
+import { mountR2Storage } from "./r2";
+import { packTar, unpackTar } from "./tar";
+
+/**
+ * How backups reach R2 (BACKUP_STORAGE)
+ * - mount: the container copies files to the bucket mounted with s3fs at
+ *   /data/openclaw, which needs R2_ACCESS_KEY_ID, R2_SECRET_ACCESS_KEY and CF_ACCOUNT_ID
+ * - binding: the container packs files into a tar stream and the Worker
+ *   moves it through the OPENCLAW_BUCKET binding; no S3 credentials or mount
+ *
+ * Both keep the same keys in the bucket, so switching keeps the backups.
+ */
+export type BackupStorage = "mount" | "binding";
+
+const BACKUP_STORAGES: readonly BackupStorage[] = ["mount", "binding"];
+
+/** Timeout for copying objects between the container and R2 */
+const TRANSFER_TIMEOUT_MS = 120_000;
+/** Timeout for small commands, e.g. listing and deleting */
+const COMMAND_TIMEOUT_MS = 15_000;
+
+/** Restores through the binding send objects to the container in tars of about this size */
+const STAGE_BATCH_BYTES = 8 * 1024 * 1024;
+/** R2 deletes at most this many keys per call */
+const DELETE_BATCH = 1000;
+
+const OBJECTS = "objects";
+const OBJECTS_DIR = `${R2_MOUNT_PATH}/${OBJECTS}`;
+const UPLOAD_LIST_PATH = "/tmp/openclaw-snapshot-upload.tsv";
+const CHECK_LIST_PATH = "/tmp/openclaw-snapshot-check.txt";
+const GC_LIST_PATH = "/tmp/openclaw-snapshot-gc.txt";
+const REENCRYPT_LIST_PATH = "/tmp/openclaw-snapshot-reencrypt.tsv";
+const PACK_DIR = "/tmp/openclaw-snapshot-pack";
+const PACK_PATH = "/tmp/openclaw-snapshot-pack.tar.gz";
+const STAGE_DIR = "/tmp/openclaw-snapshot-objects";
+const STAGE_PACK_PATH = "/tmp/openclaw-snapshot-stage.tar.gz";
+
+/** Objects are named by the SHA-256 of their content, plus the data key's ID if encrypted */
+const OBJECT_PATTERN = /^[0-9a-f]{64}(\.[0-9a-f]{12})?$/;
+
+export function parseBackupStorage(env: Pick<OpenClawEnv, "BACKUP_STORAGE">): BackupStorage {
+  const value = env.BACKUP_STORAGE?.trim().toLowerCase();
+  if (!value) return "mount";
+  if ((BACKUP_STORAGES as readonly string[]).includes(value)) return value as BackupStorage;
+  console.error(`[BACKUP] Ignoring invalid BACKUP_STORAGE: ${value}`);
+  return "mount";
+}
+
+/**
+ * Whether backups have somewhere to go
+ */
+export function isBackupConfigured(env: OpenClawEnv): boolean {
+  if (parseBackupStorage(env) === "binding") return !!env.OPENCLAW_BUCKET;
+  return !!(env.R2_ACCESS_KEY_ID && env.R2_SECRET_ACCESS_KEY && env.CF_ACCOUNT_ID);
+}
+
+/**
+ * An object to move between the container and R2, stored as objects/<name>
+ */
+export interface StoredObject {
+  name: string;
+  size: number;
+}
+
+/** Re-encrypt object `from` as object `to` */
+export interface ObjectMove {
+  from: string;
+  to: string;
+}
+
+/**
+ * Where snapshots live. Keys are relative to the backup root, e.g.
+ * `snapshots/index.json`; file contents are objects/<name>.
+ */
+export interface SnapshotStore {
+  readonly storage: BackupStorage;
+  readText(key: string): Promise<string | null>;
+  writeText(key: string, text: string): Promise<void>;
+  deleteKeys(keys: string[]): Promise<void>;
+  /** Names of every stored object */
+  listObjects(): Promise<string[]>;
+  /** Names of the given objects that aren't stored */
+  findMissingObjects(names: string[]): Promise<string[]>;
+  /**
+   * Store container files as objects; `uploads` maps object names to file
+   * paths. With a data key, the container encrypts them first.
+   */
+  uploadObjects(uploads: Map<string, string>, key?: DataKey | null): Promise<void>;
+  /** Make objects readable in the container; returns the directory holding them by name */
+  stageObjects(objects: StoredObject[]): Promise<string>;
+  /** Clean up after stageObjects */
+  releaseObjects(): Promise<void>;
+  /**
+   * Copy objects encrypted with `from` (or not encrypted) to objects encrypted
+   * with `to`. Objects that already exist are kept.
+   */
+  reencryptObjects(moves: ObjectMove[], from: DataKey | null, to: DataKey): Promise<void>;
+  deleteObjects(names: string[]): Promise<void>;
+}
+
+async function run(
+  sandbox: Sandbox,
+  command: string,
+  timeout = COMMAND_TIMEOUT_MS,
+  env?: Record<string, string>,
+) {
+  const result = await sandbox.exec(command, { timeout, env });
+  if (result.exitCode !== 0) {
+    throw new Error(result.stderr.trim() || `exit code ${result.exitCode}`);
+  }
+  return result;
+}
+
+/**
+ * Snapshots in the bucket mounted at /data/openclaw, copied by the container
+ */
+export class MountedSnapshotStore implements SnapshotStore {
+  readonly storage = "mount";
+  private prepared = false;
+
+  constructor(private sandbox: Sandbox) {}
+
+  private async prepare(): Promise<void> {
+    if (this.prepared) return;
+    await run(this.sandbox, `mkdir -p ${OBJECTS_DIR} ${R2_MOUNT_PATH}/snapshots`);
+    this.prepared = true;
+  }
+
+  async readText(key: string): Promise<string | null> {
+    const result = await this.sandbox.exec(`cat ${R2_MOUNT_PATH}/${key} 2>/dev/null`, {
+      timeout: COMMAND_TIMEOUT_MS,
+    });
+    return result.exitCode === 0 ? result.stdout : null;
+  }
+
+  async writeText(key: string, text: string): Promise<void> {
+    await this.prepare();
+    await this.sandbox.writeFile(`${R2_MOUNT_PATH}/${key}`, text);
+  }
+
+  async deleteKeys(keys: string[]): Promise<void> {
+    if (keys.length === 0) return;
+    await run(this.sandbox, `rm -f ${keys.map((key) => `${R2_MOUNT_PATH}/${key}`).join(" ")}`);
+  }
+
+  async listObjects(): Promise<string[]> {
+    const listing = await run(this.sandbox, `ls ${OBJECTS_DIR} 2>/dev/null || true`);
+    return listing.stdout
+      .split("\n")
+      .map((name) => name.trim())
+      .filter((name) => OBJECT_PATTERN.test(name));
+  }
+
+  async findMissingObjects(names: string[]): Promise<string[]> {
+    if (names.length === 0) return [];
+    await this.sandbox.writeFile(CHECK_LIST_PATH, names.map((name) => `${name}\n`).join(""));
+    const result = await run(
+      this.sandbox,
+      `while read -r name; do [ -f ${OBJECTS_DIR}/$name ] || echo "$name"; done < ${CHECK_LIST_PATH}`,
+      TRANSFER_TIMEOUT_MS,
+    );
+    return result.stdout.split("\n").filter((line) => OBJECT_PATTERN.test(line));
+  }
+
+  async uploadObjects(uploads: Map<string, string>, key?: DataKey | null): Promise<void> {
+    if (uploads.size === 0) return;
+    await this.prepare();
+    await this.sandbox.writeFile(
+      UPLOAD_LIST_PATH,
+      [...uploads].map(([name, src]) => `${name}\t${src}\n`).join(""),
+    );
+    // Another snapshot may have stored the same content since
+    const copy = copyCommand('"$src"', `${OBJECTS_DIR}/$name`, key ? "encrypt" : undefined);
+    await run(
+      this.sandbox,
+      `while IFS=$'\\t' read -r name src; do ` +
+        `[ -f ${OBJECTS_DIR}/$name ] || ${copy} || exit 1; ` +
+        `done < ${UPLOAD_LIST_PATH}`,
+      TRANSFER_TIMEOUT_MS,
+      key ? { [DATA_KEY_ENV]: key.secret } : undefined,
+    );
+  }
+
+  async stageObjects(): Promise<string> {
+    return OBJECTS_DIR;
+  }
+
+  async releaseObjects(): Promise<void> {}
+
+  async reencryptObjects(moves: ObjectMove[], from: DataKey | null, to: DataKey): Promise<void> {
+    if (moves.length === 0) return;
+    await this.prepare();
+    await this.sandbox.writeFile(
+      REENCRYPT_LIST_PATH,
+      moves.map((move) => `${move.from}\t${move.to}\n`).join(""),
+    );
+    const decrypt = from ? `${OPENSSL_ENC} -d -pass env:BACKUP_OLD_KEY` : "cat";
+    await run(
+      this.sandbox,
+      `cd ${OBJECTS_DIR} && while IFS=$'\\t' read -r from to; do ` +
+        `[ -f "$to" ] && continue; ` +
+        `${decrypt} < "$from" | ${OPENSSL_ENC} -pass env:BACKUP_NEW_KEY > "$to.tmp" && ` +
+        `mv "$to.tmp" "$to" || exit 1; ` +
+        `done < ${REENCRYPT_LIST_PATH}`,
+      TRANSFER_TIMEOUT_MS,
+      { BACKUP_OLD_KEY: from?.secret ?? "", BACKUP_NEW_KEY: to.secret },
+    );
+  }
+
+  async deleteObjects(names: string[]): Promise<void> {
+    if (names.length === 0) return;
+    await this.sandbox.writeFile(GC_LIST_PATH, `${names.join("\n")}\n`);
+    await run(this.sandbox, `cd ${OBJECTS_DIR} && xargs -r rm -f < ${GC_LIST_PATH}`);
+  }
+}
+
+/**
+ * Turn readFileStream()'s events back into the file's bytes. This is the
+ * SDK's streamFile() as a byte stream; the SDK itself only loads in Workers.
+ */
+export function fileBytes(
+  stream: ReadableStream<Uint8Array>,
+): ReadableStream<Uint8Array<ArrayBuffer>> {
+  const decoder = new TextDecoder();
+  const encoder = new TextEncoder();
+  let buffer = "";
+  let binary = false;
+
+  const handle = (
+    line: string,
+    controller: TransformStreamDefaultController<Uint8Array<ArrayBuffer>>,
+  ) => {
+    if (!line.startsWith("data: ")) return;
+    const event = JSON.parse(line.slice(6)) as FileStreamEvent;
+    if (event.type === "metadata") {
+      binary = event.isBinary && event.encoding === "base64";
+    } else if (event.type === "chunk") {
+      controller.enqueue(
+        binary
+          ? Uint8Array.from(atob(event.data), (c) => c.charCodeAt(0))
+          : encoder.encode(event.data),
+      );
+    } else if (event.type === "error") {
+      throw new Error(`File streaming error: ${event.error}`);
+    }
+  };
+
+  return stream.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array<ArrayBuffer>>({
+      transform(chunk, controller) {
+        buffer += decoder.decode(chunk, { stream: true });
+        const lines = buffer.split("\n");
+        buffer = lines.pop() ?? "";
+        for (const line of lines) handle(line, controller);
+      },
+      flush(controller) {
+        handle(buffer, controller);
+      },
+    }),
+  );
+}
+
+async function gzip(bytes: Uint8Array<ArrayBuffer>): Promise<Uint8Array> {
+  const stream = new Blob([bytes]).stream().pipeThrough(new CompressionStream("gzip"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Snapshots in R2 through the Worker's bucket binding. The container packs
+ * new objects into a gzipped tar that is streamed to the Worker and stored
+ * one object at a time; restores go the other way.
+ */
+export class BucketSnapshotStore implements SnapshotStore {
+  readonly storage = "binding";
+  private prefix: string;
+
+  constructor(
+    private sandbox: Sandbox,
+    private bucket: R2Bucket,
+    prefix?: string,
+  ) {
+    const trimmed = prefix?.replace(/^\/+|\/+$/g, "");
+    this.prefix = trimmed ? `${trimmed}/` : "";
+  }
+
+  private key(key: string): string {
+    return `${this.prefix}${key}`;
+  }
+
+  async readText(key: string): Promise<string | null> {
+    const object = await this.bucket.get(this.key(key));
+    return object ? object.text() : null;
+  }
+
+  async writeText(key: string, text: string): Promise<void> {
+    await this.bucket.put(this.key(key), text);
+  }
+
+  async deleteKeys(keys: string[]): Promise<void> {
+    for (let i = 0; i < keys.length; i += DELETE_BATCH) {
+      await this.bucket.delete(keys.slice(i, i + DELETE_BATCH).map((key) => this.key(key)));
+    }
+  }
+
+  async listObjects(): Promise<string[]> {
+    const prefix = this.key(`${OBJECTS}/`);
+    const names: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const listing = await this.bucket.list({ prefix, cursor });
+      for (const object of listing.objects) {
+        const name = object.key.slice(prefix.length);
+        if (OBJECT_PATTERN.test(name)) names.push(name);
+      }
+      cursor = listing.truncated ? listing.cursor : undefined;
+    } while (cursor);
+    return names;
+  }
+
+  async findMissingObjects(names: string[]): Promise<string[]> {
+    if (names.length === 0) return [];
+    const stored = new Set(await this.listObjects());
+    return [...new Set(names)].filter((name) => !stored.has(name));
+  }
+
+  async uploadObjects(uploads: Map<string, string>, key?: DataKey | null): Promise<void> {
+    if (uploads.size === 0) return;
+    await this.sandbox.writeFile(
+      UPLOAD_LIST_PATH,
+      [...uploads].map(([name, src]) => `${name}\t${src}\n`).join(""),
+    );
+    const copy = copyCommand('"$src"', `${PACK_DIR}/$name`, key ? "encrypt" : undefined);
+    await run(
+      this.sandbox,
+      `rm -rf ${PACK_DIR} && mkdir -p ${PACK_DIR} && ` +
+        `while IFS=$'\\t' read -r name src; do ${copy} || exit 1; done < ${UPLOAD_LIST_PATH} && ` +
+        `tar -czf ${PACK_PATH} -C ${PACK_DIR} . && rm -rf ${PACK_DIR}`,
+      TRANSFER_TIMEOUT_MS,
+      key ? { [DATA_KEY_ENV]: key.secret } : undefined,
+    );
+
+    try {
+      const pack = fileBytes(await this.sandbox.readFileStream(PACK_PATH)).pipeThrough(
+        new DecompressionStream("gzip"),
+      );
+      let stored = 0;
+      for await (const entry of unpackTar(pack)) {
+        if (!uploads.has(entry.name)) continue;
+        await this.bucket.put(this.key(`${OBJECTS}/${entry.name}`), entry.data);
+        stored++;
+      }
+      if (stored < uploads.size) {
+        throw new Error(`Only ${stored} of ${uploads.size} objects arrived from the container`);
+      }
+    } finally {
+      await this.sandbox.exec(`rm -f ${PACK_PATH}`, { timeout: COMMAND_TIMEOUT_MS });
+    }
+  }
+
+  async stageObjects(objects: StoredObject[]): Promise<string> {
+    await run(this.sandbox, `rm -rf ${STAGE_DIR} && mkdir -p ${STAGE_DIR}`);
+
+    const unique = [...new Map(objects.map((o) => [o.name, o])).values()];
+    let batch: StoredObject[] = [];
+    let batchBytes = 0;
+    const flush = async () => {
+      if (batch.length === 0) return;
+      const entries = await Promise.all(
+        batch.map(async ({ name }) => {
+          const object = await this.bucket.get(this.key(`${OBJECTS}/${name}`));
+          if (!object) throw new Error(`Object ${name} is missing in R2`);
+          return { name, data: new Uint8Array(await object.arrayBuffer()) };
+        }),
+      );
+      const pack = await gzip(packTar(entries));
+      await this.sandbox.writeFile(STAGE_PACK_PATH, toBase64(pack), { encoding: "base64" });
+      await run(
+        this.sandbox,
+        `tar -xzf ${STAGE_PACK_PATH} -C ${STAGE_DIR} && rm -f ${STAGE_PACK_PATH}`,
+        TRANSFER_TIMEOUT_MS,
+      );
+      batch = [];
+      batchBytes = 0;
+    };
+
+    for (const object of unique) {
+      if (batchBytes > 0 && batchBytes + object.size > STAGE_BATCH_BYTES) await flush();
+      batch.push(object);
+      batchBytes += object.size;
+    }
+    await flush();
+    return STAGE_DIR;
+  }
+
+  async releaseObjects(): Promise<void> {
+    await this.sandbox.exec(`rm -rf ${STAGE_DIR}`, { timeout: COMMAND_TIMEOUT_MS });
+  }
+
+  async reencryptObjects(moves: ObjectMove[], from: DataKey | null, to: DataKey): Promise<void> {
+    for (const move of moves) {
+      if (await this.bucket.head(this.key(`${OBJECTS}/${move.to}`))) continue;
+      const object = await this.bucket.get(this.key(`${OBJECTS}/${move.from}`));
+      if (!object) throw new Error(`Object ${move.from} is missing in R2`);
+      const data = new Uint8Array(await object.arrayBuffer());
+      const plain = from ? await decryptBytes(data, from.secret) : data;
+      await this.bucket.put(
+        this.key(`${OBJECTS}/${move.to}`),
+        await encryptBytes(plain, to.secret),
+      );
+    }
+  }
+
+  async deleteObjects(names: string[]): Promise<void> {
+    await this.deleteKeys(names.map((name) => `${OBJECTS}/${name}`));
+  }
+}
+
+/**
+ * The store BACKUP_STORAGE selects, mounting the bucket if needed. Returns
+ * null if the bucket couldn't be mounted.
+ */
+export async function openSnapshotStore(
+  sandbox: Sandbox,
+  env: OpenClawEnv,
+): Promise<SnapshotStore | null> {
+  if (parseBackupStorage(env) === "binding") {
+    return new BucketSnapshotStore(sandbox, env.OPENCLAW_BUCKET, env.R2_PREFIX);
+  }
+  return (await mountR2Storage(sandbox, env)) ? new MountedSnapshotStore(sandbox) : null;
+}
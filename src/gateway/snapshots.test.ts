@@ -0,0 +1,833 @@
+import type { Sandbox } from "@cloudflare/sandbox";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createMockEnv, suppressConsole } from "../test-utils";
+import { BackupKeyring } from "./backup-crypto";
+import { BackupIntegrityError } from "./integrity";
+import { MountedSnapshotStore } from "./snapshot-store";
+import {
+  applySnapshotDiff,
+  type BackupArea,
+  buildListCommand,
+  compareSnapshotFiles,
+  createSnapshot,
+  DEFAULT_RETENTION_POLICY,
+  diffSnapshot,
+  formatSnapshotId,
+  parseFileListing,
+  parseHashOutput,
+  parseLocalManifest,
+  parseManifest,
+  parseRetentionPolicy,
+  pruneSnapshots,
+  readPinnedSnapshots,
+  readSnapshotIndex,
+  readSnapshotManifest,
+  restoreLatestSnapshot,
+  rotateSnapshotKeys,
+  type SnapshotSummary,
+  selectSnapshotsToKeep,
+  serializeLocalManifest,
+  serializeManifest,
+  setSnapshotPinned,
+  setSnapshotQuarantine,
+} from "./snapshots";
+import { type SyncSpec, writeSyncSpec } from "./sync-spec";
+
+const HOUR = 3_600_000;
+const DAY = 24 * HOUR;
+const NOW = Date.parse("2026-03-02T12:30:00Z");
+
+const SNAPSHOTS_DIR = "/data/openclaw/snapshots";
+const OBJECTS_DIR = "/data/openclaw/objects";
+
+const hashOf = (n: number) => n.toString(16).padStart(64, "0");
+
+/** What the fake container's openssl makes of `text` */
+const encrypted = (secret: string, text: string) => `encrypted with ${secret}: ${text}`;
+
+function decrypted(secret: string, text: string) {
+  const prefix = encrypted(secret, "");
+  if (!text.startsWith(prefix)) throw new Error("bad decrypt");
+  return text.slice(prefix.length);
+}
+
+function summaryAt(at: number): SnapshotSummary {
+  return {
+    id: formatSnapshotId(at),
+    createdAt: new Date(at).toISOString(),
+    fileCount: 1,
+    totalBytes: 1,
+  };
+}
+
+interface TestFile {
+  area: BackupArea;
+  path: string;
+  hash: string;
+  size: number;
+  /** Defaults to one derived from the hash, so changed content has a new mtime */
+  mtime?: string;
+  /** Defaults to "content of <full path>", or "{}" when the fake cats a config */
+  content?: string;
+}
+
+const AREA_DIRS = {
+  config: "/root/.openclaw",
+  workspace: "/root/clawd",
+  skills: "/root/clawd/skills",
+};
+const mtimeOf = (f: TestFile) => f.mtime ?? `${Number.parseInt(f.hash.slice(-6), 16)}.5`;
+
+/** What buildListCommand prints for the given files */
+function fileListing(files: TestFile[]) {
+  return ["config", "workspace", "skills"]
+    .map((area) =>
+      [
+        `=== ${area}`,
+        ...files
+          .filter((f) => f.area === area)
+          .map((f) => `S\t${f.size}\t${mtimeOf(f)}\t${f.path}`),
+      ].join("\n"),
+    )
+    .join("\n");
+}
+
+/**
+ * A sandbox whose container holds `current` and whose R2 mount is a map of
+ * paths to contents, understanding the commands the snapshot functions run
+ */
+function createSnapshotSandbox(initialFiles: TestFile[] = []) {
+  let current = initialFiles;
+  const files = new Map<string, string>();
+  // The hash of each uploaded content, so a corrupted object fails its checksum
+  const checksums = new Map<string, string>();
+  const fullPath = (f: TestFile) => `${AREA_DIRS[f.area]}/${f.path}`;
+  const objects = () =>
+    [...files.keys()]
+      .filter((path) => path.startsWith(`${OBJECTS_DIR}/`))
+      .map((path) => path.slice(OBJECTS_DIR.length + 1));
+  const ok = (stdout = "") => ({ stdout, stderr: "", exitCode: 0, success: true });
+
+  const exec = vi.fn(async (command: string, options?: { env?: Record<string, string> }) => {
+    const env = options?.env ?? {};
+    const crypt = command.includes("openssl enc");
+    if (command.startsWith("echo '=== config'")) return ok(fileListing(current));
+    if (command.startsWith("xargs -0 -r sha256sum")) {
+      const paths = (files.get("/tmp/openclaw-snapshot-hash.txt") ?? "").split("\0");
+      const hashed = current
+        .map((f) => ({ ...f, full: fullPath(f) }))
+        .filter((f) => paths.includes(f.full));
+      return ok(hashed.map((f) => `${f.hash}  ${f.full}\n`).join(""));
+    }
+    if (command.startsWith("mkdir -p") || command.startsWith("test -f")) return ok();
+
+    const cat = command.match(/^cat (\S+) 2>\/dev\/null$/);
+    if (cat) {
+      const content = files.get(cat[1]);
+      return content === undefined ? { ...ok(), exitCode: 1, success: false } : ok(content);
+    }
+    // Reading a container file: what was restored, or the live file
+    const catQuoted = command.match(/^cat '(.+)'$/);
+    if (catQuoted) {
+      const live = current.find((f) => fullPath(f) === catQuoted[1]);
+      return ok(files.get(catQuoted[1]) ?? live?.content ?? "{}");
+    }
+    const mv = command.match(/^mv -f '(.+)' '(.+)' 2>\/dev\/null$/);
+    if (mv) {
+      const content = files.get(mv[1]);
+      files.delete(mv[1]);
+      if (content !== undefined) files.set(mv[2], content);
+      return ok();
+    }
+    if (command.includes("[ -f") && command.includes("echo")) {
+      const list = files.get("/tmp/openclaw-snapshot-check.txt") ?? "";
+      const missing = list.split("\n").filter((hash) => hash && !objects().includes(hash));
+      return ok(missing.join("\n"));
+    }
+    if (command.includes("/tmp/openclaw-snapshot-restore.tsv")) {
+      const list = files.get("/tmp/openclaw-snapshot-restore.tsv") ?? "";
+      for (const line of list.split("\n").filter(Boolean)) {
+        const [name, hash, dest] = line.split("\t");
+        const content = files.get(`${OBJECTS_DIR}/${name}`) ?? "";
+        const plain = crypt ? decrypted(env.BACKUP_DATA_KEY, content) : content;
+        if (checksums.get(plain) !== hash) {
+          return { stdout: "", stderr: `${dest}\n`, exitCode: 2, success: false };
+        }
+        files.set(dest, plain);
+      }
+      return ok();
+    }
+    if (command.includes("/tmp/openclaw-snapshot-remove.txt")) {
+      const list = files.get("/tmp/openclaw-snapshot-remove.txt") ?? "";
+      for (const path of list.split("\n").filter(Boolean)) files.delete(path);
+      return ok();
+    }
+    if (command.startsWith("while")) {
+      const list = files.get("/tmp/openclaw-snapshot-upload.tsv") ?? "";
+      for (const line of list.split("\n").filter(Boolean)) {
+        const [name, src] = line.split("\t");
+        const file = current.find((f) => fullPath(f) === src);
+        const content = file?.content ?? `content of ${src}`;
+        checksums.set(content, name.slice(0, 64));
+        files.set(
+          `${OBJECTS_DIR}/${name}`,
+          crypt ? encrypted(env.BACKUP_DATA_KEY, content) : content,
+        );
+      }
+      return ok();
+    }
+    if (command.startsWith("rm -f")) {
+      for (const path of command.split(" ").slice(2)) files.delete(path);
+      return ok();
+    }
+    if (command.startsWith(`ls ${OBJECTS_DIR}`)) return ok(objects().join("\n"));
+    if (command.startsWith(`cd ${OBJECTS_DIR} && while`)) {
+      const list = files.get("/tmp/openclaw-snapshot-reencrypt.tsv") ?? "";
+      for (const line of list.split("\n").filter(Boolean)) {
+        const [from, to] = line.split("\t");
+        const content = files.get(`${OBJECTS_DIR}/${from}`) ?? "";
+        const plain = env.BACKUP_OLD_KEY ? decrypted(env.BACKUP_OLD_KEY, content) : content;
+        files.set(`${OBJECTS_DIR}/${to}`, encrypted(env.BACKUP_NEW_KEY, plain));
+      }
+      return ok();
+    }
+    if (command.startsWith(`cd ${OBJECTS_DIR} && xargs`)) {
+      const list = files.get("/tmp/openclaw-snapshot-gc.txt") ?? "";
+      for (const hash of list.split("\n").filter(Boolean)) files.delete(`${OBJECTS_DIR}/${hash}`);
+      return ok();
+    }
+    throw new Error(`Unexpected command: ${command}`);
+  });
+  const writeFile = vi.fn(async (path: string, content: string) => {
+    files.set(path, content);
+  });
+
+  const sandbox = { exec, writeFile } as unknown as Sandbox;
+  const store = new MountedSnapshotStore(sandbox);
+  const setFiles = (next: TestFile[]) => {
+    current = next;
+  };
+  return { sandbox, store, files, objects, exec, writeFile, setFiles };
+}
+
+describe("parseRetentionPolicy", () => {
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  it("defaults when BACKUP_RETENTION is not set", () => {
+    expect(parseRetentionPolicy({})).toEqual(DEFAULT_RETENTION_POLICY);
+  });
+
+  it("parses counts, ignoring invalid entries", () => {
+    expect(
+      parseRetentionPolicy({ BACKUP_RETENTION: "latest=3, daily=7, hourly=many, weekly=4" }),
+    ).toEqual({ latest: 3, hourly: 24, daily: 7 });
+  });
+});
+
+describe("selectSnapshotsToKeep", () => {
+  // One snapshot every 5 minutes for 3 days
+  const snapshots = Array.from({ length: 3 * 24 * 12 }, (_, i) =>
+    summaryAt(NOW - 3 * DAY + (i + 1) * 5 * 60_000),
+  );
+
+  it("keeps the newest snapshots and the newest of each hour and day", () => {
+    const keep = selectSnapshotsToKeep(snapshots, { latest: 2, hourly: 3, daily: 2 }, [], NOW);
+
+    expect([...keep].sort()).toEqual(
+      [
+        // latest
+        "20260302T123000Z",
+        "20260302T122500Z",
+        // hourly: 11:00-12:00, 10:00-11:00 (12:00-13:00 is the newest)
+        "20260302T115500Z",
+        "20260302T105500Z",
+        // daily: yesterday (today's is the newest)
+        "20260301T235500Z",
+      ].sort(),
+    );
+  });
+
+  it("keeps pinned snapshots", () => {
+    const pinned = snapshots[0].id;
+    const keep = selectSnapshotsToKeep(
+      snapshots,
+      { latest: 1, hourly: 0, daily: 0 },
+      [pinned],
+      NOW,
+    );
+    expect([...keep].sort()).toEqual([pinned, "20260302T123000Z"]);
+  });
+
+  it("always keeps the newest snapshot", () => {
+    const keep = selectSnapshotsToKeep(snapshots, { latest: 0, hourly: 0, daily: 0 }, [], NOW);
+    expect([...keep]).toEqual(["20260302T123000Z"]);
+  });
+});
+
+describe("manifests", () => {
+  it("round-trips files, including tabs in paths", () => {
+    const files = [
+      { area: "config" as const, path: "openclaw.json", hash: hashOf(1), size: 120 },
+      { area: "workspace" as const, path: "notes/a\tb.md", hash: hashOf(2), size: 5 },
+    ];
+    expect(parseManifest(serializeManifest(files))).toEqual(files);
+  });
+
+  it("skips malformed lines", () => {
+    expect(parseManifest(`config\tnot-a-hash\t1\tx\nother\t${hashOf(1)}\t1\ty\n\n`)).toEqual([]);
+  });
+});
+
+describe("parseFileListing", () => {
+  it("reads sizes and modification times per area", () => {
+    const output = [
+      "=== config",
+      "S\t120\t1772454600.1234567890\topenclaw.json",
+      "S\t40\t1772454600.0000000000\tagents/main/auth-profiles.json",
+      "=== workspace",
+      "=== skills",
+      "S\t9\t1772450000.5\tmy-skill/SKILL.md",
+      "junk",
+    ].join("\n");
+
+    expect(parseFileListing(output)).toEqual([
+      { area: "config", path: "openclaw.json", size: 120, mtime: "1772454600.1234567890" },
+      {
+        area: "config",
+        path: "agents/main/auth-profiles.json",
+        size: 40,
+        mtime: "1772454600.0000000000",
+      },
+      { area: "skills", path: "my-skill/SKILL.md", size: 9, mtime: "1772450000.5" },
+    ]);
+  });
+
+  it("lists the legacy config directory when given", () => {
+    const command = buildListCommand("/root/.clawdbot");
+    expect(command).toContain("cd /root/.clawdbot");
+    expect(command).toContain("cd /root/clawd/skills");
+    expect(command).toContain("-path ./skills -prune");
+  });
+});
+
+describe("parseHashOutput", () => {
+  it("maps paths to hashes, leaving out escaped names", () => {
+    const output = [
+      `${hashOf(1)}  /root/.openclaw/openclaw.json`,
+      `\\${hashOf(2)}  /root/clawd/odd\\nname`,
+    ].join("\n");
+
+    expect(parseHashOutput(output)).toEqual(
+      new Map([["/root/.openclaw/openclaw.json", hashOf(1)]]),
+    );
+  });
+});
+
+describe("local manifest", () => {
+  it("round-trips with the snapshot it belongs to", () => {
+    const file = {
+      area: "workspace" as const,
+      path: "a\tb.md",
+      hash: hashOf(1),
+      size: 3,
+      mtime: "1.5",
+    };
+    expect(parseLocalManifest(serializeLocalManifest("20260302T123000Z", [file]))).toEqual({
+      snapshotId: "20260302T123000Z",
+      files: [file],
+    });
+    expect(parseLocalManifest("")).toEqual({ snapshotId: null, files: [] });
+  });
+});
+
+describe("createSnapshot", () => {
+  const config = { area: "config" as const, path: "openclaw.json", hash: hashOf(1), size: 100 };
+  const memory = { area: "workspace" as const, path: "MEMORY.md", hash: hashOf(2), size: 50 };
+
+  it("stores each file's content once and writes the manifest and index", async () => {
+    const { sandbox, store, files, objects } = createSnapshotSandbox([
+      config,
+      memory,
+      { ...memory, path: "MEMORY-copy.md" },
+    ]);
+
+    const {
+      snapshot: summary,
+      created,
+      changes,
+    } = await createSnapshot(sandbox, store, null, "/root/.openclaw", NOW);
+
+    expect(created).toBe(true);
+    expect(changes).toEqual({ added: 3, changed: 0, deleted: 0, bytesTransferred: 150 });
+    expect(summary).toEqual({
+      id: "20260302T123000Z",
+      createdAt: "2026-03-02T12:30:00.000Z",
+      fileCount: 3,
+      totalBytes: 200,
+    });
+    expect(objects().sort()).toEqual([hashOf(1), hashOf(2)]);
+    expect(files.get("/tmp/openclaw-snapshot-upload.tsv")?.split("\n")).toHaveLength(3);
+    expect(await readSnapshotManifest(store, null, summary)).toHaveLength(3);
+    expect((await readSnapshotIndex(store)).snapshots).toEqual([summary]);
+  });
+
+  it("only copies content the previous snapshot doesn't have", async () => {
+    const { sandbox, store, writeFile } = createSnapshotSandbox([config]);
+    await createSnapshot(sandbox, store, null, "/root/.openclaw", NOW);
+
+    const {
+      sandbox: next,
+      store: nextStore,
+      files,
+    } = createSnapshotSandbox([config, { ...memory, hash: hashOf(3) }]);
+    for (const [path, content] of writeFile.mock.calls) files.set(path, content);
+    const { changes } = await createSnapshot(next, nextStore, null, "/root/.openclaw", NOW + HOUR);
+
+    expect(changes).toEqual({ added: 1, changed: 0, deleted: 0, bytesTransferred: 50 });
+    expect(files.get("/tmp/openclaw-snapshot-upload.tsv")).toBe(
+      `${hashOf(3)}\t/root/clawd/MEMORY.md\n`,
+    );
+    expect((await readSnapshotIndex(nextStore)).snapshots.map((s) => s.id)).toEqual([
+      "20260302T123000Z",
+      "20260302T133000Z",
+    ]);
+  });
+
+  it("gives a snapshot taken in the same second as the last one the next second", async () => {
+    const { sandbox, store, setFiles } = createSnapshotSandbox([config]);
+    await createSnapshot(sandbox, store, null, "/root/.openclaw", NOW);
+    setFiles([config, memory]);
+    await createSnapshot(sandbox, store, null, "/root/.openclaw", NOW + 400);
+    setFiles([config]);
+    await createSnapshot(sandbox, store, null, "/root/.openclaw", NOW + 800);
+
+    expect((await readSnapshotIndex(store)).snapshots.map((s) => s.id)).toEqual([
+      "20260302T123000Z",
+      "20260302T123001Z",
+      "20260302T123002Z",
+    ]);
+  });
+
+  it("only hashes files whose size or modification time changed", async () => {
+    const { sandbox, store, files, setFiles } = createSnapshotSandbox([config, memory]);
+    await createSnapshot(sandbox, store, null, "/root/.openclaw", NOW);
+
+    setFiles([config, { ...memory, hash: hashOf(3), size: 60 }]);
+    const { changes } = await createSnapshot(sandbox, store, null, "/root/.openclaw", NOW + HOUR);
+
+    expect(files.get("/tmp/openclaw-snapshot-hash.txt")).toBe("/root/clawd/MEMORY.md\0");
+    expect(changes).toEqual({ added: 0, changed: 1, deleted: 0, bytesTransferred: 60 });
+  });
+
+  it("creates no snapshot when nothing changed", async () => {
+    const { sandbox, store, exec, setFiles } = createSnapshotSandbox([config, memory]);
+    const first = await createSnapshot(sandbox, store, null, "/root/.openclaw", NOW);
+
+    exec.mockClear();
+    const second = await createSnapshot(sandbox, store, null, "/root/.openclaw", NOW + HOUR);
+
+    expect(second).toEqual({
+      snapshot: first.snapshot,
+      created: false,
+      changes: { added: 0, changed: 0, deleted: 0, bytesTransferred: 0 },
+    });
+    // Nothing is hashed, copied or read from R2 besides the index
+    expect(exec.mock.calls.map(([command]) => command.split(" ")[0])).toEqual([
+      "cat",
+      "cat",
+      "echo",
+    ]);
+
+    setFiles([config]);
+    const third = await createSnapshot(sandbox, store, null, "/root/.openclaw", NOW + 2 * HOUR);
+    expect(third.created).toBe(true);
+    expect(third.changes).toEqual({ added: 0, changed: 0, deleted: 1, bytesTransferred: 0 });
+  });
+
+  it("refuses to back up a critical config file that doesn't parse", async () => {
+    const { sandbox, store, writeFile } = createSnapshotSandbox([
+      { ...config, content: '{"gateway": ' },
+      memory,
+    ]);
+
+    const error = await createSnapshot(sandbox, store, null, "/root/.openclaw", NOW).catch(
+      (err) => err,
+    );
+
+    expect(error).toBeInstanceOf(BackupIntegrityError);
+    expect(error).toMatchObject({ problem: "invalid-config" });
+    expect(error.message).toMatch(/^Refusing to back up: openclaw.json is not valid JSON/);
+    expect(writeFile).not.toHaveBeenCalledWith(
+      "/tmp/openclaw-snapshot-upload.tsv",
+      expect.anything(),
+    );
+  });
+
+  it("refuses a backup that lost most of the workspace unless allowed", async () => {
+    const notes = Array.from({ length: 12 }, (_, i) => ({
+      area: "workspace" as const,
+      path: `notes/${i}.md`,
+      hash: hashOf(10 + i),
+      size: 100,
+    }));
+    const { sandbox, store, setFiles } = createSnapshotSandbox([config, ...notes]);
+    await createSnapshot(sandbox, store, null, "/root/.openclaw", NOW);
+
+    setFiles([config, ...notes.slice(0, 2)]);
+    await expect(
+      createSnapshot(sandbox, store, null, "/root/.openclaw", NOW + HOUR),
+    ).rejects.toMatchObject({
+      problem: "shrink",
+      message: "Refusing to back up: Workspace shrank from 12 files (1 KB) to 2 files (0 KB)",
+    });
+
+    const forced = await createSnapshot(sandbox, store, null, "/root/.openclaw", NOW + HOUR, {
+      maxShrink: null,
+    });
+    expect(forced.changes.deleted).toBe(10);
+  });
+
+  it("only looks at the files of due rules, keeping the others as they were", async () => {
+    const spec: SyncSpec = {
+      rules: [
+        { name: "config", area: "config", include: [], exclude: [], every: "5m" },
+        { name: "memory", area: "workspace", include: ["MEMORY.md"], exclude: [], every: "1m" },
+        { name: "workspace", area: "workspace", include: [], exclude: ["assets/"], every: "1h" },
+      ],
+    };
+    const notes = { area: "workspace" as const, path: "notes/a.md", hash: hashOf(3), size: 10 };
+    const asset = { area: "workspace" as const, path: "assets/big.bin", hash: hashOf(4), size: 9 };
+    const { sandbox, store, setFiles } = createSnapshotSandbox([config, memory, notes, asset]);
+    // Without a previous snapshot every rule is backed up
+    const first = await createSnapshot(sandbox, store, null, "/root/.openclaw", NOW, {
+      spec,
+      rules: ["memory"],
+    });
+    expect(await readSnapshotManifest(store, null, first.snapshot)).toEqual([
+      config,
+      memory,
+      notes,
+    ]);
+
+    const edited = { ...memory, hash: hashOf(5) };
+    setFiles([config, edited, { ...notes, hash: hashOf(6) }, asset]);
+    const second = await createSnapshot(sandbox, store, null, "/root/.openclaw", NOW + 60_000, {
+      spec,
+      rules: ["memory"],
+    });
+
+    expect(second.changes).toEqual({ added: 0, changed: 1, deleted: 0, bytesTransferred: 50 });
+    expect(await readSnapshotManifest(store, null, second.snapshot)).toEqual([
+      config,
+      edited,
+      notes,
+    ]);
+  });
+
+  it("refuses to snapshot a container with no files", async () => {
+    const { sandbox, store, writeFile } = createSnapshotSandbox([]);
+    await expect(createSnapshot(sandbox, store, null, "/root/.openclaw", NOW)).rejects.toThrow(
+      "No files to back up",
+    );
+    expect(writeFile).not.toHaveBeenCalled();
+  });
+});
+
+describe("pruneSnapshots", () => {
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  async function createSnapshots(count: number) {
+    const backup = createSnapshotSandbox();
+    for (let i = 0; i < count; i++) {
+      const at = NOW - (count - 1 - i) * 5 * 60_000;
+      const file = { area: "config" as const, path: "openclaw.json", hash: hashOf(i + 1), size: 1 };
+      backup.setFiles([file]);
+      await createSnapshot(backup.sandbox, backup.store, null, "/root/.openclaw", at);
+    }
+    return backup;
+  }
+
+  it("deletes snapshots the policy doesn't keep, and their objects", async () => {
+    const { store, files, objects } = await createSnapshots(4);
+    const env = createMockEnv({ BACKUP_RETENTION: "latest=2,hourly=0,daily=0" });
+
+    const pruned = await pruneSnapshots(store, null, env, NOW);
+
+    expect(pruned).toEqual(["20260302T121500Z", "20260302T122000Z"]);
+    expect(files.has(`${SNAPSHOTS_DIR}/20260302T121500Z.tsv`)).toBe(false);
+    expect(objects().sort()).toEqual([hashOf(3), hashOf(4)]);
+    expect((await readSnapshotIndex(store)).lastGcAt).toBe(NOW);
+  });
+
+  it("keeps pinned snapshots", async () => {
+    const { store } = await createSnapshots(3);
+    expect(await setSnapshotPinned(store, "20260302T122000Z", true)).toBe(true);
+    expect(await setSnapshotPinned(store, "20200101T000000Z", true)).toBe(false);
+    expect(await readPinnedSnapshots(store)).toEqual(["20260302T122000Z"]);
+
+    const env = createMockEnv({ BACKUP_RETENTION: "latest=1,hourly=0,daily=0" });
+    expect(await pruneSnapshots(store, null, env, NOW)).toEqual(["20260302T122500Z"]);
+  });
+
+  it("collects unreferenced objects at most once a day", async () => {
+    const { store, files, objects } = await createSnapshots(1);
+    const env = createMockEnv();
+    await pruneSnapshots(store, null, env, NOW);
+
+    files.set(`${OBJECTS_DIR}/${hashOf(99)}`, "leftover");
+    await pruneSnapshots(store, null, env, NOW + HOUR);
+    expect(objects()).toContain(hashOf(99));
+
+    await pruneSnapshots(store, null, env, NOW + DAY);
+    expect(objects()).not.toContain(hashOf(99));
+  });
+});
+
+describe("compareSnapshotFiles", () => {
+  const file = (area: BackupArea, path: string, n: number) => ({
+    area,
+    path,
+    hash: hashOf(n),
+    size: n,
+  });
+
+  it("sorts files into added, changed, removed and unchanged", () => {
+    const snapshot = [file("config", "openclaw.json", 1), file("workspace", "MEMORY.md", 2)];
+    const live = [
+      file("config", "openclaw.json", 1),
+      file("workspace", "MEMORY.md", 3),
+      file("workspace", "NEW.md", 4),
+      file("skills", "my-skill/SKILL.md", 5),
+    ];
+
+    expect(
+      compareSnapshotFiles("s1", [...snapshot, file("skills", "old/SKILL.md", 6)], live, [
+        "config",
+        "workspace",
+      ]),
+    ).toEqual({
+      id: "s1",
+      areas: ["config", "workspace"],
+      added: [],
+      changed: [file("workspace", "MEMORY.md", 2)],
+      removed: [file("workspace", "NEW.md", 4)],
+      unchanged: 1,
+    });
+  });
+});
+
+describe("restoring a snapshot", () => {
+  const config = { area: "config" as const, path: "openclaw.json", hash: hashOf(1), size: 10 };
+  const memory = { area: "workspace" as const, path: "MEMORY.md", hash: hashOf(2), size: 20 };
+  const edited = { ...memory, hash: hashOf(3) };
+  const added = { area: "workspace" as const, path: "notes/new file.md", hash: hashOf(4), size: 5 };
+
+  async function backedUp() {
+    const backup = createSnapshotSandbox([config, memory]);
+    const { snapshot: summary } = await createSnapshot(
+      backup.sandbox,
+      backup.store,
+      null,
+      "/root/.openclaw",
+      NOW,
+    );
+    // The container has changed since
+    backup.setFiles([config, edited, added]);
+    return { ...backup, id: summary.id };
+  }
+
+  it("diffs a snapshot against the container", async () => {
+    const { sandbox, store, id } = await backedUp();
+    const diff = await diffSnapshot(sandbox, store, null, "/root/.openclaw", id);
+    expect(diff).toMatchObject({ added: [], changed: [memory], removed: [added], unchanged: 1 });
+    expect(
+      await diffSnapshot(sandbox, store, null, "/root/.openclaw", "20200101T000000Z"),
+    ).toBeNull();
+  });
+
+  it("leaves files outside the sync spec alone", async () => {
+    const { sandbox, store, id } = await backedUp();
+    await writeSyncSpec(store, {
+      rules: [
+        { name: "config", area: "config", include: [], exclude: [], every: "5m" },
+        { name: "workspace", area: "workspace", include: [], exclude: ["notes/"], every: "5m" },
+      ],
+    });
+
+    const diff = await diffSnapshot(sandbox, store, null, "/root/.openclaw", id);
+    expect(diff).toMatchObject({ added: [], changed: [memory], removed: [], unchanged: 1 });
+  });
+
+  it("copies changed files back and deletes files the snapshot doesn't have", async () => {
+    const { sandbox, store, files, id } = await backedUp();
+    const diff = await diffSnapshot(sandbox, store, null, "/root/.openclaw", id);
+    if (!diff) throw new Error("no diff");
+    files.set("/root/clawd/notes/new file.md", "new");
+
+    expect(await store.findMissingObjects(diff.changed.map((f) => f.hash))).toEqual([]);
+    await applySnapshotDiff(sandbox, store, null, "/root/.openclaw", diff);
+
+    expect(files.get("/root/clawd/MEMORY.md")).toBe("content of /root/clawd/MEMORY.md");
+    expect(files.has("/root/clawd/notes/new file.md")).toBe(false);
+  });
+
+  it("verifies checksums before replacing the container's files", async () => {
+    const { sandbox, store, files, id } = await backedUp();
+    const diff = await diffSnapshot(sandbox, store, null, "/root/.openclaw", id);
+    if (!diff) throw new Error("no diff");
+    files.set(`${OBJECTS_DIR}/${hashOf(2)}`, "bit rot");
+
+    await expect(
+      applySnapshotDiff(sandbox, store, null, "/root/.openclaw", diff),
+    ).rejects.toMatchObject({
+      problem: "checksum",
+      message: `Checksum mismatch in snapshot ${id}: /root/clawd/MEMORY.md`,
+    });
+    expect(files.has("/root/clawd/MEMORY.md")).toBe(false);
+  });
+
+  it("finds objects missing from R2", async () => {
+    const { store } = createSnapshotSandbox();
+    expect(await store.findMissingObjects([hashOf(1)])).toEqual([hashOf(1)]);
+  });
+
+  it("restores the newest snapshot on boot unless the container is as new", async () => {
+    const { sandbox, store, files, id } = await backedUp();
+    files.set("/data/openclaw/.last-sync", new Date(NOW).toISOString());
+
+    expect(await restoreLatestSnapshot(sandbox, store, null)).toBe(`restored snapshot ${id}`);
+    expect(files.get("/root/clawd/MEMORY.md")).toBe("content of /root/clawd/MEMORY.md");
+    expect(files.get("/root/.openclaw/.last-sync")).toBe(new Date(NOW).toISOString());
+
+    expect(await restoreLatestSnapshot(sandbox, store, null)).toBe("local data is up to date");
+  });
+
+  it("quarantines a damaged snapshot on boot and restores the one before it", async () => {
+    suppressConsole();
+    const { sandbox, store, files, setFiles } = createSnapshotSandbox([config, memory]);
+    const good = await createSnapshot(sandbox, store, null, "/root/.openclaw", NOW);
+    setFiles([config, { ...edited, content: "edited" }]);
+    const damaged = await createSnapshot(sandbox, store, null, "/root/.openclaw", NOW + HOUR);
+    files.set(`${OBJECTS_DIR}/${hashOf(3)}`, "bit rot");
+    setFiles([config]);
+
+    expect(await restoreLatestSnapshot(sandbox, store, null)).toBe(
+      `restored snapshot ${good.snapshot.id} (quarantined ${damaged.snapshot.id})`,
+    );
+    expect(files.get("/root/clawd/MEMORY.md")).toBe("content of /root/clawd/MEMORY.md");
+    const { snapshots } = await readSnapshotIndex(store);
+    expect(snapshots[1].quarantined).toBe(
+      `Checksum mismatch in snapshot ${damaged.snapshot.id}: /root/clawd/MEMORY.md`,
+    );
+
+    // Backups compare against the last snapshot that isn't quarantined
+    setFiles([config, memory]);
+    const next = await createSnapshot(sandbox, store, null, "/root/.openclaw", NOW + 2 * HOUR);
+    expect(next).toMatchObject({ created: false, snapshot: good.snapshot });
+
+    expect(await setSnapshotQuarantine(store, damaged.snapshot.id, null)).toBe(true);
+    expect((await readSnapshotIndex(store)).snapshots[1].quarantined).toBeUndefined();
+    expect(await setSnapshotQuarantine(store, "20200101T000000Z", "gone")).toBe(false);
+  });
+});
+
+describe("encrypted snapshots", () => {
+  const config = { area: "config" as const, path: "openclaw.json", hash: hashOf(1), size: 10 };
+  const memory = { area: "workspace" as const, path: "MEMORY.md", hash: hashOf(2), size: 20 };
+
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  it("encrypts objects and the manifest with the current data key", async () => {
+    const { sandbox, store, files, objects, exec } = createSnapshotSandbox([config, memory]);
+    const keyring = new BackupKeyring(store, ["passphrase"]);
+
+    const { snapshot } = await createSnapshot(sandbox, store, keyring, "/root/.openclaw", NOW);
+    const key = await keyring.current();
+
+    expect(snapshot.keyId).toBe(key.id);
+    expect(objects().sort()).toEqual([`${hashOf(1)}.${key.id}`, `${hashOf(2)}.${key.id}`]);
+    expect(files.get(`${OBJECTS_DIR}/${hashOf(2)}.${key.id}`)).toBe(
+      encrypted(key.secret, "content of /root/clawd/MEMORY.md"),
+    );
+    expect(exec).toHaveBeenCalledWith(expect.stringContaining("openssl enc"), {
+      timeout: expect.any(Number),
+      env: { BACKUP_DATA_KEY: key.secret },
+    });
+
+    const manifest = files.get(`${SNAPSHOTS_DIR}/${snapshot.id}.${key.id}.enc`);
+    expect(manifest).toBeDefined();
+    expect(manifest).not.toContain("MEMORY.md");
+    expect(await readSnapshotManifest(store, keyring, snapshot)).toHaveLength(2);
+    await expect(readSnapshotManifest(store, null, snapshot)).rejects.toThrow(
+      "BACKUP_ENCRYPTION_KEY is not set",
+    );
+  });
+
+  it("restores with the current or previous passphrase only", async () => {
+    const { sandbox, store, files, setFiles } = createSnapshotSandbox([config, memory]);
+    const { snapshot } = await createSnapshot(
+      sandbox,
+      store,
+      new BackupKeyring(store, ["old"]),
+      "/root/.openclaw",
+      NOW,
+    );
+    setFiles([config]);
+
+    const wrong = new BackupKeyring(store, ["wrong"]);
+    await expect(
+      diffSnapshot(sandbox, store, wrong, "/root/.openclaw", snapshot.id),
+    ).rejects.toThrow("can't be decrypted with BACKUP_ENCRYPTION_KEY");
+
+    const keyring = new BackupKeyring(store, ["new", "old"]);
+    const diff = await diffSnapshot(sandbox, store, keyring, "/root/.openclaw", snapshot.id);
+    if (!diff) throw new Error("no diff");
+    expect(diff).toMatchObject({ keyId: snapshot.keyId, added: [memory] });
+
+    await applySnapshotDiff(sandbox, store, keyring, "/root/.openclaw", diff);
+    expect(files.get("/root/clawd/MEMORY.md")).toBe("content of /root/clawd/MEMORY.md");
+  });
+
+  it("re-encrypts every snapshot with a new data key", async () => {
+    const { sandbox, store, files, objects } = createSnapshotSandbox([config, memory]);
+    const keyring = new BackupKeyring(store, ["passphrase"]);
+    const plain = await createSnapshot(sandbox, store, null, "/root/.openclaw", NOW);
+    // Turning on encryption stores the same files encrypted
+    const first = await createSnapshot(sandbox, store, keyring, "/root/.openclaw", NOW + HOUR);
+    expect(first.created).toBe(true);
+    const oldKey = await keyring.current();
+
+    const result = await rotateSnapshotKeys(store, keyring, NOW + 2 * HOUR);
+
+    expect(result).toEqual({ keyId: expect.not.stringMatching(oldKey.id), snapshots: 2 });
+    const index = await readSnapshotIndex(store);
+    expect(index.snapshots.map((s) => [s.id, s.keyId])).toEqual([
+      [plain.snapshot.id, result.keyId],
+      [first.snapshot.id, result.keyId],
+    ]);
+    expect(index.lastGcAt).toBe(NOW + 2 * HOUR);
+    expect(objects().sort()).toEqual([
+      `${hashOf(1)}.${result.keyId}`,
+      `${hashOf(2)}.${result.keyId}`,
+    ]);
+    expect([...files.keys()].filter((path) => path.startsWith(SNAPSHOTS_DIR)).sort()).toEqual([
+      `${SNAPSHOTS_DIR}/${plain.snapshot.id}.${result.keyId}.enc`,
+      `${SNAPSHOTS_DIR}/${first.snapshot.id}.${result.keyId}.enc`,
+      `${SNAPSHOTS_DIR}/index.json`,
+    ]);
+    expect(files.has(`/data/openclaw/keys/${oldKey.id}.key`)).toBe(false);
+
+    const newKey = await keyring.get(result.keyId);
+    expect(files.get(`${OBJECTS_DIR}/${hashOf(1)}.${newKey.id}`)).toBe(
+      encrypted(newKey.secret, "content of /root/.openclaw/openclaw.json"),
+    );
+    const manifest = await readSnapshotManifest(store, keyring, index.snapshots[0]);
+    expect(manifest?.map((f) => f.path)).toEqual(["openclaw.json", "MEMORY.md"]);
+  });
+});
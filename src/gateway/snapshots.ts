@@ -0,0 +1,981 @@
+import type { Sandbox } from "@cloudflare/sandbox";
+import type { OpenClawEnv } from "../types";
+import {
+  type BackupKeyring,
+  copyCommand,
+  DATA_KEY_ENV,
+  dataKeyPath,
+  decryptText,
+  encryptText,
+} from "./backup-crypto";
+import {
+  BackupIntegrityError,
+  checkConfigFiles,
+  criticalConfigPaths,
+  DEFAULT_MAX_SHRINK,
+  describeProblems,
+  findShrink,
+  setAsideBrokenConfig,
+} from "./integrity";
+import type { SnapshotStore } from "./snapshot-store";
+import { DEFAULT_SYNC_SPEC, matchRule, readSyncSpec, type SyncSpec } from "./sync-spec";
+
+/**
+ * What a backup covers
+ * - config: the OpenClaw config directory (openclaw.json, auth profiles, devices, sessions)
+ * - workspace: /root/clawd without skills (IDENTITY.md, MEMORY.md, memory/, assets/)
+ * - skills: /root/clawd/skills
+ */
+export type BackupArea = "config" | "workspace" | "skills";
+
+export const BACKUP_AREAS: BackupArea[] = ["config", "workspace", "skills"];
+
+/** Where each area lives in the container; config can also be the legacy /root/.clawdbot */
+export const AREA_DIRS: Record<BackupArea, string> = {
+  config: "/root/.openclaw",
+  workspace: "/root/clawd",
+  skills: "/root/clawd/skills",
+};
+
+/**
+ * `find` expressions selecting the files of each area, relative to its
+ * directory. The sync spec (sync-spec.ts) narrows them down.
+ */
+const AREA_FILTERS: Record<BackupArea, string> = {
+  config: "-type f ! -name .last-sync",
+  workspace: "-path ./skills -prune -o -type f",
+  skills: "-type f",
+};
+
+function areaDir(area: BackupArea, configDir: string): string {
+  return area === "config" ? configDir : AREA_DIRS[area];
+}
+
+const INDEX_KEY = "snapshots/index.json";
+const PINNED_KEY = "snapshots/pinned.json";
+/** Time of the latest backup, which start-openclaw.sh compares with the container's copy */
+export const LAST_SYNC_KEY = ".last-sync";
+/** Survives until the container restarts, after which every file is hashed once */
+const LOCAL_MANIFEST_PATH = "/tmp/openclaw-backup-manifest.tsv";
+const HASH_LIST_PATH = "/tmp/openclaw-snapshot-hash.txt";
+const RESTORE_LIST_PATH = "/tmp/openclaw-snapshot-restore.tsv";
+const REMOVE_LIST_PATH = "/tmp/openclaw-snapshot-remove.txt";
+
+/** Timeout for hashing the container's files and restoring them */
+const SNAPSHOT_TIMEOUT_MS = 120_000;
+/** Timeout for small commands in the container */
+const METADATA_TIMEOUT_MS = 15_000;
+
+const HOUR_MS = 3_600_000;
+const DAY_MS = 24 * HOUR_MS;
+
+/** Unreferenced objects are deleted at most this often, since it reads every manifest */
+const GC_INTERVAL_MS = DAY_MS;
+
+/**
+ * One file in a snapshot. Its content is stored once, as objects/<hash>, or
+ * objects/<hash>.<key ID> if encrypted.
+ */
+export interface SnapshotFile {
+  area: BackupArea;
+  /** Path relative to the area's directory */
+  path: string;
+  /** SHA-256 of the content */
+  hash: string;
+  size: number;
+}
+
+/** A file as the container lists it, before hashing */
+interface ListedFile {
+  area: BackupArea;
+  path: string;
+  size: number;
+  /** Modification time in seconds, as find prints it */
+  mtime: string;
+}
+
+type ScannedFile = SnapshotFile & Pick<ListedFile, "mtime">;
+
+interface LocalManifest {
+  /** Snapshot the files were backed up in */
+  snapshotId: string | null;
+  files: ScannedFile[];
+}
+
+export interface SnapshotSummary {
+  /** Sortable UTC timestamp, e.g. 20260301T120500Z */
+  id: string;
+  createdAt: string;
+  fileCount: number;
+  totalBytes: number;
+  /** Data key the snapshot's manifest and objects are encrypted with; unset if they aren't */
+  keyId?: string;
+  /** Why the snapshot failed to restore. Quarantined snapshots are skipped on boot. */
+  quarantined?: string;
+}
+
+/**
+ * snapshots/index.json: every snapshot, oldest first
+ */
+export interface SnapshotIndex {
+  snapshots: SnapshotSummary[];
+  lastGcAt: number | null;
+}
+
+/**
+ * How many snapshots to keep: the newest `latest`, plus the newest one of
+ * each of the last `hourly` hours and of the last `daily` days (UTC).
+ * Pinned snapshots are always kept.
+ */
+export interface RetentionPolicy {
+  latest: number;
+  hourly: number;
+  daily: number;
+}
+
+export const DEFAULT_RETENTION_POLICY: RetentionPolicy = {
+  latest: 12,
+  hourly: 24,
+  daily: 30,
+};
+
+/** Encrypted manifests are base64, with the key ID in the name for start-openclaw.sh */
+function manifestKey(snapshot: Pick<SnapshotSummary, "id" | "keyId">): string {
+  return snapshot.keyId
+    ? `snapshots/${snapshot.id}.${snapshot.keyId}.enc`
+    : `snapshots/${snapshot.id}.tsv`;
+}
+
+export function objectName(hash: string, keyId?: string): string {
+  return keyId ? `${hash}.${keyId}` : hash;
+}
+
+function requireKeyring(keyring: BackupKeyring | null, id: string): BackupKeyring {
+  if (!keyring) throw new Error(`Snapshot ${id} is encrypted; BACKUP_ENCRYPTION_KEY is not set`);
+  return keyring;
+}
+
+export function formatSnapshotId(now: number): string {
+  return new Date(now)
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d+Z$/, "Z");
+}
+
+/**
+ * ID for a snapshot created at `now`. IDs only go down to the second, so a
+ * snapshot taken in the same second as the newest one (or before it, if the
+ * clock went back) gets the second after that one's instead of replacing it.
+ */
+export function nextSnapshotId(snapshots: SnapshotSummary[], now: number): string {
+  const id = formatSnapshotId(now);
+  const newest = snapshots.reduce((max, s) => (s.id > max ? s.id : max), "");
+  const parts = newest.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/);
+  if (id > newest || !parts) return id;
+  const [, year, month, day, hours, minutes, seconds] = parts;
+  return formatSnapshotId(
+    Date.parse(`${year}-${month}-${day}T${hours}:${minutes}:${seconds}Z`) + 1000,
+  );
+}
+
+/**
+ * Build the retention policy from BACKUP_RETENTION, a comma-separated list of
+ * `latest=<n>`, `hourly=<n>` and `daily=<n>`. Invalid entries are logged and
+ * ignored.
+ */
+export function parseRetentionPolicy(env: Pick<OpenClawEnv, "BACKUP_RETENTION">): RetentionPolicy {
+  const policy = { ...DEFAULT_RETENTION_POLICY };
+  const value = env.BACKUP_RETENTION?.trim();
+  if (!value) return policy;
+
+  for (const entry of value.split(",")) {
+    const trimmed = entry.trim();
+    if (!trimmed) continue;
+
+    const [key, raw = ""] = trimmed.split("=").map((part) => part.trim().toLowerCase());
+    if ((key === "latest" || key === "hourly" || key === "daily") && /^\d+$/.test(raw)) {
+      policy[key] = Number.parseInt(raw, 10);
+    } else {
+      console.error(`[BACKUP] Ignoring invalid BACKUP_RETENTION entry: ${trimmed}`);
+    }
+  }
+  return policy;
+}
+
+/**
+ * IDs of the snapshots the policy keeps. The newest snapshot is always kept.
+ */
+export function selectSnapshotsToKeep(
+  snapshots: SnapshotSummary[],
+  policy: RetentionPolicy,
+  pinned: string[],
+  now = Date.now(),
+): Set<string> {
+  const newestFirst = [...snapshots].sort((a, b) => b.id.localeCompare(a.id));
+  const keep = new Set(pinned);
+  for (const snapshot of newestFirst.slice(0, Math.max(policy.latest, 1))) {
+    keep.add(snapshot.id);
+  }
+
+  const keepNewestPerPeriod = (periodMs: number, periods: number) => {
+    const oldestPeriod = Math.floor(now / periodMs) - periods;
+    const seen = new Set<number>();
+    for (const snapshot of newestFirst) {
+      const period = Math.floor(Date.parse(snapshot.createdAt) / periodMs);
+      if (period <= oldestPeriod) break;
+      if (seen.has(period)) continue;
+      seen.add(period);
+      keep.add(snapshot.id);
+    }
+  };
+  keepNewestPerPeriod(HOUR_MS, policy.hourly);
+  keepNewestPerPeriod(DAY_MS, policy.daily);
+  return keep;
+}
+
+/**
+ * Manifests are TSV, one `<area>\t<hash>\t<size>\t<path>` line per file, so
+ * start-openclaw.sh can restore them with a `read` loop
+ */
+export function serializeManifest(files: SnapshotFile[]): string {
+  return files.map((f) => `${f.area}\t${f.hash}\t${f.size}\t${f.path}\n`).join("");
+}
+
+export function parseManifest(text: string): SnapshotFile[] {
+  const files: SnapshotFile[] = [];
+  for (const line of text.split("\n")) {
+    const [area, hash, size, ...path] = line.split("\t");
+    if (!BACKUP_AREAS.includes(area as BackupArea) || !/^[0-9a-f]{64}$/.test(hash ?? "")) continue;
+    files.push({
+      area: area as BackupArea,
+      hash,
+      size: Number.parseInt(size, 10) || 0,
+      path: path.join("\t"),
+    });
+  }
+  return files;
+}
+
+/**
+ * Lists every area's files with their size and modification time
+ * (`S\t<size>\t<mtime>\t<path>` lines), after an `=== <area>` header. A
+ * missing directory lists no files.
+ */
+export function buildListCommand(configDir: string): string {
+  return BACKUP_AREAS.map((area) => {
+    const dir = areaDir(area, configDir);
+    return (
+      `echo '=== ${area}'; ` +
+      `(cd ${dir} && find . ${AREA_FILTERS[area]} -printf 'S\\t%s\\t%T@\\t%P\\n') 2>/dev/null`
+    );
+  })
+    .concat("true")
+    .join("; ");
+}
+
+/**
+ * Parse the output of buildListCommand
+ */
+export function parseFileListing(output: string): ListedFile[] {
+  const files: ListedFile[] = [];
+  let area: BackupArea | null = null;
+  for (const line of output.split("\n")) {
+    const header = line.match(/^=== (\w+)$/);
+    if (header) {
+      area = BACKUP_AREAS.includes(header[1] as BackupArea) ? (header[1] as BackupArea) : null;
+      continue;
+    }
+    const file = line.match(/^S\t(\d+)\t([\d.]+)\t(.+)$/);
+    if (area && file) {
+      files.push({ area, path: file[3], size: Number.parseInt(file[1], 10), mtime: file[2] });
+    }
+  }
+  return files;
+}
+
+/**
+ * Parse sha256sum output into a map of paths to hashes. Names sha256sum had
+ * to escape (backslashes, newlines) are left out.
+ */
+export function parseHashOutput(output: string): Map<string, string> {
+  const hashes = new Map<string, string>();
+  for (const line of output.split("\n")) {
+    const hashed = line.match(/^([0-9a-f]{64}) [ *](.+)$/);
+    if (hashed) hashes.set(hashed[2], hashed[1]);
+  }
+  return hashes;
+}
+
+/**
+ * The local manifest: the container's files as of its last backup, with
+ * modification times, as `<area>\t<hash>\t<size>\t<mtime>\t<path>` lines
+ * after a `# <snapshot id>` line
+ */
+export function serializeLocalManifest(snapshotId: string, files: ScannedFile[]): string {
+  return `# ${snapshotId}\n${files.map((f) => `${f.area}\t${f.hash}\t${f.size}\t${f.mtime}\t${f.path}\n`).join("")}`;
+}
+
+export function parseLocalManifest(text: string): LocalManifest {
+  const manifest: LocalManifest = { snapshotId: null, files: [] };
+  for (const line of text.split("\n")) {
+    if (line.startsWith("# ")) {
+      manifest.snapshotId = line.slice(2).trim() || null;
+      continue;
+    }
+    const [area, hash, size, mtime, ...path] = line.split("\t");
+    if (!BACKUP_AREAS.includes(area as BackupArea) || !/^[0-9a-f]{64}$/.test(hash ?? "")) continue;
+    manifest.files.push({
+      area: area as BackupArea,
+      hash,
+      size: Number.parseInt(size, 10) || 0,
+      mtime: mtime ?? "",
+      path: path.join("\t"),
+    });
+  }
+  return manifest;
+}
+
+async function readLocalManifest(sandbox: Sandbox): Promise<LocalManifest> {
+  const result = await sandbox.exec(`cat ${LOCAL_MANIFEST_PATH} 2>/dev/null`, {
+    timeout: METADATA_TIMEOUT_MS,
+  });
+  return result.exitCode === 0
+    ? parseLocalManifest(result.stdout)
+    : { snapshotId: null, files: [] };
+}
+
+const fileKey = (f: { area: BackupArea; path: string }) => `${f.area}\t${f.path}`;
+
+/**
+ * Hash the container's files that `select` picks. Files whose size and
+ * modification time match the local manifest keep its hash, so only changed
+ * files are read.
+ */
+async function scanFiles(
+  sandbox: Sandbox,
+  configDir: string,
+  local: LocalManifest,
+  select: (file: ListedFile) => boolean,
+): Promise<ScannedFile[]> {
+  const listing = await run(sandbox, buildListCommand(configDir), SNAPSHOT_TIMEOUT_MS);
+  const known = new Map(local.files.map((f) => [fileKey(f), f]));
+
+  const files: ScannedFile[] = [];
+  const unhashed = new Map<string, ListedFile>();
+  for (const file of parseFileListing(listing.stdout).filter(select)) {
+    const cached = known.get(fileKey(file));
+    if (cached && cached.size === file.size && cached.mtime === file.mtime) {
+      files.push(cached);
+    } else {
+      unhashed.set(`${areaDir(file.area, configDir)}/${file.path}`, file);
+    }
+  }
+  if (unhashed.size === 0) return files;
+
+  await sandbox.writeFile(HASH_LIST_PATH, [...unhashed.keys()].map((path) => `${path}\0`).join(""));
+  // Files deleted since the listing make sha256sum fail; they're left out
+  const hashed = await sandbox.exec(`xargs -0 -r sha256sum < ${HASH_LIST_PATH} 2>/dev/null`, {
+    timeout: SNAPSHOT_TIMEOUT_MS,
+  });
+  for (const [path, hash] of parseHashOutput(hashed.stdout)) {
+    const file = unhashed.get(path);
+    if (file) files.push({ ...file, hash });
+  }
+  return files;
+}
+
+async function run(
+  sandbox: Sandbox,
+  command: string,
+  timeout = METADATA_TIMEOUT_MS,
+  env?: Record<string, string>,
+) {
+  const result = await sandbox.exec(command, env ? { timeout, env } : { timeout });
+  if (result.exitCode !== 0) {
+    throw new Error(result.stderr.trim() || `exit code ${result.exitCode}`);
+  }
+  return result;
+}
+
+export async function readSnapshotIndex(store: SnapshotStore): Promise<SnapshotIndex> {
+  const text = await store.readText(INDEX_KEY);
+  if (!text) return { snapshots: [], lastGcAt: null };
+  try {
+    const index = JSON.parse(text) as SnapshotIndex;
+    return { snapshots: index.snapshots ?? [], lastGcAt: index.lastGcAt ?? null };
+  } catch (err) {
+    console.error("[BACKUP] Invalid snapshot index, starting a new one:", err);
+    return { snapshots: [], lastGcAt: null };
+  }
+}
+
+async function writeSnapshotIndex(store: SnapshotStore, index: SnapshotIndex): Promise<void> {
+  await store.writeText(INDEX_KEY, JSON.stringify(index, null, 2));
+}
+
+export async function readSnapshotManifest(
+  store: SnapshotStore,
+  keyring: BackupKeyring | null,
+  snapshot: Pick<SnapshotSummary, "id" | "keyId">,
+): Promise<SnapshotFile[] | null> {
+  const text = await store.readText(manifestKey(snapshot));
+  if (text === null) return null;
+  if (!snapshot.keyId) return parseManifest(text);
+
+  const key = await requireKeyring(keyring, snapshot.id).get(snapshot.keyId);
+  return parseManifest(await decryptText(text, key.secret));
+}
+
+async function writeSnapshotManifest(
+  store: SnapshotStore,
+  keyring: BackupKeyring | null,
+  snapshot: Pick<SnapshotSummary, "id" | "keyId">,
+  files: SnapshotFile[],
+): Promise<void> {
+  let text = serializeManifest(files);
+  if (snapshot.keyId) {
+    const key = await requireKeyring(keyring, snapshot.id).get(snapshot.keyId);
+    text = await encryptText(text, key.secret);
+  }
+  await store.writeText(manifestKey(snapshot), text);
+}
+
+export async function readPinnedSnapshots(store: SnapshotStore): Promise<string[]> {
+  const text = await store.readText(PINNED_KEY);
+  try {
+    const pinned: unknown = text ? JSON.parse(text) : [];
+    return Array.isArray(pinned) ? pinned.filter((id) => typeof id === "string") : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Pin or unpin a snapshot. Returns false if there is no such snapshot.
+ */
+export async function setSnapshotPinned(
+  store: SnapshotStore,
+  id: string,
+  pinned: boolean,
+): Promise<boolean> {
+  const { snapshots } = await readSnapshotIndex(store);
+  if (!snapshots.some((s) => s.id === id)) return false;
+
+  const current = new Set(await readPinnedSnapshots(store));
+  if (pinned) current.add(id);
+  else current.delete(id);
+  await store.writeText(PINNED_KEY, JSON.stringify([...current].sort()));
+  return true;
+}
+
+/**
+ * Quarantine a snapshot, or release it with a null reason. Returns false if
+ * there is no such snapshot.
+ */
+export async function setSnapshotQuarantine(
+  store: SnapshotStore,
+  id: string,
+  reason: string | null,
+): Promise<boolean> {
+  const index = await readSnapshotIndex(store);
+  const snapshot = index.snapshots.find((s) => s.id === id);
+  if (!snapshot) return false;
+
+  if (reason) snapshot.quarantined = reason;
+  else delete snapshot.quarantined;
+  await writeSnapshotIndex(store, index);
+  return true;
+}
+
+/**
+ * What a backup changed since the previous snapshot
+ */
+export interface SnapshotChanges {
+  added: number;
+  changed: number;
+  deleted: number;
+  /** Bytes of content R2 didn't have yet */
+  bytesTransferred: number;
+}
+
+export interface SnapshotOptions {
+  /**
+   * Percent of workspace files or bytes the snapshot may lose compared to the
+   * previous one (BACKUP_MAX_SHRINK), or null to allow any shrink
+   */
+  maxShrink?: number | null;
+  /** Which files to back up */
+  spec?: SyncSpec;
+  /**
+   * Names of the spec's rules to back up; the files of the others are kept as
+   * in the previous snapshot. Defaults to all of them.
+   */
+  rules?: string[];
+}
+
+export interface SnapshotResult {
+  /** The new snapshot, or the previous one if nothing changed */
+  snapshot: SnapshotSummary;
+  created: boolean;
+  changes: SnapshotChanges;
+}
+
+/**
+ * Snapshot the container's state: hash the files that changed since the last
+ * backup, store contents R2 doesn't have yet as objects, and write the
+ * manifest and index entry. If nothing changed, no snapshot is created.
+ * With a keyring, the snapshot is encrypted with its current data key.
+ * Only the files of the given sync rules are looked at; with no previous
+ * snapshot to take the others from, all rules are.
+ *
+ * Throws a BackupIntegrityError instead if a changed critical config file
+ * doesn't parse, or the workspace shrank by more than `maxShrink`: better an
+ * old backup than one that can't boot.
+ */
+export async function createSnapshot(
+  sandbox: Sandbox,
+  store: SnapshotStore,
+  keyring: BackupKeyring | null,
+  configDir: string,
+  now = Date.now(),
+  { maxShrink = DEFAULT_MAX_SHRINK, spec = DEFAULT_SYNC_SPEC, rules }: SnapshotOptions = {},
+): Promise<SnapshotResult> {
+  const local = await readLocalManifest(sandbox);
+  const index = await readSnapshotIndex(store);
+  const previous = index.snapshots.filter((s) => !s.quarantined).at(-1);
+  // The local manifest saves reading the previous one from R2
+  const previousFiles = !previous
+    ? []
+    : local.snapshotId === previous.id
+      ? local.files
+      : ((await readSnapshotManifest(store, keyring, previous)) ?? []);
+
+  const due = new Set(previous && rules ? rules : spec.rules.map((rule) => rule.name));
+  const isDue = (file: { area: BackupArea; path: string }) => {
+    const rule = matchRule(spec, file.area, file.path);
+    return rule ? due.has(rule.name) : null;
+  };
+  const scanned = await scanFiles(sandbox, configDir, local, (file) => isDue(file) === true);
+  // Files of rules that aren't due stay as they were
+  const kept = previousFiles
+    .filter((file) => isDue(file) === false)
+    .map((file) => ({ mtime: "", ...file }));
+  const files = [...scanned, ...kept].sort(
+    (a, b) => BACKUP_AREAS.indexOf(a.area) - BACKUP_AREAS.indexOf(b.area),
+  );
+  if (files.length === 0) throw new Error("No files to back up");
+
+  const key = keyring ? await keyring.current() : null;
+  const diff = compareSnapshotFiles(previous?.id ?? "", files, previousFiles, BACKUP_AREAS);
+  const unchanged = diff.added.length + diff.changed.length + diff.removed.length === 0;
+  // A new data key, or turning encryption on or off, needs a new snapshot
+  if (previous && unchanged && previous.keyId === key?.id) {
+    await sandbox.writeFile(LOCAL_MANIFEST_PATH, serializeLocalManifest(previous.id, files));
+    return {
+      snapshot: previous,
+      created: false,
+      changes: { added: 0, changed: 0, deleted: 0, bytesTransferred: 0 },
+    };
+  }
+
+  // Unchanged files were checked when they were backed up
+  const problems = await checkConfigFiles(
+    sandbox,
+    configDir,
+    criticalConfigPaths([...diff.added, ...diff.changed]),
+  );
+  if (problems.length > 0) {
+    throw new BackupIntegrityError(
+      `Refusing to back up: ${describeProblems(problems)}`,
+      "invalid-config",
+    );
+  }
+  const shrink = previous && maxShrink !== null && findShrink(previousFiles, files, maxShrink);
+  if (shrink) {
+    throw new BackupIntegrityError(`Refusing to back up: ${shrink}`, "shrink");
+  }
+
+  // Objects the previous snapshot references are already there
+  const stored = new Set(previousFiles.map((f) => objectName(f.hash, previous?.keyId)));
+  const uploads = new Map<string, string>();
+  let bytesTransferred = 0;
+  for (const file of files) {
+    const name = objectName(file.hash, key?.id);
+    if (stored.has(name) || uploads.has(name)) continue;
+    uploads.set(name, `${areaDir(file.area, configDir)}/${file.path}`);
+    bytesTransferred += file.size;
+  }
+  await store.uploadObjects(uploads, key);
+
+  const summary: SnapshotSummary = {
+    id: nextSnapshotId(index.snapshots, now),
+    createdAt: new Date(now).toISOString(),
+    fileCount: files.length,
+    totalBytes: files.reduce((sum, f) => sum + f.size, 0),
+    ...(key && { keyId: key.id }),
+  };
+  // Manifest before index, so the index never lists a snapshot that isn't there
+  await writeSnapshotManifest(store, keyring, summary, files);
+  index.snapshots = [...index.snapshots.filter((s) => s.id !== summary.id), summary];
+  await writeSnapshotIndex(store, index);
+  await sandbox.writeFile(LOCAL_MANIFEST_PATH, serializeLocalManifest(summary.id, files));
+
+  return {
+    snapshot: summary,
+    created: true,
+    changes: {
+      added: diff.added.length,
+      changed: diff.changed.length,
+      deleted: diff.removed.length,
+      bytesTransferred,
+    },
+  };
+}
+
+/**
+ * Delete the snapshots the retention policy doesn't keep, and once a day the
+ * objects no remaining snapshot references. Returns the IDs of deleted snapshots.
+ */
+export async function pruneSnapshots(
+  store: SnapshotStore,
+  keyring: BackupKeyring | null,
+  env: OpenClawEnv,
+  now = Date.now(),
+): Promise<string[]> {
+  const index = await readSnapshotIndex(store);
+  const pinned = await readPinnedSnapshots(store);
+  const keep = selectSnapshotsToKeep(index.snapshots, parseRetentionPolicy(env), pinned, now);
+  const pruned = index.snapshots.filter((s) => !keep.has(s.id));
+
+  if (pruned.length > 0) {
+    index.snapshots = index.snapshots.filter((s) => keep.has(s.id));
+    // Index first, so it never lists a snapshot whose manifest is gone
+    await writeSnapshotIndex(store, index);
+    await store.deleteKeys(pruned.map(manifestKey));
+  }
+
+  if (index.lastGcAt === null || now - index.lastGcAt >= GC_INTERVAL_MS) {
+    await collectGarbage(store, keyring, index);
+    index.lastGcAt = now;
+    await writeSnapshotIndex(store, index);
+  }
+  return pruned.map((s) => s.id);
+}
+
+async function collectGarbage(
+  store: SnapshotStore,
+  keyring: BackupKeyring | null,
+  index: SnapshotIndex,
+): Promise<void> {
+  const referenced = new Set<string>();
+  for (const snapshot of index.snapshots) {
+    const files = await readSnapshotManifest(store, keyring, snapshot);
+    // Without the manifest there's no telling what is still needed
+    if (!files) throw new Error(`Manifest of snapshot ${snapshot.id} is missing`);
+    for (const file of files) referenced.add(objectName(file.hash, snapshot.keyId));
+  }
+
+  const unreferenced = (await store.listObjects()).filter((name) => !referenced.has(name));
+  if (unreferenced.length === 0) return;
+
+  console.log(`[BACKUP] Deleting ${unreferenced.length} unreferenced objects`);
+  await store.deleteObjects(unreferenced);
+}
+
+export interface KeyRotationResult {
+  keyId: string;
+  /** Snapshots re-encrypted with the new data key */
+  snapshots: number;
+}
+
+/**
+ * Switch to a new data key and re-encrypt every snapshot with it, including
+ * ones stored before encryption was turned on. Afterwards the old data keys
+ * are deleted, and BACKUP_ENCRYPTION_KEY_PREVIOUS is no longer needed.
+ */
+export async function rotateSnapshotKeys(
+  store: SnapshotStore,
+  keyring: BackupKeyring,
+  now = Date.now(),
+): Promise<KeyRotationResult> {
+  const key = await keyring.rotate();
+  const index = await readSnapshotIndex(store);
+  const oldKeys = new Set<string>();
+  let snapshots = 0;
+
+  for (const [i, snapshot] of index.snapshots.entries()) {
+    if (snapshot.keyId === key.id) continue;
+    const files = await readSnapshotManifest(store, keyring, snapshot);
+    if (!files) throw new Error(`Manifest of snapshot ${snapshot.id} is missing`);
+
+    const from = snapshot.keyId ? await keyring.get(snapshot.keyId) : null;
+    const moves = new Map(
+      files.map((f) => [
+        f.hash,
+        { from: objectName(f.hash, from?.id), to: objectName(f.hash, key.id) },
+      ]),
+    );
+    await store.reencryptObjects([...moves.values()], from, key);
+
+    // New manifest, then index, then the old manifest, so the index never
+    // lists a snapshot whose manifest is gone
+    const rotated = { ...snapshot, keyId: key.id };
+    await writeSnapshotManifest(store, keyring, rotated, files);
+    index.snapshots[i] = rotated;
+    await writeSnapshotIndex(store, index);
+    await store.deleteKeys([manifestKey(snapshot)]);
+
+    if (from) oldKeys.add(from.id);
+    snapshots++;
+  }
+
+  // The old objects are garbage now
+  await collectGarbage(store, keyring, index);
+  index.lastGcAt = now;
+  await writeSnapshotIndex(store, index);
+  await store.deleteKeys([...oldKeys].map(dataKeyPath));
+
+  console.log(`[BACKUP] Re-encrypted ${snapshots} snapshots with data key ${key.id}`);
+  return { keyId: key.id, snapshots };
+}
+
+/**
+ * What restoring a snapshot would change in the container, for the restored areas
+ */
+export interface SnapshotDiff {
+  id: string;
+  /** Data key of an encrypted snapshot */
+  keyId?: string;
+  areas: BackupArea[];
+  /** In the snapshot but not in the container: created */
+  added: SnapshotFile[];
+  /** Different in the container: overwritten with the snapshot's version */
+  changed: SnapshotFile[];
+  /** In the container but not in the snapshot: deleted */
+  removed: SnapshotFile[];
+  unchanged: number;
+}
+
+/**
+ * Compare a snapshot's files with the container's. Files of other areas are ignored.
+ */
+export function compareSnapshotFiles(
+  id: string,
+  snapshot: SnapshotFile[],
+  live: SnapshotFile[],
+  areas: BackupArea[],
+): SnapshotDiff {
+  const key = (f: SnapshotFile) => `${f.area}\t${f.path}`;
+  const liveByKey = new Map(live.filter((f) => areas.includes(f.area)).map((f) => [key(f), f]));
+  const diff: SnapshotDiff = { id, areas, added: [], changed: [], removed: [], unchanged: 0 };
+
+  for (const file of snapshot) {
+    if (!areas.includes(file.area)) continue;
+    const current = liveByKey.get(key(file));
+    liveByKey.delete(key(file));
+    if (!current) diff.added.push(file);
+    else if (current.hash !== file.hash) diff.changed.push(file);
+    else diff.unchanged++;
+  }
+  diff.removed = [...liveByKey.values()];
+  return diff;
+}
+
+/**
+ * Diff a snapshot against the container's current state, for the files the
+ * sync spec backs up: others are neither restored nor deleted. Returns null
+ * if there is no such snapshot.
+ */
+export async function diffSnapshot(
+  sandbox: Sandbox,
+  store: SnapshotStore,
+  keyring: BackupKeyring | null,
+  configDir: string,
+  id: string,
+  areas: BackupArea[] = BACKUP_AREAS,
+): Promise<SnapshotDiff | null> {
+  const snapshot = (await readSnapshotIndex(store)).snapshots.find((s) => s.id === id);
+  const files = await readSnapshotManifest(store, keyring, snapshot ?? { id });
+  if (!files) return null;
+  const spec = await readSyncSpec(store);
+  const synced = (file: { area: BackupArea; path: string }) =>
+    matchRule(spec, file.area, file.path) !== null;
+  const live = await scanFiles(sandbox, configDir, await readLocalManifest(sandbox), synced);
+  const diff = compareSnapshotFiles(
+    id,
+    files.filter(synced),
+    live.map(({ mtime: _, ...file }) => file),
+    areas,
+  );
+  return snapshot?.keyId ? { ...diff, keyId: snapshot.keyId } : diff;
+}
+
+/**
+ * Make the container's files match the snapshot: copy added and changed files
+ * from the object store and delete removed ones. The local sync timestamp is
+ * set to R2's, so the next boot doesn't restore the newest snapshot over it.
+ *
+ * Each file's checksum is verified before it replaces the container's copy;
+ * on a mismatch, the restore stops with a BackupIntegrityError.
+ */
+export async function applySnapshotDiff(
+  sandbox: Sandbox,
+  store: SnapshotStore,
+  keyring: BackupKeyring | null,
+  configDir: string,
+  diff: SnapshotDiff,
+): Promise<void> {
+  const pathOf = (file: SnapshotFile) => `${areaDir(file.area, configDir)}/${file.path}`;
+
+  const copies = [...diff.added, ...diff.changed].map((file) => ({
+    name: objectName(file.hash, diff.keyId),
+    hash: file.hash,
+    size: file.size,
+    dest: pathOf(file),
+  }));
+  if (copies.length > 0) {
+    const key = diff.keyId ? await requireKeyring(keyring, diff.id).get(diff.keyId) : null;
+    try {
+      const objectsDir = await store.stageObjects(copies);
+      await sandbox.writeFile(
+        RESTORE_LIST_PATH,
+        copies.map((copy) => `${copy.name}\t${copy.hash}\t${copy.dest}\n`).join(""),
+      );
+      const copy = copyCommand(
+        `${objectsDir}/$name`,
+        '"$dest.restoring"',
+        key ? "decrypt" : undefined,
+      );
+      // Exits with 2 and the file's path on a checksum mismatch
+      const result = await sandbox.exec(
+        `while IFS=$'\\t' read -r name hash dest; do ` +
+          `mkdir -p "$(dirname "$dest")" && ${copy} || exit 1; ` +
+          `if [ "$(sha256sum < "$dest.restoring" | cut -c1-64)" != "$hash" ]; then ` +
+          `rm -f "$dest.restoring"; echo "$dest" >&2; exit 2; fi; ` +
+          `mv -f "$dest.restoring" "$dest" || exit 1; ` +
+          `done < ${RESTORE_LIST_PATH}`,
+        key
+          ? { timeout: SNAPSHOT_TIMEOUT_MS, env: { [DATA_KEY_ENV]: key.secret } }
+          : { timeout: SNAPSHOT_TIMEOUT_MS },
+      );
+      if (result.exitCode === 2) {
+        throw new BackupIntegrityError(
+          `Checksum mismatch in snapshot ${diff.id}: ${result.stderr.trim()}`,
+          "checksum",
+        );
+      }
+      if (result.exitCode !== 0) {
+        throw new Error(result.stderr.trim() || `exit code ${result.exitCode}`);
+      }
+    } finally {
+      await store.releaseObjects();
+    }
+  }
+  if (diff.removed.length > 0) {
+    await sandbox.writeFile(
+      REMOVE_LIST_PATH,
+      diff.removed.map((file) => `${pathOf(file)}\n`).join(""),
+    );
+    await run(
+      sandbox,
+      `while IFS= read -r path; do rm -f -- "$path"; done < ${REMOVE_LIST_PATH}`,
+      SNAPSHOT_TIMEOUT_MS,
+    );
+  }
+
+  const lastSync = await store.readText(LAST_SYNC_KEY);
+  if (lastSync) await sandbox.writeFile(`${configDir}/.last-sync`, lastSync);
+}
+
+/**
+ * The config directory the gateway uses: /root/.openclaw, or the legacy
+ * /root/.clawdbot if only that one has a config
+ */
+export async function findConfigDir(sandbox: Sandbox): Promise<string> {
+  const result = await sandbox.exec(
+    "test -f /root/.openclaw/openclaw.json || test ! -f /root/.clawdbot/clawdbot.json || echo clawdbot",
+    { timeout: METADATA_TIMEOUT_MS },
+  );
+  return result.stdout.trim() === "clawdbot" ? "/root/.clawdbot" : AREA_DIRS.config;
+}
+
+/**
+ * Restore a snapshot and check that the gateway's critical config files parse
+ * afterwards. Throws a BackupIntegrityError if the snapshot is damaged.
+ */
+export async function restoreCheckedSnapshot(
+  sandbox: Sandbox,
+  store: SnapshotStore,
+  keyring: BackupKeyring | null,
+  configDir: string,
+  diff: SnapshotDiff,
+): Promise<void> {
+  await applySnapshotDiff(sandbox, store, keyring, configDir, diff);
+  if (!diff.areas.includes("config")) return;
+
+  const files = (await readSnapshotManifest(store, keyring, diff)) ?? [];
+  const problems = await checkConfigFiles(sandbox, configDir, criticalConfigPaths(files));
+  if (problems.length > 0) {
+    throw new BackupIntegrityError(
+      describeProblems(problems),
+      "invalid-config",
+      problems.map((p) => p.path),
+    );
+  }
+}
+
+/** How many snapshots a boot tries before giving up on R2 */
+const RESTORE_ATTEMPTS = 3;
+
+/**
+ * What start-openclaw.sh does on boot with a mounted bucket, for backups
+ * through the binding: restore the newest snapshot unless the container's
+ * data is at least as new. A damaged snapshot is quarantined, and the one
+ * before it restored instead. Returns a message for the startup timeline.
+ */
+export async function restoreLatestSnapshot(
+  sandbox: Sandbox,
+  store: SnapshotStore,
+  keyring: BackupKeyring | null,
+): Promise<string> {
+  const candidates = (await readSnapshotIndex(store)).snapshots
+    .filter((s) => !s.quarantined)
+    .reverse();
+  const latest = candidates[0];
+  if (!latest) return "no backup yet";
+
+  const configDir = await findConfigDir(sandbox);
+  const local = await sandbox.exec(`cat ${configDir}/.last-sync 2>/dev/null`, {
+    timeout: METADATA_TIMEOUT_MS,
+  });
+  const remote = await store.readText(LAST_SYNC_KEY);
+  const localTime = Date.parse(local.stdout.trim());
+  if (!Number.isNaN(localTime) && localTime >= Date.parse(remote ?? latest.createdAt)) {
+    return "local data is up to date";
+  }
+
+  const quarantined: string[] = [];
+  const broken = new Set<string>();
+  for (const snapshot of candidates.slice(0, RESTORE_ATTEMPTS)) {
+    const diff = await diffSnapshot(sandbox, store, keyring, configDir, snapshot.id);
+    if (!diff) continue;
+    try {
+      await restoreCheckedSnapshot(sandbox, store, keyring, configDir, diff);
+    } catch (err) {
+      if (!(err instanceof BackupIntegrityError)) throw err;
+      console.error(`[BACKUP] Quarantining snapshot ${snapshot.id}:`, err.message);
+      await setSnapshotQuarantine(store, snapshot.id, err.message);
+      quarantined.push(snapshot.id);
+      for (const path of err.paths) broken.add(path);
+      continue;
+    }
+    const skipped = quarantined.length > 0 ? ` (quarantined ${quarantined.join(", ")})` : "";
+    return `restored snapshot ${snapshot.id}${skipped}`;
+  }
+
+  // Don't leave a config behind that the gateway can't start with
+  await setAsideBrokenConfig(sandbox, configDir, [...broken]);
+  return quarantined.length > 0
+    ? `quarantined ${quarantined.join(", ")}, starting fresh`
+    : "no usable backup, starting fresh";
+}
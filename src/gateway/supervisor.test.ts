@@ -0,0 +1,239 @@
+import { describe, expect, it } from "vitest";
+import { GATEWAY_PORT, GATEWAY_STANDBY_PORT } from "../config";
+import { createMockStorage } from "../test-utils";
+import {
+  backoffMs,
+  CRASH_LOOP_THRESHOLD,
+  CRASH_LOOP_WINDOW_MS,
+  claimGatewayReload,
+  claimGatewayStart,
+  type GatewayState,
+  GatewaySupervisorStore,
+  initialGatewayState,
+  reduceGatewayState,
+} from "./supervisor";
+
+function started(leaseId = "lease-1", now = 0): GatewayState {
+  return claimGatewayStart(initialGatewayState(now), leaseId, now).state;
+}
+
+describe("backoffMs", () => {
+  it("retries the first failure immediately, then doubles up to a cap", () => {
+    expect(backoffMs(1)).toBe(0);
+    expect(backoffMs(2)).toBe(5_000);
+    expect(backoffMs(3)).toBe(10_000);
+    expect(backoffMs(20)).toBe(5 * 60_000);
+  });
+});
+
+describe("reduceGatewayState", () => {
+  it("moves a start through to ready", () => {
+    let state = started();
+    state = reduceGatewayState(
+      state,
+      { type: "process_started", leaseId: "lease-1", processId: "p1" },
+      1,
+    );
+    state = reduceGatewayState(
+      state,
+      { type: "ready", leaseId: "lease-1", processId: "p1", port: GATEWAY_PORT },
+      2,
+    );
+
+    expect(state).toMatchObject({
+      phase: "ready",
+      processId: "p1",
+      startLease: null,
+      readyAt: 2,
+    });
+  });
+
+  it("ignores events from a start that no longer holds the lease", () => {
+    const state = started("lease-2");
+
+    expect(
+      reduceGatewayState(
+        state,
+        { type: "ready", leaseId: "lease-1", processId: "p1", port: GATEWAY_PORT },
+        1,
+      ),
+    ).toBe(state);
+  });
+
+  it("records a failed start with a backoff", () => {
+    let state = started("a", 0);
+    state = reduceGatewayState(state, { type: "start_failed", leaseId: "a", error: "boom" }, 1);
+    state = claimGatewayStart(state, "b", 2).state;
+    state = reduceGatewayState(state, { type: "start_failed", leaseId: "b", error: "boom" }, 3);
+
+    expect(state).toMatchObject({
+      phase: "crashed",
+      consecutiveFailures: 2,
+      lastError: "boom",
+      nextAttemptAt: 3 + backoffMs(2),
+    });
+  });
+
+  it("marks a ready gateway degraded after enough failed liveness probes", () => {
+    let state = reduceGatewayState(
+      started(),
+      { type: "ready", leaseId: "lease-1", processId: "p1", port: GATEWAY_PORT },
+      1,
+    );
+    state = reduceGatewayState(state, { type: "unhealthy", error: "no response", threshold: 2 }, 2);
+    expect(state).toMatchObject({ phase: "ready", healthFailures: 1, lastError: "no response" });
+
+    state = reduceGatewayState(state, { type: "unhealthy", error: "no response", threshold: 2 }, 3);
+    expect(state.phase).toBe("degraded");
+
+    state = reduceGatewayState(state, { type: "healthy" }, 4);
+    expect(state).toMatchObject({ phase: "ready", healthFailures: 0, lastError: null });
+  });
+
+  it("keeps failure history on stop but clears it on reset", () => {
+    let state = reduceGatewayState(
+      started("a"),
+      { type: "start_failed", leaseId: "a", error: "boom" },
+      1,
+    );
+
+    state = reduceGatewayState(state, { type: "stopped" }, 2);
+    expect(state).toMatchObject({ phase: "stopped", consecutiveFailures: 1 });
+
+    state = reduceGatewayState(state, { type: "reset" }, 3);
+    expect(state).toMatchObject({ phase: "stopped", consecutiveFailures: 0, recentFailures: [] });
+  });
+});
+
+describe("claimGatewayStart", () => {
+  it("lets only one start run at a time", () => {
+    const state = started("a", 0);
+
+    expect(claimGatewayStart(state, "b", 1).claim).toMatchObject({
+      ok: false,
+      reason: "in_progress",
+    });
+  });
+
+  it("counts restarts after the first start", () => {
+    let state = started("a", 0);
+    state = reduceGatewayState(state, { type: "stopped" }, 1);
+
+    expect(claimGatewayStart(state, "b", 2).state.restarts).toBe(1);
+  });
+
+  it("refuses to start during the backoff", () => {
+    let state = initialGatewayState(0);
+    for (const [i, lease] of ["a", "b"].entries()) {
+      state = claimGatewayStart(state, lease, i).state;
+      state = reduceGatewayState(state, { type: "start_failed", leaseId: lease, error: "x" }, i);
+    }
+
+    expect(claimGatewayStart(state, "c", 2).claim).toMatchObject({ ok: false, reason: "backoff" });
+    expect(claimGatewayStart(state, "c", 1 + backoffMs(2)).claim.ok).toBe(true);
+  });
+
+  it("enters crash_loop after repeated failures and stays there until reset", () => {
+    let state = initialGatewayState(0);
+    let now = 0;
+    for (let i = 0; i < CRASH_LOOP_THRESHOLD; i++) {
+      now = state.nextAttemptAt ?? now;
+      state = claimGatewayStart(state, `lease-${i}`, now).state;
+      state = reduceGatewayState(
+        state,
+        { type: "start_failed", leaseId: `lease-${i}`, error: "x" },
+        now,
+      );
+    }
+
+    expect(state.phase).toBe("crash_loop");
+    expect(claimGatewayStart(state, "next", now + CRASH_LOOP_WINDOW_MS).claim).toMatchObject({
+      ok: false,
+      reason: "crash_loop",
+    });
+
+    state = reduceGatewayState(state, { type: "reset" }, now);
+    expect(claimGatewayStart(state, "next", now).claim.ok).toBe(true);
+  });
+
+  it("treats an expired lease as a failed start", () => {
+    const state = started("a", 0);
+    const { claim } = claimGatewayStart(state, "b", state.startLease?.expiresAt ?? 0);
+
+    expect(claim).toMatchObject({ ok: true, leaseId: "b" });
+    expect(claim.state.consecutiveFailures).toBe(1);
+  });
+});
+
+describe("claimGatewayReload", () => {
+  function serving(): GatewayState {
+    return reduceGatewayState(
+      started(),
+      { type: "ready", leaseId: "lease-1", processId: "p1", port: GATEWAY_PORT },
+      1,
+    );
+  }
+
+  it("only reloads a gateway that is serving", () => {
+    expect(claimGatewayReload(started(), "r1", GATEWAY_STANDBY_PORT, 1).claim).toMatchObject({
+      ok: false,
+      reason: "not_running",
+    });
+  });
+
+  it("lets only one reload run at a time until its lease expires", () => {
+    const { state } = claimGatewayReload(serving(), "r1", GATEWAY_STANDBY_PORT, 2);
+
+    expect(claimGatewayReload(state, "r2", GATEWAY_STANDBY_PORT, 3).claim).toMatchObject({
+      ok: false,
+      reason: "in_progress",
+    });
+    const expiresAt = state.reloadLease?.expiresAt ?? 0;
+    expect(claimGatewayReload(state, "r2", GATEWAY_STANDBY_PORT, expiresAt).claim.ok).toBe(true);
+  });
+
+  it("switches traffic to the replacement once it is ready", () => {
+    let state = claimGatewayReload(serving(), "r1", GATEWAY_STANDBY_PORT, 2).state;
+    state = reduceGatewayState(state, { type: "reload_ready", leaseId: "r1", processId: "p2" }, 3);
+
+    expect(state).toMatchObject({
+      phase: "ready",
+      processId: "p2",
+      port: GATEWAY_STANDBY_PORT,
+      restarts: 1,
+      reloadLease: null,
+    });
+  });
+
+  it("keeps the current gateway serving when the replacement fails", () => {
+    let state = claimGatewayReload(serving(), "r1", GATEWAY_STANDBY_PORT, 2).state;
+    state = reduceGatewayState(state, { type: "reload_failed", leaseId: "r1", error: "boom" }, 3);
+
+    expect(state).toMatchObject({
+      phase: "ready",
+      processId: "p1",
+      port: GATEWAY_PORT,
+      consecutiveFailures: 0,
+      lastError: "boom",
+      reloadLease: null,
+    });
+  });
+});
+
+describe("GatewaySupervisorStore", () => {
+  it("persists state across store instances", async () => {
+    const storage = createMockStorage();
+    const claim = await new GatewaySupervisorStore(storage).claimStart(0);
+    if (!claim.ok) throw new Error("expected to claim the start");
+
+    await new GatewaySupervisorStore(storage).record(
+      { type: "ready", leaseId: claim.leaseId, processId: "p1", port: GATEWAY_PORT },
+      1,
+    );
+
+    expect(await new GatewaySupervisorStore(storage).get()).toMatchObject({
+      phase: "ready",
+      processId: "p1",
+    });
+  });
+});
@@ -0,0 +1,345 @@
+import { GATEWAY_PORT, MAX_READY_TIMEOUT_MS, STARTUP_TIMEOUT_MS } from "../config";
+import type { KeyValueStorage } from "../types";
+
+/**
+ * Gateway lifecycle phases
+ * - stopped: no gateway running (fresh deploy or deliberate stop)
+ * - starting: one request holds the start lease and is booting the gateway
+ * - ready: the gateway process is up and passed its readiness check
+ * - degraded: the process is up but keeps failing liveness checks
+ * - crashed: the last start failed or the process died; retried after a backoff
+ * - crash_loop: too many failures in a short time; needs an admin restart
+ */
+export type GatewayPhase = "stopped" | "starting" | "ready" | "degraded" | "crashed" | "crash_loop";
+
+/**
+ * Supervisor state, persisted in the Sandbox Durable Object
+ */
+export interface GatewayState {
+  phase: GatewayPhase;
+  /** ID of the gateway process the supervisor is tracking */
+  processId: string | null;
+  /** Port the tracked gateway listens on; traffic is routed here */
+  port: number;
+  /** Starts after the first one */
+  restarts: number;
+  /** Failures since the gateway was last ready; drives the backoff */
+  consecutiveFailures: number;
+  /** Failure timestamps within the crash-loop window */
+  recentFailures: number[];
+  /** Failed liveness probes in a row while ready */
+  healthFailures: number;
+  lastError: string | null;
+  /** Earliest time the next start may be attempted after a crash */
+  nextAttemptAt: number | null;
+  /** Held by the request that is starting the gateway (single-flight) */
+  startLease: { id: string; expiresAt: number } | null;
+  /** Held while a replacement gateway boots on `port` next to the serving one */
+  reloadLease: { id: string; port: number; expiresAt: number } | null;
+  startedAt: number | null;
+  readyAt: number | null;
+  updatedAt: number;
+}
+
+/**
+ * Lifecycle events. Events from a start attempt carry its lease ID and are
+ * ignored if another attempt has taken over since.
+ */
+export type GatewayEvent =
+  | { type: "process_started"; leaseId: string; processId: string }
+  | { type: "ready"; leaseId: string; processId: string; port: number }
+  | { type: "start_failed"; leaseId: string; error: string }
+  | { type: "unhealthy"; error: string; threshold: number }
+  | { type: "healthy" }
+  | { type: "exited"; error: string }
+  | { type: "reload_ready"; leaseId: string; processId: string }
+  | { type: "reload_failed"; leaseId: string; error: string }
+  | { type: "stopped" }
+  | { type: "reset" };
+
+/**
+ * Outcome of asking to start the gateway
+ */
+export type StartClaim =
+  | { ok: true; leaseId: string; state: GatewayState }
+  | { ok: false; reason: "in_progress" | "backoff" | "crash_loop"; state: GatewayState };
+
+/**
+ * Outcome of asking to boot a replacement gateway while the current one keeps serving
+ */
+export type ReloadClaim =
+  | { ok: true; leaseId: string; state: GatewayState }
+  | { ok: false; reason: "not_running" | "in_progress"; state: GatewayState };
+
+/** Failures within CRASH_LOOP_WINDOW_MS that put the gateway in crash_loop */
+export const CRASH_LOOP_THRESHOLD = 5;
+export const CRASH_LOOP_WINDOW_MS = 10 * 60_000;
+
+const BACKOFF_BASE_MS = 5_000;
+const BACKOFF_MAX_MS = 5 * 60_000;
+
+/**
+ * A start lease outlives the startup timeout and the readiness check, so a
+ * stuck starter can't block forever
+ */
+export const START_LEASE_MS = STARTUP_TIMEOUT_MS + MAX_READY_TIMEOUT_MS + 30_000;
+
+const STORAGE_KEY = "gateway:supervisor";
+
+export function initialGatewayState(now = Date.now()): GatewayState {
+  return {
+    phase: "stopped",
+    processId: null,
+    port: GATEWAY_PORT,
+    restarts: 0,
+    consecutiveFailures: 0,
+    recentFailures: [],
+    healthFailures: 0,
+    lastError: null,
+    nextAttemptAt: null,
+    startLease: null,
+    reloadLease: null,
+    startedAt: null,
+    readyAt: null,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Backoff before the next start after `failures` consecutive failures.
+ * The first failure is retried straight away.
+ */
+export function backoffMs(failures: number): number {
+  if (failures <= 1) return 0;
+  return Math.min(BACKOFF_BASE_MS * 2 ** (failures - 2), BACKOFF_MAX_MS);
+}
+
+function recordFailure(state: GatewayState, error: string, now: number): GatewayState {
+  const consecutiveFailures = state.consecutiveFailures + 1;
+  const recentFailures = [
+    ...state.recentFailures.filter((t) => now - t < CRASH_LOOP_WINDOW_MS),
+    now,
+  ];
+  const crashLoop = recentFailures.length >= CRASH_LOOP_THRESHOLD;
+  return {
+    ...state,
+    phase: crashLoop ? "crash_loop" : "crashed",
+    processId: null,
+    consecutiveFailures,
+    recentFailures,
+    healthFailures: 0,
+    lastError: error,
+    nextAttemptAt: crashLoop ? null : now + backoffMs(consecutiveFailures),
+    startLease: null,
+    reloadLease: null,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Apply a lifecycle event. Pure: the same state and event always give the same result.
+ */
+export function reduceGatewayState(
+  state: GatewayState,
+  event: GatewayEvent,
+  now: number,
+): GatewayState {
+  switch (event.type) {
+    case "process_started":
+    case "ready":
+    case "start_failed": {
+      if (state.phase !== "starting" || state.startLease?.id !== event.leaseId) return state;
+      if (event.type === "process_started") {
+        return { ...state, processId: event.processId, updatedAt: now };
+      }
+      if (event.type === "ready") {
+        return {
+          ...state,
+          phase: "ready",
+          processId: event.processId,
+          port: event.port,
+          consecutiveFailures: 0,
+          healthFailures: 0,
+          lastError: null,
+          nextAttemptAt: null,
+          startLease: null,
+          readyAt: now,
+          updatedAt: now,
+        };
+      }
+      return recordFailure(state, event.error, now);
+    }
+    case "unhealthy": {
+      if (state.phase !== "ready" && state.phase !== "degraded") return state;
+      const healthFailures = state.healthFailures + 1;
+      return {
+        ...state,
+        phase: healthFailures >= event.threshold ? "degraded" : state.phase,
+        healthFailures,
+        lastError: event.error,
+        updatedAt: now,
+      };
+    }
+    case "healthy":
+      if (state.phase !== "ready" && state.phase !== "degraded") return state;
+      if (state.phase === "ready" && state.healthFailures === 0) return state;
+      return { ...state, phase: "ready", healthFailures: 0, lastError: null, updatedAt: now };
+    case "exited":
+      if (state.phase !== "ready" && state.phase !== "degraded") return state;
+      return recordFailure(state, event.error, now);
+    case "reload_ready":
+      // The replacement passed its readiness check: route traffic to it
+      if (state.reloadLease?.id !== event.leaseId) return state;
+      return {
+        ...state,
+        phase: "ready",
+        processId: event.processId,
+        port: state.reloadLease.port,
+        restarts: state.restarts + 1,
+        healthFailures: 0,
+        lastError: null,
+        reloadLease: null,
+        readyAt: now,
+        updatedAt: now,
+      };
+    case "reload_failed":
+      // The serving gateway is untouched, so this isn't a crash
+      if (state.reloadLease?.id !== event.leaseId) return state;
+      return { ...state, lastError: event.error, reloadLease: null, updatedAt: now };
+    case "stopped":
+      // Deliberate stop (e.g. to apply config). Failure history is kept so a
+      // gateway that keeps failing after the stop still backs off.
+      return {
+        ...state,
+        phase: "stopped",
+        processId: null,
+        startLease: null,
+        reloadLease: null,
+        nextAttemptAt: null,
+        updatedAt: now,
+      };
+    case "reset":
+      return {
+        ...initialGatewayState(now),
+        restarts: state.restarts,
+        startedAt: state.startedAt,
+        readyAt: state.readyAt,
+      };
+  }
+}
+
+/**
+ * Decide whether a new start may begin, and take the start lease if so.
+ * An expired lease counts as a failed start.
+ */
+export function claimGatewayStart(
+  state: GatewayState,
+  leaseId: string,
+  now: number,
+): { state: GatewayState; claim: StartClaim } {
+  let current = state;
+  if (current.phase === "starting" && current.startLease && current.startLease.expiresAt <= now) {
+    current = recordFailure(current, "Gateway startup did not finish in time", now);
+  }
+
+  const refuse = (reason: "in_progress" | "backoff" | "crash_loop") => ({
+    state: current,
+    claim: { ok: false as const, reason, state: current },
+  });
+  if (current.phase === "starting") return refuse("in_progress");
+  if (current.phase === "crash_loop") return refuse("crash_loop");
+  if (
+    current.phase === "crashed" &&
+    current.nextAttemptAt !== null &&
+    now < current.nextAttemptAt
+  ) {
+    return refuse("backoff");
+  }
+
+  const next: GatewayState = {
+    ...current,
+    phase: "starting",
+    processId: null,
+    healthFailures: 0,
+    restarts: current.startedAt === null ? current.restarts : current.restarts + 1,
+    startLease: { id: leaseId, expiresAt: now + START_LEASE_MS },
+    startedAt: now,
+    updatedAt: now,
+  };
+  return { state: next, claim: { ok: true, leaseId, state: next } };
+}
+
+/**
+ * Decide whether a replacement gateway may boot on `port` while the current
+ * one keeps serving, and take the reload lease if so. An expired lease is
+ * dropped, as a reload never affects the serving gateway.
+ */
+export function claimGatewayReload(
+  state: GatewayState,
+  leaseId: string,
+  port: number,
+  now: number,
+): { state: GatewayState; claim: ReloadClaim } {
+  const refuse = (reason: "not_running" | "in_progress") => ({
+    state,
+    claim: { ok: false as const, reason, state },
+  });
+  if (state.phase !== "ready" && state.phase !== "degraded") return refuse("not_running");
+  if (state.reloadLease && state.reloadLease.expiresAt > now) return refuse("in_progress");
+
+  const next: GatewayState = {
+    ...state,
+    reloadLease: { id: leaseId, port, expiresAt: now + START_LEASE_MS },
+    updatedAt: now,
+  };
+  return { state: next, claim: { ok: true, leaseId, state: next } };
+}
+
+/**
+ * Supervisor state in Durable Object storage. Each method reads and writes
+ * one key without awaiting anything else, so the Durable Object's input gate
+ * makes claims single-flight across concurrent requests.
+ */
+export class GatewaySupervisorStore {
+  constructor(private storage: KeyValueStorage) {}
+
+  async get(): Promise<GatewayState> {
+    const stored = await this.storage.get<GatewayState>(STORAGE_KEY);
+    // Fill in fields added since the state was stored
+    return { ...initialGatewayState(), ...stored };
+  }
+
+  async claimStart(now = Date.now()): Promise<StartClaim> {
+    const { state, claim } = claimGatewayStart(await this.get(), crypto.randomUUID(), now);
+    await this.storage.put(STORAGE_KEY, state);
+    return claim;
+  }
+
+  async claimReload(port: number, now = Date.now()): Promise<ReloadClaim> {
+    const { state, claim } = claimGatewayReload(await this.get(), crypto.randomUUID(), port, now);
+    await this.storage.put(STORAGE_KEY, state);
+    return claim;
+  }
+
+  async record(event: GatewayEvent, now = Date.now()): Promise<GatewayState> {
+    const current = await this.get();
+    const next = reduceGatewayState(current, event, now);
+    if (next !== current) {
+      await this.storage.put(STORAGE_KEY, next);
+    }
+    return next;
+  }
+}
+
+/**
+ * Thrown when the supervisor refuses to start the gateway (backing off or crash-looping)
+ */
+export class GatewayUnavailableError extends Error {
+  constructor(
+    message: string,
+    readonly state: GatewayState,
+  ) {
+    super(message);
+    this.name = "GatewayUnavailableError";
+  }
+}
@@ -0,0 +1,117 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { suppressConsole } from "../test-utils";
+import type { SnapshotStore } from "./snapshot-store";
+import {
+  DEFAULT_SYNC_SPEC,
+  dueRules,
+  globToRegExp,
+  matchRule,
+  parseInterval,
+  parseSyncSpec,
+  readSyncSpec,
+  type SyncSpec,
+} from "./sync-spec";
+
+const SPEC: SyncSpec = {
+  rules: [
+    { name: "config", area: "config", include: [], exclude: ["*.log"], every: "5m" },
+    {
+      name: "memory",
+      area: "workspace",
+      include: ["MEMORY.md", "memory/"],
+      exclude: [],
+      every: "1m",
+    },
+    { name: "workspace", area: "workspace", include: [], exclude: ["assets/"], every: "1h" },
+  ],
+};
+
+describe("globToRegExp", () => {
+  it("keeps * within a directory and lets ** span them", () => {
+    expect(globToRegExp("notes/*.md").test("notes/a.md")).toBe(true);
+    expect(globToRegExp("notes/*.md").test("notes/old/a.md")).toBe(false);
+    expect(globToRegExp("notes/**/*.md").test("notes/a.md")).toBe(true);
+    expect(globToRegExp("notes/**/*.md").test("notes/old/a.md")).toBe(true);
+    expect(globToRegExp("file?.txt").test("file1.txt")).toBe(true);
+  });
+
+  it("matches names without a slash anywhere and everything below a trailing slash", () => {
+    expect(globToRegExp("*.log").test("logs/gateway.log")).toBe(true);
+    expect(globToRegExp("assets/").test("assets/video/big.mp4")).toBe(true);
+    expect(globToRegExp("./assets/").test("old/assets/big.mp4")).toBe(false);
+  });
+});
+
+describe("matchRule", () => {
+  it("picks the first rule of the area that includes the file", () => {
+    expect(matchRule(SPEC, "workspace", "MEMORY.md")?.name).toBe("memory");
+    expect(matchRule(SPEC, "workspace", "memory/2026-03-02.md")?.name).toBe("memory");
+    expect(matchRule(SPEC, "workspace", "notes/a.md")?.name).toBe("workspace");
+    expect(matchRule(SPEC, "config", "openclaw.json")?.name).toBe("config");
+  });
+
+  it("leaves out excluded files and areas without rules", () => {
+    expect(matchRule(SPEC, "workspace", "assets/big.bin")).toBeNull();
+    expect(matchRule(SPEC, "config", "logs/gateway.log")).toBeNull();
+    expect(matchRule(SPEC, "skills", "weather/SKILL.md")).toBeNull();
+  });
+});
+
+describe("parseSyncSpec", () => {
+  it("accepts the default spec", () => {
+    expect(parseSyncSpec(DEFAULT_SYNC_SPEC)).toEqual(DEFAULT_SYNC_SPEC);
+  });
+
+  it("rejects invalid rules with a message saying why", () => {
+    const rule = (fields: object) => ({ rules: [{ ...SPEC.rules[0], ...fields }] });
+    expect(() => parseSyncSpec({})).toThrow("rules must be a list of 1 to 50 rules");
+    expect(() => parseSyncSpec(rule({ name: "Config" }))).toThrow(
+      "rules[0].name must be a unique lowercase name",
+    );
+    expect(() => parseSyncSpec(rule({ area: "home" }))).toThrow(
+      "rules[0].area must be one of: config, workspace, skills",
+    );
+    expect(() => parseSyncSpec(rule({ every: "30s" }))).toThrow(
+      "rules[0].every must be an interval like 5m, 1h or 1d",
+    );
+    expect(() => parseSyncSpec(rule({ exclude: "*.log" }))).toThrow(
+      "rules[0].exclude must be a list of globs",
+    );
+  });
+
+  it("refuses a spec that doesn't back up openclaw.json", () => {
+    expect(() => parseSyncSpec({ rules: [{ ...SPEC.rules[0], exclude: ["*.json"] }] })).toThrow(
+      "The rules must back up openclaw.json",
+    );
+  });
+});
+
+describe("readSyncSpec", () => {
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  it("falls back to the default when the spec is missing or invalid", async () => {
+    const stored = (text: string | null) =>
+      ({ readText: async () => text }) as unknown as SnapshotStore;
+    expect(await readSyncSpec(stored(null))).toBe(DEFAULT_SYNC_SPEC);
+    expect(await readSyncSpec(stored('{"rules": []}'))).toBe(DEFAULT_SYNC_SPEC);
+    expect(await readSyncSpec(stored(JSON.stringify(SPEC)))).toEqual(SPEC);
+  });
+});
+
+describe("dueRules", () => {
+  const NOW = Date.parse("2026-03-02T12:30:00Z");
+
+  it("parses intervals", () => {
+    expect(parseInterval("15m")).toBe(15 * 60_000);
+    expect(parseInterval("2d")).toBe(2 * 86_400_000);
+    expect(parseInterval("0h")).toBeNull();
+  });
+
+  it("picks rules whose interval has passed, allowing for cron jitter", () => {
+    const syncedAt = { config: NOW - 5 * 60_000 + 10_000, memory: NOW - 60_000, workspace: NOW };
+    expect(dueRules(SPEC, syncedAt, NOW)).toEqual(["config", "memory"]);
+    expect(dueRules(SPEC, { config: NOW, memory: NOW - 20_000 }, NOW)).toEqual(["workspace"]);
+  });
+});
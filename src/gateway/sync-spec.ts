@@ -0,0 +1,196 @@
+import type { SnapshotStore } from "./snapshot-store";
+import { BACKUP_AREAS, type BackupArea } from "./snapshots";
+
+/**
+ * What backups include, as rules in R2 (sync-spec.json), editable through
+ * the admin API. Each file belongs to the first rule of its area that
+ * includes it and doesn't exclude it; files no rule takes aren't backed up,
+ * and aren't restored either. start-openclaw.sh applies the same rules.
+ */
+export const SYNC_SPEC_KEY = "sync-spec.json";
+
+export interface SyncRule {
+  /** Shown in logs, e.g. "memory" */
+  name: string;
+  area: BackupArea;
+  /** Globs relative to the area's directory; empty includes every file */
+  include: string[];
+  exclude: string[];
+  /** How often the rule's files are backed up: minutes, hours or days, e.g. "5m", "1h", "1d" */
+  every: string;
+}
+
+export interface SyncSpec {
+  rules: SyncRule[];
+}
+
+/** What backups included before the spec existed */
+export const DEFAULT_SYNC_SPEC: SyncSpec = {
+  rules: [
+    {
+      name: "config",
+      area: "config",
+      include: [],
+      exclude: ["*.lock", "*.log", "*.tmp"],
+      every: "5m",
+    },
+    { name: "workspace", area: "workspace", include: [], exclude: [], every: "5m" },
+    { name: "skills", area: "skills", include: [], exclude: [], every: "5m" },
+  ],
+};
+
+const MAX_RULES = 50;
+const RULE_NAME_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+const INTERVAL_UNITS: Record<string, number> = { m: 60_000, h: 3_600_000, d: 86_400_000 };
+/** Cron runs are a minute apart, give or take */
+const SCHEDULE_SLACK_MS = 30_000;
+
+/**
+ * Parse an interval like "15m" into milliseconds, or null if invalid
+ */
+export function parseInterval(every: string): number | null {
+  const match = every.trim().match(/^(\d+)\s*([mhd])$/);
+  const count = match ? Number.parseInt(match[1], 10) : 0;
+  return match && count > 0 ? count * INTERVAL_UNITS[match[2]] : null;
+}
+
+/**
+ * Compile a glob: `*` and `?` stay within a directory, `**` spans them. A
+ * pattern without a slash matches a file's name in any directory, like
+ * `*.log`; one ending with a slash matches everything below it, like `assets/`.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let glob = pattern.replace(/^\.?\//, "");
+  if (glob.endsWith("/")) glob += "**";
+  if (!glob.includes("/")) glob = `**/${glob}`;
+
+  let source = "";
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (glob.startsWith("**/", i)) {
+      source += "(?:.*/)?";
+      i += 2;
+    } else if (glob.startsWith("**", i)) {
+      source += ".*";
+      i += 1;
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+const compiled = new Map<string, RegExp>();
+
+function matchesAny(patterns: string[], path: string): boolean {
+  return patterns.some((pattern) => {
+    let regex = compiled.get(pattern);
+    if (!regex) {
+      regex = globToRegExp(pattern);
+      compiled.set(pattern, regex);
+    }
+    return regex.test(path);
+  });
+}
+
+/**
+ * The rule a file belongs to, or null if it isn't backed up
+ */
+export function matchRule(spec: SyncSpec, area: BackupArea, path: string): SyncRule | null {
+  return (
+    spec.rules.find(
+      (rule) =>
+        rule.area === area &&
+        (rule.include.length === 0 || matchesAny(rule.include, path)) &&
+        !matchesAny(rule.exclude, path),
+    ) ?? null
+  );
+}
+
+function stringList(value: unknown, field: string): string[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || !value.every((v) => typeof v === "string" && v.trim())) {
+    throw new Error(`${field} must be a list of globs`);
+  }
+  return value.map((v: string) => v.trim());
+}
+
+/**
+ * Validate a spec from the admin API. Throws with a message for the caller
+ * if it's invalid, including when it wouldn't back up openclaw.json, which
+ * a restore can't do without.
+ */
+export function parseSyncSpec(value: unknown): SyncSpec {
+  const rules = (value as { rules?: unknown } | null)?.rules;
+  if (!Array.isArray(rules) || rules.length === 0 || rules.length > MAX_RULES) {
+    throw new Error(`rules must be a list of 1 to ${MAX_RULES} rules`);
+  }
+
+  const names = new Set<string>();
+  const spec: SyncSpec = {
+    rules: rules.map((rule: Partial<Record<keyof SyncRule, unknown>>, i) => {
+      const name = typeof rule?.name === "string" ? rule.name : "";
+      if (!RULE_NAME_PATTERN.test(name) || names.has(name)) {
+        throw new Error(`rules[${i}].name must be a unique lowercase name`);
+      }
+      names.add(name);
+      if (!BACKUP_AREAS.includes(rule.area as BackupArea)) {
+        throw new Error(`rules[${i}].area must be one of: ${BACKUP_AREAS.join(", ")}`);
+      }
+      const every = typeof rule.every === "string" ? rule.every.trim() : "";
+      if (parseInterval(every) === null) {
+        throw new Error(`rules[${i}].every must be an interval like 5m, 1h or 1d`);
+      }
+      return {
+        name,
+        area: rule.area as BackupArea,
+        include: stringList(rule.include, `rules[${i}].include`),
+        exclude: stringList(rule.exclude, `rules[${i}].exclude`),
+        every,
+      };
+    }),
+  };
+
+  if (!matchRule(spec, "config", "openclaw.json")) {
+    throw new Error("The rules must back up openclaw.json");
+  }
+  return spec;
+}
+
+/**
+ * The spec in R2, or the default if there is none or it's invalid
+ */
+export async function readSyncSpec(store: SnapshotStore): Promise<SyncSpec> {
+  const text = await store.readText(SYNC_SPEC_KEY);
+  if (!text) return DEFAULT_SYNC_SPEC;
+  try {
+    return parseSyncSpec(JSON.parse(text));
+  } catch (err) {
+    console.warn("[BACKUP] Invalid sync spec in R2, using the default:", err);
+    return DEFAULT_SYNC_SPEC;
+  }
+}
+
+/** Store a spec; null goes back to the default */
+export async function writeSyncSpec(store: SnapshotStore, spec: SyncSpec | null): Promise<void> {
+  if (spec) await store.writeText(SYNC_SPEC_KEY, JSON.stringify(spec, null, 2));
+  else await store.deleteKeys([SYNC_SPEC_KEY]);
+}
+
+/**
+ * The rules due for a backup at `now`, given when each was last backed up.
+ * Rules never backed up are due.
+ */
+export function dueRules(spec: SyncSpec, syncedAt: Record<string, number>, now: number): string[] {
+  return spec.rules
+    .filter((rule) => {
+      const last = syncedAt[rule.name];
+      const interval = parseInterval(rule.every) ?? 0;
+      return last === undefined || now - last >= interval - SCHEDULE_SLACK_MS;
+    })
+    .map((rule) => rule.name);
+}
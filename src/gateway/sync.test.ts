@@ -1,12 +1,43 @@
-import { beforeEach, describe, expect, it } from "vitest";
+import type { Sandbox } from "@cloudflare/sandbox";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { Sandbox as SupervisedSandbox } from "../sandbox";
 import {
+  createMockBackupState,
   createMockEnv,
   createMockEnvWithR2,
   createMockProcess,
   createMockSandbox,
+  createMockStorage,
   suppressConsole,
 } from "../test-utils";
-import { syncToR2 } from "./sync";
+import { BackupStateStore } from "./backup-state";
+import { dueBackupRules, syncToR2 } from "./sync";
+import { DEFAULT_SYNC_SPEC } from "./sync-spec";
+
+/** Give a mock sandbox the Durable Object's backup state */
+function supervised(sandbox: Sandbox, storage = createMockStorage()): SupervisedSandbox {
+  return Object.assign(sandbox, createMockBackupState(storage)) as unknown as SupervisedSandbox;
+}
+
+describe("dueBackupRules", () => {
+  it("decides from the schedule in the Durable Object", async () => {
+    const storage = createMockStorage();
+    const sandbox = supervised(createMockSandbox().sandbox, storage);
+    const now = Date.now();
+
+    expect(await dueBackupRules(sandbox, createMockEnv(), now)).toEqual([]);
+    expect(await dueBackupRules(sandbox, createMockEnvWithR2(), now)).toEqual([
+      "config",
+      "workspace",
+      "skills",
+    ]);
+
+    await new BackupStateStore(storage).recordSync(DEFAULT_SYNC_SPEC, ["config", "skills"], now);
+    expect(await dueBackupRules(sandbox, createMockEnvWithR2(), now + 60_000)).toEqual([
+      "workspace",
+    ]);
+  });
+});
 
 describe("syncToR2", () => {
   beforeEach(() => {
@@ -18,7 +49,7 @@ describe("syncToR2", () => {
       const { sandbox } = createMockSandbox();
       const env = createMockEnv();
 
-      const result = await syncToR2(sandbox, env);
+      const result = await syncToR2(supervised(sandbox), env);
 
       expect(result.success).toBe(false);
       expect(result.error).toBe("R2 storage is not configured");
@@ -31,7 +62,7 @@ describe("syncToR2", () => {
 
       const env = createMockEnvWithR2();
 
-      const result = await syncToR2(sandbox, env);
+      const result = await syncToR2(supervised(sandbox), env);
 
       expect(result.success).toBe(false);
       expect(result.error).toBe("Failed to mount R2 storage");
@@ -48,7 +79,7 @@ describe("syncToR2", () => {
 
       const env = createMockEnvWithR2();
 
-      const result = await syncToR2(sandbox, env);
+      const result = await syncToR2(supervised(sandbox), env);
 
       expect(result.success).toBe(false);
       expect(result.error).toBe("Sync aborted: no config file found");
@@ -56,64 +87,133 @@ describe("syncToR2", () => {
   });
 
   describe("sync execution", () => {
-    it("returns success when sync completes", async () => {
-      const { sandbox, startProcessMock } = createMockSandbox();
-      const timestamp = "2026-01-27T12:00:00+00:00";
+    const hash = "a".repeat(64);
+    const listing = "=== config\nS\t12\t1772454600.5\topenclaw.json\n=== workspace\n=== skills\n";
 
-      // Calls: mount check, check openclaw.json, rsync, cat timestamp
-      startProcessMock
+    function createSyncSandbox(options: { copyFails?: boolean; config?: string } = {}) {
+      const mock = createMockSandbox();
+      // Calls: mount check, check openclaw.json
+      mock.startProcessMock
         .mockResolvedValueOnce(createMockProcess("s3fs on /data/openclaw type fuse.s3fs\n"))
-        .mockResolvedValueOnce(createMockProcess("", { exitCode: 0 }))
-        .mockResolvedValueOnce(createMockProcess(""))
-        .mockResolvedValueOnce(createMockProcess(timestamp));
+        .mockResolvedValueOnce(createMockProcess("openclaw"));
+
+      const exec = vi.fn(async (command: string) => {
+        if (command.startsWith("echo '=== config'")) {
+          return { stdout: listing, stderr: "", exitCode: 0, success: true };
+        }
+        if (command.startsWith("xargs -0 -r sha256sum")) {
+          const stdout = `${hash}  /root/.openclaw/openclaw.json\n`;
+          return { stdout, stderr: "", exitCode: 0, success: true };
+        }
+        if (command === "cat '/root/.openclaw/openclaw.json'") {
+          return { stdout: options.config ?? "{}", stderr: "", exitCode: 0, success: true };
+        }
+        // No snapshot metadata in R2 yet
+        if (command.startsWith("cat "))
+          return { stdout: "", stderr: "", exitCode: 1, success: false };
+        if (command.startsWith("while") && options.copyFails) {
+          return { stdout: "", stderr: "cp: Input/output error", exitCode: 1, success: false };
+        }
+        return { stdout: "", stderr: "", exitCode: 0, success: true };
+      });
+      const writeFile = vi.fn().mockResolvedValue(undefined);
+      const storage = createMockStorage();
+      const sandbox = supervised(Object.assign(mock.sandbox, { exec, writeFile }), storage);
+      return { sandbox, exec, writeFile, backups: new BackupStateStore(storage) };
+    }
+
+    it("returns success with the new snapshot when sync completes", async () => {
+      const { sandbox, writeFile } = createSyncSandbox();
+
+      const result = await syncToR2(sandbox, createMockEnvWithR2());
 
-      const env = createMockEnvWithR2();
+      expect(result.success).toBe(true);
+      expect(result.snapshotId).toMatch(/^\d{8}T\d{6}Z$/);
+      expect(result).toMatchObject({ added: 1, changed: 0, deleted: 0, bytesTransferred: 12 });
+      expect(writeFile).toHaveBeenCalledWith(
+        `/data/openclaw/snapshots/${result.snapshotId}.tsv`,
+        `config\t${hash}\t12\topenclaw.json\n`,
+      );
+      expect(writeFile).toHaveBeenCalledWith("/data/openclaw/.last-sync", result.lastSync);
+    });
 
-      const result = await syncToR2(sandbox, env);
+    it("returns error when copying to R2 fails (no timestamp written)", async () => {
+      const { sandbox, writeFile } = createSyncSandbox({ copyFails: true });
 
-      expect(result.success).toBe(true);
-      expect(result.lastSync).toBe(timestamp);
+      const result = await syncToR2(sandbox, createMockEnvWithR2());
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe("Sync failed");
+      expect(result.details).toBe("cp: Input/output error");
+      expect(writeFile).not.toHaveBeenCalledWith("/data/openclaw/.last-sync", expect.anything());
     });
 
-    it("returns error when rsync fails (no timestamp created)", async () => {
-      const { sandbox, startProcessMock } = createMockSandbox();
+    it("refuses to back up a config that doesn't parse", async () => {
+      const { sandbox, writeFile } = createSyncSandbox({ config: '{"gateway": ' });
+
+      const result = await syncToR2(sandbox, createMockEnvWithR2());
+
+      expect(result).toMatchObject({
+        success: false,
+        error: "Backup refused",
+        problem: "invalid-config",
+      });
+      expect(result.details).toContain("openclaw.json is not valid JSON");
+      expect(writeFile).not.toHaveBeenCalledWith(
+        "/tmp/openclaw-snapshot-upload.tsv",
+        expect.anything(),
+      );
+    });
 
-      // Calls: mount check, check openclaw.json, rsync (fails), cat timestamp (empty)
-      startProcessMock
-        .mockResolvedValueOnce(createMockProcess("s3fs on /data/openclaw type fuse.s3fs\n"))
-        .mockResolvedValueOnce(createMockProcess("", { exitCode: 0 }))
-        .mockResolvedValueOnce(createMockProcess("", { exitCode: 1 }))
-        .mockResolvedValueOnce(createMockProcess(""));
+    it("records when each rule was backed up and gives the lease back", async () => {
+      const { sandbox, backups } = createSyncSandbox();
 
-      const env = createMockEnvWithR2();
+      const result = await syncToR2(sandbox, createMockEnvWithR2());
 
-      const result = await syncToR2(sandbox, env);
+      expect(result.rules).toEqual(["config", "workspace", "skills"]);
+      const { spec, syncedAt } = await backups.getSchedule();
+      expect(spec).toEqual(DEFAULT_SYNC_SPEC);
+      expect(Object.keys(syncedAt)).toEqual(["config", "workspace", "skills"]);
+      expect((await backups.claim()).ok).toBe(true);
+    });
 
-      expect(result.success).toBe(false);
-      expect(result.error).toBe("Sync failed");
+    it("only backs up the rules that are due on scheduled runs", async () => {
+      const { sandbox, exec, backups } = createSyncSandbox();
+      await backups.recordSync(DEFAULT_SYNC_SPEC, ["config", "workspace", "skills"]);
+
+      const result = await syncToR2(sandbox, createMockEnvWithR2(), { scheduled: true });
+
+      expect(result).toEqual({ success: true, rules: [] });
+      // The spec is read, but no files are listed
+      const commands = exec.mock.calls.map(([command]) => command);
+      expect(commands.some((command) => command.startsWith("echo '=== config'"))).toBe(false);
     });
 
-    it("verifies rsync command is called with correct flags", async () => {
-      const { sandbox, startProcessMock } = createMockSandbox();
-      const timestamp = "2026-01-27T12:00:00+00:00";
+    it("does nothing while another backup holds the lease", async () => {
+      const { sandbox, exec, backups } = createSyncSandbox();
+      await backups.claim();
 
-      startProcessMock
-        .mockResolvedValueOnce(createMockProcess("s3fs on /data/openclaw type fuse.s3fs\n"))
-        .mockResolvedValueOnce(createMockProcess("", { exitCode: 0 }))
-        .mockResolvedValueOnce(createMockProcess(""))
-        .mockResolvedValueOnce(createMockProcess(timestamp));
+      const result = await syncToR2(sandbox, createMockEnvWithR2());
 
-      const env = createMockEnvWithR2();
+      expect(result).toMatchObject({
+        success: false,
+        error: "Another backup is in progress",
+        inProgress: true,
+      });
+      expect(exec).not.toHaveBeenCalled();
+    });
+
+    it("copies new file contents to the content-addressed object store", async () => {
+      const { sandbox, exec, writeFile } = createSyncSandbox();
 
-      await syncToR2(sandbox, env);
+      await syncToR2(sandbox, createMockEnvWithR2());
 
-      // Third call should be rsync to openclaw/ R2 prefix
-      const rsyncCall = startProcessMock.mock.calls[2][0];
-      expect(rsyncCall).toContain("rsync");
-      expect(rsyncCall).toContain("--no-times");
-      expect(rsyncCall).toContain("--delete");
-      expect(rsyncCall).toContain("/root/.openclaw/");
-      expect(rsyncCall).toContain("/data/openclaw/openclaw/");
+      expect(writeFile).toHaveBeenCalledWith(
+        "/tmp/openclaw-snapshot-upload.tsv",
+        `${hash}\t/root/.openclaw/openclaw.json\n`,
+      );
+      const copy = exec.mock.calls.map(([command]) => command).find((c) => c.startsWith("while"));
+      expect(copy).toContain("/data/openclaw/objects/$name");
     });
   });
 });
@@ -1,43 +1,139 @@
-import type { Sandbox } from "@cloudflare/sandbox";
-import { R2_MOUNT_PATH } from "../config";
+import type { Sandbox as SupervisedSandbox } from "../sandbox";
 import type { OpenClawEnv } from "../types";
-import { mountR2Storage } from "./r2";
+import { BackupKeyring } from "./backup-crypto";
+import { BackupIntegrityError, type IntegrityProblem, parseMaxShrink } from "./integrity";
+import { isBackupConfigured, openSnapshotStore } from "./snapshot-store";
+import { createSnapshot, LAST_SYNC_KEY, pruneSnapshots, type SnapshotResult } from "./snapshots";
+import { DEFAULT_SYNC_SPEC, dueRules, readSyncSpec } from "./sync-spec";
 import { waitForProcess } from "./utils";
 
 export interface SyncResult {
   success: boolean;
   lastSync?: string;
+  /** Snapshot the sync created, or the latest one if nothing changed */
+  snapshotId?: string;
+  /** Files added, changed and deleted since the previous snapshot */
+  added?: number;
+  changed?: number;
+  deleted?: number;
+  /** Bytes of new content copied to R2 */
+  bytesTransferred?: number;
   error?: string;
   details?: string;
+  /** Why the backup was refused, if it was */
+  problem?: IntegrityProblem;
+  /** Sync rules backed up, by name; empty if none was due */
+  rules?: string[];
+  /** Another sync, prune or key rotation was under way, so nothing was done */
+  inProgress?: boolean;
+}
+
+export interface SyncOptions {
+  /** Back up even if the workspace shrank by more than BACKUP_MAX_SHRINK */
+  force?: boolean;
+  /**
+   * Only back up the sync rules whose interval has passed, for the cron.
+   * Other syncs back up every rule.
+   */
+  scheduled?: boolean;
 }
 
 /**
- * Sync OpenClaw config and workspace from container to R2 for persistence.
+ * Run `task` holding the gateway's backup lease, so no other sync, prune or
+ * key rotation reads and rewrites the snapshot index at the same time.
+ * Returns null without running it if one is already under way.
+ */
+export async function withBackupLease<T>(
+  sandbox: SupervisedSandbox,
+  task: () => Promise<T>,
+): Promise<T | null> {
+  const claim = await sandbox.claimBackup();
+  if (!claim.ok) return null;
+  try {
+    return await task();
+  } finally {
+    try {
+      await sandbox.releaseBackup(claim.leaseId);
+    } catch (err) {
+      // The lease expires by itself
+      console.error("[BACKUP] Failed to release the backup lease:", err);
+    }
+  }
+}
+
+/**
+ * The sync rules due for a scheduled backup, from the schedule in the Durable
+ * Object. Deciding this doesn't touch the container, so the cron can skip it
+ * without keeping it awake.
+ */
+export async function dueBackupRules(
+  sandbox: SupervisedSandbox,
+  env: OpenClawEnv,
+  now = Date.now(),
+): Promise<string[]> {
+  if (!isBackupConfigured(env)) return [];
+  const { spec, syncedAt } = await sandbox.getBackupSchedule();
+  return dueRules(spec ?? DEFAULT_SYNC_SPEC, syncedAt, now);
+}
+
+/**
+ * Back up OpenClaw config and workspace from the container to R2 as a new snapshot.
  *
  * This function:
- * 1. Mounts R2 if not already mounted
- * 2. Verifies source has critical files (prevents overwriting good backup with empty data)
- * 3. Runs rsync to copy config, workspace, and skills to R2
- * 4. Writes a timestamp file for tracking
+ * 1. Takes the backup lease (see withBackupLease); if another backup holds
+ *    it, nothing is done
+ * 2. Opens the snapshot store, mounting R2 if BACKUP_STORAGE is "mount"
+ * 3. Verifies source has critical files (prevents snapshotting an empty container)
+ * 4. Creates a snapshot of the files the sync spec includes (see sync-spec.ts
+ *    and snapshots.ts), hashing only files that changed since the last run
+ *    and, on scheduled runs, only those of rules that are due; if none did, no
+ *    snapshot is created. A config that doesn't parse or a workspace that
+ *    shrank drastically is refused (see integrity.ts), keeping the last good
+ *    snapshot the newest. When each rule was backed up is recorded in the
+ *    Durable Object (see backup-state.ts).
+ * 5. Writes a timestamp file for tracking, which start-openclaw.sh compares
+ *    with the local one to decide whether to restore
+ * 6. Deletes snapshots the retention policy no longer keeps
  *
- * Syncs three directories:
- * - Config: /root/.openclaw/ → R2:/openclaw/
- * - Workspace: /root/clawd/ → R2:/workspace/ (IDENTITY.md, MEMORY.md, memory/, assets/)
- * - Skills: /root/clawd/skills/ → R2:/skills/
+ * Each snapshot is a manifest of content-addressed objects, so a wiped or
+ * corrupted container only replaces the newest snapshot, and the older ones
+ * can still be restored.
  *
  * @param sandbox - The sandbox instance
  * @param env - Worker environment bindings
+ * @param options - force: back up a drastic shrink anyway; scheduled: only
+ *   back up rules that are due
  * @returns SyncResult with success status and optional error details
  */
-export async function syncToR2(sandbox: Sandbox, env: OpenClawEnv): Promise<SyncResult> {
+export async function syncToR2(
+  sandbox: SupervisedSandbox,
+  env: OpenClawEnv,
+  options: SyncOptions = {},
+): Promise<SyncResult> {
   // Check if R2 is configured
-  if (!env.R2_ACCESS_KEY_ID || !env.R2_SECRET_ACCESS_KEY || !env.CF_ACCOUNT_ID) {
+  if (!isBackupConfigured(env)) {
     return { success: false, error: "R2 storage is not configured" };
   }
 
+  const result = await withBackupLease(sandbox, () => backUp(sandbox, env, options));
+  return (
+    result ?? {
+      success: false,
+      error: "Another backup is in progress",
+      details: "A sync, prune or key rotation is under way; try again when it's done",
+      inProgress: true,
+    }
+  );
+}
+
+async function backUp(
+  sandbox: SupervisedSandbox,
+  env: OpenClawEnv,
+  options: SyncOptions,
+): Promise<SyncResult> {
   // Mount R2 if not already mounted
-  const mounted = await mountR2Storage(sandbox, env);
-  if (!mounted) {
+  const store = await openSnapshotStore(sandbox, env);
+  if (!store) {
     return { success: false, error: "Failed to mount R2 storage" };
   }
 
@@ -69,34 +165,67 @@ export async function syncToR2(sandbox: Sandbox, env: OpenClawEnv): Promise<Sync
     };
   }
 
-  // Sync config, workspace, and skills to R2
-  const syncCmd = `rsync -r --no-times --delete --exclude='*.lock' --exclude='*.log' --exclude='*.tmp' ${configDir}/ ${R2_MOUNT_PATH}/openclaw/ && rsync -r --no-times --delete --exclude='skills' /root/clawd/ ${R2_MOUNT_PATH}/workspace/ && rsync -r --no-times --delete /root/clawd/skills/ ${R2_MOUNT_PATH}/skills/ && date -Iseconds > ${R2_MOUNT_PATH}/.last-sync`;
+  const spec = await readSyncSpec(store);
+  const rules = options.scheduled
+    ? dueRules(spec, (await sandbox.getBackupSchedule()).syncedAt, Date.now())
+    : spec.rules.map((rule) => rule.name);
+  if (rules.length === 0) {
+    // The cron thought some were due going by an older spec
+    await sandbox.recordSyncSpec(spec);
+    return { success: true, rules };
+  }
 
+  const keyring = BackupKeyring.fromEnv(store, env);
+  let result: SnapshotResult;
+  let lastSync: string;
   try {
-    const proc = await sandbox.startProcess(syncCmd);
-    await waitForProcess(proc, 30000); // 30 second timeout for sync
-
-    // Check for success by reading the timestamp file
-    const timestampProc = await sandbox.startProcess(`cat ${R2_MOUNT_PATH}/.last-sync`);
-    await waitForProcess(timestampProc, 5000);
-    const timestampLogs = await timestampProc.getLogs();
-    const lastSync = timestampLogs.stdout?.trim();
-
-    if (lastSync?.match(/^\d{4}-\d{2}-\d{2}/)) {
-      return { success: true, lastSync };
-    } else {
-      const logs = await proc.getLogs();
+    result = await createSnapshot(sandbox, store, keyring, configDir, Date.now(), {
+      maxShrink: options.force ? null : parseMaxShrink(env),
+      spec,
+      rules,
+    });
+    // Without changes the backup is still current as of now
+    lastSync = result.created ? result.snapshot.createdAt : new Date().toISOString();
+    await store.writeText(LAST_SYNC_KEY, lastSync);
+  } catch (err) {
+    if (err instanceof BackupIntegrityError) {
       return {
         success: false,
-        error: "Sync failed",
-        details: logs.stderr || logs.stdout || "No timestamp file created",
+        error: "Backup refused",
+        details: err.message,
+        problem: err.problem,
       };
     }
-  } catch (err) {
     return {
       success: false,
-      error: "Sync error",
+      error: "Sync failed",
       details: err instanceof Error ? err.message : "Unknown error",
     };
   }
+
+  try {
+    await sandbox.recordBackupSync(spec, rules);
+  } catch (err) {
+    // The rules are backed up again by the next cron run
+    console.error("[BACKUP] Failed to record the backup schedule:", err);
+  }
+
+  // A failed cleanup leaves extra snapshots behind, which the next run deletes.
+  // Nothing to prune without a new snapshot.
+  if (result.created) {
+    try {
+      const pruned = await pruneSnapshots(store, keyring, env);
+      if (pruned.length > 0) console.log("[BACKUP] Deleted snapshots:", pruned.join(", "));
+    } catch (err) {
+      console.error("[BACKUP] Failed to prune snapshots:", err);
+    }
+  }
+
+  return {
+    success: true,
+    lastSync,
+    snapshotId: result.snapshot.id,
+    ...result.changes,
+    rules,
+  };
 }
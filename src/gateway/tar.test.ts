@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { packTar, type TarEntry, unpackTar } from "./tar";
+
+const encoder = new TextEncoder();
+
+/** A stream delivering `bytes` in chunks of `size`, like a network body */
+function chunked(bytes: Uint8Array, size: number): ReadableStream<Uint8Array> {
+  let offset = 0;
+  return new ReadableStream({
+    pull(controller) {
+      if (offset >= bytes.byteLength) {
+        controller.close();
+        return;
+      }
+      controller.enqueue(bytes.slice(offset, offset + size));
+      offset += size;
+    },
+  });
+}
+
+async function unpackAll(stream: ReadableStream<Uint8Array>): Promise<TarEntry[]> {
+  const entries: TarEntry[] = [];
+  for await (const entry of unpackTar(stream)) entries.push(entry);
+  return entries;
+}
+
+describe("packTar and unpackTar", () => {
+  it("round-trips files of any size through arbitrary chunks", async () => {
+    const entries = [
+      { name: "a".repeat(64), data: encoder.encode("hello") },
+      { name: "empty", data: new Uint8Array() },
+      { name: "block", data: new Uint8Array(512).fill(7) },
+      { name: "large", data: new Uint8Array(1500).map((_, i) => i % 251) },
+    ];
+
+    const unpacked = await unpackAll(chunked(packTar(entries), 100));
+
+    expect(unpacked.map((e) => e.name)).toEqual(entries.map((e) => e.name));
+    for (const [i, entry] of unpacked.entries()) {
+      expect([...entry.data]).toEqual([...entries[i].data]);
+    }
+  });
+
+  it("skips directories and strips a leading ./", async () => {
+    const archive = packTar([
+      { name: "./", data: new Uint8Array() },
+      { name: "./file", data: encoder.encode("x") },
+    ]);
+    // Turn the first entry into a directory, as GNU tar writes for `-C dir .`
+    archive[156] = "5".charCodeAt(0);
+    archive.set(encoder.encode("000000\0 "), 148);
+    let sum = 0;
+    for (let i = 0; i < 512; i++) sum += i >= 148 && i < 156 ? 32 : archive[i];
+    archive.set(encoder.encode(`${sum.toString(8).padStart(6, "0")}\0 `), 148);
+
+    expect((await unpackAll(chunked(archive, 4096))).map((e) => e.name)).toEqual(["file"]);
+  });
+
+  it("rejects corrupt headers and long names", async () => {
+    const archive = packTar([{ name: "file", data: encoder.encode("x") }]);
+    archive[0] = "g".charCodeAt(0);
+    await expect(unpackAll(chunked(archive, 4096))).rejects.toThrow("Invalid tar header checksum");
+
+    expect(() => packTar([{ name: "n".repeat(100), data: new Uint8Array() }])).toThrow(
+      "Tar entry name too long",
+    );
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Just enough of the tar format (ustar) to move flat directories of files
+ * between the Worker and the container, where GNU tar packs and unpacks them
+ */
+
+const BLOCK = 512;
+
+/** A regular file in a tar archive */
+export interface TarEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function writeString(header: Uint8Array, offset: number, length: number, value: string) {
+  header.set(encoder.encode(value).subarray(0, length), offset);
+}
+
+function writeOctal(header: Uint8Array, offset: number, length: number, value: number) {
+  writeString(header, offset, length, `${value.toString(8).padStart(length - 1, "0")}\0`);
+}
+
+function readString(header: Uint8Array, offset: number, length: number): string {
+  const field = header.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return decoder.decode(end === -1 ? field : field.subarray(0, end));
+}
+
+function checksum(header: Uint8Array): number {
+  let sum = 0;
+  for (let i = 0; i < BLOCK; i++) {
+    // The checksum field itself counts as spaces
+    sum += i >= 148 && i < 156 ? 32 : header[i];
+  }
+  return sum;
+}
+
+function paddedSize(size: number): number {
+  return Math.ceil(size / BLOCK) * BLOCK;
+}
+
+/**
+ * Pack files into an uncompressed tar archive. Names must be shorter than 100 bytes.
+ */
+export function packTar(entries: TarEntry[], mtime = Date.now()): Uint8Array<ArrayBuffer> {
+  const total = entries.reduce((sum, e) => sum + BLOCK + paddedSize(e.data.byteLength), 0);
+  // Two empty blocks end the archive
+  const archive = new Uint8Array(total + 2 * BLOCK);
+
+  let offset = 0;
+  for (const entry of entries) {
+    if (encoder.encode(entry.name).byteLength >= 100) {
+      throw new Error(`Tar entry name too long: ${entry.name}`);
+    }
+    const header = archive.subarray(offset, offset + BLOCK);
+    writeString(header, 0, 100, entry.name);
+    writeOctal(header, 100, 8, 0o644);
+    writeOctal(header, 108, 8, 0);
+    writeOctal(header, 116, 8, 0);
+    writeOctal(header, 124, 12, entry.data.byteLength);
+    writeOctal(header, 136, 12, Math.floor(mtime / 1000));
+    header[156] = "0".charCodeAt(0);
+    writeString(header, 257, 6, "ustar");
+    writeString(header, 263, 2, "00");
+    writeString(header, 148, 8, `${checksum(header).toString(8).padStart(6, "0")}\0 `);
+
+    archive.set(entry.data, offset + BLOCK);
+    offset += BLOCK + paddedSize(entry.data.byteLength);
+  }
+  return archive;
+}
+
+/**
+ * Reads exact byte counts from a stream of arbitrarily sized chunks
+ */
+class ByteReader {
+  private chunks: Uint8Array[] = [];
+  private buffered = 0;
+
+  constructor(private reader: ReadableStreamDefaultReader<Uint8Array>) {}
+
+  /** The next `length` bytes, or null if the stream ends first */
+  async read(length: number): Promise<Uint8Array | null> {
+    while (this.buffered < length) {
+      const { done, value } = await this.reader.read();
+      if (done) return null;
+      this.chunks.push(value);
+      this.buffered += value.byteLength;
+    }
+
+    const bytes = new Uint8Array(length);
+    let filled = 0;
+    while (filled < length) {
+      const chunk = this.chunks[0];
+      const take = Math.min(chunk.byteLength, length - filled);
+      bytes.set(chunk.subarray(0, take), filled);
+      filled += take;
+      if (take === chunk.byteLength) this.chunks.shift();
+      else this.chunks[0] = chunk.subarray(take);
+    }
+    this.buffered -= length;
+    return bytes;
+  }
+}
+
+/**
+ * Read the regular files of a tar archive as it streams in, one file in
+ * memory at a time. Directories, links and GNU/pax extension headers are
+ * skipped; a leading `./` is removed from names.
+ */
+export async function* unpackTar(stream: ReadableStream<Uint8Array>): AsyncGenerator<TarEntry> {
+  const reader = new ByteReader(stream.getReader());
+  for (;;) {
+    const header = await reader.read(BLOCK);
+    if (!header || header.every((byte) => byte === 0)) return;
+
+    if (Number.parseInt(readString(header, 148, 8).trim(), 8) !== checksum(header)) {
+      throw new Error("Invalid tar header checksum");
+    }
+    const size = Number.parseInt(readString(header, 124, 12).trim() || "0", 8);
+    const data = await reader.read(paddedSize(size));
+    if (!data) throw new Error("Tar archive ended unexpectedly");
+
+    const type = String.fromCharCode(header[156]);
+    if (type !== "0" && type !== "\0") continue;
+
+    // GNU tar's own format uses the ustar prefix field for other things
+    const prefix = header[262] === 0 ? readString(header, 345, 155) : "";
+    const name = readString(header, 0, 100);
+    yield {
+      name: (prefix ? `${prefix}/${name}` : name).replace(/^\.\//, ""),
+      data: data.subarray(0, size),
+    };
+  }
+}
@@ -0,0 +1,177 @@
+import type { Process } from "@cloudflare/sandbox";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { GATEWAY_PORT } from "../config";
+import type { Sandbox as SupervisedSandbox } from "../sandbox";
+import {
+  createMockEnv,
+  createMockSandbox,
+  createMockStorage,
+  suppressConsole,
+} from "../test-utils";
+import { IncidentStore, MAX_INCIDENTS } from "./incidents";
+import { GatewaySupervisorStore } from "./supervisor";
+import { findZombies, parseContainerSnapshot, runWatchdog } from "./watchdog";
+
+const PS_OUTPUT = `    1     0 /container-server/sandbox
+   40     1 /bin/bash /usr/local/bin/start-openclaw.sh
+   52    40 node /usr/local/bin/openclaw gateway --port 18789 --verbose --bind lan
+   53    52 node /usr/local/lib/node_modules/openclaw/worker.js openclaw-gateway
+   77     1 node /usr/local/bin/openclaw gateway --port 19789 --verbose --bind lan
+   90     1 bash -c ps -eo pid=,ppid=,args=
+---
+/tmp/start-openclaw.lock
+/tmp/start-openclaw-19789.lock
+`;
+
+function gatewayProcess(id: string): Process {
+  return {
+    id,
+    command: "/usr/local/bin/start-openclaw.sh",
+    status: "running",
+    waitForPort: vi.fn(),
+    kill: vi.fn().mockResolvedValue(undefined),
+    getLogs: vi.fn().mockResolvedValue({ stdout: "", stderr: "" }),
+  } as unknown as Process;
+}
+
+describe("findZombies", () => {
+  it("finds gateways and lockfiles whose startup script is gone", () => {
+    const { orphans, staleLocks } = findZombies(parseContainerSnapshot(PS_OUTPUT));
+
+    expect(orphans.map((p) => p.pid)).toEqual([77]);
+    expect(staleLocks).toEqual(["/tmp/start-openclaw-19789.lock"]);
+  });
+
+  it("finds nothing in a healthy container", () => {
+    const snapshot = parseContainerSnapshot(
+      "40 1 /bin/bash /usr/local/bin/start-openclaw.sh\n52 40 openclaw gateway --port 18789\n---\n/tmp/start-openclaw.lock\n",
+    );
+
+    expect(findZombies(snapshot)).toEqual({ orphans: [], staleLocks: [] });
+  });
+});
+
+describe("runWatchdog", () => {
+  beforeEach(() => {
+    suppressConsole();
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  /**
+   * A sandbox with a running container, no zombies, and `serving` ready on the default port
+   */
+  async function createWatchedSandbox(serving: Process) {
+    const mock = createMockSandbox({ processes: [serving] });
+    const storage = createMockStorage();
+    const store = new GatewaySupervisorStore(storage);
+    const incidents = new IncidentStore(storage);
+    const claim = await store.claimStart();
+    if (!claim.ok) throw new Error("expected to claim the start");
+    await store.record({
+      type: "ready",
+      leaseId: claim.leaseId,
+      processId: serving.id,
+      port: GATEWAY_PORT,
+    });
+
+    const exec = vi.fn().mockResolvedValue({ stdout: "---\n", stderr: "", exitCode: 0 });
+    const sandbox = Object.assign(mock.sandbox, {
+      exec,
+      getState: vi.fn().mockResolvedValue({ status: "running", lastChange: 0 }),
+      getGatewayState: () => store.get(),
+      claimGatewayStart: () => store.claimStart(),
+      recordGatewayEvent: (event: Parameters<typeof store.record>[0]) => store.record(event),
+      recordStartupUpdate: vi.fn(),
+      recordIncident: (input: Parameters<typeof incidents.record>[0]) => incidents.record(input),
+    }) as unknown as SupervisedSandbox;
+    return { ...mock, sandbox, store, incidents, exec };
+  }
+
+  it("leaves a sleeping container alone", async () => {
+    const { sandbox, exec, listProcessesMock } = await createWatchedSandbox(gatewayProcess("g1"));
+    vi.mocked(sandbox.getState).mockResolvedValue({ status: "stopped", lastChange: 0 });
+
+    const report = await runWatchdog(sandbox, createMockEnv({ SANDBOX_SLEEP_AFTER: "10m" }));
+
+    expect(report.skipped).toBe("Container is not running");
+    expect(exec).not.toHaveBeenCalled();
+    expect(listProcessesMock).not.toHaveBeenCalled();
+  });
+
+  it("cleans up orphaned gateways and stale lockfiles", async () => {
+    const { sandbox, exec, incidents } = await createWatchedSandbox(gatewayProcess("g1"));
+    exec.mockResolvedValueOnce({ stdout: PS_OUTPUT, stderr: "", exitCode: 0 });
+
+    await runWatchdog(sandbox, createMockEnv({ GATEWAY_HEALTH: "probe=tcp" }));
+
+    expect(exec).toHaveBeenCalledWith(
+      "kill -9 77 2>/dev/null; rm -rf /tmp/start-openclaw-19789.lock; true",
+      expect.anything(),
+    );
+    expect((await incidents.list()).map((i) => [i.kind, i.action])).toEqual([
+      ["stale_lock", "cleaned_up"],
+      ["orphaned_process", "cleaned_up"],
+    ]);
+  });
+
+  it("restarts a gateway whose process is gone", async () => {
+    const { sandbox, store, incidents, startProcessMock, listProcessesMock } =
+      await createWatchedSandbox(gatewayProcess("g1"));
+    listProcessesMock.mockResolvedValue([]);
+    startProcessMock.mockResolvedValue(gatewayProcess("g2"));
+
+    const run = runWatchdog(sandbox, createMockEnv({ GATEWAY_HEALTH: "probe=tcp" }));
+    await vi.runAllTimersAsync();
+    const report = await run;
+
+    expect(report.incidents).toMatchObject([{ kind: "exited", action: "restarted" }]);
+    expect(await incidents.list()).toHaveLength(1);
+    expect(await store.get()).toMatchObject({
+      phase: "ready",
+      processId: "g2",
+      consecutiveFailures: 0,
+    });
+  });
+
+  it("kills and restarts a gateway that keeps failing health checks", async () => {
+    const hung = gatewayProcess("g1");
+    const { sandbox, store, startProcessMock } = await createWatchedSandbox(hung);
+    // The gateway accepts connections but never completes the handshake
+    vi.mocked(sandbox.wsConnect).mockRejectedValue(new Error("connection refused"));
+    startProcessMock.mockImplementation(async (command: string) =>
+      command.startsWith("/usr/local/bin/start-openclaw.sh")
+        ? gatewayProcess("g2")
+        : { status: "completed", getLogs: vi.fn().mockResolvedValue({ stdout: "" }) },
+    );
+
+    const run = runWatchdog(
+      sandbox,
+      createMockEnv({ GATEWAY_HEALTH: "liveness-failures=2,ready-timeout=1s" }),
+    );
+    await vi.runAllTimersAsync();
+    const report = await run;
+
+    expect(hung.kill).toHaveBeenCalled();
+    expect(report.healthy).toBe(false);
+    // The replacement can't pass its health check either, so the start fails
+    expect(report.incidents).toMatchObject([{ kind: "unhealthy", action: "restart_failed" }]);
+    expect(await store.get()).toMatchObject({ phase: "crashed", consecutiveFailures: 2 });
+  });
+});
+
+describe("IncidentStore", () => {
+  it("keeps the newest incidents", async () => {
+    const store = new IncidentStore(createMockStorage());
+    for (let i = 0; i <= MAX_INCIDENTS; i++) {
+      await store.record({ kind: "stale_lock", message: `lock ${i}`, action: "cleaned_up" }, i);
+    }
+
+    const incidents = await store.list();
+    expect(incidents).toHaveLength(MAX_INCIDENTS);
+    expect(incidents[0].message).toBe(`lock ${MAX_INCIDENTS}`);
+  });
+});
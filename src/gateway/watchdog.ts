@@ -0,0 +1,306 @@
+import { GATEWAY_PORT } from "../config";
+import type { Sandbox as SupervisedSandbox } from "../sandbox";
+import type { OpenClawEnv } from "../types";
+import { checkGatewayLiveness, parseHealthCheckConfig } from "./health";
+import type { Incident, IncidentInput, IncidentKind } from "./incidents";
+import {
+  cleanupGatewayProcesses,
+  ensureGateway,
+  findSupervisedGateway,
+  gatewayPortOf,
+} from "./process";
+import { resolveSleepPolicy } from "./schedule";
+import { GatewayUnavailableError } from "./supervisor";
+
+/** Pause between health probes of a gateway that just failed one */
+const WATCHDOG_PROBE_INTERVAL_MS = 5000;
+
+/** Timeout for the commands that inspect and clean up the container */
+const INSPECT_TIMEOUT_MS = 10_000;
+
+/**
+ * Lists processes, then startup lockfiles. The command itself mustn't contain
+ * "openclaw gateway" or "start-openclaw.sh", or it would match itself.
+ */
+const INSPECT_COMMAND =
+  "ps -eo pid=,ppid=,args=; echo ---; ls -d /tmp/start-openclaw*.lock 2>/dev/null; true";
+
+export const GATEWAY_PATTERN = /\bopenclaw[ -]gateway\b/;
+
+export interface ContainerProcess {
+  pid: number;
+  ppid: number;
+  args: string;
+}
+
+/**
+ * Processes and startup lockfiles in the container
+ */
+export interface ContainerSnapshot {
+  processes: ContainerProcess[];
+  lockfiles: string[];
+}
+
+export interface WatchdogReport {
+  /** Why nothing was checked, e.g. the container is asleep */
+  skipped: string | null;
+  /** Result of the health check, if the gateway was probed */
+  healthy: boolean | null;
+  incidents: Incident[];
+}
+
+export function isWatchdogEnabled(env: OpenClawEnv): boolean {
+  return env.GATEWAY_WATCHDOG?.toLowerCase() !== "false";
+}
+
+/**
+ * Whether the container is meant to stay awake right now (SANDBOX_SLEEP_AFTER=never,
+ * or inside active hours), so a stopped container is a failure rather than a
+ * container that went to sleep
+ */
+function keepsContainerAwake(env: OpenClawEnv): boolean {
+  return resolveSleepPolicy(env).keepAlive;
+}
+
+export function parseContainerSnapshot(output: string): ContainerSnapshot {
+  const [psOutput, lockOutput = ""] = output.split(/^---$/m);
+  const processes: ContainerProcess[] = [];
+  for (const line of psOutput.split("\n")) {
+    const match = line.trim().match(/^(\d+)\s+(\d+)\s+(.*)$/);
+    if (!match) continue;
+    processes.push({
+      pid: Number.parseInt(match[1], 10),
+      ppid: Number.parseInt(match[2], 10),
+      args: match[3],
+    });
+  }
+  const lockfiles = lockOutput
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line.startsWith("/tmp/start-openclaw"));
+  return { processes, lockfiles };
+}
+
+function lockfilePort(path: string): number {
+  const match = path.match(/start-openclaw-(\d+)\.lock$/);
+  return match ? Number.parseInt(match[1], 10) : GATEWAY_PORT;
+}
+
+/**
+ * Find what a killed startup script leaves behind: a gateway with no
+ * startup script above it (SIGKILL on the bash wrapper doesn't reach the
+ * `openclaw gateway &` child), and lockfiles with no startup script running
+ * for their port (SIGKILL skips the trap that removes them).
+ */
+export function findZombies(snapshot: ContainerSnapshot): {
+  orphans: ContainerProcess[];
+  staleLocks: string[];
+} {
+  const byPid = new Map(snapshot.processes.map((p) => [p.pid, p]));
+  const scripts = snapshot.processes.filter((p) => p.args.includes("start-openclaw.sh"));
+
+  const hasAncestor = (process: ContainerProcess, test: (p: ContainerProcess) => boolean) => {
+    const seen = new Set<number>();
+    let parent = byPid.get(process.ppid);
+    while (parent && !seen.has(parent.pid)) {
+      if (test(parent)) return true;
+      seen.add(parent.pid);
+      parent = byPid.get(parent.ppid);
+    }
+    return false;
+  };
+
+  const orphans = snapshot.processes.filter(
+    (p) =>
+      GATEWAY_PATTERN.test(p.args) &&
+      !p.args.includes("start-openclaw.sh") &&
+      // Children of a gateway belong to it; only report the gateway itself
+      !hasAncestor(p, (a) => GATEWAY_PATTERN.test(a.args) || a.args.includes("start-openclaw.sh")),
+  );
+
+  const runningPorts = new Set(scripts.map((p) => gatewayPortOf({ command: p.args })));
+  const staleLocks = snapshot.lockfiles.filter((path) => !runningPorts.has(lockfilePort(path)));
+
+  return { orphans, staleLocks };
+}
+
+async function isContainerRunning(sandbox: SupervisedSandbox): Promise<boolean> {
+  try {
+    const { status } = await sandbox.getState();
+    return status === "running" || status === "healthy";
+  } catch (err) {
+    console.error("[watchdog] Could not read container state:", err);
+    return true;
+  }
+}
+
+/**
+ * Kill orphaned gateways and remove stale lockfiles
+ */
+async function cleanUpZombies(sandbox: SupervisedSandbox): Promise<IncidentInput[]> {
+  let snapshot: ContainerSnapshot;
+  try {
+    const result = await sandbox.exec(INSPECT_COMMAND, { timeout: INSPECT_TIMEOUT_MS });
+    snapshot = parseContainerSnapshot(result.stdout || "");
+  } catch (err) {
+    console.error("[watchdog] Could not inspect the container:", err);
+    return [];
+  }
+
+  const { orphans, staleLocks } = findZombies(snapshot);
+  if (orphans.length === 0 && staleLocks.length === 0) return [];
+
+  const pids = orphans.map((p) => p.pid).join(" ");
+  const command = [
+    orphans.length > 0 ? `kill -9 ${pids} 2>/dev/null` : "",
+    staleLocks.length > 0 ? `rm -rf ${staleLocks.join(" ")}` : "",
+    "true",
+  ]
+    .filter(Boolean)
+    .join("; ");
+  try {
+    await sandbox.exec(command, { timeout: INSPECT_TIMEOUT_MS });
+  } catch (err) {
+    console.error("[watchdog] Cleanup failed:", err);
+    return [];
+  }
+
+  return [
+    ...orphans.map((p) => ({
+      kind: "orphaned_process" as const,
+      message: `Killed orphaned gateway process ${p.pid}: ${p.args}`,
+      action: "cleaned_up" as const,
+    })),
+    ...staleLocks.map((path) => ({
+      kind: "stale_lock" as const,
+      message: `Removed stale startup lockfile ${path}`,
+      action: "cleaned_up" as const,
+    })),
+  ];
+}
+
+/**
+ * Start a new gateway through the supervisor, which applies its backoff and
+ * crash-loop detection to watchdog restarts like any other start
+ */
+async function restart(
+  sandbox: SupervisedSandbox,
+  env: OpenClawEnv,
+  kind: IncidentKind,
+  message: string,
+): Promise<IncidentInput> {
+  console.log("[watchdog]", message, "- restarting the gateway");
+  try {
+    await ensureGateway(sandbox, env);
+    return { kind, message, action: "restarted" };
+  } catch (err) {
+    const error = err instanceof Error ? err.message : String(err);
+    console.error("[watchdog] Restart failed:", error);
+    return {
+      kind,
+      message,
+      action: err instanceof GatewayUnavailableError ? "backoff" : "restart_failed",
+      error,
+    };
+  }
+}
+
+async function inspectGateway(
+  sandbox: SupervisedSandbox,
+  env: OpenClawEnv,
+  report: WatchdogReport,
+): Promise<IncidentInput[]> {
+  const state = await sandbox.getGatewayState();
+
+  if (state.phase === "crashed") {
+    // A failed start is otherwise only retried when the next request comes in
+    if (state.nextAttemptAt !== null && state.nextAttemptAt > Date.now()) return [];
+    return [
+      await restart(
+        sandbox,
+        env,
+        "exited",
+        `Gateway was down after a failure: ${state.lastError ?? "unknown error"}`,
+      ),
+    ];
+  }
+  if (state.phase !== "ready" && state.phase !== "degraded") return [];
+
+  const process = await findSupervisedGateway(sandbox, state.processId);
+  if (!process) {
+    await sandbox.recordGatewayEvent({
+      type: "exited",
+      error: "Gateway process exited unexpectedly",
+    });
+    return [await restart(sandbox, env, "exited", "The gateway process exited")];
+  }
+
+  // Without protocol probes (probe=tcp) a running process is all there is to check
+  const config = parseHealthCheckConfig(env);
+  if (config.probe === "tcp") return [];
+
+  // Probe until the supervisor marks the gateway degraded, so a hung gateway
+  // is caught in one run instead of one probe per cron interval
+  let result = await checkGatewayLiveness(sandbox, env);
+  for (let i = 1; !result.healthy && i < config.livenessFailures; i++) {
+    await new Promise((r) => setTimeout(r, WATCHDOG_PROBE_INTERVAL_MS));
+    result = await checkGatewayLiveness(sandbox, env);
+  }
+  report.healthy = result.healthy;
+  if (result.healthy) return [];
+
+  const failures = result.failures.join("; ");
+  // Count the hang as a failure, so repeated hangs back off and end in crash_loop
+  await sandbox.recordGatewayEvent({ type: "exited", error: `Gateway unhealthy: ${failures}` });
+  await process.kill().catch((err: unknown) => {
+    console.error("[watchdog] Error killing unhealthy gateway:", err);
+  });
+  await cleanupGatewayProcesses(sandbox, state.port);
+  return [
+    await restart(
+      sandbox,
+      env,
+      "unhealthy",
+      `The gateway failed ${config.livenessFailures} health checks in a row: ${failures}`,
+    ),
+  ];
+}
+
+/**
+ * Check on the gateway from the cron trigger, so a hung or dead gateway
+ * recovers without waiting for someone to open the site:
+ * 1. Leave a sleeping container alone, unless it is meant to stay awake
+ * 2. Kill orphaned gateway processes and remove stale startup lockfiles
+ * 3. Restart a gateway whose process is gone or that keeps failing health
+ *    checks, and retry a failed start once its backoff has passed
+ * Everything found is recorded in the incident history.
+ */
+export async function runWatchdog(
+  sandbox: SupervisedSandbox,
+  env: OpenClawEnv,
+): Promise<WatchdogReport> {
+  const report: WatchdogReport = { skipped: null, healthy: null, incidents: [] };
+  const record = async (incidents: IncidentInput[]) => {
+    for (const incident of incidents) {
+      report.incidents.push(await sandbox.recordIncident(incident));
+    }
+  };
+
+  if (!(await isContainerRunning(sandbox))) {
+    const state = await sandbox.getGatewayState();
+    const serving = state.phase === "ready" || state.phase === "degraded";
+    if (!serving || !keepsContainerAwake(env)) {
+      report.skipped = "Container is not running";
+      return report;
+    }
+    await sandbox.recordGatewayEvent({ type: "exited", error: "Container stopped" });
+    await record([
+      await restart(sandbox, env, "container_stopped", "The container stopped unexpectedly"),
+    ]);
+    return report;
+  }
+
+  await record(await cleanUpZombies(sandbox));
+  await record(await inspectGateway(sandbox, env, report));
+  return report;
+}
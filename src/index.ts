@@ -20,32 +20,53 @@
  * - SLACK_BOT_TOKEN + SLACK_APP_TOKEN: Slack tokens
  */
 
-import { getSandbox, Sandbox, type SandboxOptions } from "@cloudflare/sandbox";
-import { Hono } from "hono";
+import { getSandbox, type SandboxOptions } from "@cloudflare/sandbox";
+import { type Context, Hono } from "hono";
+import { getPath } from "hono/utils/url";
 import configErrorHtml from "./assets/config-error.html";
 import loadingPageHtml from "./assets/loading.html";
-import { createAccessMiddleware } from "./auth";
-import { GATEWAY_PORT } from "./config";
-import { ensureGateway, findExistingGateway, syncToR2 } from "./gateway";
+import { auditScope, createConnectionId, isAuditRecordingEnabled, SessionRecorder } from "./audit";
+import {
+  type AuthProvider,
+  createAccessMiddleware,
+  createApiKeyMiddleware,
+  createAuthProvider,
+  isAllowedOnGateway,
+  requireRole,
+} from "./auth";
+import {
+  dueBackupRules,
+  ensureGateway,
+  findExistingGateway,
+  findSupervisedGateway,
+  GATEWAY_HEADER,
+  type GatewayConfig,
+  GatewayUnavailableError,
+  gatewayEnv,
+  isWatchdogEnabled,
+  parseGatewayRegistry,
+  type ResolvedGateway,
+  resolveGateway,
+  resolveSleepPolicy,
+  runWatchdog,
+  sampleResources,
+  sleepPolicyOptions,
+  stripGatewayPrefix,
+  syncToR2,
+} from "./gateway";
+import {
+  createInterceptorPipeline,
+  fetchWithRetry,
+  runInterceptors,
+  transformErrorMessage,
+  WebSocketRelay,
+} from "./proxy";
+import { createRateLimitMiddleware } from "./ratelimit";
 import { adminUi, api, cdp, debug, publicRoutes } from "./routes";
+import { Sandbox } from "./sandbox";
 import type { AppEnv, OpenClawEnv } from "./types";
 import { redactSensitiveParams } from "./utils/logging";
 
-/**
- * Transform error messages from the gateway to be more user-friendly.
- */
-function transformErrorMessage(message: string, host: string): string {
-  if (message.includes("gateway token missing") || message.includes("gateway token mismatch")) {
-    return `Invalid or missing token. Visit https://${host}?token={REPLACE_WITH_YOUR_TOKEN}`;
-  }
-
-  if (message.includes("pairing required")) {
-    return `Pairing required. Visit https://${host}/_admin/`;
-  }
-
-  return message;
-}
-
 export { Sandbox };
 
 /**
@@ -60,14 +81,19 @@ function validateRequiredEnv(env: OpenClawEnv): string[] {
     missing.push("OPENCLAW_GATEWAY_TOKEN");
   }
 
-  // CF Access vars not required in dev/test mode since auth is skipped
+  // The auth provider's vars are not required in dev/test mode since auth is skipped.
+  // An unknown AUTH_PROVIDER is reported by the auth middleware.
   if (!isTestMode) {
-    if (!env.CF_ACCESS_TEAM_DOMAIN) {
-      missing.push("CF_ACCESS_TEAM_DOMAIN");
+    let provider: AuthProvider | null = null;
+    try {
+      provider = createAuthProvider(env);
+    } catch {
+      /* ignore */
     }
-
-    if (!env.CF_ACCESS_AUD) {
-      missing.push("CF_ACCESS_AUD");
+    for (const name of provider?.requiredEnv ?? []) {
+      if (!env[name as keyof OpenClawEnv]) {
+        missing.push(name);
+      }
     }
   }
 
@@ -99,30 +125,30 @@ function validateRequiredEnv(env: OpenClawEnv): string[] {
 }
 
 /**
- * Build sandbox options based on environment configuration.
+ * Build sandbox options from the current sleep policy.
  *
  * SANDBOX_SLEEP_AFTER controls how long the container stays alive after inactivity:
  * - 'never' (default): Container stays alive indefinitely (recommended due to long cold starts)
  * - Duration string: e.g., '10m', '1h', '30s' - container sleeps after this period of inactivity
  *
- * To reduce costs at the expense of cold start latency, set SANDBOX_SLEEP_AFTER to a duration:
- *   npx wrangler secret put SANDBOX_SLEEP_AFTER
- *   # Enter: 10m (or 1h, 30m, etc.)
+ * SANDBOX_SCHEDULE replaces it with active hours: always on inside them, sleeping
+ * after a short idle period outside them (see resolveSleepPolicy). The options
+ * are applied on every request and cron run, so the container follows the schedule;
+ * cron runs leave out sleepAfter (see sleepPolicyOptions).
  */
-function buildSandboxOptions(env: OpenClawEnv): SandboxOptions {
-  const sleepAfter = env.SANDBOX_SLEEP_AFTER?.toLowerCase() || "never";
-
-  // 'never' means keep the container alive indefinitely
-  if (sleepAfter === "never") {
-    return { keepAlive: true };
-  }
-
-  // Otherwise, use the specified duration
-  return { sleepAfter };
+function buildSandboxOptions(env: OpenClawEnv, scheduled = false): SandboxOptions {
+  return sleepPolicyOptions(resolveSleepPolicy(env), { scheduled });
 }
 
-// Main app
-const app = new Hono<AppEnv>();
+// Main app. Routes see paths without the path prefix of the gateway they're routed to.
+const app = new Hono<AppEnv>({
+  getPath: (request, options) => {
+    const path = getPath(request);
+    if (!options?.env?.GATEWAYS) return path;
+    const { basePath } = resolveGateway(parseGatewayRegistry(options.env), request);
+    return stripGatewayPrefix(path, basePath);
+  },
+});
 
 // =============================================================================
 // MIDDLEWARE: Applied to ALL routes
@@ -139,11 +165,21 @@ app.use("*", async (c, next) => {
   await next();
 });
 
-// Middleware: Initialize sandbox for all requests
-app.use("*", async (c, next) => {
+/**
+ * Point the request at a gateway: its settings in c.env, and its sandbox
+ */
+function routeToGateway(c: Context<AppEnv>, resolved: ResolvedGateway) {
+  c.env = gatewayEnv(c.get("workerEnv"), resolved.gateway);
+  c.set("gateway", resolved);
   const options = buildSandboxOptions(c.env);
-  const sandbox = getSandbox(c.env.Sandbox, "openclaw", options);
-  c.set("sandbox", sandbox);
+  c.set("sandbox", getSandbox(c.env.Sandbox, resolved.gateway.sandboxId, options));
+}
+
+// Middleware: Route the request to its gateway and initialize that gateway's sandbox.
+// Everything after this sees the gateway's settings in c.env.
+app.use("*", async (c, next) => {
+  c.set("workerEnv", c.env);
+  routeToGateway(c, resolveGateway(parseGatewayRegistry(c.env), c.req.raw));
   await next();
 });
 
@@ -155,7 +191,9 @@ app.use("*", async (c, next) => {
 // Includes: /sandbox-health, /logo.png, /logo-small.png, /api/status, /_admin/assets/*
 app.route("/", publicRoutes);
 
-// Mount CDP routes (uses shared secret auth via query param, not CF Access)
+// Mount CDP routes (uses shared secret auth via query param, not CF Access).
+// New CDP sessions are rate limited per client IP.
+app.use("/cdp/*", createRateLimitMiddleware());
 app.route("/cdp", cdp);
 
 // =============================================================================
@@ -202,6 +240,10 @@ app.use("*", async (c, next) => {
   return next();
 });
 
+// Middleware: API key authentication for programmatic access (/api/v1/*, /v1/chat/completions,
+// read-only admin API). Requests without an API key fall through to Cloudflare Access.
+app.use("*", createApiKeyMiddleware());
+
 // Middleware: Cloudflare Access authentication for protected routes
 app.use("*", async (c, next) => {
   // Determine response type based on Accept header
@@ -214,6 +256,34 @@ app.use("*", async (c, next) => {
   return middleware(c, next);
 });
 
+// Middleware: The admin UI manages other gateways by naming them in X-OpenClaw-Gateway.
+// Only the admin API honors the header, and only for principals the named gateway lets in;
+// everywhere else requests stay on the gateway their hostname and path route them to.
+app.use("/api/admin/*", async (c, next) => {
+  const name = c.req.header(GATEWAY_HEADER)?.trim().toLowerCase();
+  const current = c.get("gateway");
+  if (!name || name === current.gateway.name) {
+    return next();
+  }
+
+  const workerEnv = c.get("workerEnv");
+  const gateway = parseGatewayRegistry(workerEnv).find((g) => g.name === name);
+  if (!gateway) {
+    return c.json({ error: `Unknown gateway "${name}"` }, 404);
+  }
+  if (!(await isAllowedOnGateway(c, gatewayEnv(workerEnv, gateway)))) {
+    return c.json(
+      { error: "Forbidden", hint: `You have not been granted access to gateway "${name}"` },
+      403,
+    );
+  }
+  routeToGateway(c, { gateway, basePath: current.basePath });
+  return next();
+});
+
+// Middleware: Per-identity rate and concurrency limits for agent turns and chat completions
+app.use("*", createRateLimitMiddleware());
+
 // Mount API routes (protected by Cloudflare Access)
 app.route("/api", api);
 
@@ -231,9 +301,10 @@ app.route("/debug", debug);
 
 // =============================================================================
 // CATCH-ALL: Proxy to OpenClaw gateway
+// The Control UI can run agent turns and change config, so viewers can't use it
 // =============================================================================
 
-app.all("*", async (c) => {
+app.all("*", requireRole("operator"), async (c) => {
   const sandbox = c.get("sandbox");
   const request = c.req.raw;
   const url = new URL(request.url);
@@ -241,8 +312,10 @@ app.all("*", async (c) => {
   console.log("[PROXY] Handling request:", url.pathname);
 
   // Check if gateway is already running
-  const existingProcess = await findExistingGateway(sandbox);
-  const isGatewayReady = existingProcess !== null && existingProcess.status === "running";
+  const gatewayState = await sandbox.getGatewayState();
+  const isGatewayReady =
+    (gatewayState.phase === "ready" || gatewayState.phase === "degraded") &&
+    (await findSupervisedGateway(sandbox, gatewayState.processId)) !== null;
 
   // For browser requests (non-WebSocket, non-API), show loading page if gateway isn't ready
   const isWebSocketRequest = request.headers.get("Upgrade")?.toLowerCase() === "websocket";
@@ -258,17 +331,46 @@ app.all("*", async (c) => {
       }),
     );
 
-    // Return the loading page immediately
-    return c.html(loadingPageHtml);
+    // Return the loading page immediately. It polls the API under the gateway's path prefix.
+    return c.html(loadingPageHtml.replaceAll("{{BASE_PATH}}", c.get("gateway").basePath));
   }
 
-  // Ensure openclaw is running (this will wait for startup)
+  // Ensure openclaw is running (this will wait for startup). Traffic goes to
+  // the port the supervisor routes to, which moves after a zero-downtime reload.
+  let port: number;
   try {
-    await ensureGateway(sandbox, c.env);
+    ({ port } = await ensureGateway(sandbox, c.env));
   } catch (error) {
     console.error("[PROXY] Failed to start OpenClaw:", error);
     const errorMessage = error instanceof Error ? error.message : "Unknown error";
 
+    if (error instanceof GatewayUnavailableError) {
+      const { state } = error;
+      if (state.nextAttemptAt) {
+        c.header(
+          "Retry-After",
+          String(Math.max(1, Math.ceil((state.nextAttemptAt - Date.now()) / 1000))),
+        );
+      }
+      return c.json(
+        {
+          error: "OpenClaw gateway is unavailable",
+          details: errorMessage,
+          hint:
+            state.phase === "crash_loop"
+              ? "Fix the cause in details, then restart the gateway from /_admin/"
+              : "The gateway will be restarted automatically",
+          gateway: {
+            phase: state.phase,
+            restarts: state.restarts,
+            consecutiveFailures: state.consecutiveFailures,
+            nextAttemptAt: state.nextAttemptAt,
+          },
+        },
+        503,
+      );
+    }
+
     let hint = "Check worker logs with: wrangler tail";
     const hasAnyAuth =
       c.env.ANTHROPIC_API_KEY ||
@@ -282,7 +384,8 @@ app.all("*", async (c) => {
       hint =
         "Container was reset by a Worker deploy. Refresh the page — it should recover in 1-2 minutes.";
     } else if (errorMessage.includes("heap out of memory") || errorMessage.includes("OOM")) {
-      hint = "Gateway ran out of memory. Try again or check for memory leaks.";
+      hint =
+        "Gateway ran out of memory. Try again, and check memory usage under Resources in the admin UI.";
     }
 
     return c.json(
@@ -316,7 +419,7 @@ app.all("*", async (c) => {
     }
 
     // Get WebSocket connection to the container
-    const containerResponse = await sandbox.wsConnect(wsRequest, GATEWAY_PORT);
+    const containerResponse = await sandbox.wsConnect(wsRequest, port);
     console.log("[WS] wsConnect response status:", containerResponse.status);
 
     // Get the container-side WebSocket
@@ -343,96 +446,66 @@ app.all("*", async (c) => {
       console.log("[WS] serverWs.readyState:", serverWs.readyState);
     }
 
-    // Relay messages from client to container
-    serverWs.addEventListener("message", (event) => {
-      if (debugLogs) {
-        console.log(
-          "[WS] Client -> Container:",
-          typeof event.data,
-          typeof event.data === "string" ? event.data.slice(0, 200) : "(binary)",
-        );
-      }
-      if (containerWs.readyState === WebSocket.OPEN) {
-        containerWs.send(event.data);
-      } else if (debugLogs) {
-        console.log("[WS] Container not open, readyState:", containerWs.readyState);
-      }
-    });
+    // Frame interceptors (error transformation, method blocking, redaction, ...)
+    const pipeline = createInterceptorPipeline(c.env);
+    const accessUser = c.get("accessUser");
+
+    // Optional audit recording of every frame to R2
+    const recorder = isAuditRecordingEnabled(c.env)
+      ? new SessionRecorder(c.env.OPENCLAW_BUCKET, c.env, {
+          id: createConnectionId(),
+          scope: auditScope(c.get("gateway").gateway),
+          user: accessUser,
+          host: url.host,
+          path: url.pathname,
+        })
+      : null;
+    const waitUntil = (promise: Promise<void> | undefined) => {
+      if (promise) c.executionCtx.waitUntil(promise);
+    };
+    if (recorder) {
+      console.log("[WS] Recording session", recorder.id);
+      waitUntil(recorder.start());
+    }
 
-    // Relay messages from container to client, with error transformation
-    containerWs.addEventListener("message", (event) => {
-      if (debugLogs) {
-        console.log(
-          "[WS] Container -> Client (raw):",
-          typeof event.data,
-          typeof event.data === "string" ? event.data.slice(0, 500) : "(binary)",
-        );
-      }
-      let data = event.data;
-
-      // Try to intercept and transform error messages
-      if (typeof data === "string") {
-        try {
-          const parsed = JSON.parse(data);
-          if (debugLogs) {
-            console.log("[WS] Parsed JSON, has error.message:", !!parsed.error?.message);
-          }
-          if (parsed.error?.message) {
-            if (debugLogs) {
-              console.log("[WS] Original error.message:", parsed.error.message);
-            }
-            parsed.error.message = transformErrorMessage(parsed.error.message, url.host);
-            if (debugLogs) {
-              console.log("[WS] Transformed error.message:", parsed.error.message);
-            }
-            data = JSON.stringify(parsed);
-          }
-        } catch (e) {
-          if (debugLogs) {
-            console.log("[WS] Not JSON or parse error:", e);
-          }
+    // Relay frames, reconnecting to the gateway if it restarts underneath the client
+    new WebSocketRelay({
+      client: serverWs,
+      container: containerWs,
+      debug: debugLogs,
+      reconnect: async () => {
+        const gateway = await ensureGateway(sandbox, c.env);
+        const response = await sandbox.wsConnect(new Request(wsRequest), gateway.port);
+        if (!response.webSocket) {
+          throw new Error(`wsConnect returned status ${response.status}`);
         }
-      }
-
-      if (serverWs.readyState === WebSocket.OPEN) {
-        serverWs.send(data);
-      } else if (debugLogs) {
-        console.log("[WS] Server not open, readyState:", serverWs.readyState);
-      }
-    });
-
-    // Handle close events
-    serverWs.addEventListener("close", (event) => {
-      if (debugLogs) {
-        console.log("[WS] Client closed:", event.code, event.reason);
-      }
-      containerWs.close(event.code, event.reason);
-    });
-
-    containerWs.addEventListener("close", (event) => {
-      if (debugLogs) {
-        console.log("[WS] Container closed:", event.code, event.reason);
-      }
-      // Transform the close reason (truncate to 123 bytes max for WebSocket spec)
-      let reason = transformErrorMessage(event.reason, url.host);
-      if (reason.length > 123) {
-        reason = `${reason.slice(0, 120)}...`;
-      }
-      if (debugLogs) {
-        console.log("[WS] Transformed close reason:", reason);
-      }
-      serverWs.close(event.code, reason);
-    });
-
-    // Handle errors
-    serverWs.addEventListener("error", (event) => {
-      console.error("[WS] Client error:", event);
-      containerWs.close(1011, "Client error");
-    });
-
-    containerWs.addEventListener("error", (event) => {
-      console.error("[WS] Container error:", event);
-      serverWs.close(1011, "Container error");
+        response.webSocket.accept();
+        return response.webSocket;
+      },
+      fromClient: (raw, reply) => {
+        const data = runInterceptors(pipeline, raw, {
+          direction: "client-to-container",
+          host: url.host,
+          accessUser,
+          debug: debugLogs,
+          reply,
+        });
+        waitUntil(recorder?.record("client-to-container", raw, { dropped: data === null }));
+        return data;
+      },
+      fromContainer: (raw, reply) => {
+        const data = runInterceptors(pipeline, raw, {
+          direction: "container-to-client",
+          host: url.host,
+          accessUser,
+          debug: debugLogs,
+          reply,
+        });
+        waitUntil(recorder?.record("container-to-client", raw, { dropped: data === null }));
+        return data;
+      },
+      transformCloseReason: (reason) => transformErrorMessage(reason, url.host),
+      onClose: (code, reason) => waitUntil(recorder?.close(code, reason)),
     });
 
     if (debugLogs) {
@@ -450,9 +523,12 @@ app.all("*", async (c) => {
   let httpRequest = request;
   if (c.env.OPENCLAW_GATEWAY_TOKEN) {
     const headers = new Headers(request.headers);
-    if (!headers.has("Authorization")) {
+    // An API key or auth provider token in Authorization has already been verified;
+    // the gateway needs its own token
+    if (!headers.has("Authorization") || c.get("apiKey") || c.get("authorizationConsumed")) {
       headers.set("Authorization", `Bearer ${c.env.OPENCLAW_GATEWAY_TOKEN}`);
     }
+    headers.delete("X-API-Key");
     const tokenUrl = new URL(url.toString());
     if (!tokenUrl.searchParams.has("token")) {
       tokenUrl.searchParams.set("token", c.env.OPENCLAW_GATEWAY_TOKEN);
@@ -466,7 +542,16 @@ app.all("*", async (c) => {
   }
 
   console.log("[HTTP] Proxying:", url.pathname + url.search);
-  const httpResponse = await sandbox.containerFetch(httpRequest, GATEWAY_PORT);
+  // Retry once the gateway is back if it was restarting when the request arrived
+  const httpResponse = await fetchWithRetry(
+    httpRequest,
+    (req) => sandbox.containerFetch(req, port),
+    {
+      recover: async () => {
+        ({ port } = await ensureGateway(sandbox, c.env));
+      },
+    },
+  );
   console.log("[HTTP] Response status:", httpResponse.status);
 
   // Add debug header to verify worker handled the request
@@ -481,31 +566,130 @@ app.all("*", async (c) => {
   });
 });
 
+/** The cron runs every minute; the watchdog, prewarm and resource samples every few */
+const MAINTENANCE_EVERY_MINUTES = 5;
+
 /**
- * Scheduled handler for cron triggers.
- * Syncs openclaw config/state from container to R2 for persistence.
+ * Cron work for one gateway: run the watchdog, prewarm the gateway for active
+ * hours, then back up the sync rules that are due from the container to R2
  */
-async function scheduled(
-  _event: ScheduledEvent,
+async function runScheduledForGateway(
   env: OpenClawEnv,
-  _ctx: ExecutionContext,
+  gateway: GatewayConfig,
+  scheduledTime: number,
 ): Promise<void> {
-  const options = buildSandboxOptions(env);
-  const sandbox = getSandbox(env.Sandbox, "openclaw", options);
+  const options = buildSandboxOptions(env, true);
+  const sandbox = getSandbox(env.Sandbox, gateway.sandboxId, options);
+  const tag = `[cron:${gateway.name}]`;
+  const policy = resolveSleepPolicy(env);
+  // Only renews the activity timeout when the idle time changes (see Sandbox.setSleepAfter)
+  if (policy.sleepAfter) {
+    await sandbox.setSleepAfter(policy.sleepAfter);
+  }
+  const maintenance = Math.floor(scheduledTime / 60_000) % MAINTENANCE_EVERY_MINUTES === 0;
+
+  if (maintenance && isWatchdogEnabled(env)) {
+    try {
+      const report = await runWatchdog(sandbox, env);
+      if (report.skipped) {
+        console.log(tag, "Watchdog skipped:", report.skipped);
+      }
+      for (const incident of report.incidents) {
+        console.log(tag, "Watchdog incident:", incident.kind, incident.action, incident.message);
+      }
+    } catch (err) {
+      console.error(tag, "Watchdog failed:", err);
+    }
+  }
+
+  // Start the gateway ahead of (and during) active hours, so the first request
+  // of the day doesn't wait for a cold start
+  const isAwake = async () => {
+    const { status } = await sandbox.getState();
+    return status === "running" || status === "healthy";
+  };
+  if (maintenance && (policy.mode === "prewarm" || policy.mode === "active-hours")) {
+    const state = await sandbox.getGatewayState();
+    const serving = state.phase === "ready" || state.phase === "degraded";
+    if (!serving || !(await isAwake())) {
+      console.log(tag, "Prewarming gateway for active hours");
+      try {
+        await ensureGateway(sandbox, env);
+      } catch (err) {
+        console.error(tag, "Prewarm failed:", err);
+      }
+    }
+  }
+
+  // Between maintenance runs, only a due backup may touch the container; anything
+  // more would keep it from ever going to sleep
+  const due = await dueBackupRules(sandbox, env);
+  if (!maintenance && due.length === 0) {
+    return;
+  }
+
+  // Looking for the gateway would wake a container that went to sleep
+  if (!(await isAwake())) {
+    if (maintenance) console.log(tag, "Container is asleep, skipping resource sample and sync");
+    return;
+  }
+
+  if (maintenance) {
+    try {
+      const { fired } = await sampleResources(sandbox, env);
+      for (const alert of fired) {
+        console.warn(tag, "Resource alert:", alert.message);
+      }
+    } catch (err) {
+      console.error(tag, "Resource sampling failed:", err);
+    }
+  }
+
+  if (due.length === 0) {
+    return;
+  }
 
   const gatewayProcess = await findExistingGateway(sandbox);
   if (!gatewayProcess) {
-    console.log("[cron] Gateway not running yet, skipping sync");
+    if (maintenance) console.log(tag, "Gateway not running yet, skipping sync");
     return;
   }
 
-  console.log("[cron] Starting backup sync to R2...");
-  const result = await syncToR2(sandbox, env);
+  const result = await syncToR2(sandbox, env, { scheduled: true });
 
-  if (result.success) {
-    console.log("[cron] Backup sync completed successfully at", result.lastSync);
+  if (result.success && result.rules?.length === 0) {
+    return;
+  }
+  if (result.inProgress) {
+    console.log(tag, "Another backup is in progress, skipping sync");
+  } else if (result.success) {
+    console.log(
+      tag,
+      `Backed up ${result.rules?.join(", ")} at`,
+      result.lastSync,
+      `(${result.added} added, ${result.changed} changed, ${result.deleted} deleted, ${result.bytesTransferred} bytes)`,
+    );
   } else {
-    console.error("[cron] Backup sync failed:", result.error, result.details || "");
+    console.error(tag, "Backup sync failed:", result.error, result.details || "");
+  }
+}
+
+/**
+ * Scheduled handler for cron triggers.
+ * Runs the watchdog and R2 sync for every gateway in the registry.
+ */
+async function scheduled(
+  event: ScheduledEvent,
+  env: OpenClawEnv,
+  _ctx: ExecutionContext,
+): Promise<void> {
+  // One gateway failing mustn't keep the others from being checked and backed up
+  for (const gateway of parseGatewayRegistry(env)) {
+    try {
+      await runScheduledForGateway(gatewayEnv(env, gateway), gateway, event.scheduledTime);
+    } catch (err) {
+      console.error(`[cron:${gateway.name}] Scheduled run failed:`, err);
+    }
   }
 }
 
@@ -0,0 +1,115 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { suppressConsole } from "../test-utils";
+import { fetchWithRetry } from "./http";
+
+describe("fetchWithRetry", () => {
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  it("returns the first response when the gateway is up", async () => {
+    const fetcher = vi.fn().mockResolvedValue(new Response("ok"));
+    const recover = vi.fn();
+
+    const response = await fetchWithRetry(new Request("http://gw/"), fetcher, { recover });
+
+    expect(await response.text()).toBe("ok");
+    expect(fetcher).toHaveBeenCalledOnce();
+    expect(recover).not.toHaveBeenCalled();
+  });
+
+  it("recovers and retries idempotent requests on gateway-unavailable responses", async () => {
+    const fetcher = vi
+      .fn()
+      .mockResolvedValueOnce(new Response("down", { status: 503 }))
+      .mockResolvedValueOnce(new Response("ok"));
+    const recover = vi.fn().mockResolvedValue(undefined);
+
+    const response = await fetchWithRetry(new Request("http://gw/"), fetcher, { recover });
+
+    expect(response.status).toBe(200);
+    expect(recover).toHaveBeenCalledOnce();
+  });
+
+  it("does not retry non-idempotent requests that got a response", async () => {
+    const fetcher = vi.fn().mockResolvedValue(new Response("down", { status: 503 }));
+
+    const response = await fetchWithRetry(
+      new Request("http://gw/v1/chat/completions", { method: "POST", body: "{}" }),
+      fetcher,
+      { recover: vi.fn() },
+    );
+
+    expect(response.status).toBe(503);
+    expect(fetcher).toHaveBeenCalledOnce();
+  });
+
+  it("replays buffered bodies after connection errors", async () => {
+    const bodies: string[] = [];
+    const fetcher = vi.fn(async (request: Request) => {
+      bodies.push(await request.text());
+      if (bodies.length === 1) throw new Error("connection refused");
+      return new Response("ok");
+    });
+
+    const response = await fetchWithRetry(
+      new Request("http://gw/v1/chat/completions", {
+        method: "POST",
+        body: '{"model":"x"}',
+        headers: { "Content-Length": "13" },
+      }),
+      fetcher,
+      { recover: vi.fn().mockResolvedValue(undefined) },
+    );
+
+    expect(response.status).toBe(200);
+    expect(bodies).toEqual(['{"model":"x"}', '{"model":"x"}']);
+  });
+
+  it("sends streaming bodies of unknown length once", async () => {
+    const fetcher = vi.fn().mockRejectedValue(new Error("connection refused"));
+    const stream = new ReadableStream({
+      start(controller) {
+        controller.enqueue(new TextEncoder().encode("chunk"));
+        controller.close();
+      },
+    });
+
+    await expect(
+      fetchWithRetry(
+        new Request("http://gw/upload", { method: "POST", body: stream, duplex: "half" } as any),
+        fetcher,
+        { recover: vi.fn() },
+      ),
+    ).rejects.toThrow("connection refused");
+    expect(fetcher).toHaveBeenCalledOnce();
+  });
+
+  it("gives up after the maximum number of attempts", async () => {
+    const fetcher = vi.fn().mockRejectedValue(new Error("connection refused"));
+    const recover = vi.fn().mockResolvedValue(undefined);
+
+    await expect(
+      fetchWithRetry(new Request("http://gw/"), fetcher, { recover, maxAttempts: 2 }),
+    ).rejects.toThrow("connection refused");
+    expect(fetcher).toHaveBeenCalledTimes(2);
+    expect(recover).toHaveBeenCalledOnce();
+  });
+
+  it("passes the last outcome on when recovering outlasts the timeout", async () => {
+    const fetcher = vi.fn().mockImplementation(async () => new Response("down", { status: 503 }));
+    const recover = vi.fn(() => new Promise(() => {}));
+
+    const response = await fetchWithRetry(new Request("http://gw/"), fetcher, {
+      recover,
+      timeoutMs: 20,
+    });
+    expect(response.status).toBe(503);
+    expect(fetcher).toHaveBeenCalledOnce();
+
+    fetcher.mockRejectedValue(new Error("connection refused"));
+    await expect(
+      fetchWithRetry(new Request("http://gw/"), fetcher, { recover, timeoutMs: 20 }),
+    ).rejects.toThrow("connection refused");
+  });
+});
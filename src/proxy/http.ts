@@ -0,0 +1,103 @@
+/**
+ * Retry for HTTP requests proxied to the gateway while it restarts
+ */
+
+export interface FetchRetryOptions {
+  /** Bring the gateway back before retrying (e.g. ensureGateway) */
+  recover: () => Promise<unknown>;
+  /** Give up retrying after this long */
+  timeoutMs?: number;
+  /** Maximum number of attempts, including the first */
+  maxAttempts?: number;
+  /** Request bodies up to this size are buffered so the request can be replayed */
+  maxBufferedBodyBytes?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 120_000;
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_MAX_BUFFERED_BODY_BYTES = 1024 * 1024;
+
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "OPTIONS"]);
+
+// Statuses returned while the gateway port is down or not accepting connections
+const RETRYABLE_STATUSES = new Set([502, 503, 504]);
+
+/**
+ * Run `recover`, resolving to false if it hasn't finished by `deadline`
+ */
+async function recoverBefore(recover: () => Promise<unknown>, deadline: number): Promise<boolean> {
+  const recovering = (async () => {
+    await recover();
+    return true;
+  })();
+  // Still running when the deadline passes; a later failure has no one to go to
+  recovering.catch(() => {});
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const expired = new Promise<false>((resolve) => {
+    timer = setTimeout(() => resolve(false), Math.max(0, deadline - Date.now()));
+  });
+  try {
+    return await Promise.race([recovering, expired]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Fetch from the container, retrying once the gateway is back if the request
+ * failed because the gateway was restarting.
+ *
+ * Connection errors are retried for any request whose body could be buffered
+ * (the gateway never saw it). Gateway-unavailable responses are only retried
+ * for idempotent methods, since the gateway may have started processing them.
+ * If the gateway isn't back within `timeoutMs`, the last response or error is
+ * passed on.
+ */
+export async function fetchWithRetry(
+  request: Request,
+  fetcher: (request: Request) => Promise<Response>,
+  options: FetchRetryOptions,
+): Promise<Response> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+  const maxBodyBytes = options.maxBufferedBodyBytes ?? DEFAULT_MAX_BUFFERED_BODY_BYTES;
+
+  const idempotent = IDEMPOTENT_METHODS.has(request.method.toUpperCase());
+  const contentLength = Number(request.headers.get("Content-Length") ?? "");
+
+  // Streaming bodies of unknown or large size can only be sent once
+  let body: ArrayBuffer | null = null;
+  if (request.body) {
+    if (!Number.isFinite(contentLength) || contentLength <= 0 || contentLength > maxBodyBytes) {
+      return fetcher(request);
+    }
+    body = await request.arrayBuffer();
+  }
+
+  const deadline = Date.now() + timeoutMs;
+  for (let attempt = 1; ; attempt++) {
+    const canRetry = attempt < maxAttempts && Date.now() < deadline;
+    const attemptRequest = new Request(request, { body });
+
+    let response: Response | null = null;
+    let failure: unknown;
+    try {
+      response = await fetcher(attemptRequest);
+      if (!canRetry || !idempotent || !RETRYABLE_STATUSES.has(response.status)) {
+        return response;
+      }
+      console.log("[HTTP] Gateway unavailable, status:", response.status, "- retrying");
+    } catch (error) {
+      if (!canRetry) throw error;
+      failure = error;
+      console.log("[HTTP] Gateway request failed, retrying:", error);
+    }
+
+    if (!(await recoverBefore(options.recover, deadline))) {
+      console.log("[HTTP] Gateway did not recover in time, giving up");
+      if (response) return response;
+      throw failure;
+    }
+    await response?.body?.cancel();
+  }
+}
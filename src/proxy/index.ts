@@ -0,0 +1,17 @@
+export { type FetchRetryOptions, fetchWithRetry } from "./http";
+export {
+  createInterceptorPipeline,
+  type FrameDirection,
+  type FrameInterceptor,
+  type GatewayFrame,
+  registerFrameInterceptor,
+  runInterceptors,
+  transformErrorMessage,
+} from "./interceptors";
+export {
+  DEFAULT_RELAY_LIMITS,
+  isRetryableClose,
+  type RelayLimits,
+  WebSocketRelay,
+  type WebSocketRelayOptions,
+} from "./websocket";
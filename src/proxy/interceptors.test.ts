@@ -0,0 +1,317 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createMockEnv, suppressConsole } from "../test-utils";
+import {
+  buildRedactionPatterns,
+  createInterceptorPipeline,
+  type FrameInterceptor,
+  type InterceptorContext,
+  matchesMethod,
+  redactValue,
+  registerFrameInterceptor,
+  runInterceptors,
+  transformErrorMessage,
+} from "./interceptors";
+
+function createContext(overrides: Partial<InterceptorContext> = {}): InterceptorContext {
+  return {
+    direction: "container-to-client",
+    host: "claw.example.com",
+    debug: false,
+    reply: vi.fn(),
+    ...overrides,
+  };
+}
+
+describe("transformErrorMessage", () => {
+  it("rewrites token errors into a login hint", () => {
+    expect(transformErrorMessage("gateway token missing", "claw.example.com")).toBe(
+      "Invalid or missing token. Visit https://claw.example.com?token={REPLACE_WITH_YOUR_TOKEN}",
+    );
+  });
+
+  it("rewrites pairing errors into an admin UI hint", () => {
+    expect(transformErrorMessage("pairing required", "claw.example.com")).toBe(
+      "Pairing required. Visit https://claw.example.com/_admin/",
+    );
+  });
+
+  it("leaves other messages alone", () => {
+    expect(transformErrorMessage("something else", "claw.example.com")).toBe("something else");
+  });
+});
+
+describe("matchesMethod", () => {
+  it("matches exact method names", () => {
+    expect(matchesMethod("config.set", "config.set")).toBe(true);
+    expect(matchesMethod("config.get", "config.set")).toBe(false);
+  });
+
+  it("supports trailing wildcards", () => {
+    expect(matchesMethod("exec.approve", "exec.*")).toBe(true);
+    expect(matchesMethod("execute", "exec.*")).toBe(false);
+    expect(matchesMethod("anything", "*")).toBe(true);
+  });
+});
+
+describe("redactValue", () => {
+  it("returns the same reference when nothing matches", () => {
+    const value = { a: "hello", b: ["world"] };
+    expect(redactValue(value, [/secret/g])).toBe(value);
+  });
+
+  it("redacts nested string values", () => {
+    const value = { a: { b: ["token=secret123"] } };
+    expect(redactValue(value, [/secret\d+/g])).toEqual({ a: { b: ["token=[REDACTED]"] } });
+  });
+});
+
+describe("buildRedactionPatterns", () => {
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  const extra = (env: Parameters<typeof buildRedactionPatterns>[0]) =>
+    buildRedactionPatterns(env)
+      .slice(buildRedactionPatterns(createMockEnv()).length)
+      .map((pattern) => pattern.source);
+
+  it("reads WS_REDACT_PATTERNS as a JSON array, keeping commas in quantifiers", () => {
+    expect(
+      extra(
+        createMockEnv({ WS_REDACT_PATTERNS: '["ghp_[A-Za-z0-9]{36,40}", "AKIA[0-9A-Z]{16}"]' }),
+      ),
+    ).toEqual(["ghp_[A-Za-z0-9]{36,40}", "AKIA[0-9A-Z]{16}"]);
+  });
+
+  it("reads anything else as a single regex", () => {
+    expect(extra(createMockEnv({ WS_REDACT_PATTERNS: "ghp_[A-Za-z0-9]{36,40}" }))).toEqual([
+      "ghp_[A-Za-z0-9]{36,40}",
+    ]);
+    expect(extra(createMockEnv({ WS_REDACT_PATTERNS: "[a-f0-9]{32,}" }))).toEqual([
+      "[a-f0-9]{32,}",
+    ]);
+  });
+
+  it("skips invalid regexes", () => {
+    expect(extra(createMockEnv({ WS_REDACT_PATTERNS: '["(unclosed", "ok"]' }))).toEqual(["ok"]);
+  });
+});
+
+describe("createInterceptorPipeline", () => {
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  it("enables only the error transformer by default", () => {
+    const pipeline = createInterceptorPipeline(createMockEnv());
+    expect(pipeline.map((i) => i.name)).toEqual(["transform-errors"]);
+  });
+
+  it("respects the configured order", () => {
+    const pipeline = createInterceptorPipeline(
+      createMockEnv({ WS_INTERCEPTORS: "redact-secrets, block-methods,transform-errors" }),
+    );
+    expect(pipeline.map((i) => i.name)).toEqual([
+      "redact-secrets",
+      "block-methods",
+      "transform-errors",
+    ]);
+  });
+
+  it("disables all interceptors when set to an empty string", () => {
+    expect(createInterceptorPipeline(createMockEnv({ WS_INTERCEPTORS: "" }))).toEqual([]);
+  });
+
+  it("logs frames with DEBUG_ROUTES on, whatever WS_INTERCEPTORS says", () => {
+    const names = (env: Parameters<typeof createInterceptorPipeline>[0]) =>
+      createInterceptorPipeline(env).map((i) => i.name);
+    expect(names(createMockEnv({ DEBUG_ROUTES: "true" }))).toEqual([
+      "transform-errors",
+      "log-frames",
+    ]);
+    expect(names(createMockEnv({ DEBUG_ROUTES: "true", WS_INTERCEPTORS: "" }))).toEqual([
+      "log-frames",
+    ]);
+    expect(
+      names(createMockEnv({ DEBUG_ROUTES: "true", WS_INTERCEPTORS: "log-frames,redact-secrets" })),
+    ).toEqual(["log-frames", "redact-secrets"]);
+  });
+
+  it("skips unknown interceptor names", () => {
+    const pipeline = createInterceptorPipeline(
+      createMockEnv({ WS_INTERCEPTORS: "nope,transform-errors" }),
+    );
+    expect(pipeline.map((i) => i.name)).toEqual(["transform-errors"]);
+    expect(console.error).toHaveBeenCalledWith(
+      "[WS] Unknown interceptor in WS_INTERCEPTORS:",
+      "nope",
+    );
+  });
+
+  it("includes interceptors registered at runtime", () => {
+    registerFrameInterceptor("test-custom", () => ({
+      name: "test-custom",
+      directions: ["client-to-container"],
+      handle: (frame) => frame,
+    }));
+    const pipeline = createInterceptorPipeline(createMockEnv({ WS_INTERCEPTORS: "test-custom" }));
+    expect(pipeline.map((i) => i.name)).toEqual(["test-custom"]);
+  });
+});
+
+describe("runInterceptors", () => {
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  it("transforms gateway error messages", () => {
+    const pipeline = createInterceptorPipeline(createMockEnv());
+    const data = JSON.stringify({
+      type: "res",
+      id: "1",
+      ok: false,
+      error: { message: "pairing required" },
+    });
+
+    const result = runInterceptors(pipeline, data, createContext());
+
+    expect(JSON.parse(result as string).error.message).toBe(
+      "Pairing required. Visit https://claw.example.com/_admin/",
+    );
+  });
+
+  it("passes binary and non-JSON data through untouched", () => {
+    const pipeline = createInterceptorPipeline(createMockEnv());
+    const binary = new ArrayBuffer(4);
+
+    expect(runInterceptors(pipeline, binary, createContext())).toBe(binary);
+    expect(runInterceptors(pipeline, "not json", createContext())).toBe("not json");
+  });
+
+  it("leaves frames untouched when no interceptor applies to the direction", () => {
+    const pipeline = createInterceptorPipeline(createMockEnv());
+    const data = '{"type":"req","id":"1","method":"health"}';
+
+    const result = runInterceptors(
+      pipeline,
+      data,
+      createContext({ direction: "client-to-container" }),
+    );
+
+    expect(result).toBe(data);
+  });
+
+  it("drops blocked requests and replies with an error response", () => {
+    const pipeline = createInterceptorPipeline(
+      createMockEnv({ WS_INTERCEPTORS: "block-methods", WS_BLOCKED_METHODS: "config.*" }),
+    );
+    const ctx = createContext({ direction: "client-to-container" });
+
+    const result = runInterceptors(
+      pipeline,
+      JSON.stringify({ type: "req", id: "42", method: "config.set", params: {} }),
+      ctx,
+    );
+
+    expect(result).toBeNull();
+    expect(ctx.reply).toHaveBeenCalledWith({
+      type: "res",
+      id: "42",
+      ok: false,
+      error: { code: "FORBIDDEN", message: 'Method "config.set" is blocked by gateway policy' },
+    });
+  });
+
+  it("forwards requests for methods that are not blocked", () => {
+    const pipeline = createInterceptorPipeline(
+      createMockEnv({ WS_INTERCEPTORS: "block-methods", WS_BLOCKED_METHODS: "config.*" }),
+    );
+    const ctx = createContext({ direction: "client-to-container" });
+
+    const result = runInterceptors(
+      pipeline,
+      JSON.stringify({ type: "req", id: "1", method: "chat.send", params: {} }),
+      ctx,
+    );
+
+    expect(JSON.parse(result as string).method).toBe("chat.send");
+    expect(ctx.reply).not.toHaveBeenCalled();
+  });
+
+  it("redacts configured secrets and provider keys from gateway output", () => {
+    const pipeline = createInterceptorPipeline(
+      createMockEnv({
+        WS_INTERCEPTORS: "redact-secrets",
+        OPENCLAW_GATEWAY_TOKEN: "gateway-token-abcdef",
+      }),
+    );
+    const data = JSON.stringify({
+      type: "event",
+      event: "agent",
+      payload: {
+        output: "token=gateway-token-abcdef key=sk-ant-REDACTED",
+      },
+    });
+
+    const result = JSON.parse(runInterceptors(pipeline, data, createContext()) as string);
+
+    expect(result.payload.output).toBe("token=[REDACTED] key=[REDACTED]");
+  });
+
+  it("passes each interceptor the output of the previous one", () => {
+    const calls: string[] = [];
+    const first: FrameInterceptor = {
+      name: "first",
+      directions: ["container-to-client"],
+      handle: (frame) => {
+        calls.push("first");
+        return { ...frame, annotated: true };
+      },
+    };
+    const second: FrameInterceptor = {
+      name: "second",
+      directions: ["container-to-client"],
+      handle: (frame) => {
+        calls.push(`second:${frame.annotated}`);
+        return frame;
+      },
+    };
+
+    const result = runInterceptors([first, second], '{"type":"event"}', createContext());
+
+    expect(calls).toEqual(["first", "second:true"]);
+    expect(JSON.parse(result as string)).toEqual({ type: "event", annotated: true });
+  });
+
+  it("skips an interceptor that throws", () => {
+    const broken: FrameInterceptor = {
+      name: "broken",
+      directions: ["container-to-client"],
+      handle: () => {
+        throw new Error("boom");
+      },
+    };
+
+    const result = runInterceptors([broken], '{"type":"event"}', createContext());
+
+    expect(JSON.parse(result as string)).toEqual({ type: "event" });
+    expect(console.error).toHaveBeenCalledWith(
+      "[WS] Interceptor broken failed:",
+      expect.any(Error),
+    );
+  });
+
+  it("only runs interceptors on matching frame types", () => {
+    const handle = vi.fn((frame) => frame);
+    const reqOnly: FrameInterceptor = {
+      name: "req-only",
+      directions: ["container-to-client"],
+      frameTypes: ["req"],
+      handle,
+    };
+
+    const data = '{"type":"event"}';
+    expect(runInterceptors([reqOnly], data, createContext())).toBe(data);
+    expect(handle).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,378 @@
+import type { AccessUser, OpenClawEnv } from "../types";
+
+/**
+ * Direction a WebSocket frame is travelling through the proxy
+ */
+export type FrameDirection = "client-to-container" | "container-to-client";
+
+/**
+ * A parsed OpenClaw gateway protocol frame.
+ *
+ * Requests:  { type: "req", id, method, params }
+ * Responses: { type: "res", id, ok, payload?, error? }
+ * Events:    { type: "event", event, payload? }
+ */
+export interface GatewayFrame {
+  type: string;
+  id?: string;
+  method?: string;
+  params?: unknown;
+  ok?: boolean;
+  payload?: unknown;
+  error?: { code?: string; message?: string; [key: string]: unknown };
+  event?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Per-connection context passed to every interceptor
+ */
+export interface InterceptorContext {
+  direction: FrameDirection;
+  /** Public host of the Worker (used to build user-facing URLs) */
+  host: string;
+  accessUser?: AccessUser;
+  debug: boolean;
+  /** Send a frame back to the side the current frame came from */
+  reply: (frame: GatewayFrame) => void;
+}
+
+/**
+ * A frame interceptor.
+ *
+ * `handle` returns the frame to pass on (the same object, mutated, or a new one)
+ * or `null` to drop it. Interceptors run in the order they are listed in
+ * WS_INTERCEPTORS and each one sees the output of the previous one.
+ */
+export interface FrameInterceptor {
+  name: string;
+  /** Directions this interceptor runs on */
+  directions: readonly FrameDirection[];
+  /** Frame types this interceptor runs on (all types when omitted) */
+  frameTypes?: readonly string[];
+  handle(frame: GatewayFrame, ctx: InterceptorContext): GatewayFrame | null;
+}
+
+export type FrameInterceptorFactory = (env: OpenClawEnv) => FrameInterceptor;
+
+/** Interceptors enabled when WS_INTERCEPTORS is not set */
+export const DEFAULT_INTERCEPTORS = ["transform-errors"];
+
+/**
+ * Transform error messages from the gateway to be more user-friendly.
+ */
+export function transformErrorMessage(message: string, host: string): string {
+  if (message.includes("gateway token missing") || message.includes("gateway token mismatch")) {
+    return `Invalid or missing token. Visit https://${host}?token={REPLACE_WITH_YOUR_TOKEN}`;
+  }
+
+  if (message.includes("pairing required")) {
+    return `Pairing required. Visit https://${host}/_admin/`;
+  }
+
+  return message;
+}
+
+/**
+ * Split a comma-separated env var into trimmed, non-empty entries
+ */
+function parseList(value: string | undefined): string[] {
+  return (value || "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0);
+}
+
+/**
+ * Match a method name against a pattern. A trailing `*` matches any suffix,
+ * so `config.*` blocks `config.get`, `config.set`, etc.
+ */
+export function matchesMethod(method: string, pattern: string): boolean {
+  if (pattern === "*") return true;
+  if (pattern.endsWith("*")) return method.startsWith(pattern.slice(0, -1));
+  return method === pattern;
+}
+
+// Provider keys and tokens that commonly show up in tool output
+const BUILTIN_SECRET_PATTERNS = [
+  /sk-ant-[A-Za-z0-9_-]{10,}/g,
+  /sk-(?:proj-)?[A-Za-z0-9_-]{20,}/g,
+  /xox[abprs]-[A-Za-z0-9-]{10,}/g,
+  /\b\d{8,10}:[A-Za-z0-9_-]{35}\b/g, // Telegram bot tokens
+];
+
+// Worker secrets whose literal values must never reach the browser
+const SECRET_ENV_KEYS = [
+  "OPENCLAW_GATEWAY_TOKEN",
+  "ANTHROPIC_API_KEY",
+  "OPENAI_API_KEY",
+  "CLOUDFLARE_AI_GATEWAY_API_KEY",
+  "AI_GATEWAY_API_KEY",
+  "CLAUDE_SETUP_TOKEN",
+  "TELEGRAM_BOT_TOKEN",
+  "DISCORD_BOT_TOKEN",
+  "SLACK_BOT_TOKEN",
+  "SLACK_APP_TOKEN",
+  "R2_SECRET_ACCESS_KEY",
+  "CDP_SECRET",
+] as const;
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Read WS_REDACT_PATTERNS: a JSON array of regexes, or a single regex. It
+ * isn't split on commas, since regexes contain them (e.g. `[a-z]{20,40}`).
+ */
+function parseRedactPatterns(value: string | undefined): string[] {
+  const text = value?.trim();
+  if (!text) return [];
+  if (text.startsWith("[")) {
+    try {
+      const parsed: unknown = JSON.parse(text);
+      if (Array.isArray(parsed)) {
+        return parsed.filter((entry): entry is string => typeof entry === "string" && !!entry);
+      }
+    } catch {
+      // Not JSON: a single regex starting with a character class
+    }
+  }
+  return [text];
+}
+
+/**
+ * Build the list of patterns used by the redact-secrets interceptor:
+ * built-in provider key shapes, literal values of configured secrets, and
+ * any extra patterns from WS_REDACT_PATTERNS.
+ */
+export function buildRedactionPatterns(env: OpenClawEnv): RegExp[] {
+  const patterns = [...BUILTIN_SECRET_PATTERNS];
+
+  for (const key of SECRET_ENV_KEYS) {
+    const value = env[key];
+    // Skip short values - redacting them would mangle unrelated text
+    if (value && value.length >= 8) {
+      patterns.push(new RegExp(escapeRegExp(value), "g"));
+    }
+  }
+
+  for (const source of parseRedactPatterns(env.WS_REDACT_PATTERNS)) {
+    try {
+      patterns.push(new RegExp(source, "g"));
+    } catch (err) {
+      console.error("[WS] Ignoring invalid WS_REDACT_PATTERNS entry:", source, err);
+    }
+  }
+
+  return patterns;
+}
+
+/**
+ * Recursively replace every match of the given patterns in string values.
+ * Returns the input unchanged (same reference) when nothing matched.
+ */
+export function redactValue(value: unknown, patterns: RegExp[]): unknown {
+  if (typeof value === "string") {
+    let result = value;
+    for (const pattern of patterns) {
+      result = result.replace(pattern, "[REDACTED]");
+    }
+    return result;
+  }
+
+  if (Array.isArray(value)) {
+    let changed = false;
+    const next = value.map((item) => {
+      const redacted = redactValue(item, patterns);
+      if (redacted !== item) changed = true;
+      return redacted;
+    });
+    return changed ? next : value;
+  }
+
+  if (value && typeof value === "object") {
+    let changed = false;
+    const next: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      const redacted = redactValue(item, patterns);
+      if (redacted !== item) changed = true;
+      next[key] = redacted;
+    }
+    return changed ? next : value;
+  }
+
+  return value;
+}
+
+/**
+ * Rewrites gateway auth/pairing errors into actionable messages for the user.
+ */
+const transformErrors: FrameInterceptorFactory = () => ({
+  name: "transform-errors",
+  directions: ["container-to-client"],
+  handle(frame, ctx) {
+    if (typeof frame.error?.message === "string") {
+      const original = frame.error.message;
+      frame.error.message = transformErrorMessage(original, ctx.host);
+      if (ctx.debug && original !== frame.error.message) {
+        console.log("[WS] Transformed error.message:", original, "->", frame.error.message);
+      }
+    }
+    return frame;
+  },
+});
+
+/**
+ * Rejects RPC requests whose method matches WS_BLOCKED_METHODS.
+ * The request never reaches the gateway; the client gets an error response instead.
+ */
+const blockMethods: FrameInterceptorFactory = (env) => {
+  const blocked = parseList(env.WS_BLOCKED_METHODS);
+
+  return {
+    name: "block-methods",
+    directions: ["client-to-container"],
+    frameTypes: ["req"],
+    handle(frame, ctx) {
+      const method = frame.method;
+      if (!method || !blocked.some((pattern) => matchesMethod(method, pattern))) {
+        return frame;
+      }
+
+      console.log("[WS] Blocked method:", method, "user:", ctx.accessUser?.email);
+      ctx.reply({
+        type: "res",
+        id: frame.id,
+        ok: false,
+        error: {
+          code: "FORBIDDEN",
+          message: `Method "${method}" is blocked by gateway policy`,
+        },
+      });
+      return null;
+    },
+  };
+};
+
+/**
+ * Redacts secrets from everything the gateway sends to the client
+ * (tool output, chat messages, config snapshots).
+ */
+const redactSecrets: FrameInterceptorFactory = (env) => {
+  const patterns = buildRedactionPatterns(env);
+
+  return {
+    name: "redact-secrets",
+    directions: ["container-to-client"],
+    frameTypes: ["res", "event"],
+    handle(frame) {
+      return redactValue(frame, patterns) as GatewayFrame;
+    },
+  };
+};
+
+/**
+ * Logs every frame (truncated). Always runs, last, with DEBUG_ROUTES=true.
+ */
+const logFrames: FrameInterceptorFactory = () => ({
+  name: "log-frames",
+  directions: ["client-to-container", "container-to-client"],
+  handle(frame, ctx) {
+    const label = frame.method || frame.event || frame.id || "";
+    console.log(
+      `[WS] ${ctx.direction} ${frame.type} ${label}`,
+      JSON.stringify(frame).slice(0, 500),
+    );
+    return frame;
+  },
+});
+
+const registry = new Map<string, FrameInterceptorFactory>([
+  ["transform-errors", transformErrors],
+  ["block-methods", blockMethods],
+  ["redact-secrets", redactSecrets],
+  ["log-frames", logFrames],
+]);
+
+/**
+ * Register a custom interceptor so it can be enabled via WS_INTERCEPTORS.
+ * Call this at module load time (before the first request).
+ */
+export function registerFrameInterceptor(name: string, factory: FrameInterceptorFactory): void {
+  registry.set(name, factory);
+}
+
+/**
+ * Build the ordered interceptor pipeline from WS_INTERCEPTORS.
+ *
+ * WS_INTERCEPTORS is a comma-separated list of interceptor names. When unset,
+ * only the error transformer runs (the historical behaviour). Set it to an
+ * empty string to disable all interceptors. With DEBUG_ROUTES=true, frames
+ * are logged whatever it says, as the relay always did.
+ */
+export function createInterceptorPipeline(env: OpenClawEnv): FrameInterceptor[] {
+  const names =
+    env.WS_INTERCEPTORS === undefined ? [...DEFAULT_INTERCEPTORS] : parseList(env.WS_INTERCEPTORS);
+  if (env.DEBUG_ROUTES === "true" && !names.includes("log-frames")) {
+    names.push("log-frames");
+  }
+
+  const pipeline: FrameInterceptor[] = [];
+  for (const name of names) {
+    const factory = registry.get(name);
+    if (!factory) {
+      console.error("[WS] Unknown interceptor in WS_INTERCEPTORS:", name);
+      continue;
+    }
+    pipeline.push(factory(env));
+  }
+  return pipeline;
+}
+
+/**
+ * Run a raw WebSocket message through the pipeline.
+ *
+ * Binary and non-JSON messages pass through untouched. Returns the (possibly
+ * rewritten) message to forward, or null if an interceptor dropped it.
+ * An interceptor that throws is logged and skipped.
+ */
+export function runInterceptors(
+  pipeline: FrameInterceptor[],
+  data: string | ArrayBuffer,
+  ctx: InterceptorContext,
+): string | ArrayBuffer | null {
+  if (typeof data !== "string") return data;
+
+  const active = pipeline.filter((interceptor) => interceptor.directions.includes(ctx.direction));
+  if (active.length === 0) return data;
+
+  let frame: GatewayFrame;
+  try {
+    const parsed = JSON.parse(data);
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) return data;
+    frame = parsed as GatewayFrame;
+  } catch {
+    return data;
+  }
+
+  let touched = false;
+  for (const interceptor of active) {
+    if (interceptor.frameTypes && !interceptor.frameTypes.includes(frame.type)) continue;
+    touched = true;
+    try {
+      const result = interceptor.handle(frame, ctx);
+      if (result === null) {
+        if (ctx.debug) {
+          console.log(`[WS] Frame dropped by ${interceptor.name}:`, frame.type, frame.method);
+        }
+        return null;
+      }
+      frame = result;
+    } catch (err) {
+      console.error(`[WS] Interceptor ${interceptor.name} failed:`, err);
+    }
+  }
+
+  return touched ? JSON.stringify(frame) : data;
+}
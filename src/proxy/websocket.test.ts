@@ -0,0 +1,283 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { suppressConsole } from "../test-utils";
+import { isRetryableClose, WebSocketRelay, type WebSocketRelayOptions } from "./websocket";
+
+type Listener = (event: any) => void;
+
+/**
+ * Minimal accepted WebSocket: records sent frames and lets tests emit events
+ */
+class FakeSocket {
+  readyState = 1;
+  sent: unknown[] = [];
+  closedWith: { code: number; reason: string } | null = null;
+  private listeners = new Map<string, Listener[]>();
+
+  addEventListener(type: string, listener: Listener) {
+    this.listeners.set(type, [...(this.listeners.get(type) || []), listener]);
+  }
+
+  send(data: unknown) {
+    this.sent.push(data);
+  }
+
+  close(code: number, reason: string) {
+    this.readyState = 3;
+    this.closedWith = { code, reason };
+  }
+
+  emit(type: string, event: Record<string, unknown> = {}) {
+    for (const listener of this.listeners.get(type) || []) listener(event);
+  }
+
+  message(frame: unknown) {
+    this.emit("message", { data: typeof frame === "string" ? frame : JSON.stringify(frame) });
+  }
+
+  drop(code = 1006, reason = "") {
+    this.readyState = 3;
+    this.emit("close", { code, reason });
+  }
+
+  sentFrames() {
+    return this.sent.map((data) => JSON.parse(data as string));
+  }
+}
+
+const CONNECT = { type: "req", id: "c1", method: "connect", params: { minProtocol: 1 } };
+
+function createRelay(overrides: Partial<WebSocketRelayOptions> = {}) {
+  const client = new FakeSocket();
+  const container = new FakeSocket();
+  const reconnected = new FakeSocket();
+  const reconnect = vi.fn().mockResolvedValue(reconnected);
+  const onClose = vi.fn();
+
+  const relay = new WebSocketRelay({
+    client: client as unknown as WebSocket,
+    container: container as unknown as WebSocket,
+    reconnect,
+    fromClient: (data) => data,
+    fromContainer: (data) => data,
+    onClose,
+    ...overrides,
+  });
+
+  return { relay, client, container, reconnected, reconnect, onClose };
+}
+
+describe("isRetryableClose", () => {
+  it("retries when the gateway went away", () => {
+    expect(isRetryableClose(1006)).toBe(true);
+    expect(isRetryableClose(1012)).toBe(true);
+  });
+
+  it("does not retry normal closes or policy rejections", () => {
+    expect(isRetryableClose(1000)).toBe(false);
+    expect(isRetryableClose(1008)).toBe(false);
+    expect(isRetryableClose(4001)).toBe(false);
+  });
+});
+
+describe("WebSocketRelay", () => {
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("relays frames in both directions", () => {
+    const { client, container } = createRelay();
+
+    client.message(CONNECT);
+    container.message({ type: "res", id: "c1", ok: true });
+
+    expect(container.sentFrames()).toEqual([CONNECT]);
+    expect(client.sentFrames()).toEqual([{ type: "res", id: "c1", ok: true }]);
+  });
+
+  it("drops frames when a hook returns null and lets hooks reply", () => {
+    const { client, container } = createRelay({
+      fromClient: (_data, reply) => {
+        reply({ type: "res", id: "1", ok: false });
+        return null;
+      },
+    });
+
+    client.message({ type: "req", id: "1", method: "config.set" });
+
+    expect(container.sent).toEqual([]);
+    expect(client.sentFrames()).toEqual([{ type: "res", id: "1", ok: false }]);
+  });
+
+  it("passes non-retryable container closes on to the client", () => {
+    const { client, container, reconnect, onClose } = createRelay({
+      transformCloseReason: (reason) => `transformed: ${reason}`,
+    });
+
+    container.drop(1008, "pairing required");
+
+    expect(reconnect).not.toHaveBeenCalled();
+    expect(client.closedWith).toEqual({ code: 1008, reason: "transformed: pairing required" });
+    expect(onClose).toHaveBeenCalledWith(1008, "transformed: pairing required");
+  });
+
+  it("closes the container when the client closes", () => {
+    const { client, container, onClose } = createRelay();
+
+    client.emit("close", { code: 1000, reason: "bye" });
+
+    expect(container.closedWith).toEqual({ code: 1000, reason: "bye" });
+    expect(onClose).toHaveBeenCalledOnce();
+  });
+
+  it("reconnects, replays the handshake and flushes queued frames", async () => {
+    const { client, container, reconnected, reconnect } = createRelay();
+    client.message(CONNECT);
+    container.message({ type: "res", id: "c1", ok: true });
+
+    container.drop(1006);
+    client.message({ type: "req", id: "2", method: "chat.send", params: { text: "hi" } });
+    await vi.waitFor(() => expect(reconnect).toHaveBeenCalledOnce());
+    await vi.waitFor(() => expect(reconnected.sent).toHaveLength(1));
+
+    // Only the replayed handshake is sent until the gateway accepts it
+    expect(reconnected.sentFrames()).toEqual([CONNECT]);
+    expect(client.closedWith).toBeNull();
+
+    reconnected.message({ type: "event", event: "connect.challenge" });
+    reconnected.message({ type: "res", id: "c1", ok: true });
+
+    expect(reconnected.sentFrames()).toEqual([
+      CONNECT,
+      { type: "req", id: "2", method: "chat.send", params: { text: "hi" } },
+    ]);
+    // The handshake response and anything before it never reach the client
+    expect(client.sentFrames()).toEqual([{ type: "res", id: "c1", ok: true }]);
+
+    reconnected.message({ type: "res", id: "2", ok: true });
+    expect(client.sentFrames().at(-1)).toEqual({ type: "res", id: "2", ok: true });
+  });
+
+  it("sends a handshake the client made while reconnecting once, and answers it", async () => {
+    const { client, container, reconnected, reconnect } = createRelay();
+    client.message(CONNECT);
+    container.message({ type: "res", id: "c1", ok: true });
+
+    container.drop(1006);
+    const again = { ...CONNECT, id: "c2" };
+    client.message(again);
+    await vi.waitFor(() => expect(reconnect).toHaveBeenCalledOnce());
+    await vi.waitFor(() => expect(reconnected.sent).toHaveLength(1));
+    reconnected.message({ type: "res", id: "c2", ok: true });
+
+    expect(reconnected.sentFrames()).toEqual([again]);
+    expect(client.sentFrames()).toEqual([
+      { type: "res", id: "c1", ok: true },
+      { type: "res", id: "c2", ok: true },
+    ]);
+  });
+
+  it("answers a handshake the client made while the replay was pending without sending it", async () => {
+    const { client, container, reconnected } = createRelay();
+    client.message(CONNECT);
+    container.message({ type: "res", id: "c1", ok: true });
+
+    container.drop(1006);
+    await vi.waitFor(() => expect(reconnected.sent).toHaveLength(1));
+    client.message({ ...CONNECT, id: "c2" });
+    reconnected.message({ type: "res", id: "c1", ok: true, payload: { protocol: 1 } });
+
+    expect(reconnected.sentFrames()).toEqual([CONNECT]);
+    expect(client.sentFrames()).toEqual([
+      { type: "res", id: "c1", ok: true },
+      { type: "res", id: "c2", ok: true, payload: { protocol: 1 } },
+    ]);
+  });
+
+  it("fails requests the old gateway never answered", async () => {
+    const { client, container, reconnect } = createRelay();
+    client.message({ type: "req", id: "7", method: "chat.send" });
+
+    container.drop(1012, "service restart");
+    await vi.waitFor(() => expect(reconnect).toHaveBeenCalled());
+
+    expect(client.sentFrames()).toEqual([
+      {
+        type: "res",
+        id: "7",
+        ok: false,
+        error: {
+          code: "UNAVAILABLE",
+          message: 'Gateway restarted before responding to "chat.send", please retry',
+        },
+      },
+    ]);
+  });
+
+  it("closes the client when the replayed handshake is rejected", async () => {
+    const { client, container, reconnected } = createRelay();
+    client.message(CONNECT);
+    container.message({ type: "res", id: "c1", ok: true });
+
+    container.drop(1006);
+    await vi.waitFor(() => expect(reconnected.sent).toHaveLength(1));
+    reconnected.message({ type: "res", id: "c1", ok: false });
+
+    expect(client.closedWith).toEqual({
+      code: 1012,
+      reason: "Gateway restarted, please reconnect",
+    });
+  });
+
+  it("closes the client when the queue overflows", () => {
+    const { client, container } = createRelay({
+      reconnect: () => new Promise(() => {}),
+      limits: { maxQueuedFrames: 2 },
+    });
+
+    container.drop(1006);
+    client.message({ type: "req", id: "1", method: "a" });
+    client.message({ type: "req", id: "2", method: "b" });
+    expect(client.closedWith).toBeNull();
+
+    client.message({ type: "req", id: "3", method: "c" });
+    expect(client.closedWith).toEqual({
+      code: 1013,
+      reason: "Gateway unavailable, try again later",
+    });
+  });
+
+  it("gives up when the gateway doesn't come back in time", async () => {
+    vi.useFakeTimers();
+    const { client, container, onClose } = createRelay({
+      reconnect: vi.fn().mockRejectedValue(new Error("still down")),
+      limits: { reconnectTimeoutMs: 5000 },
+    });
+
+    container.drop(1006);
+    await vi.advanceTimersByTimeAsync(5000);
+
+    expect(client.closedWith).toEqual({ code: 1011, reason: "Gateway did not come back in time" });
+    expect(onClose).toHaveBeenCalledOnce();
+  });
+
+  it("closes a late reconnect if the client left in the meantime", async () => {
+    let resolve: (socket: WebSocket) => void = () => {};
+    const late = new FakeSocket();
+    const { client, container } = createRelay({
+      reconnect: () =>
+        new Promise<WebSocket>((r) => {
+          resolve = r;
+        }),
+    });
+
+    container.drop(1006);
+    client.emit("close", { code: 1001, reason: "tab closed" });
+    resolve(late as unknown as WebSocket);
+
+    await vi.waitFor(() => expect(late.closedWith).toEqual({ code: 1000, reason: "Client gone" }));
+  });
+});
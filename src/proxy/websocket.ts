@@ -0,0 +1,381 @@
+/**
+ * Resilient WebSocket relay between the Control UI and the gateway.
+ *
+ * When the container socket drops because the gateway restarted, the client
+ * socket is kept open: client frames are queued (bounded by count, size and
+ * time), the gateway is brought back, a new container socket is opened, the
+ * client's original `connect` handshake is replayed and the queue is flushed.
+ */
+
+type RelayData = string | ArrayBuffer;
+
+export interface RelayLimits {
+  /** Maximum number of client frames held while reconnecting */
+  maxQueuedFrames: number;
+  /** Maximum total size of queued client frames */
+  maxQueuedBytes: number;
+  /** Give up and close the client if the gateway isn't back within this time */
+  reconnectTimeoutMs: number;
+}
+
+export const DEFAULT_RELAY_LIMITS: RelayLimits = {
+  maxQueuedFrames: 100,
+  maxQueuedBytes: 1024 * 1024,
+  reconnectTimeoutMs: 120_000,
+};
+
+export interface WebSocketRelayOptions {
+  /** Server side of the client WebSocketPair (already accepted) */
+  client: WebSocket;
+  /** Initial container socket (already accepted) */
+  container: WebSocket;
+  /** Bring the gateway back and return a new, accepted container socket */
+  reconnect: () => Promise<WebSocket>;
+  /**
+   * Process a client frame before forwarding (interceptors, recording); null drops it.
+   * `reply` sends a frame straight back to the client.
+   */
+  fromClient: (data: RelayData, reply: (frame: unknown) => void) => RelayData | null;
+  /** Process a container frame before forwarding; `reply` sends to the current container socket */
+  fromContainer: (data: RelayData, reply: (frame: unknown) => void) => RelayData | null;
+  /** Rewrite the close reason passed on to the client */
+  transformCloseReason?: (reason: string) => string;
+  /** Called once when the relay shuts down */
+  onClose?: (code: number, reason: string) => void;
+  debug?: boolean;
+  limits?: Partial<RelayLimits>;
+}
+
+// Close codes that mean the gateway went away rather than rejected the client
+const RETRYABLE_CLOSE_CODES = new Set([1001, 1006, 1011, 1012, 1013, 1014]);
+
+// Codes that are reserved for the runtime and can't be passed to close()
+const RESERVED_CLOSE_CODES = new Set([1005, 1006, 1015]);
+
+const MAX_BACKOFF_MS = 10_000;
+
+// WebSocket readyState values (the WebSocket global isn't available in tests)
+const OPEN = 1;
+const CLOSED = 3;
+
+/**
+ * Check whether a container close should trigger a reconnect
+ */
+export function isRetryableClose(code: number): boolean {
+  return RETRYABLE_CLOSE_CODES.has(code);
+}
+
+/**
+ * Parse a request frame's id and method without throwing
+ */
+function parseRequest(data: RelayData): { id: string; method: string } | null {
+  if (typeof data !== "string" || !data.startsWith("{")) return null;
+  try {
+    const frame = JSON.parse(data);
+    if (frame?.type === "req" && typeof frame.id === "string" && typeof frame.method === "string") {
+      return { id: frame.id, method: frame.method };
+    }
+  } catch {
+    // Not JSON
+  }
+  return null;
+}
+
+/**
+ * Parse a response frame's id and ok flag without throwing
+ */
+function parseResponse(data: RelayData): { id: string; ok: boolean } | null {
+  if (typeof data !== "string" || !data.startsWith("{")) return null;
+  try {
+    const frame = JSON.parse(data);
+    if (frame?.type === "res" && typeof frame.id === "string") {
+      return { id: frame.id, ok: frame.ok === true };
+    }
+  } catch {
+    // Not JSON
+  }
+  return null;
+}
+
+function byteLength(data: RelayData): number {
+  return typeof data === "string" ? new TextEncoder().encode(data).byteLength : data.byteLength;
+}
+
+/**
+ * Relays frames between a client and the gateway, reconnecting to the
+ * gateway when it restarts
+ */
+export class WebSocketRelay {
+  private readonly limits: RelayLimits;
+  private container: WebSocket | null = null;
+  private queue: RelayData[] = [];
+  private queuedBytes = 0;
+  private closed = false;
+  private reconnecting = false;
+  private resumeTimer: ReturnType<typeof setTimeout> | null = null;
+  /** Last `connect` request from the client, replayed on reconnect */
+  private connectFrame: string | null = null;
+  /** Id of the replayed `connect`, whose response is swallowed */
+  private pendingConnectId: string | null = null;
+  /** Id of a `connect` the client sent while reconnecting, which waits for the replay's response */
+  private unansweredConnectId: string | null = null;
+  /** Requests forwarded to the gateway that haven't been answered yet */
+  private inflight = new Map<string, string>();
+
+  constructor(private readonly options: WebSocketRelayOptions) {
+    this.limits = { ...DEFAULT_RELAY_LIMITS, ...options.limits };
+
+    const { client } = options;
+    client.addEventListener("message", (event) => this.handleClientMessage(event.data));
+    client.addEventListener("close", (event) => {
+      this.log("Client closed:", event.code, event.reason);
+      this.shutdown(event.code, event.reason);
+    });
+    client.addEventListener("error", (event) => {
+      console.error("[WS] Client error:", event);
+      this.shutdown(1011, "Client error");
+    });
+
+    this.attach(options.container);
+  }
+
+  /** Whether the relay is currently waiting for the gateway to come back */
+  get isReconnecting(): boolean {
+    return this.reconnecting || this.pendingConnectId !== null;
+  }
+
+  private attach(socket: WebSocket): void {
+    this.container = socket;
+
+    socket.addEventListener("message", (event) => {
+      if (socket === this.container) this.handleContainerMessage(event.data);
+    });
+    socket.addEventListener("close", (event) => {
+      if (socket === this.container) this.handleContainerClose(event.code, event.reason);
+    });
+    socket.addEventListener("error", (event) => {
+      console.error("[WS] Container error:", event);
+      if (socket === this.container) this.handleContainerClose(1006, "Container error");
+    });
+  }
+
+  private handleClientMessage(raw: RelayData): void {
+    if (this.closed) return;
+
+    const data = this.options.fromClient(raw, (frame) => this.sendToClient(frame));
+    if (data === null) return;
+
+    const request = parseRequest(data);
+    if (request?.method === "connect" && typeof data === "string") {
+      this.connectFrame = data;
+      // The reconnect replays it (or is replaying one already), so it mustn't
+      // be queued as well
+      if (this.isReconnecting) {
+        this.unansweredConnectId = request.id;
+        return;
+      }
+    }
+
+    if (this.container?.readyState === OPEN && !this.isReconnecting) {
+      this.sendToContainer(data);
+      return;
+    }
+
+    if (
+      this.queue.length >= this.limits.maxQueuedFrames ||
+      this.queuedBytes + byteLength(data) > this.limits.maxQueuedBytes
+    ) {
+      console.error("[WS] Reconnect queue full, closing client");
+      this.shutdown(1013, "Gateway unavailable, try again later");
+      return;
+    }
+
+    this.queue.push(data);
+    this.queuedBytes += byteLength(data);
+    this.log("Queued client frame while gateway is unavailable, queue size:", this.queue.length);
+  }
+
+  private handleContainerMessage(raw: RelayData): void {
+    if (this.closed) return;
+
+    // While replaying the handshake, hold everything until the connect response
+    if (this.pendingConnectId) {
+      const response = parseResponse(raw);
+      if (response?.id !== this.pendingConnectId) return;
+
+      this.pendingConnectId = null;
+      if (response.ok) {
+        console.log("[WS] Gateway session resumed");
+        this.finishResume();
+        if (this.unansweredConnectId) {
+          // A connect sent after the replay went out answers under the replay's id
+          const id = this.unansweredConnectId;
+          this.unansweredConnectId = null;
+          this.deliverToClient(
+            id === response.id ? raw : JSON.stringify({ ...JSON.parse(raw as string), id }),
+          );
+        }
+      } else {
+        console.error("[WS] Gateway rejected the replayed handshake, closing client");
+        this.shutdown(1012, "Gateway restarted, please reconnect");
+      }
+      return;
+    }
+
+    const response = parseResponse(raw);
+    if (response) this.inflight.delete(response.id);
+    this.deliverToClient(raw);
+  }
+
+  private deliverToClient(raw: RelayData): void {
+    const data = this.options.fromContainer(raw, (frame) => {
+      if (this.container?.readyState === OPEN) this.container.send(JSON.stringify(frame));
+    });
+    if (data === null) return;
+
+    if (this.options.client.readyState === OPEN) {
+      this.options.client.send(data);
+    } else {
+      this.log("Client not open, readyState:", this.options.client.readyState);
+    }
+  }
+
+  private handleContainerClose(code: number, reason: string): void {
+    this.log("Container closed:", code, reason);
+    this.container = null;
+    if (this.closed) return;
+
+    if (this.options.client.readyState !== OPEN) {
+      this.shutdown(code, reason);
+      return;
+    }
+
+    if (!isRetryableClose(code)) {
+      this.shutdown(code, this.options.transformCloseReason?.(reason) ?? reason);
+      return;
+    }
+
+    // A reconnect attempt that failed mid-handshake is already being handled
+    if (this.reconnecting) return;
+
+    console.log("[WS] Gateway connection lost, reconnecting:", code, reason);
+    this.failInflight();
+    this.pendingConnectId = null;
+    void this.resume();
+  }
+
+  /**
+   * Answer requests the old gateway never responded to, so callers don't hang
+   */
+  private failInflight(): void {
+    for (const [id, method] of this.inflight) {
+      if (method === "connect") continue;
+      this.sendToClient({
+        type: "res",
+        id,
+        ok: false,
+        error: {
+          code: "UNAVAILABLE",
+          message: `Gateway restarted before responding to "${method}", please retry`,
+        },
+      });
+    }
+    this.inflight.clear();
+  }
+
+  private async resume(): Promise<void> {
+    this.reconnecting = true;
+    // Keep the original deadline if the gateway drops again mid-handshake
+    this.resumeTimer ??= setTimeout(() => {
+      if (this.isReconnecting) {
+        console.error("[WS] Gateway did not come back in time, closing client");
+        this.shutdown(1011, "Gateway did not come back in time");
+      }
+    }, this.limits.reconnectTimeoutMs);
+
+    for (let attempt = 1; !this.closed; attempt++) {
+      try {
+        const socket = await this.options.reconnect();
+        if (this.closed) {
+          socket.close(1000, "Client gone");
+          return;
+        }
+
+        this.attach(socket);
+        this.reconnecting = false;
+        console.log("[WS] Reconnected to gateway after", attempt, "attempt(s)");
+
+        const request = this.connectFrame ? parseRequest(this.connectFrame) : null;
+        if (this.connectFrame && request) {
+          this.pendingConnectId = request.id;
+          socket.send(this.connectFrame);
+        } else {
+          this.finishResume();
+        }
+        return;
+      } catch (error) {
+        console.error(`[WS] Reconnect attempt ${attempt} failed:`, error);
+        const delay = Math.min(1000 * 2 ** (attempt - 1), MAX_BACKOFF_MS);
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  private finishResume(): void {
+    if (this.resumeTimer) clearTimeout(this.resumeTimer);
+    this.resumeTimer = null;
+
+    const queued = this.queue;
+    this.queue = [];
+    this.queuedBytes = 0;
+    if (queued.length > 0) {
+      this.log("Flushing", queued.length, "queued client frame(s)");
+    }
+    for (const data of queued) {
+      this.sendToContainer(data);
+    }
+  }
+
+  private sendToContainer(data: RelayData): void {
+    const request = parseRequest(data);
+    if (request) this.inflight.set(request.id, request.method);
+    this.container?.send(data);
+  }
+
+  private sendToClient(frame: unknown): void {
+    if (this.options.client.readyState === OPEN) {
+      this.options.client.send(JSON.stringify(frame));
+    }
+  }
+
+  private shutdown(code: number, reason: string): void {
+    if (this.closed) return;
+    this.closed = true;
+    if (this.resumeTimer) clearTimeout(this.resumeTimer);
+    this.resumeTimer = null;
+    this.queue = [];
+
+    // Truncate to 123 bytes max for the WebSocket spec
+    let closeReason = reason || "";
+    if (closeReason.length > 123) {
+      closeReason = `${closeReason.slice(0, 120)}...`;
+    }
+    const closeCode = RESERVED_CLOSE_CODES.has(code) || code < 1000 ? 1011 : code;
+
+    for (const socket of [this.options.client, this.container]) {
+      if (socket && socket.readyState !== CLOSED) {
+        try {
+          socket.close(closeCode, closeReason);
+        } catch (error) {
+          this.log("Error closing socket:", error);
+        }
+      }
+    }
+
+    this.options.onClose?.(code, reason);
+  }
+
+  private log(...args: unknown[]): void {
+    if (this.options.debug) console.log("[WS]", ...args);
+  }
+}
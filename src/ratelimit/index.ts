@@ -0,0 +1,10 @@
+export {
+  DEFAULT_RATE_LIMITS,
+  parseRateLimits,
+  RATE_LIMIT_CLASSES,
+  type RateLimitClass,
+  type RateLimitDecision,
+  RateLimiter,
+  type RateLimitRule,
+} from "./limiter";
+export { createRateLimitMiddleware, type RateLimitLease, rateLimitClassFor } from "./middleware";
@@ -0,0 +1,120 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { createMockEnv, createMockStorage, suppressConsole } from "../test-utils";
+import { DEFAULT_RATE_LIMITS, parseRateLimits, RateLimiter, type RateLimitRule } from "./limiter";
+
+describe("parseRateLimits", () => {
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  it("uses the defaults when RATE_LIMITS is unset", () => {
+    expect(parseRateLimits(createMockEnv())).toEqual(DEFAULT_RATE_LIMITS);
+  });
+
+  it("disables limiting with RATE_LIMITS=off", () => {
+    expect(parseRateLimits(createMockEnv({ RATE_LIMITS: "off" }))).toEqual({});
+  });
+
+  it("overrides individual classes", () => {
+    const limits = parseRateLimits(
+      createMockEnv({ RATE_LIMITS: "agent=5/30s:1, chat-completions = 120/m, bogus=1/m, cdp=x" }),
+    );
+
+    expect(limits.agent).toMatchObject({ requests: 5, windowMs: 30_000, maxConcurrent: 1 });
+    expect(limits["chat-completions"]).toMatchObject({
+      requests: 120,
+      windowMs: 60_000,
+      maxConcurrent: null,
+    });
+    expect(limits.cdp).toEqual(DEFAULT_RATE_LIMITS.cdp);
+  });
+});
+
+describe("RateLimiter", () => {
+  const rule: RateLimitRule = { requests: 3, windowMs: 60_000, maxConcurrent: 2, leaseTtlMs: 1000 };
+
+  it("rejects requests over the rate with the time left in the window", async () => {
+    const limiter = new RateLimiter(createMockStorage());
+    for (let i = 0; i < 3; i++) {
+      const decision = await limiter.acquire("agent:alice", rule, 1000 + i);
+      if (decision.allowed && decision.leaseId) {
+        await limiter.release("agent:alice", decision.leaseId);
+      }
+    }
+
+    expect(await limiter.acquire("agent:alice", rule, 31_000)).toEqual({
+      allowed: false,
+      reason: "rate",
+      retryAfterSeconds: 30,
+    });
+    expect((await limiter.acquire("agent:alice", rule, 61_000)).allowed).toBe(true);
+  });
+
+  it("counts identities separately", async () => {
+    const limiter = new RateLimiter(createMockStorage());
+    const single = { ...rule, requests: 1, maxConcurrent: null };
+
+    expect((await limiter.acquire("agent:alice", single)).allowed).toBe(true);
+    expect((await limiter.acquire("agent:bob", single)).allowed).toBe(true);
+    expect((await limiter.acquire("agent:alice", single)).allowed).toBe(false);
+  });
+
+  it("caps concurrent requests until a slot is released", async () => {
+    const limiter = new RateLimiter(createMockStorage());
+    const generous = { ...rule, requests: 100 };
+
+    const first = await limiter.acquire("cdp:ip:1.2.3.4", generous, 0);
+    await limiter.acquire("cdp:ip:1.2.3.4", generous, 0);
+
+    expect(await limiter.acquire("cdp:ip:1.2.3.4", generous, 0)).toMatchObject({
+      allowed: false,
+      reason: "concurrency",
+    });
+
+    if (!first.allowed || !first.leaseId) throw new Error("expected a lease");
+    await limiter.release("cdp:ip:1.2.3.4", first.leaseId);
+
+    expect((await limiter.acquire("cdp:ip:1.2.3.4", generous, 0)).allowed).toBe(true);
+  });
+
+  it("expires leases that are never released", async () => {
+    const limiter = new RateLimiter(createMockStorage());
+    const generous = { ...rule, requests: 100 };
+
+    await limiter.acquire("agent:alice", generous, 0);
+    await limiter.acquire("agent:alice", generous, 0);
+
+    expect((await limiter.acquire("agent:alice", generous, 999)).allowed).toBe(false);
+    expect((await limiter.acquire("agent:alice", generous, 1000)).allowed).toBe(true);
+  });
+});
+
+describe("RateLimiter.sweep", () => {
+  const rule: RateLimitRule = { requests: 3, windowMs: 60_000, maxConcurrent: 2, leaseTtlMs: 1000 };
+
+  it("deletes records whose window is over and that hold no live lease", async () => {
+    const storage = createMockStorage();
+    const limiter = new RateLimiter(storage);
+    const slow = { ...rule, leaseTtlMs: 5 * 60_000 };
+    await limiter.acquire("cdp:ip:1.2.3.4", rule, 0);
+    await limiter.acquire("agent:alice", slow, 0);
+    await limiter.acquire("agent:bob", rule, 90_000);
+
+    // The IP's lease expired and its window is over; alice's lease is live, bob's window isn't over
+    expect(await limiter.sweep(120_000)).toBe(1);
+    expect([...storage.data.keys()].filter((key) => key.startsWith("ratelimit:"))).toEqual([
+      "ratelimit:agent:alice",
+      "ratelimit:agent:bob",
+    ]);
+  });
+
+  it("runs at most once an hour", async () => {
+    const storage = createMockStorage();
+    const limiter = new RateLimiter(storage);
+    await limiter.sweep(0);
+    await limiter.acquire("agent:alice", rule, 0);
+
+    expect(await limiter.sweep(30 * 60_000)).toBe(0);
+    expect(await limiter.sweep(60 * 60_000)).toBe(1);
+  });
+});
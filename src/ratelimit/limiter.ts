@@ -0,0 +1,198 @@
+import type { KeyValueStorage, OpenClawEnv } from "../types";
+import { parseDuration } from "../utils/duration";
+
+/**
+ * Route classes with their own limits
+ * - agent: POST /api/v1/agent (spawns an `openclaw agent` process per call)
+ * - chat-completions: POST /v1/chat/completions (proxied to the gateway)
+ * - cdp: new CDP WebSocket sessions (each launches a browser)
+ */
+export const RATE_LIMIT_CLASSES = ["agent", "chat-completions", "cdp"] as const;
+
+export type RateLimitClass = (typeof RATE_LIMIT_CLASSES)[number];
+
+/**
+ * Limits for one route class, applied per identity
+ */
+export interface RateLimitRule {
+  /** Requests allowed per window */
+  requests: number;
+  /** Window length */
+  windowMs: number;
+  /** Requests allowed in flight at once (null: unlimited) */
+  maxConcurrent: number | null;
+  /** How long a concurrency slot is held if it is never released (e.g. the Worker was evicted) */
+  leaseTtlMs: number;
+}
+
+export const DEFAULT_RATE_LIMITS: Record<RateLimitClass, RateLimitRule> = {
+  agent: { requests: 10, windowMs: 60_000, maxConcurrent: 2, leaseTtlMs: 3 * 60_000 },
+  "chat-completions": { requests: 60, windowMs: 60_000, maxConcurrent: 4, leaseTtlMs: 10 * 60_000 },
+  cdp: { requests: 10, windowMs: 60_000, maxConcurrent: 2, leaseTtlMs: 60 * 60_000 },
+};
+
+/**
+ * Suggested wait when every concurrency slot is taken. Slots usually free up
+ * long before their lease expires, so don't tell clients to wait that long.
+ */
+const CONCURRENCY_RETRY_AFTER_SECONDS = 5;
+
+const STORAGE_PREFIX = "ratelimit:";
+
+const SWEEP_KEY = "ratelimit-sweep";
+const SWEEP_INTERVAL_MS = 60 * 60_000;
+/** Window assumed for records stored without one; longer than any sensible limit */
+const UNKNOWN_WINDOW_MS = 24 * 60 * 60_000;
+
+function isRateLimitClass(value: string): value is RateLimitClass {
+  return (RATE_LIMIT_CLASSES as readonly string[]).includes(value);
+}
+
+/**
+ * Build the limits from RATE_LIMITS, a comma-separated list of
+ * `class=<requests>/<window>[:<max concurrent>]` overrides on top of the defaults,
+ * e.g. `agent=5/m:1,chat-completions=120/m`. `RATE_LIMITS=off` disables limiting.
+ * Invalid entries are logged and ignored.
+ */
+export function parseRateLimits(env: OpenClawEnv): Partial<Record<RateLimitClass, RateLimitRule>> {
+  const value = env.RATE_LIMITS?.trim();
+  if (value?.toLowerCase() === "off") return {};
+
+  const limits: Partial<Record<RateLimitClass, RateLimitRule>> = { ...DEFAULT_RATE_LIMITS };
+  if (!value) return limits;
+
+  for (const entry of value.split(",")) {
+    const trimmed = entry.trim();
+    if (!trimmed) continue;
+
+    const match = trimmed.match(/^([\w-]+)\s*=\s*(\d+)\s*\/\s*([^:]+?)\s*(?::\s*(\d+))?$/);
+    const routeClass = match?.[1];
+    const windowMs = match ? parseDuration(match[3]) : null;
+    if (!match || !routeClass || !isRateLimitClass(routeClass) || !windowMs) {
+      console.error(`[RATELIMIT] Ignoring invalid RATE_LIMITS entry: ${trimmed}`);
+      continue;
+    }
+
+    const maxConcurrent = match[4] ? Number.parseInt(match[4], 10) : null;
+    limits[routeClass] = {
+      ...DEFAULT_RATE_LIMITS[routeClass],
+      requests: Number.parseInt(match[2], 10),
+      windowMs,
+      maxConcurrent: maxConcurrent && maxConcurrent > 0 ? maxConcurrent : null,
+    };
+  }
+  return limits;
+}
+
+/**
+ * Result of trying to start a request
+ */
+export type RateLimitDecision =
+  | { allowed: true; leaseId: string | null }
+  | { allowed: false; reason: "rate" | "concurrency"; retryAfterSeconds: number };
+
+interface RateLimitRecord {
+  windowStart: number;
+  /** When the window ends (missing in records stored before it was tracked) */
+  windowEnd?: number;
+  count: number;
+  /** In-flight requests: lease ID -> expiry (epoch ms) */
+  leases: Record<string, number>;
+}
+
+/**
+ * Whether a record no longer limits anything: its window is over and none of
+ * its leases is live
+ */
+function isIdle(record: RateLimitRecord, now: number): boolean {
+  const windowEnd = record.windowEnd ?? record.windowStart + UNKNOWN_WINDOW_MS;
+  return windowEnd <= now && Object.values(record.leases).every((expiresAt) => expiresAt <= now);
+}
+
+/**
+ * Fixed-window request counters and concurrency leases, kept in Durable Object
+ * storage so limits hold across Worker isolates and while the container is down.
+ * Each call reads and writes one record without awaiting anything else, so the
+ * Durable Object's input gate keeps it atomic.
+ */
+export class RateLimiter {
+  constructor(private storage: KeyValueStorage) {}
+
+  async acquire(key: string, rule: RateLimitRule, now = Date.now()): Promise<RateLimitDecision> {
+    const storageKey = STORAGE_PREFIX + key;
+    const record = (await this.storage.get<RateLimitRecord>(storageKey)) ?? {
+      windowStart: now,
+      count: 0,
+      leases: {},
+    };
+
+    if (now - record.windowStart >= rule.windowMs) {
+      record.windowStart = now;
+      record.count = 0;
+    }
+    record.windowEnd = record.windowStart + rule.windowMs;
+    for (const [id, expiresAt] of Object.entries(record.leases)) {
+      if (expiresAt <= now) delete record.leases[id];
+    }
+
+    if (record.count >= rule.requests) {
+      await this.storage.put(storageKey, record);
+      return {
+        allowed: false,
+        reason: "rate",
+        retryAfterSeconds: Math.max(
+          1,
+          Math.ceil((record.windowStart + rule.windowMs - now) / 1000),
+        ),
+      };
+    }
+    if (rule.maxConcurrent !== null && Object.keys(record.leases).length >= rule.maxConcurrent) {
+      await this.storage.put(storageKey, record);
+      return {
+        allowed: false,
+        reason: "concurrency",
+        retryAfterSeconds: CONCURRENCY_RETRY_AFTER_SECONDS,
+      };
+    }
+
+    record.count++;
+    let leaseId: string | null = null;
+    if (rule.maxConcurrent !== null) {
+      leaseId = crypto.randomUUID();
+      record.leases[leaseId] = now + rule.leaseTtlMs;
+    }
+    await this.storage.put(storageKey, record);
+    return { allowed: true, leaseId };
+  }
+
+  async release(key: string, leaseId: string): Promise<void> {
+    const storageKey = STORAGE_PREFIX + key;
+    const record = await this.storage.get<RateLimitRecord>(storageKey);
+    if (!record || !(leaseId in record.leases)) return;
+
+    delete record.leases[leaseId];
+    await this.storage.put(storageKey, record);
+  }
+
+  /**
+   * Delete the records of identities that no longer hold anything, at most
+   * once an hour. Otherwise every identity ever limited, e.g. each client IP
+   * of the CDP route, would stay in storage for good. Returns how many were
+   * deleted.
+   */
+  async sweep(now = Date.now()): Promise<number> {
+    const lastSweep = await this.storage.get<number>(SWEEP_KEY);
+    if (lastSweep !== undefined && now - lastSweep < SWEEP_INTERVAL_MS) return 0;
+    await this.storage.put(SWEEP_KEY, now);
+
+    let deleted = 0;
+    const records = await this.storage.list<RateLimitRecord>({ prefix: STORAGE_PREFIX });
+    for (const [storageKey, record] of records) {
+      if (isIdle(record, now)) {
+        await this.storage.delete(storageKey);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+}
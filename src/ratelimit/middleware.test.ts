@@ -0,0 +1,113 @@
+import { Hono } from "hono";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createMockEnv, createMockStorage, suppressConsole } from "../test-utils";
+import type { AppEnv } from "../types";
+import { RateLimiter } from "./limiter";
+import { createRateLimitMiddleware, rateLimitClassFor } from "./middleware";
+
+describe("rateLimitClassFor", () => {
+  it("classifies limited routes", () => {
+    expect(rateLimitClassFor("POST", "/api/v1/agent", false)).toBe("agent");
+    expect(rateLimitClassFor("POST", "/v1/chat/completions", false)).toBe("chat-completions");
+    expect(rateLimitClassFor("GET", "/cdp", true)).toBe("cdp");
+  });
+
+  it("ignores everything else", () => {
+    expect(rateLimitClassFor("GET", "/api/v1/sessions", false)).toBeNull();
+    expect(rateLimitClassFor("GET", "/cdp", false)).toBeNull();
+    expect(rateLimitClassFor("GET", "/cdp/json/version", false)).toBeNull();
+  });
+});
+
+describe("createRateLimitMiddleware", () => {
+  let limiter: RateLimiter;
+  let release: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    suppressConsole();
+    limiter = new RateLimiter(createMockStorage());
+    release = vi.fn((key: string, leaseId: string) => limiter.release(key, leaseId));
+  });
+
+  function createApp(handler: (c: any) => Response | Promise<Response>, pathPrefix = "") {
+    // Like the Worker, routes see paths without the gateway's path prefix
+    const app = new Hono<AppEnv>({
+      getPath: (request) => new URL(request.url).pathname.slice(pathPrefix.length) || "/",
+    });
+    app.use("*", async (c, next) => {
+      c.set("sandbox", {
+        acquireRateLimit: (key: string, rule: any) => limiter.acquire(key, rule),
+        releaseRateLimit: release,
+      } as any);
+      c.set("accessUser", { kind: "human", email: "alice@example.com" });
+      await next();
+    });
+    app.use("*", createRateLimitMiddleware());
+    app.all("*", handler);
+    return app;
+  }
+
+  it("returns 429 with Retry-After once the rate is exceeded", async () => {
+    const app = createApp((c) => c.json({ ok: true }));
+    const env = createMockEnv({ RATE_LIMITS: "agent=2/m" });
+
+    await app.request("/api/v1/agent", { method: "POST" }, env);
+    await app.request("/api/v1/agent", { method: "POST" }, env);
+    const res = await app.request("/api/v1/agent", { method: "POST" }, env);
+
+    expect(res.status).toBe(429);
+    expect(res.headers.get("Retry-After")).toBe("60");
+    expect(((await res.json()) as { error: string }).error).toBe("Too Many Requests");
+  });
+
+  it("limits requests to a gateway with a path prefix", async () => {
+    const app = createApp((c) => c.json({ ok: true }), "/company");
+    const env = createMockEnv({ RATE_LIMITS: "agent=1/m" });
+
+    await app.request("/company/api/v1/agent", { method: "POST" }, env);
+    const res = await app.request("/company/api/v1/agent", { method: "POST" }, env);
+
+    expect(res.status).toBe(429);
+  });
+
+  it("releases the concurrency slot when the handler finishes", async () => {
+    const app = createApp((c) => c.json({ ok: true }));
+
+    const res = await app.request("/api/v1/agent", { method: "POST" }, createMockEnv());
+
+    expect(res.status).toBe(200);
+    expect(release).toHaveBeenCalledTimes(1);
+  });
+
+  it("leaves held slots to the handler", async () => {
+    const app = createApp((c) => {
+      c.get("rateLimitLease").hold();
+      return c.json({ ok: true });
+    });
+
+    await app.request("/api/v1/agent", { method: "POST" }, createMockEnv());
+
+    expect(release).not.toHaveBeenCalled();
+  });
+
+  it("keeps the slot until a streamed response finishes", async () => {
+    const app = createApp(
+      () => new Response("data: hi\n\n", { headers: { "Content-Type": "text/event-stream" } }),
+    );
+
+    const res = await app.request("/v1/chat/completions", { method: "POST" }, createMockEnv());
+
+    expect(release).not.toHaveBeenCalled();
+    expect(await res.text()).toBe("data: hi\n\n");
+    expect(release).toHaveBeenCalledTimes(1);
+  });
+
+  it("does nothing when limiting is off", async () => {
+    const app = createApp((c) => c.json({ ok: true }));
+    const env = createMockEnv({ RATE_LIMITS: "off" });
+
+    for (let i = 0; i < 20; i++) {
+      expect((await app.request("/api/v1/agent", { method: "POST" }, env)).status).toBe(200);
+    }
+  });
+});
@@ -0,0 +1,140 @@
+import type { Context, Next } from "hono";
+import type { AppEnv } from "../types";
+import { parseRateLimits, type RateLimitClass } from "./limiter";
+
+/**
+ * A concurrency slot held for the lifetime of a request. Handlers whose work
+ * outlives their response (e.g. a WebSocket session) call hold() and release
+ * the slot themselves; otherwise the middleware releases it.
+ */
+export interface RateLimitLease {
+  /** Take over releasing the slot from the middleware */
+  hold(): void;
+  /** Free the slot. Safe to call more than once. */
+  release(): Promise<void>;
+}
+
+/**
+ * Map a request to its rate limit class, or null if it isn't limited
+ */
+export function rateLimitClassFor(
+  method: string,
+  path: string,
+  isWebSocket: boolean,
+): RateLimitClass | null {
+  if (method === "POST" && path === "/api/v1/agent") return "agent";
+  if (method === "POST" && path === "/v1/chat/completions") return "chat-completions";
+  if (method === "GET" && (path === "/cdp" || path === "/cdp/") && isWebSocket) return "cdp";
+  return null;
+}
+
+/**
+ * Identity the limits are counted against: the authenticated principal,
+ * or the client IP for unauthenticated routes such as CDP.
+ */
+function identityFor(c: Context<AppEnv>): string {
+  const user = c.get("accessUser");
+  if (user) return user.email;
+  return `ip:${c.req.header("CF-Connecting-IP") || "unknown"}`;
+}
+
+/**
+ * Release the lease once a streamed body has been fully sent
+ */
+function releaseAfterBody(response: Response, release: () => Promise<void>): Response {
+  const body = (response.body as ReadableStream).pipeThrough(
+    new TransformStream({
+      flush() {
+        return release();
+      },
+    }),
+  );
+  return new Response(body, response);
+}
+
+/**
+ * Create the rate limit middleware. Counters live in the Sandbox Durable
+ * Object, so limits apply across isolates and while the container is cold.
+ * Rejected requests get 429 with Retry-After.
+ */
+export function createRateLimitMiddleware() {
+  return async (c: Context<AppEnv>, next: Next) => {
+    const isWebSocket = c.req.header("Upgrade")?.toLowerCase() === "websocket";
+    // c.req.path is without the path prefix of the gateway the request was routed to
+    const routeClass = rateLimitClassFor(c.req.method, c.req.path, isWebSocket);
+    if (!routeClass) {
+      return next();
+    }
+
+    const rule = parseRateLimits(c.env)[routeClass];
+    if (!rule) {
+      return next();
+    }
+
+    const sandbox = c.get("sandbox");
+    const key = `${routeClass}:${identityFor(c)}`;
+
+    let decision: Awaited<ReturnType<typeof sandbox.acquireRateLimit>>;
+    try {
+      decision = await sandbox.acquireRateLimit(key, rule);
+    } catch (err) {
+      // Fail open: a limiter outage shouldn't take the API down with it
+      console.error("[RATELIMIT] Failed to check rate limit:", err);
+      return next();
+    }
+
+    if (!decision.allowed) {
+      console.log(`[RATELIMIT] Rejected ${key} (${decision.reason})`);
+      c.header("Retry-After", String(decision.retryAfterSeconds));
+      return c.json(
+        {
+          error: "Too Many Requests",
+          hint:
+            decision.reason === "rate"
+              ? `Rate limit for ${routeClass} is ${rule.requests} requests per ${rule.windowMs / 1000}s`
+              : `Too many concurrent ${routeClass} requests (max ${rule.maxConcurrent})`,
+          retryAfter: decision.retryAfterSeconds,
+        },
+        429,
+      );
+    }
+
+    const leaseId = decision.leaseId;
+    if (!leaseId) {
+      return next();
+    }
+
+    let held = false;
+    let released = false;
+    const release = async () => {
+      if (released) return;
+      released = true;
+      try {
+        await sandbox.releaseRateLimit(key, leaseId);
+      } catch (err) {
+        console.error("[RATELIMIT] Failed to release concurrency slot:", err);
+      }
+    };
+    c.set("rateLimitLease", {
+      hold: () => {
+        held = true;
+      },
+      release,
+    });
+
+    try {
+      await next();
+    } catch (err) {
+      await release();
+      throw err;
+    }
+
+    if (held) return;
+    // Streaming responses (e.g. chat completions with stream: true) keep the slot until done
+    if (c.res.body && c.res.headers.get("Content-Type")?.includes("text/event-stream")) {
+      c.res = releaseAfterBody(c.res, release);
+      return;
+    }
+    await release();
+  };
+}
@@ -1,19 +1,75 @@
-import { Hono } from "hono";
-import { createAccessMiddleware } from "../auth";
-import { R2_MOUNT_PATH } from "../config";
+import { getSandbox } from "@cloudflare/sandbox";
+import { type Context, Hono } from "hono";
+import { streamSSE } from "hono/streaming";
 import {
+  auditScope,
+  getRecordedSession,
+  listRecordedSessions,
+  loadReplay,
+  streamRecordedFrames,
+} from "../audit";
+import {
+  API_KEY_SCOPES,
+  areRolesConfigured,
+  createAccessMiddleware,
+  isApiKeyScope,
+  requirePrincipalKind,
+  requireRole,
+  resolveRole,
+} from "../auth";
+import {
+  BackupIntegrityError,
+  BackupKeyring,
+  BundleError,
+  checkGatewayLiveness,
   ensureGateway,
-  findExistingGateway,
+  exportBundle,
+  type GatewayPhase,
+  GatewayRpcClient,
+  GatewayRpcError,
+  importBundle,
+  isBackupConfigured,
+  LAST_SYNC_KEY,
   lastMountError,
-  mountR2Storage,
+  MAX_AWAKE_OVERRIDE_HOURS,
+  MAX_BUNDLE_BYTES,
+  openSnapshotStore,
+  parseBackupAreas,
+  parseBackupStorage,
+  parseGatewayRegistry,
+  parseReloadStrategy,
+  parseResourceMonitorConfig,
+  parseRetentionPolicy,
+  parseSleepSchedule,
+  parseSyncSpec,
+  readPinnedSnapshots,
+  readSnapshotIndex,
+  readStartupProgress,
+  readSyncSpec,
+  reloadGateway,
+  resolveSleepPolicy,
+  restoreBackup,
+  rotateSnapshotKeys,
+  SYNC_SPEC_KEY,
+  type SyncSpec,
+  sampleResources,
+  setSnapshotPinned,
+  setSnapshotQuarantine,
   syncToR2,
   waitForProcess,
+  withBackupLease,
+  writeSyncSpec,
 } from "../gateway";
 import type { AppEnv } from "../types";
 
 // CLI commands can take 10-15 seconds to complete due to WebSocket connection overhead
 const CLI_TIMEOUT_MS = 20000;
 
+// Startup progress streams poll the supervisor this often and close after a
+// while; EventSource reconnects on its own
+const STARTUP_POLL_MS = 1000;
+const STARTUP_STREAM_MS = 5 * 60_000;
+
 // Auth profiles path inside the container
 const AUTH_PROFILES_PATH = "/root/.openclaw/agents/main/agent/auth-profiles.json";
 const CONFIG_PATH = "/root/.openclaw/openclaw.json";
@@ -26,6 +82,38 @@ function toBase64(str: string): string {
   return btoa(binary);
 }
 
+/**
+ * Ensure the gateway is running and run `fn` over a protocol connection to it
+ */
+async function withGatewayRpc<T>(
+  c: Context<AppEnv>,
+  fn: (client: GatewayRpcClient) => Promise<T>,
+): Promise<T> {
+  const sandbox = c.get("sandbox");
+  const { port } = await ensureGateway(sandbox, c.env);
+  const { client } = await GatewayRpcClient.connect(sandbox, c.env, { port });
+  try {
+    return await fn(client);
+  } finally {
+    client.close();
+  }
+}
+
+/**
+ * Error response for a failed gateway call. Errors from the gateway keep
+ * their code: 504 if it didn't answer in time, 502 if it refused the request.
+ */
+function gatewayErrorResponse(c: Context<AppEnv>, error: unknown, fields: object = {}) {
+  const message = error instanceof Error ? error.message : "Unknown error";
+  if (error instanceof GatewayRpcError) {
+    return c.json(
+      { ...fields, error: message, code: error.code },
+      error.code === "TIMEOUT" ? 504 : 502,
+    );
+  }
+  return c.json({ ...fields, error: message }, 500);
+}
+
 /**
  * API routes
  * - /api/admin/* - Protected admin API routes (Cloudflare Access required)
@@ -35,68 +123,49 @@ function toBase64(str: string): string {
 const api = new Hono<AppEnv>();
 
 /**
- * Admin API routes - all protected by Cloudflare Access
+ * Admin API routes - all protected by Cloudflare Access. Each route declares
+ * the minimum role it needs with requireRole().
  */
 const adminApi = new Hono<AppEnv>();
 
 // Middleware: Verify Cloudflare Access JWT for all admin routes
 adminApi.use("*", createAccessMiddleware({ type: "json" }));
 
-// GET /api/admin/devices - List pending and paired devices
-adminApi.get("/devices", async (c) => {
-  const sandbox = c.get("sandbox");
+// Credentials (model providers, API keys) can only be changed by a logged-in user,
+// never by a service token or API key
+adminApi.use("/auth/*", requirePrincipalKind("human"));
+adminApi.use("/api-keys", requirePrincipalKind("human"));
+adminApi.use("/api-keys/*", requirePrincipalKind("human"));
+// A bundle holds the auth profiles and the gateway token; read-only keys mustn't get them
+adminApi.use("/storage/export", requirePrincipalKind("human"));
+
+// GET /api/admin/me - The current principal and its role, so the UI can hide actions it can't perform
+adminApi.get("/me", (c) => {
+  const user = c.get("accessUser");
+  if (!user) {
+    return c.json({ error: "Unauthorized" }, 401);
+  }
+  return c.json({
+    email: user.email,
+    name: user.name,
+    kind: user.kind,
+    role: resolveRole(user, c.env),
+    rolesConfigured: areRolesConfigured(c.env),
+  });
+});
 
+// GET /api/admin/devices - List pending and paired devices
+adminApi.get("/devices", requireRole("viewer"), async (c) => {
   try {
-    // Ensure openclaw is running first
-    await ensureGateway(sandbox, c.env);
-
-    // Run OpenClaw CLI to list devices
-    // Must specify --url and --token (OpenClaw v2026.2.3 requires explicit credentials with --url)
-    const token = c.env.OPENCLAW_GATEWAY_TOKEN;
-    const tokenArg = token ? ` --token ${token}` : "";
-    const proc = await sandbox.startProcess(
-      `openclaw devices list --json --url ws://localhost:18789${tokenArg}`,
-    );
-    await waitForProcess(proc, CLI_TIMEOUT_MS);
-
-    const logs = await proc.getLogs();
-    const stdout = logs.stdout || "";
-    const stderr = logs.stderr || "";
-
-    // Try to parse JSON output
-    try {
-      // Find JSON in output (may have other log lines)
-      const jsonMatch = stdout.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        const data = JSON.parse(jsonMatch[0]);
-        return c.json(data);
-      }
-
-      // If no JSON found, return raw output for debugging
-      return c.json({
-        pending: [],
-        paired: [],
-        raw: stdout,
-        stderr,
-      });
-    } catch {
-      return c.json({
-        pending: [],
-        paired: [],
-        raw: stdout,
-        stderr,
-        parseError: "Failed to parse CLI output",
-      });
-    }
+    const devices = await withGatewayRpc(c, (client) => client.listDevices());
+    return c.json(devices);
   } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : "Unknown error";
-    return c.json({ error: errorMessage }, 500);
+    return gatewayErrorResponse(c, error);
   }
 });
 
 // POST /api/admin/devices/:requestId/approve - Approve a pending device
-adminApi.post("/devices/:requestId/approve", async (c) => {
-  const sandbox = c.get("sandbox");
+adminApi.post("/devices/:requestId/approve", requireRole("operator"), async (c) => {
   const requestId = c.req.param("requestId");
 
   if (!requestId || !/^[a-zA-Z0-9_-]+$/.test(requestId)) {
@@ -104,113 +173,52 @@ adminApi.post("/devices/:requestId/approve", async (c) => {
   }
 
   try {
-    // Ensure openclaw is running first
-    await ensureGateway(sandbox, c.env);
-
-    // Run OpenClaw CLI to approve the device
-    const token = c.env.OPENCLAW_GATEWAY_TOKEN;
-    const tokenArg = token ? ` --token ${token}` : "";
-    const proc = await sandbox.startProcess(
-      `openclaw devices approve ${requestId} --url ws://localhost:18789${tokenArg}`,
-    );
-    await waitForProcess(proc, CLI_TIMEOUT_MS);
-
-    const logs = await proc.getLogs();
-    const stdout = logs.stdout || "";
-    const stderr = logs.stderr || "";
-
-    // Check for success indicators (case-insensitive, CLI outputs "Approved ...")
-    const success = stdout.toLowerCase().includes("approved") || proc.exitCode === 0;
-
-    return c.json({
-      success,
-      requestId,
-      message: success ? "Device approved" : "Approval may have failed",
-      stdout,
-      stderr,
-    });
+    const { device } = await withGatewayRpc(c, (client) => client.approveDevice(requestId));
+    return c.json({ success: true, requestId, message: "Device approved", device });
   } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : "Unknown error";
-    return c.json({ error: errorMessage }, 500);
+    return gatewayErrorResponse(c, error);
   }
 });
 
 // POST /api/admin/devices/approve-all - Approve all pending devices
-adminApi.post("/devices/approve-all", async (c) => {
-  const sandbox = c.get("sandbox");
-
+adminApi.post("/devices/approve-all", requireRole("operator"), async (c) => {
   try {
-    // Ensure openclaw is running first
-    await ensureGateway(sandbox, c.env);
-
-    // First, get the list of pending devices
-    const token = c.env.OPENCLAW_GATEWAY_TOKEN;
-    const tokenArg = token ? ` --token ${token}` : "";
-    const listProc = await sandbox.startProcess(
-      `openclaw devices list --json --url ws://localhost:18789${tokenArg}`,
-    );
-    await waitForProcess(listProc, CLI_TIMEOUT_MS);
-
-    const listLogs = await listProc.getLogs();
-    const stdout = listLogs.stdout || "";
-
-    // Parse pending devices
-    let pending: Array<{ requestId: string }> = [];
-    try {
-      const jsonMatch = stdout.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        const data = JSON.parse(jsonMatch[0]);
-        pending = data.pending || [];
+    const response = await withGatewayRpc(c, async (client) => {
+      const { pending } = await client.listDevices();
+      if (pending.length === 0) {
+        return { approved: [], message: "No pending devices to approve" };
       }
-    } catch {
-      return c.json({ error: "Failed to parse device list", raw: stdout }, 500);
-    }
-
-    if (pending.length === 0) {
-      return c.json({ approved: [], message: "No pending devices to approve" });
-    }
-
-    // Approve each pending device
-    const results: Array<{ requestId: string; success: boolean; error?: string }> = [];
 
-    for (const device of pending) {
-      try {
-        // eslint-disable-next-line no-await-in-loop -- sequential device approval required
-        const approveProc = await sandbox.startProcess(
-          `openclaw devices approve ${device.requestId} --url ws://localhost:18789${tokenArg}`,
-        );
-        // eslint-disable-next-line no-await-in-loop
-        await waitForProcess(approveProc, CLI_TIMEOUT_MS);
-
-        // eslint-disable-next-line no-await-in-loop
-        const approveLogs = await approveProc.getLogs();
-        const success =
-          approveLogs.stdout?.toLowerCase().includes("approved") || approveProc.exitCode === 0;
-
-        results.push({ requestId: device.requestId, success });
-      } catch (err) {
-        results.push({
-          requestId: device.requestId,
-          success: false,
-          error: err instanceof Error ? err.message : "Unknown error",
-        });
+      const results: Array<{ requestId: string; success: boolean; error?: string }> = [];
+      for (const device of pending) {
+        try {
+          // eslint-disable-next-line no-await-in-loop -- sequential device approval required
+          await client.approveDevice(device.requestId);
+          results.push({ requestId: device.requestId, success: true });
+        } catch (err) {
+          results.push({
+            requestId: device.requestId,
+            success: false,
+            error: err instanceof Error ? err.message : "Unknown error",
+          });
+        }
       }
-    }
 
-    const approvedCount = results.filter((r) => r.success).length;
-    return c.json({
-      approved: results.filter((r) => r.success).map((r) => r.requestId),
-      failed: results.filter((r) => !r.success),
-      message: `Approved ${approvedCount} of ${pending.length} device(s)`,
+      const approvedCount = results.filter((r) => r.success).length;
+      return {
+        approved: results.filter((r) => r.success).map((r) => r.requestId),
+        failed: results.filter((r) => !r.success),
+        message: `Approved ${approvedCount} of ${pending.length} device(s)`,
+      };
     });
+    return c.json(response);
   } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : "Unknown error";
-    return c.json({ error: errorMessage }, 500);
+    return gatewayErrorResponse(c, error);
   }
 });
 
 // POST /api/admin/pairing/approve - Approve a channel pairing request (Telegram, Discord, etc.)
-adminApi.post("/pairing/approve", async (c) => {
+adminApi.post("/pairing/approve", requireRole("operator"), async (c) => {
   const sandbox = c.get("sandbox");
 
   let body: { channel?: string; code?: string };
@@ -233,7 +241,8 @@ adminApi.post("/pairing/approve", async (c) => {
   try {
     await ensureGateway(sandbox, c.env);
 
-    // openclaw pairing works directly with config files, no --url/--token needed
+    // Channel pairing isn't part of the gateway protocol: the CLI updates the
+    // channel's pairing store in the config directory, with no --url/--token needed
     const proc = await sandbox.startProcess(`openclaw pairing approve ${channel} ${code}`);
     await waitForProcess(proc, CLI_TIMEOUT_MS);
 
@@ -261,36 +270,28 @@ adminApi.post("/pairing/approve", async (c) => {
 });
 
 // GET /api/admin/storage - Get R2 storage status and last sync time
-adminApi.get("/storage", async (c) => {
+adminApi.get("/storage", requireRole("viewer"), async (c) => {
   const sandbox = c.get("sandbox");
-  const hasCredentials = !!(
-    c.env.R2_ACCESS_KEY_ID &&
-    c.env.R2_SECRET_ACCESS_KEY &&
-    c.env.CF_ACCOUNT_ID
-  );
+  const storage = parseBackupStorage(c.env);
+  const configured = isBackupConfigured(c.env);
 
-  // Check which credentials are missing
+  // Check which credentials are missing; the binding needs none
   const missing: string[] = [];
-  if (!c.env.R2_ACCESS_KEY_ID) missing.push("R2_ACCESS_KEY_ID");
-  if (!c.env.R2_SECRET_ACCESS_KEY) missing.push("R2_SECRET_ACCESS_KEY");
-  if (!c.env.CF_ACCOUNT_ID) missing.push("CF_ACCOUNT_ID");
+  if (storage === "mount") {
+    if (!c.env.R2_ACCESS_KEY_ID) missing.push("R2_ACCESS_KEY_ID");
+    if (!c.env.R2_SECRET_ACCESS_KEY) missing.push("R2_SECRET_ACCESS_KEY");
+    if (!c.env.CF_ACCOUNT_ID) missing.push("CF_ACCOUNT_ID");
+  }
 
   let lastSync: string | null = null;
 
   // If R2 is configured, check for last sync timestamp
-  if (hasCredentials) {
+  if (configured) {
     try {
-      // Mount R2 if not already mounted
-      await mountR2Storage(sandbox, c.env);
-
-      // Check for sync marker file
-      const proc = await sandbox.startProcess(
-        `cat ${R2_MOUNT_PATH}/.last-sync 2>/dev/null || echo ""`,
-      );
-      await waitForProcess(proc, 5000);
-      const logs = await proc.getLogs();
-      const timestamp = logs.stdout?.trim();
-      if (timestamp && timestamp !== "") {
+      // Mounts R2 if not already mounted
+      const store = await openSnapshotStore(sandbox, c.env);
+      const timestamp = (await store?.readText(LAST_SYNC_KEY))?.trim();
+      if (timestamp) {
         lastSync = timestamp;
       }
     } catch {
@@ -299,84 +300,686 @@ adminApi.get("/storage", async (c) => {
   }
 
   return c.json({
-    configured: hasCredentials,
+    configured,
+    storage,
+    encrypted: !!c.env.BACKUP_ENCRYPTION_KEY,
     missing: missing.length > 0 ? missing : undefined,
     lastSync,
     mountError: lastMountError || undefined,
-    message: hasCredentials
+    message: configured
       ? "R2 storage is configured. Your data will persist across container restarts."
       : "R2 storage is not configured. Paired devices and conversations will be lost when the container restarts.",
   });
 });
 
-// POST /api/admin/storage/sync - Trigger a manual sync to R2
-adminApi.post("/storage/sync", async (c) => {
+// POST /api/admin/storage/sync - Trigger a manual sync to R2. With {"force": true} in the body,
+// backs up even if the workspace shrank by more than BACKUP_MAX_SHRINK.
+adminApi.post("/storage/sync", requireRole("operator"), async (c) => {
   const sandbox = c.get("sandbox");
 
-  const result = await syncToR2(sandbox, c.env);
+  let body: { force?: unknown } = {};
+  try {
+    const text = await c.req.text();
+    if (text) body = JSON.parse(text);
+  } catch {
+    return c.json({ error: "Invalid JSON body" }, 400);
+  }
+
+  const result = await syncToR2(sandbox, c.env, { force: body.force === true });
 
   if (result.success) {
     return c.json({
       success: true,
       message: "Sync completed successfully",
       lastSync: result.lastSync,
+      snapshotId: result.snapshotId,
+      added: result.added,
+      changed: result.changed,
+      deleted: result.deleted,
+      bytesTransferred: result.bytesTransferred,
     });
   } else {
-    const status = result.error?.includes("not configured") ? 400 : 500;
+    const status = result.error?.includes("not configured")
+      ? 400
+      : result.problem || result.inProgress
+        ? 409
+        : 500;
     return c.json(
       {
         success: false,
         error: result.error,
         details: result.details,
+        problem: result.problem,
       },
       status,
     );
   }
 });
 
-// POST /api/admin/gateway/restart - Kill the current gateway and start a new one
-adminApi.post("/gateway/restart", async (c) => {
+const SNAPSHOT_ID_PATTERN = /^\d{8}T\d{6}Z$/;
+
+// GET /api/admin/storage/snapshots - Backup snapshots (newest first) and the retention policy
+adminApi.get("/storage/snapshots", requireRole("viewer"), async (c) => {
   const sandbox = c.get("sandbox");
+  if (!isBackupConfigured(c.env)) {
+    return c.json({ error: "R2 storage is not configured" }, 400);
+  }
 
   try {
-    // Find and kill the existing gateway process
-    const existingProcess = await findExistingGateway(sandbox);
+    const store = await openSnapshotStore(sandbox, c.env);
+    if (!store) {
+      return c.json({ error: "Failed to mount R2 storage" }, 500);
+    }
+    const index = await readSnapshotIndex(store);
+    const pinned = await readPinnedSnapshots(store);
+    return c.json({
+      snapshots: index.snapshots
+        .map((snapshot) => ({ ...snapshot, pinned: pinned.includes(snapshot.id) }))
+        .reverse(),
+      retention: parseRetentionPolicy(c.env),
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    return c.json({ error: errorMessage }, 500);
+  }
+});
 
-    if (existingProcess) {
-      console.log("Killing existing gateway process:", existingProcess.id);
-      try {
-        await existingProcess.kill();
-      } catch (killErr) {
-        console.error("Error killing process:", killErr);
-      }
-      // Wait a moment for the process to die
-      await new Promise((r) => setTimeout(r, 2000));
+async function pinSnapshot(c: Context<AppEnv>, pinned: boolean) {
+  const sandbox = c.get("sandbox");
+  const id = c.req.param("id") ?? "";
+  if (!SNAPSHOT_ID_PATTERN.test(id)) {
+    return c.json({ error: "Invalid snapshot ID" }, 400);
+  }
+  if (!isBackupConfigured(c.env)) {
+    return c.json({ error: "R2 storage is not configured" }, 400);
+  }
+
+  try {
+    const store = await openSnapshotStore(sandbox, c.env);
+    if (!store) {
+      return c.json({ error: "Failed to mount R2 storage" }, 500);
+    }
+    if (!(await setSnapshotPinned(store, id, pinned))) {
+      return c.json({ error: "Snapshot not found" }, 404);
     }
+    return c.json({ success: true, id, pinned });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    return c.json({ error: errorMessage }, 500);
+  }
+}
 
-    // Clean up after killed process:
-    // 1. Kill orphaned gateway child (bash wrapper dies but `openclaw gateway &` survives)
-    // 2. Remove stale lockfile (SIGKILL skips bash traps)
-    try {
-      const cleanup = await sandbox.startProcess(
-        'pkill -f "openclaw gateway" 2>/dev/null; rm -rf /tmp/start-openclaw.lock; sleep 1; true',
+async function quarantineSnapshot(c: Context<AppEnv>, reason: string | null) {
+  const sandbox = c.get("sandbox");
+  const id = c.req.param("id") ?? "";
+  if (!SNAPSHOT_ID_PATTERN.test(id)) {
+    return c.json({ error: "Invalid snapshot ID" }, 400);
+  }
+  if (!isBackupConfigured(c.env)) {
+    return c.json({ error: "R2 storage is not configured" }, 400);
+  }
+
+  try {
+    const store = await openSnapshotStore(sandbox, c.env);
+    if (!store) {
+      return c.json({ error: "Failed to mount R2 storage" }, 500);
+    }
+    const found = await withBackupLease(sandbox, () => setSnapshotQuarantine(store, id, reason));
+    if (found === null) {
+      return c.json({ error: "Another backup is in progress" }, 409);
+    }
+    if (!found) {
+      return c.json({ error: "Snapshot not found" }, 404);
+    }
+    return c.json({ success: true, id, quarantined: reason ?? undefined });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    return c.json({ error: errorMessage }, 500);
+  }
+}
+
+// POST /api/admin/storage/snapshots/:id/quarantine - Keep boots from restoring a snapshot
+adminApi.post("/storage/snapshots/:id/quarantine", requireRole("operator"), (c) =>
+  quarantineSnapshot(c, `quarantined by ${c.get("accessUser")?.email ?? "an operator"}`),
+);
+
+// DELETE /api/admin/storage/snapshots/:id/quarantine - Let boots restore a quarantined snapshot again
+adminApi.delete("/storage/snapshots/:id/quarantine", requireRole("operator"), (c) =>
+  quarantineSnapshot(c, null),
+);
+
+// POST /api/admin/storage/snapshots/:id/pin - Keep a snapshot regardless of the retention policy
+adminApi.post("/storage/snapshots/:id/pin", requireRole("operator"), (c) => pinSnapshot(c, true));
+
+// DELETE /api/admin/storage/snapshots/:id/pin - Leave a snapshot to the retention policy again
+adminApi.delete("/storage/snapshots/:id/pin", requireRole("operator"), (c) =>
+  pinSnapshot(c, false),
+);
+
+// POST /api/admin/storage/encryption/rotate - Switch to a new data key and re-encrypt all snapshots.
+// Also encrypts snapshots stored before encryption was turned on.
+adminApi.post("/storage/encryption/rotate", requireRole("owner"), async (c) => {
+  const sandbox = c.get("sandbox");
+  if (!isBackupConfigured(c.env)) {
+    return c.json({ error: "R2 storage is not configured" }, 400);
+  }
+  if (!c.env.BACKUP_ENCRYPTION_KEY) {
+    return c.json({ error: "BACKUP_ENCRYPTION_KEY is not set" }, 400);
+  }
+
+  try {
+    const store = await openSnapshotStore(sandbox, c.env);
+    if (!store) {
+      return c.json({ error: "Failed to mount R2 storage" }, 500);
+    }
+    const keyring = BackupKeyring.fromEnv(store, c.env);
+    if (!keyring) {
+      return c.json({ error: "BACKUP_ENCRYPTION_KEY is not set" }, 400);
+    }
+    const result = await withBackupLease(sandbox, () => rotateSnapshotKeys(store, keyring));
+    if (!result) {
+      return c.json({ error: "Another backup is in progress" }, 409);
+    }
+    return c.json({ success: true, ...result });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// GET /api/admin/storage/sync-spec - What backups include and how often, and whether that's the default
+adminApi.get("/storage/sync-spec", requireRole("viewer"), async (c) => {
+  const sandbox = c.get("sandbox");
+  if (!isBackupConfigured(c.env)) {
+    return c.json({ error: "R2 storage is not configured" }, 400);
+  }
+
+  try {
+    const store = await openSnapshotStore(sandbox, c.env);
+    if (!store) {
+      return c.json({ error: "Failed to mount R2 storage" }, 500);
+    }
+    const spec = await readSyncSpec(store);
+    return c.json({ ...spec, isDefault: !(await store.readText(SYNC_SPEC_KEY)) });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+async function saveSyncSpec(c: Context<AppEnv>, spec: SyncSpec | null) {
+  const sandbox = c.get("sandbox");
+  if (!isBackupConfigured(c.env)) {
+    return c.json({ error: "R2 storage is not configured" }, 400);
+  }
+
+  try {
+    const store = await openSnapshotStore(sandbox, c.env);
+    if (!store) {
+      return c.json({ error: "Failed to mount R2 storage" }, 500);
+    }
+    await writeSyncSpec(store, spec);
+    // The cron decides what's due from the copy in the Durable Object
+    await sandbox.recordSyncSpec(spec);
+    return c.json({ success: true, ...(await readSyncSpec(store)) });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    return c.json({ error: errorMessage }, 500);
+  }
+}
+
+// PUT /api/admin/storage/sync-spec - Replace the sync spec with {"rules": [...]}. Takes effect
+// with the next backup and restore.
+adminApi.put("/storage/sync-spec", requireRole("operator"), async (c) => {
+  let spec: SyncSpec;
+  try {
+    spec = parseSyncSpec(await c.req.json());
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Invalid JSON";
+    return c.json({ error: errorMessage }, 400);
+  }
+  return saveSyncSpec(c, spec);
+});
+
+// DELETE /api/admin/storage/sync-spec - Go back to the default sync spec
+adminApi.delete("/storage/sync-spec", requireRole("operator"), (c) => saveSyncSpec(c, null));
+
+// POST /api/admin/storage/snapshots/:id/restore - Restore areas of a snapshot into the container
+// (all by default), then restart the gateway. With dryRun, only returns what would change.
+adminApi.post("/storage/snapshots/:id/restore", requireRole("operator"), async (c) => {
+  const sandbox = c.get("sandbox");
+  const id = c.req.param("id");
+  if (!SNAPSHOT_ID_PATTERN.test(id)) {
+    return c.json({ error: "Invalid snapshot ID" }, 400);
+  }
+  if (!isBackupConfigured(c.env)) {
+    return c.json({ error: "R2 storage is not configured" }, 400);
+  }
+
+  let body: { areas?: unknown; dryRun?: unknown };
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ error: "Invalid JSON body" }, 400);
+  }
+  const areas =
+    body.areas === undefined ||
+    (Array.isArray(body.areas) && body.areas.every((a) => typeof a === "string"))
+      ? parseBackupAreas(body.areas as string[] | undefined)
+      : null;
+  if (!areas) {
+    return c.json({ error: "areas must be a list of: config, workspace, skills" }, 400);
+  }
+  const dryRun = body.dryRun === true;
+  let restart = !dryRun;
+
+  try {
+    const result = await restoreBackup(sandbox, c.env, id, areas, { dryRun });
+    if (!result) {
+      restart = false;
+      return c.json({ error: "Snapshot not found" }, 404);
+    }
+    return c.json({
+      success: true,
+      dryRun,
+      ...result.diff,
+      previousSnapshotId: result.previousSnapshotId ?? undefined,
+      message: dryRun
+        ? undefined
+        : "Restore complete, the gateway is restarting. Clients will reconnect automatically.",
+    });
+  } catch (error) {
+    // The snapshot is damaged and now quarantined
+    if (error instanceof BackupIntegrityError) {
+      return c.json({ error: error.message, problem: error.problem, quarantined: true }, 409);
+    }
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    return c.json({ error: errorMessage }, 500);
+  } finally {
+    // The restore stops the gateway; start it again even if the restore failed
+    if (restart) {
+      c.executionCtx.waitUntil(
+        ensureGateway(sandbox, c.env).catch((err) => {
+          console.error("Gateway start after restore failed:", err);
+        }),
+      );
+    }
+  }
+});
+
+// GET /api/admin/storage/export - Download the assistant's state as a bundle (gzipped tar).
+// ?authProfiles=false leaves out auth profiles.
+adminApi.get("/storage/export", requireRole("owner"), async (c) => {
+  const sandbox = c.get("sandbox");
+  try {
+    const { manifest, stream } = await exportBundle(sandbox, {
+      authProfiles: c.req.query("authProfiles") !== "false",
+    });
+    const stamp = manifest.createdAt.replace(/[-:]/g, "").replace(/\.\d+/, "");
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "application/gzip",
+        "Content-Disposition": `attachment; filename="openclaw-${stamp}.tar.gz"`,
+      },
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// POST /api/admin/storage/import - Seed the container from a bundle in the request body, then
+// restart the gateway. ?dryRun=true only checks the bundle; ?force=true imports a bundle from a
+// newer OpenClaw.
+adminApi.post("/storage/import", requireRole("owner"), async (c) => {
+  const sandbox = c.get("sandbox");
+  const dryRun = c.req.query("dryRun") === "true";
+
+  const length = Number.parseInt(c.req.header("Content-Length") ?? "0", 10);
+  if (length > MAX_BUNDLE_BYTES) {
+    return c.json({ error: "Bundle is too large" }, 413);
+  }
+  const bundle = new Uint8Array(await c.req.arrayBuffer());
+  if (bundle.byteLength === 0) {
+    return c.json({ error: "Request body must be a bundle" }, 400);
+  }
+  if (bundle.byteLength > MAX_BUNDLE_BYTES) {
+    return c.json({ error: "Bundle is too large" }, 413);
+  }
+
+  let restart = false;
+  try {
+    const result = await importBundle(sandbox, c.env, bundle, {
+      dryRun,
+      force: c.req.query("force") === "true",
+    });
+    restart = !dryRun;
+    return c.json({
+      success: true,
+      dryRun,
+      ...result,
+      message: dryRun
+        ? undefined
+        : "Import complete, the gateway is restarting. Clients will reconnect automatically.",
+    });
+  } catch (error) {
+    if (error instanceof BundleError) {
+      return c.json(
+        { error: error.message, problem: error.problem },
+        error.problem === "invalid" ? 400 : 409,
       );
-      await waitForProcess(cleanup, 10000);
-    } catch {
-      // Non-fatal
     }
+    // The gateway may have been stopped already
+    restart = !dryRun;
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    return c.json({ error: errorMessage }, 500);
+  } finally {
+    if (restart) {
+      c.executionCtx.waitUntil(
+        ensureGateway(sandbox, c.env).catch((err) => {
+          console.error("Gateway start after import failed:", err);
+        }),
+      );
+    }
+  }
+});
+
+// GET /api/admin/audit/sessions - List recorded WebSocket sessions (newest first)
+adminApi.get("/audit/sessions", requireRole("operator"), async (c) => {
+  const user = c.req.query("user") || undefined;
+  const limit = Number.parseInt(c.req.query("limit") || "100", 10);
+
+  try {
+    const scope = auditScope(c.get("gateway").gateway);
+    const sessions = await listRecordedSessions(c.env.OPENCLAW_BUCKET, scope, {
+      user,
+      limit: Number.isFinite(limit) && limit > 0 ? limit : 100,
+    });
+    return c.json({ recording: c.env.AUDIT_RECORDING === "true", sessions });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// GET /api/admin/audit/sessions/:user/:id - Download a session's frames as JSONL
+adminApi.get("/audit/sessions/:user/:id", requireRole("operator"), async (c) => {
+  const user = c.req.param("user");
+  const id = c.req.param("id");
+  const scope = auditScope(c.get("gateway").gateway);
+
+  const session = await getRecordedSession(c.env.OPENCLAW_BUCKET, scope, user, id);
+  if (!session) {
+    return c.json({ error: "Session not found" }, 404);
+  }
+
+  const body = await streamRecordedFrames(c.env.OPENCLAW_BUCKET, scope, user, id);
+  return new Response(body, {
+    headers: {
+      "Content-Type": "application/x-ndjson",
+      "Content-Disposition": `attachment; filename="${id}.jsonl"`,
+    },
+  });
+});
+
+// GET /api/admin/audit/sessions/:user/:id/replay - Session metadata plus a frame timeline
+adminApi.get("/audit/sessions/:user/:id/replay", requireRole("operator"), async (c) => {
+  const direction = c.req.query("direction");
+  if (direction && direction !== "client-to-container" && direction !== "container-to-client") {
+    return c.json({ error: "direction must be client-to-container or container-to-client" }, 400);
+  }
+
+  const scope = auditScope(c.get("gateway").gateway);
+  const session = await getRecordedSession(
+    c.env.OPENCLAW_BUCKET,
+    scope,
+    c.req.param("user"),
+    c.req.param("id"),
+  );
+  if (!session) {
+    return c.json({ error: "Session not found" }, 404);
+  }
+
+  const frames = await loadReplay(c.env.OPENCLAW_BUCKET, scope, session, { direction });
+  return c.json({ session, frames });
+});
+
+// GET /api/admin/api-keys - List API keys (hashes are never returned)
+adminApi.get("/api-keys", requireRole("owner"), async (c) => {
+  const keys = await c.get("sandbox").listApiKeys();
+  return c.json({ keys, scopes: API_KEY_SCOPES });
+});
+
+// POST /api/admin/api-keys - Mint a new API key; the token is only returned once
+adminApi.post("/api-keys", requireRole("owner"), async (c) => {
+  let body: { name?: unknown; scopes?: unknown; expiresInDays?: unknown };
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ error: "Invalid JSON body" }, 400);
+  }
+
+  const name = typeof body.name === "string" ? body.name.trim() : "";
+  if (!name || name.length > 100) {
+    return c.json({ error: "name is required (max 100 characters)" }, 400);
+  }
+
+  const scopes = Array.isArray(body.scopes) ? body.scopes : [];
+  if (scopes.length === 0 || !scopes.every(isApiKeyScope)) {
+    return c.json(
+      { error: `scopes must be a non-empty list of: ${API_KEY_SCOPES.join(", ")}` },
+      400,
+    );
+  }
+
+  const expiresInDays = body.expiresInDays ?? undefined;
+  if (
+    expiresInDays !== undefined &&
+    (typeof expiresInDays !== "number" || !Number.isInteger(expiresInDays) || expiresInDays < 1)
+  ) {
+    return c.json({ error: "expiresInDays must be a positive integer" }, 400);
+  }
+
+  const result = await c.get("sandbox").createApiKey({
+    name,
+    scopes,
+    expiresInDays,
+    createdBy: c.get("accessUser")?.email,
+  });
+  console.log("[API KEYS] Created key", result.key.id, "scopes:", scopes.join(","));
+  return c.json(result, 201);
+});
+
+// DELETE /api/admin/api-keys/:id - Revoke an API key
+adminApi.delete("/api-keys/:id", requireRole("owner"), async (c) => {
+  const key = await c.get("sandbox").revokeApiKey(c.req.param("id"));
+  if (!key) {
+    return c.json({ error: "API key not found" }, 404);
+  }
+  console.log("[API KEYS] Revoked key", key.id);
+  return c.json({ success: true, key });
+});
 
-    // Start a new gateway in the background
-    const bootPromise = ensureGateway(sandbox, c.env).catch((err) => {
+// GET /api/admin/gateways - Gateways fronted by this Worker, with their lifecycle phase.
+// The admin UI switches between them with the X-OpenClaw-Gateway header.
+adminApi.get("/gateways", requireRole("viewer"), async (c) => {
+  const current = c.get("gateway").gateway;
+  const gateways = await Promise.all(
+    parseGatewayRegistry(c.env).map(async (gateway) => {
+      let phase: GatewayPhase | null = null;
+      try {
+        ({ phase } = await getSandbox(c.env.Sandbox, gateway.sandboxId).getGatewayState());
+      } catch {
+        /* ignore */
+      }
+      // Env overrides can hold secrets, so they stay out of the listing
+      return {
+        name: gateway.name,
+        label: gateway.label,
+        hosts: gateway.hosts,
+        pathPrefix: gateway.pathPrefix,
+        isDefault: gateway.isDefault,
+        current: gateway.name === current.name,
+        phase,
+      };
+    }),
+  );
+  return c.json({ gateways });
+});
+
+// GET /api/admin/gateway - Gateway supervisor state (phase, restarts, last error)
+adminApi.get("/gateway", requireRole("viewer"), async (c) => {
+  const sandbox = c.get("sandbox");
+  try {
+    return c.json(await sandbox.getGatewayState());
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// GET /api/admin/gateway/incidents - Watchdog incident history, newest first
+adminApi.get("/gateway/incidents", requireRole("viewer"), async (c) => {
+  const sandbox = c.get("sandbox");
+  try {
+    return c.json({ incidents: await sandbox.listIncidents() });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// GET /api/admin/resources - Resource usage time series (oldest first) and the limits alerts use
+adminApi.get("/resources", requireRole("viewer"), async (c) => {
+  try {
+    const { instanceType, limits, thresholds } = parseResourceMonitorConfig(c.env);
+    const samples = await c.get("sandbox").listResourceSamples();
+    return c.json({
+      instanceType,
+      limits,
+      thresholds,
+      samples: samples.map(({ cpuTicks: _, ...sample }) => sample),
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// POST /api/admin/resources/sample - Take a sample now instead of waiting for the cron
+adminApi.post("/resources/sample", requireRole("operator"), async (c) => {
+  try {
+    const { sample, fired } = await sampleResources(c.get("sandbox"), c.env);
+    const { cpuTicks: _, ...rest } = sample;
+    return c.json({ success: true, sample: rest, fired });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// GET /api/admin/sleep - Current sleep policy, schedule and "stay awake" override
+adminApi.get("/sleep", requireRole("viewer"), async (c) => {
+  try {
+    return c.json({
+      policy: resolveSleepPolicy(c.env),
+      schedule: parseSleepSchedule(c.env),
+      awakeUntil: await c.get("sandbox").getAwakeUntil(),
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// POST /api/admin/sleep/awake - Keep the container awake for { hours }, regardless of the schedule
+adminApi.post("/sleep/awake", requireRole("operator"), async (c) => {
+  let body: { hours?: unknown };
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ error: "Invalid JSON body" }, 400);
+  }
+
+  const { hours } = body;
+  if (typeof hours !== "number" || !(hours > 0) || hours > MAX_AWAKE_OVERRIDE_HOURS) {
+    return c.json({ error: `hours must be between 0 and ${MAX_AWAKE_OVERRIDE_HOURS}` }, 400);
+  }
+
+  try {
+    const awakeUntil = await c.get("sandbox").holdAwake(Date.now() + hours * 3_600_000);
+    console.log("[SLEEP] Staying awake until", new Date(awakeUntil ?? 0).toISOString());
+    return c.json({ success: true, awakeUntil });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// DELETE /api/admin/sleep/awake - End the override and go back to the schedule
+adminApi.delete("/sleep/awake", requireRole("operator"), async (c) => {
+  const sandbox = c.get("sandbox");
+  try {
+    await sandbox.holdAwake(null);
+    const policy = resolveSleepPolicy(c.env);
+    await sandbox.setKeepAlive(policy.keepAlive);
+    if (policy.sleepAfter) await sandbox.setSleepAfter(policy.sleepAfter);
+    return c.json({ success: true, awakeUntil: null, policy });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// GET /api/admin/gateway/startup - Server-sent events with the startup progress timeline.
+// Sends a `progress` event whenever it changes and `ready` once the gateway serves.
+adminApi.get("/gateway/startup", requireRole("viewer"), (c) => {
+  const sandbox = c.get("sandbox");
+
+  return streamSSE(c, async (stream) => {
+    const deadline = Date.now() + STARTUP_STREAM_MS;
+    let last = "";
+    while (!stream.aborted && Date.now() < deadline) {
+      const progress = await readStartupProgress(sandbox);
+      const data = JSON.stringify(progress);
+      if (progress.status === "ready") {
+        await stream.writeSSE({ event: "ready", data });
+        return;
+      }
+      if (data !== last) {
+        await stream.writeSSE({ event: "progress", data });
+        last = data;
+      }
+      await stream.sleep(STARTUP_POLL_MS);
+    }
+  });
+});
+
+// POST /api/admin/gateway/restart - Replace the current gateway with a new one
+adminApi.post("/gateway/restart", requireRole("operator"), async (c) => {
+  const sandbox = c.get("sandbox");
+
+  try {
+    const state = await sandbox.getGatewayState();
+    const serving = state.phase === "ready" || state.phase === "degraded";
+    const zeroDowntime = serving && parseReloadStrategy(c.env) !== "restart";
+
+    // Boot the new gateway in the background. An admin restart also clears the
+    // supervisor's failure history if the gateway has to be killed, so it's
+    // the way out of a crash loop.
+    const reloadPromise = reloadGateway(sandbox, c.env, { reset: true }).catch((err) => {
       console.error("Gateway restart failed:", err);
     });
-    c.executionCtx.waitUntil(bootPromise);
+    c.executionCtx.waitUntil(reloadPromise);
 
     return c.json({
       success: true,
-      message: existingProcess
-        ? "Gateway process killed, new instance starting..."
-        : "No existing process found, starting new instance...",
-      previousProcessId: existingProcess?.id,
+      message: zeroDowntime
+        ? "Starting a new gateway instance; traffic switches over once it is healthy..."
+        : state.processId
+          ? "Gateway process killed, new instance starting..."
+          : "No existing process found, starting new instance...",
+      previousProcessId: state.processId ?? undefined,
     });
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : "Unknown error";
@@ -385,7 +988,7 @@ adminApi.post("/gateway/restart", async (c) => {
 });
 
 // GET /api/admin/auth/providers - List configured auth providers
-adminApi.get("/auth/providers", async (c) => {
+adminApi.get("/auth/providers", requireRole("viewer"), async (c) => {
   const sandbox = c.get("sandbox");
 
   try {
@@ -426,7 +1029,7 @@ adminApi.get("/auth/providers", async (c) => {
 });
 
 // POST /api/admin/auth/setup-token - Save an Anthropic setup token
-adminApi.post("/auth/setup-token", async (c) => {
+adminApi.post("/auth/setup-token", requireRole("owner"), async (c) => {
   const sandbox = c.get("sandbox");
 
   let body: { provider?: string; token?: string };
@@ -511,24 +1114,15 @@ adminApi.post("/auth/setup-token", async (c) => {
     );
     await waitForProcess(writeConfigProc, 5000);
 
-    // Restart gateway to pick up changes
-    const existingProcess = await findExistingGateway(sandbox);
-    if (existingProcess) {
-      try {
-        await existingProcess.kill();
-      } catch (killErr) {
-        console.error("Error killing process:", killErr);
-      }
-      await new Promise((r) => setTimeout(r, 2000));
-    }
-    const bootPromise = ensureGateway(sandbox, c.env).catch((err) => {
-      console.error("Gateway restart after token save failed:", err);
+    // Reload gateway to pick up changes
+    const reloadPromise = reloadGateway(sandbox, c.env, { configChanged: true }).catch((err) => {
+      console.error("Gateway reload after token save failed:", err);
     });
-    c.executionCtx.waitUntil(bootPromise);
+    c.executionCtx.waitUntil(reloadPromise);
 
     return c.json({
       success: true,
-      message: `Setup token saved for ${provider}. Gateway is restarting...`,
+      message: `Setup token saved for ${provider}. Gateway is reloading...`,
     });
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : "Unknown error";
@@ -537,7 +1131,7 @@ adminApi.post("/auth/setup-token", async (c) => {
 });
 
 // DELETE /api/admin/auth/providers/:profileId - Remove an auth provider
-adminApi.delete("/auth/providers/:profileId", async (c) => {
+adminApi.delete("/auth/providers/:profileId", requireRole("owner"), async (c) => {
   const sandbox = c.get("sandbox");
   const profileId = c.req.param("profileId");
 
@@ -596,24 +1190,15 @@ adminApi.delete("/auth/providers/:profileId", async (c) => {
       await waitForProcess(writeConfigProc, 5000);
     }
 
-    // Restart gateway
-    const existingProcess = await findExistingGateway(sandbox);
-    if (existingProcess) {
-      try {
-        await existingProcess.kill();
-      } catch (killErr) {
-        console.error("Error killing process:", killErr);
-      }
-      await new Promise((r) => setTimeout(r, 2000));
-    }
-    const bootPromise = ensureGateway(sandbox, c.env).catch((err) => {
-      console.error("Gateway restart after provider delete failed:", err);
+    // Reload gateway
+    const reloadPromise = reloadGateway(sandbox, c.env, { configChanged: true }).catch((err) => {
+      console.error("Gateway reload after provider delete failed:", err);
     });
-    c.executionCtx.waitUntil(bootPromise);
+    c.executionCtx.waitUntil(reloadPromise);
 
     return c.json({
       success: true,
-      message: `Provider "${profileId}" removed. Gateway is restarting...`,
+      message: `Provider "${profileId}" removed. Gateway is reloading...`,
     });
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : "Unknown error";
@@ -626,16 +1211,14 @@ api.route("/admin", adminApi);
 
 // =============================================================================
 // Agent API — programmatic access to OpenClaw agent turns
-// Protected by Cloudflare Access (service token or browser session)
+// Protected by Cloudflare Access (service token or browser session) or a scoped API key
 // =============================================================================
 
 // Longer timeout for agent turns — model calls can take 30-60s
 const AGENT_TIMEOUT_MS = 120000;
 
 // POST /api/v1/agent - Run an agent turn and return the response
-api.post("/v1/agent", async (c) => {
-  const sandbox = c.get("sandbox");
-
+api.post("/v1/agent", requireRole("operator"), async (c) => {
   let body: {
     message?: string;
     session?: string;
@@ -653,113 +1236,70 @@ api.post("/v1/agent", async (c) => {
   if (!message || typeof message !== "string" || message.trim().length === 0) {
     return c.json({ success: false, error: "message is required" }, 400);
   }
+  for (const field of ["session", "agent", "thinking"] as const) {
+    if (body[field] !== undefined && typeof body[field] !== "string") {
+      return c.json({ success: false, error: `${field} must be a string` }, 400);
+    }
+  }
 
   try {
-    await ensureGateway(sandbox, c.env);
-
-    const token = c.env.OPENCLAW_GATEWAY_TOKEN;
-    const tokenArg = token ? ` --token ${token}` : "";
-
-    // Build the command safely — base64-encode the message to avoid shell injection
-    const msgB64 = toBase64(message.trim());
-    const sessionArg = body.session
-      ? ` --session-id "${body.session.replace(/[^a-zA-Z0-9:_.-]/g, "")}"`
-      : "";
-    const agentArg = body.agent ? ` --agent "${body.agent.replace(/[^a-zA-Z0-9_-]/g, "")}"` : "";
-    const thinkingArg = body.thinking
-      ? ` --thinking "${body.thinking.replace(/[^a-z]/g, "")}"`
-      : "";
-
-    const cmd = `echo "${msgB64}" | base64 -d | openclaw agent --url ws://localhost:18789${tokenArg}${sessionArg}${agentArg}${thinkingArg} --message "$(cat -)" --json`;
-
     console.log("[AGENT API] Running agent turn, session:", body.session || "default");
     const timeout = Math.min(body.timeout || AGENT_TIMEOUT_MS, AGENT_TIMEOUT_MS);
-    const proc = await sandbox.startProcess(cmd);
-    await waitForProcess(proc, timeout);
-
-    const logs = await proc.getLogs();
-    const stdout = logs.stdout || "";
-    const stderr = logs.stderr || "";
-
-    // Try to parse JSON from output
-    const jsonMatch = stdout.match(/\{[\s\S]*\}/);
-    if (jsonMatch) {
-      try {
-        const result = JSON.parse(jsonMatch[0]);
-        return c.json({ success: true, ...result });
-      } catch {
-        // Fall through to raw output
-      }
-    }
-
-    return c.json({
-      success: true,
-      raw: stdout,
-      stderr: stderr || undefined,
-    });
+    const result = await withGatewayRpc(c, (client) =>
+      client.runAgent(
+        {
+          message: message.trim(),
+          sessionId: body.session,
+          agentId: body.agent,
+          thinking: body.thinking,
+        },
+        timeout,
+      ),
+    );
+    return c.json({ success: true, ...result });
   } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : "Unknown error";
-    console.error("[AGENT API] Error:", errorMessage);
-    return c.json({ success: false, error: errorMessage }, 500);
+    console.error("[AGENT API] Error:", error instanceof Error ? error.message : error);
+    return gatewayErrorResponse(c, error, { success: false });
   }
 });
 
 // GET /api/v1/sessions - List agent sessions
-api.get("/v1/sessions", async (c) => {
-  const sandbox = c.get("sandbox");
-
+api.get("/v1/sessions", requireRole("viewer"), async (c) => {
   try {
-    await ensureGateway(sandbox, c.env);
-
-    const token = c.env.OPENCLAW_GATEWAY_TOKEN;
-    const tokenArg = token ? ` --token ${token}` : "";
-    const proc = await sandbox.startProcess(
-      `openclaw sessions --url ws://localhost:18789${tokenArg} --json`,
-    );
-    await waitForProcess(proc, CLI_TIMEOUT_MS);
-
-    const logs = await proc.getLogs();
-    const stdout = logs.stdout || "";
-    const jsonMatch = stdout.match(/[[{][\s\S]*[\]}]/);
-    if (jsonMatch) {
-      try {
-        return c.json(JSON.parse(jsonMatch[0]));
-      } catch {
-        /* fall through */
-      }
-    }
-    return c.json({ sessions: [], raw: stdout });
+    const sessions = await withGatewayRpc(c, (client) => client.listSessions());
+    return c.json(sessions);
   } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : "Unknown error";
-    return c.json({ error: errorMessage }, 500);
+    return gatewayErrorResponse(c, error);
   }
 });
 
 // GET /api/v1/health - Gateway health (richer than /api/status)
-api.get("/v1/health", async (c) => {
+// Probes the gateway over its own protocol and counts failures towards degraded
+api.get("/v1/health", requireRole("viewer"), async (c) => {
   const sandbox = c.get("sandbox");
 
   try {
     await ensureGateway(sandbox, c.env);
 
-    const token = c.env.OPENCLAW_GATEWAY_TOKEN;
-    const tokenArg = token ? ` --token ${token}` : "";
-    const proc = await sandbox.startProcess(
-      `openclaw gateway call health --url ws://localhost:18789${tokenArg} --json`,
+    const result = await checkGatewayLiveness(sandbox, c.env);
+    const state = await sandbox.getGatewayState();
+    // The gateway's health summary stays the body, as it was before the probe,
+    // with what the probe found added under `probe`
+    const summary =
+      typeof result.summary === "object" && result.summary !== null ? result.summary : {};
+    return c.json(
+      {
+        ...summary,
+        probe: {
+          healthy: result.healthy,
+          phase: state.phase,
+          failures: result.failures,
+          warnings: result.warnings,
+          durationMs: result.durationMs,
+        },
+      },
+      result.healthy ? 200 : 503,
     );
-    await waitForProcess(proc, CLI_TIMEOUT_MS);
-
-    const logs = await proc.getLogs();
-    const stdout = logs.stdout || "";
-    const jsonMatch = stdout.match(/\{[\s\S]*\}/);
-    if (jsonMatch) {
-      try {
-        return c.json(JSON.parse(jsonMatch[0]));
-      } catch {
-        /* fall through */
-      }
-    }
-    return c.json({ raw: stdout });
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : "Unknown error";
     return c.json({ error: errorMessage }, 500);
@@ -188,10 +188,20 @@ cdp.get("/", async (c) => {
   // Accept the WebSocket
   server.accept();
 
+  // The session's concurrency slot is held until the socket closes
+  const lease = c.get("rateLimitLease");
+  if (lease) {
+    lease.hold();
+    server.addEventListener("close", () => {
+      c.executionCtx.waitUntil(lease.release());
+    });
+  }
+
   // Initialize CDP session asynchronously
   initCDPSession(server, c.env).catch((err) => {
     console.error("[CDP] Failed to initialize session:", err);
     server.close(1011, "Failed to initialize browser session");
+    if (lease) c.executionCtx.waitUntil(lease.release());
   });
 
   return new Response(null, {
@@ -238,7 +248,7 @@ cdp.get("/json/version", async (c) => {
 
   // Build the WebSocket URL - preserve the secret in the WS URL
   const wsProtocol = url.protocol === "https:" ? "wss:" : "ws:";
-  const wsUrl = `${wsProtocol}//${url.host}/cdp?secret=${encodeURIComponent(providedSecret)}`;
+  const wsUrl = `${wsProtocol}//${url.host}${c.get("gateway").basePath}/cdp?secret=${encodeURIComponent(providedSecret)}`;
 
   return c.json({
     Browser: "Cloudflare-Browser-Rendering/1.0",
@@ -290,7 +300,7 @@ cdp.get("/json/list", async (c) => {
 
   // Build the WebSocket URL
   const wsProtocol = url.protocol === "https:" ? "wss:" : "ws:";
-  const wsUrl = `${wsProtocol}//${url.host}/cdp?secret=${encodeURIComponent(providedSecret)}`;
+  const wsUrl = `${wsProtocol}//${url.host}${c.get("gateway").basePath}/cdp?secret=${encodeURIComponent(providedSecret)}`;
 
   // Return a placeholder target - actual target is created on WS connect
   return c.json([
@@ -344,7 +354,7 @@ cdp.get("/json", async (c) => {
 
   // Build the WebSocket URL
   const wsProtocol = url.protocol === "https:" ? "wss:" : "ws:";
-  const wsUrl = `${wsProtocol}//${url.host}/cdp?secret=${encodeURIComponent(providedSecret)}`;
+  const wsUrl = `${wsProtocol}//${url.host}${c.get("gateway").basePath}/cdp?secret=${encodeURIComponent(providedSecret)}`;
 
   return c.json([
     {
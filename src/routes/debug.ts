@@ -1,16 +1,18 @@
 import { Hono } from "hono";
+import { requireRole } from "../auth";
 import { findExistingGateway } from "../gateway";
 import type { AppEnv } from "../types";
 
 /**
  * Debug routes for inspecting container state
  * Note: These routes should be protected by Cloudflare Access middleware
- * when mounted in the main app
+ * when mounted in the main app. Routes that expose secrets or run arbitrary
+ * commands require the owner role.
  */
 const debug = new Hono<AppEnv>();
 
 // GET /debug/version - Returns version info from inside the container
-debug.get("/version", async (c) => {
+debug.get("/version", requireRole("operator"), async (c) => {
   const sandbox = c.get("sandbox");
   try {
     // Get OpenClaw version
@@ -36,7 +38,7 @@ debug.get("/version", async (c) => {
 });
 
 // GET /debug/processes - List all processes with optional logs
-debug.get("/processes", async (c) => {
+debug.get("/processes", requireRole("operator"), async (c) => {
   const sandbox = c.get("sandbox");
   try {
     const processes = await sandbox.listProcesses();
@@ -96,14 +98,14 @@ debug.get("/processes", async (c) => {
 });
 
 // GET /debug/gateway-api - Probe the openclaw gateway HTTP API
-debug.get("/gateway-api", async (c) => {
+debug.get("/gateway-api", requireRole("owner"), async (c) => {
   const sandbox = c.get("sandbox");
   const path = c.req.query("path") || "/";
-  const GATEWAY_PORT = 18789;
 
   try {
-    const url = `http://localhost:${GATEWAY_PORT}${path}`;
-    const response = await sandbox.containerFetch(new Request(url), GATEWAY_PORT);
+    const { port } = await sandbox.getGatewayState();
+    const url = `http://localhost:${port}${path}`;
+    const response = await sandbox.containerFetch(new Request(url), port);
     const contentType = response.headers.get("content-type") || "";
 
     let body: string | object;
@@ -126,7 +128,7 @@ debug.get("/gateway-api", async (c) => {
 });
 
 // GET /debug/cli - Test OpenClaw CLI commands
-debug.get("/cli", async (c) => {
+debug.get("/cli", requireRole("owner"), async (c) => {
   const sandbox = c.get("sandbox");
   const cmd = c.req.query("cmd") || "openclaw --help";
 
@@ -158,7 +160,7 @@ debug.get("/cli", async (c) => {
 });
 
 // GET /debug/logs - Returns container logs for debugging
-debug.get("/logs", async (c) => {
+debug.get("/logs", requireRole("operator"), async (c) => {
   const sandbox = c.get("sandbox");
   try {
     const processId = c.req.query("id");
@@ -213,7 +215,7 @@ debug.get("/logs", async (c) => {
 });
 
 // GET /debug/ws-test - Interactive WebSocket debug page
-debug.get("/ws-test", async (c) => {
+debug.get("/ws-test", requireRole("operator"), async (c) => {
   const host = c.req.header("host") || "localhost";
   const protocol = c.req.header("x-forwarded-proto") || "https";
   const wsProtocol = protocol === "https" ? "wss" : "ws";
@@ -346,7 +348,7 @@ debug.get("/ws-test", async (c) => {
 });
 
 // GET /debug/env - Show environment configuration (sanitized)
-debug.get("/env", async (c) => {
+debug.get("/env", requireRole("owner"), async (c) => {
   return c.json({
     has_anthropic_key: !!c.env.ANTHROPIC_API_KEY,
     has_openai_key: !!c.env.OPENAI_API_KEY,
@@ -363,7 +365,7 @@ debug.get("/env", async (c) => {
 });
 
 // GET /debug/container-config - Read the openclaw config from inside the container
-debug.get("/container-config", async (c) => {
+debug.get("/container-config", requireRole("owner"), async (c) => {
   const sandbox = c.get("sandbox");
 
   try {
@@ -1,6 +1,6 @@
 import { Hono } from "hono";
 import { GATEWAY_PORT } from "../config";
-import { findExistingGateway } from "../gateway";
+import { findExistingGateway, type GatewayPhase } from "../gateway";
 import type { AppEnv } from "../types";
 
 /**
@@ -44,6 +44,33 @@ publicRoutes.get("/api/status", async (c) => {
       /* ignore */
     }
 
+    // Supervisor summary: lifecycle phase and restart history, but not the
+    // last error (it can contain gateway stderr)
+    let gateway: {
+      phase: GatewayPhase;
+      port: number;
+      restarts: number;
+      consecutiveFailures: number;
+      nextAttemptAt: number | null;
+    } | null = null;
+    try {
+      const state = await sandbox.getGatewayState();
+      gateway = {
+        phase: state.phase,
+        port: state.port,
+        restarts: state.restarts,
+        consecutiveFailures: state.consecutiveFailures,
+        nextAttemptAt: state.nextAttemptAt,
+      };
+    } catch {
+      /* ignore */
+    }
+
+    // The supervisor has given up until an admin restarts the gateway
+    if (gateway?.phase === "crash_loop") {
+      return c.json({ ok: false, status: "crash_loop", gateway, processes: allProcesses });
+    }
+
     const process = await findExistingGateway(sandbox);
     if (!process) {
       // Check for recently failed gateway processes and get their logs
@@ -63,12 +90,25 @@ publicRoutes.get("/api/status", async (c) => {
       }
       return c.json({
         ok: false,
-        status: "not_running",
+        status: gateway?.phase === "crashed" ? "crashed" : "not_running",
+        gateway,
         processes: allProcesses,
         failedLogs: typeof failedLogs === "string" ? failedLogs.slice(-3000) : failedLogs,
       });
     }
 
+    // An open port doesn't mean a working gateway: until the supervisor has seen
+    // it pass its readiness check, report it as starting
+    if (gateway && gateway.phase !== "ready" && gateway.phase !== "degraded") {
+      return c.json({
+        ok: false,
+        status: gateway.phase === "crashed" ? "crashed" : "starting",
+        processId: process.id,
+        gateway,
+        processes: allProcesses,
+      });
+    }
+
     // Get process logs for diagnostics
     let logs: string | null = null;
     try {
@@ -92,12 +132,14 @@ publicRoutes.get("/api/status", async (c) => {
 
     // Process exists, check if it's actually responding
     // Try to reach the gateway with a short timeout
+    const port = gateway?.port ?? GATEWAY_PORT;
     try {
-      await process.waitForPort(18789, { mode: "tcp", timeout: 5000 });
+      await process.waitForPort(port, { mode: "tcp", timeout: 5000 });
       return c.json({
         ok: true,
         status: "running",
         processId: process.id,
+        gateway,
         processes: allProcesses,
       });
     } catch {
@@ -105,7 +147,7 @@ publicRoutes.get("/api/status", async (c) => {
       await Promise.all([
         runDiag(
           "port_check",
-          "curl -sf --max-time 2 http://localhost:18789/ && echo 'reachable' || echo 'unreachable'",
+          `curl -sf --max-time 2 http://localhost:${port}/ && echo 'reachable' || echo 'unreachable'`,
         ),
         runDiag("config_check", "head -100 /root/.openclaw/openclaw.json"),
         runDiag("ps", "ps aux 2>&1 | head -30"),
@@ -116,6 +158,7 @@ publicRoutes.get("/api/status", async (c) => {
         status: "not_responding",
         processId: process.id,
         processStatus: process.status,
+        gateway,
         processes: allProcesses,
         diag,
         logs: typeof logs === "string" ? logs.slice(-3000) : logs,
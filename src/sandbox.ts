@@ -0,0 +1,185 @@
+import { Sandbox as BaseSandbox } from "@cloudflare/sandbox";
+import { type ApiKeyInfo, ApiKeyStore, type CreateApiKeyInput } from "./auth/api-keys";
+import { type BackupClaim, type BackupSchedule, BackupStateStore } from "./gateway/backup-state";
+import { type Incident, type IncidentInput, IncidentStore } from "./gateway/incidents";
+import { StartupProgressStore, type StartupRecord, type StartupUpdate } from "./gateway/progress";
+import { type ResourceSample, ResourceSampleStore } from "./gateway/resources";
+import { AwakeOverrideStore } from "./gateway/schedule";
+import {
+  type GatewayEvent,
+  type GatewayState,
+  GatewaySupervisorStore,
+  type ReloadClaim,
+  type StartClaim,
+} from "./gateway/supervisor";
+import type { SyncSpec } from "./gateway/sync-spec";
+import { type RateLimitDecision, RateLimiter, type RateLimitRule } from "./ratelimit/limiter";
+import type { OpenClawEnv } from "./types";
+
+/**
+ * Sandbox Durable Object with Worker-owned state.
+ *
+ * Extends the SDK's Sandbox so the container keeps working as before, and
+ * adds RPC methods for state that must live outside the container
+ * (it is lost when the container restarts).
+ */
+export class Sandbox extends BaseSandbox<OpenClawEnv> {
+  private get apiKeys(): ApiKeyStore {
+    return new ApiKeyStore(this.ctx.storage);
+  }
+
+  private get rateLimiter(): RateLimiter {
+    return new RateLimiter(this.ctx.storage);
+  }
+
+  private get supervisor(): GatewaySupervisorStore {
+    return new GatewaySupervisorStore(this.ctx.storage);
+  }
+
+  private get startupProgress(): StartupProgressStore {
+    return new StartupProgressStore(this.ctx.storage);
+  }
+
+  private get incidents(): IncidentStore {
+    return new IncidentStore(this.ctx.storage);
+  }
+
+  private get resourceSamples(): ResourceSampleStore {
+    return new ResourceSampleStore(this.ctx.storage);
+  }
+
+  private get awakeOverride(): AwakeOverrideStore {
+    return new AwakeOverrideStore(this.ctx.storage);
+  }
+
+  private get backupState(): BackupStateStore {
+    return new BackupStateStore(this.ctx.storage);
+  }
+
+  /**
+   * The Worker sets keepAlive from the sleep policy on every request and cron
+   * run. A manual "stay awake" override keeps it on until the override expires.
+   */
+  override async setKeepAlive(keepAlive: boolean): Promise<void> {
+    const awakeUntil = await this.awakeOverride.get();
+    await super.setKeepAlive(keepAlive || awakeUntil !== null);
+  }
+
+  /**
+   * Setting the idle time renews the activity timeout. The cron sets it on
+   * every run, so only a changed value goes through, or the container would
+   * never go to sleep.
+   */
+  override async setSleepAfter(sleepAfter: string | number): Promise<void> {
+    if (sleepAfter === this.sleepAfter) return;
+    await super.setSleepAfter(sleepAfter);
+  }
+
+  async getAwakeUntil(): Promise<number | null> {
+    return this.awakeOverride.get();
+  }
+
+  /**
+   * Keep the container awake until `until`, or end the override with null.
+   * Ending it leaves keepAlive to the next request or cron run.
+   */
+  async holdAwake(until: number | null): Promise<number | null> {
+    await this.awakeOverride.set(until);
+    if (until !== null) await super.setKeepAlive(true);
+    return this.awakeOverride.get();
+  }
+
+  async createApiKey(input: CreateApiKeyInput): Promise<{ key: ApiKeyInfo; token: string }> {
+    return this.apiKeys.create(input);
+  }
+
+  async listApiKeys(): Promise<ApiKeyInfo[]> {
+    return this.apiKeys.list();
+  }
+
+  async revokeApiKey(id: string): Promise<ApiKeyInfo | null> {
+    return this.apiKeys.revoke(id);
+  }
+
+  async verifyApiKey(token: string): Promise<ApiKeyInfo | null> {
+    return this.apiKeys.verify(token);
+  }
+
+  async acquireRateLimit(key: string, rule: RateLimitRule): Promise<RateLimitDecision> {
+    const decision = await this.rateLimiter.acquire(key, rule);
+    // Swept on requests rather than with an alarm, which the container base class owns
+    await this.rateLimiter.sweep();
+    return decision;
+  }
+
+  async releaseRateLimit(key: string, leaseId: string): Promise<void> {
+    return this.rateLimiter.release(key, leaseId);
+  }
+
+  async getGatewayState(): Promise<GatewayState> {
+    return this.supervisor.get();
+  }
+
+  async claimGatewayStart(): Promise<StartClaim> {
+    const claim = await this.supervisor.claimStart();
+    // A new attempt starts a new progress timeline
+    if (claim.ok) await this.startupProgress.begin(claim.leaseId);
+    return claim;
+  }
+
+  async claimGatewayReload(port: number): Promise<ReloadClaim> {
+    return this.supervisor.claimReload(port);
+  }
+
+  async recordGatewayEvent(event: GatewayEvent): Promise<GatewayState> {
+    return this.supervisor.record(event);
+  }
+
+  async getStartupRecord(): Promise<StartupRecord> {
+    return this.startupProgress.get();
+  }
+
+  async recordStartupUpdate(attemptId: string, update: StartupUpdate): Promise<void> {
+    return this.startupProgress.update(attemptId, update);
+  }
+
+  async recordIncident(input: IncidentInput): Promise<Incident> {
+    return this.incidents.record(input);
+  }
+
+  async listIncidents(): Promise<Incident[]> {
+    return this.incidents.list();
+  }
+
+  async recordResourceSample(sample: ResourceSample): Promise<void> {
+    return this.resourceSamples.record(sample);
+  }
+
+  async getLatestResourceSample(): Promise<ResourceSample | null> {
+    return this.resourceSamples.latest();
+  }
+
+  async listResourceSamples(): Promise<ResourceSample[]> {
+    return this.resourceSamples.list();
+  }
+
+  async claimBackup(): Promise<BackupClaim> {
+    return this.backupState.claim();
+  }
+
+  async releaseBackup(leaseId: string): Promise<void> {
+    return this.backupState.release(leaseId);
+  }
+
+  async getBackupSchedule(): Promise<BackupSchedule> {
+    return this.backupState.getSchedule();
+  }
+
+  async recordSyncSpec(spec: SyncSpec | null): Promise<BackupSchedule> {
+    return this.backupState.recordSpec(spec);
+  }
+
+  async recordBackupSync(spec: SyncSpec, rules: string[]): Promise<BackupSchedule> {
+    return this.backupState.recordSync(spec, rules);
+  }
+}
@@ -4,7 +4,9 @@
 
 import type { Process, Sandbox } from "@cloudflare/sandbox";
 import { vi } from "vitest";
-import type { OpenClawEnv } from "./types";
+import { BackupStateStore } from "./gateway/backup-state";
+import type { SyncSpec } from "./gateway/sync-spec";
+import type { KeyValueStorage, OpenClawEnv } from "./types";
 
 /**
  * Create a minimal OpenClawEnv object for testing
@@ -85,6 +87,185 @@ export function createMockSandbox(
   return { sandbox, mountBucketMock, startProcessMock, listProcessesMock, containerFetchMock };
 }
 
+/**
+ * Create an in-memory R2 bucket supporting put/get/list/delete
+ */
+export function createMockBucket(): R2Bucket & { objects: Map<string, MockR2Object> } {
+  const objects = new Map<string, MockR2Object>();
+
+  const toBody = async (value: unknown): Promise<Uint8Array> => {
+    if (typeof value === "string") return new TextEncoder().encode(value);
+    if (value instanceof ArrayBuffer) return new Uint8Array(value);
+    if (ArrayBuffer.isView(value))
+      return new Uint8Array(value.buffer, value.byteOffset, value.byteLength);
+    return new Uint8Array(await new Response(value as BodyInit).arrayBuffer());
+  };
+
+  const toObject = (key: string, stored: MockR2Object) => ({
+    key,
+    size: stored.body.byteLength,
+    uploaded: stored.uploaded,
+    customMetadata: stored.customMetadata,
+    httpMetadata: stored.httpMetadata,
+    text: async () => new TextDecoder().decode(stored.body),
+    json: async () => JSON.parse(new TextDecoder().decode(stored.body)),
+    arrayBuffer: async () => stored.body.slice().buffer,
+    get body() {
+      return new Response(stored.body.slice().buffer).body;
+    },
+  });
+
+  const bucket = {
+    objects,
+    put: vi.fn(async (key: string, value: unknown, options: R2PutOptions = {}) => {
+      const stored: MockR2Object = {
+        body: await toBody(value),
+        uploaded: new Date(),
+        customMetadata: options.customMetadata,
+        httpMetadata: options.httpMetadata as R2HTTPMetadata | undefined,
+      };
+      objects.set(key, stored);
+      return toObject(key, stored);
+    }),
+    get: vi.fn(async (key: string) => {
+      const stored = objects.get(key);
+      return stored ? toObject(key, stored) : null;
+    }),
+    head: vi.fn(async (key: string) => {
+      const stored = objects.get(key);
+      return stored ? toObject(key, stored) : null;
+    }),
+    delete: vi.fn(async (keys: string | string[]) => {
+      for (const key of Array.isArray(keys) ? keys : [keys]) objects.delete(key);
+    }),
+    list: vi.fn(async (options: R2ListOptions = {}) => {
+      const prefix = options.prefix || "";
+      const keys = [...objects.keys()].filter((key) => key.startsWith(prefix)).sort();
+      const delimitedPrefixes = new Set<string>();
+      const listed = [];
+      for (const key of keys) {
+        if (options.delimiter) {
+          const idx = key.indexOf(options.delimiter, prefix.length);
+          if (idx !== -1) {
+            delimitedPrefixes.add(key.slice(0, idx + options.delimiter.length));
+            continue;
+          }
+        }
+        listed.push(toObject(key, objects.get(key) as MockR2Object));
+      }
+      return {
+        objects: listed.slice(0, options.limit || 1000),
+        delimitedPrefixes: [...delimitedPrefixes],
+        truncated: false,
+      };
+    }),
+  };
+
+  return bucket as unknown as R2Bucket & { objects: Map<string, MockR2Object> };
+}
+
+export interface MockR2Object {
+  body: Uint8Array;
+  uploaded: Date;
+  customMetadata?: Record<string, string>;
+  httpMetadata?: R2HTTPMetadata;
+}
+
+/**
+ * Create an in-memory key-value storage (stands in for DurableObjectStorage)
+ */
+export function createMockStorage(): KeyValueStorage & { data: Map<string, unknown> } {
+  const data = new Map<string, unknown>();
+  // Round-trip through JSON like the real storage's structured clone
+  const clone = <T>(value: T): T =>
+    value === undefined ? value : JSON.parse(JSON.stringify(value));
+
+  return {
+    data,
+    get: vi.fn(async (key: string) => clone(data.get(key))) as KeyValueStorage["get"],
+    put: vi.fn(async (key: string, value: unknown) => {
+      data.set(key, clone(value));
+    }),
+    delete: vi.fn(async (key: string) => data.delete(key)),
+    list: vi.fn(async (options: { prefix?: string } = {}) => {
+      const prefix = options.prefix || "";
+      const keys = [...data.keys()].filter((key) => key.startsWith(prefix)).sort();
+      return new Map(keys.map((key) => [key, clone(data.get(key))]));
+    }) as KeyValueStorage["list"],
+  };
+}
+
+/**
+ * The Sandbox Durable Object's backup lease and schedule methods, backed by
+ * in-memory storage, to Object.assign onto a mock sandbox
+ */
+export function createMockBackupState(storage = createMockStorage()) {
+  const store = new BackupStateStore(storage);
+  return {
+    claimBackup: vi.fn(() => store.claim()),
+    releaseBackup: vi.fn((leaseId: string) => store.release(leaseId)),
+    getBackupSchedule: vi.fn(() => store.getSchedule()),
+    recordSyncSpec: vi.fn((spec: SyncSpec | null) => store.recordSpec(spec)),
+    recordBackupSync: vi.fn((spec: SyncSpec, rules: string[]) => store.recordSync(spec, rules)),
+  };
+}
+
+/**
+ * A gateway request frame as seen by createMockGatewaySocket's handler
+ */
+export interface MockGatewayRequest {
+  id: string;
+  method: string;
+  params?: any;
+}
+
+type MockGatewayResponse = {
+  ok: boolean;
+  payload?: unknown;
+  error?: { code?: string; message: string };
+};
+
+/**
+ * Create a fake gateway WebSocket. `respond` answers each request frame with a
+ * response (`{ ok, payload?, error? }`), several responses in order, or
+ * undefined to never answer. Return `response` from a mocked `sandbox.wsConnect`.
+ */
+export function createMockGatewaySocket(
+  respond: (request: MockGatewayRequest) => MockGatewayResponse | MockGatewayResponse[] | undefined,
+) {
+  const listeners = new Map<string, Array<(event: any) => void>>();
+  const emit = (type: string, event: Record<string, unknown>) => {
+    for (const listener of listeners.get(type) || []) listener(event);
+  };
+  const requests: MockGatewayRequest[] = [];
+
+  const socket = {
+    accept: vi.fn(),
+    addEventListener: (type: string, listener: (event: any) => void) => {
+      listeners.set(type, [...(listeners.get(type) || []), listener]);
+    },
+    send: vi.fn((data: string) => {
+      const request = JSON.parse(data) as MockGatewayRequest;
+      requests.push(request);
+      const response = respond(request);
+      for (const frame of Array.isArray(response) ? response : response ? [response] : []) {
+        queueMicrotask(() =>
+          emit("message", { data: JSON.stringify({ type: "res", id: request.id, ...frame }) }),
+        );
+      }
+    }),
+    close: vi.fn(),
+    /** Simulate the gateway dropping the connection */
+    drop: (code = 1006, reason = "") => emit("close", { code, reason }),
+  };
+
+  return {
+    socket,
+    requests,
+    response: { status: 101, webSocket: socket } as unknown as Response,
+  };
+}
+
 /**
  * Suppress console output during tests
  */
@@ -1,4 +1,7 @@
-import type { Sandbox } from "@cloudflare/sandbox";
+import type { ApiKeyInfo } from "./auth/api-keys";
+import type { ResolvedGateway } from "./gateway/registry";
+import type { RateLimitLease } from "./ratelimit/middleware";
+import type { Sandbox } from "./sandbox";
 
 /**
  * Environment bindings for the OpenClaw Worker
@@ -25,32 +28,87 @@ export interface OpenClawEnv {
   E2E_TEST_MODE?: string; // Set to 'true' for E2E tests (skips CF Access auth but keeps device pairing)
   DEBUG_ROUTES?: string; // Set to 'true' to enable /debug/* routes
   SANDBOX_SLEEP_AFTER?: string; // How long before sandbox sleeps: 'never' (default), or duration like '10m', '1h'
+  // Active hours: 'active=08:00-22:00,timezone=Europe/Berlin,days=mon-fri,idle=10m,prewarm=15m'
+  SANDBOX_SCHEDULE?: string;
+  // Multiple gateways: JSON array of { name, hosts, pathPrefix, sandboxId, r2Prefix, sleepAfter, env, default }
+  GATEWAYS?: string;
+  GATEWAY_BASE_PATH?: string; // Path prefix of the current gateway, set from GATEWAYS
   TELEGRAM_BOT_TOKEN?: string;
   TELEGRAM_DM_POLICY?: string;
   DISCORD_BOT_TOKEN?: string;
   DISCORD_DM_POLICY?: string;
   SLACK_BOT_TOKEN?: string;
   SLACK_APP_TOKEN?: string;
+  // Authentication provider: 'cloudflare-access' (default), 'oidc' or 'bearer'
+  AUTH_PROVIDER?: string;
+  // Generic OIDC provider
+  OIDC_ISSUER?: string; // Expected 'iss' claim
+  OIDC_AUDIENCE?: string; // Expected 'aud' claim
+  OIDC_JWKS_URL?: string; // URL of the issuer's JSON Web Key Set
+  OIDC_LOGIN_URL?: string; // Where browsers without a token are redirected
+  OIDC_COOKIE_NAME?: string; // Cookie to read the token from when there is no Authorization header
+  // Static bearer tokens: comma-separated 'identity=token' pairs
+  AUTH_BEARER_TOKENS?: string;
   // Cloudflare Access configuration for admin routes
   CF_ACCESS_TEAM_DOMAIN?: string; // e.g., 'myteam.cloudflareaccess.com'
   CF_ACCESS_AUD?: string; // Application Audience (AUD) tag
+  // Admin roles: comma-separated emails, '*@domain', 'group:<name>' or 'service:<client id>'
+  ROLE_OWNERS?: string;
+  ROLE_OPERATORS?: string;
+  ROLE_VIEWERS?: string;
   // R2 credentials for bucket mounting (set via wrangler secret)
   R2_ACCESS_KEY_ID?: string;
   R2_SECRET_ACCESS_KEY?: string;
   R2_BUCKET_NAME?: string; // Override bucket name (default: 'openclaw-data')
+  R2_PREFIX?: string; // Key prefix the container's R2 mount is limited to (set per gateway in GATEWAYS)
   CF_ACCOUNT_ID?: string; // Cloudflare account ID for R2 endpoint
   // Browser Rendering binding for CDP shim
   BROWSER?: Fetcher;
   CDP_SECRET?: string; // Shared secret for CDP endpoint authentication
   WORKER_URL?: string; // Public URL of the worker (for CDP endpoint)
+  // WebSocket frame interceptors for the Control UI proxy
+  WS_INTERCEPTORS?: string; // Ordered, comma-separated interceptor names (default: 'transform-errors')
+  WS_BLOCKED_METHODS?: string; // Comma-separated RPC methods for 'block-methods', e.g. 'config.set,exec.*'
+  WS_REDACT_PATTERNS?: string; // Extra regexes for 'redact-secrets': a JSON array or a single regex
+  // Rate limiting: 'class=<requests>/<window>[:<max concurrent>]' overrides, or 'off'
+  RATE_LIMITS?: string;
+  // Gateway health checks: 'probe=rpc|tcp,ready-timeout=60s,probe-timeout=10s,liveness-failures=3,channels=required|optional'
+  GATEWAY_HEALTH?: string;
+  GATEWAY_RELOAD?: string; // 'auto' (default), 'blue-green' or 'restart'
+  GATEWAY_WATCHDOG?: string; // Set to 'false' to stop the cron from probing and restarting the gateway
+  // Snapshot retention: 'latest=12,hourly=24,daily=30' (counts; pinned snapshots are always kept)
+  BACKUP_RETENTION?: string;
+  // How backups reach R2: 'mount' (default, s3fs with R2 credentials) or 'binding' (OPENCLAW_BUCKET)
+  BACKUP_STORAGE?: string;
+  // Percent of workspace files or bytes a backup may lose before it's refused (default 50), or 'off'
+  BACKUP_MAX_SHRINK?: string;
+  // Client-side backup encryption: passphrase for the data keys, and the one it replaces during a rotation
+  BACKUP_ENCRYPTION_KEY?: string;
+  BACKUP_ENCRYPTION_KEY_PREVIOUS?: string;
+  // Resource alerts: 'instance=standard-1,cpu=90,memory=80,disk=80' (percent of the instance's limits)
+  RESOURCE_ALERTS?: string;
+  // Audit recording
+  AUDIT_RECORDING?: string; // Set to 'true' to record proxied WebSocket sessions to R2
 }
 
 /**
- * Authenticated user from Cloudflare Access
+ * Kind of authenticated principal: a person, or a non-human client
+ * (Cloudflare Access service token, API key)
+ */
+export type PrincipalKind = "human" | "service";
+
+/**
+ * Authenticated principal from Cloudflare Access (or an API key)
  */
 export interface AccessUser {
+  kind: PrincipalKind;
+  /** Email for humans; a stable identifier such as "service:<client id>" for services */
   email: string;
   name?: string;
+  /** Service token client ID (JWT common_name) or API key ID */
+  clientId?: string;
+  /** Cloudflare Access group claims, used for role assignments */
+  groups?: string[];
 }
 
 /**
@@ -60,20 +118,47 @@ export type AppEnv = {
   Bindings: OpenClawEnv;
   Variables: {
     sandbox: Sandbox;
+    /** Gateway the request was routed to */
+    gateway: ResolvedGateway;
+    /** Worker settings without any gateway's overrides */
+    workerEnv: OpenClawEnv;
     accessUser?: AccessUser;
+    apiKey?: ApiKeyInfo;
+    /** Set when the Authorization header carried the Worker's own credential */
+    authorizationConsumed?: boolean;
+    /** Concurrency slot held by the rate limiter for this request */
+    rateLimitLease?: RateLimitLease;
   };
 };
 
+/**
+ * Key-value storage interface, satisfied by DurableObjectStorage.
+ * Stores that take this instead of the DO itself can be tested with an in-memory map.
+ */
+export interface KeyValueStorage {
+  get<T = unknown>(key: string): Promise<T | undefined>;
+  put<T>(key: string, value: T): Promise<void>;
+  delete(key: string): Promise<boolean>;
+  list<T = unknown>(options?: { prefix?: string }): Promise<Map<string, T>>;
+}
+
 /**
  * JWT payload from Cloudflare Access
  */
 export interface JWTPayload {
   aud: string[];
-  email: string;
+  /** Present on user JWTs */
+  email?: string;
+  /** Present on service-token JWTs (the service token's client ID) */
+  common_name?: string;
   exp: number;
   iat: number;
   iss: string;
   name?: string;
   sub: string;
   type: string;
+  /** IdP groups, when the Access application passes them through */
+  groups?: string[];
+  /** Custom OIDC claims configured on the Access application */
+  custom?: { groups?: string[] | string };
 }
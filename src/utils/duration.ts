@@ -0,0 +1,12 @@
+const DURATION_UNITS: Record<string, number> = { s: 1000, m: 60_000, h: 3_600_000 };
+
+/**
+ * Parse a duration like `m`, `30s` or `1h` into milliseconds.
+ * A bare unit means one of it. Returns null for anything else.
+ */
+export function parseDuration(value: string): number | null {
+  const match = value.trim().match(/^(\d*)\s*([smh])$/i);
+  if (!match) return null;
+  const count = match[1] ? Number.parseInt(match[1], 10) : 1;
+  return count > 0 ? count * DURATION_UNITS[match[2].toLowerCase()] : null;
+}
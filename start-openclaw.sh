@@ -5,22 +5,35 @@
 # 2. Runs openclaw onboard --non-interactive to configure from env vars
 # 3. Patches config for features onboard doesn't cover (channels, gateway auth)
 # 4. Starts the gateway
+#
+# Usage: start-openclaw.sh [--port <port>]
+# The Worker passes --port to boot a replacement gateway on the standby port
+# during a zero-downtime reload. openclaw.json keeps the default port.
 
 set -e
 
+GATEWAY_PORT=18789
+if [ "$1" = "--port" ] && [ -n "$2" ]; then
+    GATEWAY_PORT="$2"
+fi
+
 # Check if gateway is already running by testing the port.
 # Use curl since ss/netstat may not be installed in the container.
 # This check MUST come before the lockfile check — if the gateway is running,
 # we exit immediately regardless of lock state.
-if curl -sf --max-time 2 http://localhost:18789/ > /dev/null 2>&1; then
-    echo "OpenClaw gateway is already running on port 18789, exiting."
+if curl -sf --max-time 2 "http://localhost:$GATEWAY_PORT/" > /dev/null 2>&1; then
+    echo "OpenClaw gateway is already running on port $GATEWAY_PORT, exiting."
     exit 0
 fi
 
-# Prevent multiple concurrent instances via file lock.
+# Prevent multiple concurrent instances via file lock (one per port).
 # The sandbox may start multiple start-openclaw.sh processes simultaneously
 # from concurrent HTTP requests. Without a lock, they race to start the gateway.
-LOCKFILE="/tmp/start-openclaw.lock"
+if [ "$GATEWAY_PORT" = "18789" ]; then
+    LOCKFILE="/tmp/start-openclaw.lock"
+else
+    LOCKFILE="/tmp/start-openclaw-$GATEWAY_PORT.lock"
+fi
 if ! mkdir "$LOCKFILE" 2>/dev/null; then
     # Lock exists but gateway isn't running (checked above).
     # Previous instance was killed without cleanup (SIGKILL skips traps).
@@ -31,11 +44,33 @@ if ! mkdir "$LOCKFILE" 2>/dev/null; then
         exit 1
     fi
 fi
-# Clean up lock on exit (including errors due to set -e)
-trap 'rmdir "$LOCKFILE" 2>/dev/null' EXIT
+# Report startup phases to the Worker's progress stream (src/gateway/progress.ts)
+# as "[phase] <name> <start|done|skip|fail> <epoch ms> [detail]" lines on stdout
+CURRENT_PHASE=""
+phase() {
+    echo "[phase] $1 $2 $(date +%s%3N)${3:+ $3}"
+    if [ "$2" = "start" ]; then
+        CURRENT_PHASE="$1"
+    else
+        CURRENT_PHASE=""
+    fi
+}
+
+# On exit (including errors due to set -e): report the phase that failed and
+# clean up the lock
+on_exit() {
+    local status=$?
+    if [ "$status" -ne 0 ] && [ -n "$CURRENT_PHASE" ]; then
+        phase "$CURRENT_PHASE" fail "exited with code $status"
+    fi
+    rmdir "$LOCKFILE" 2>/dev/null
+}
+trap on_exit EXIT
 
 CONFIG_DIR="/root/.openclaw"
 CONFIG_FILE="$CONFIG_DIR/openclaw.json"
+WORKSPACE_DIR="/root/clawd"
+SKILLS_DIR="/root/clawd/skills"
 BACKUP_DIR="/data/openclaw"
 
 echo "Config directory: $CONFIG_DIR"
@@ -79,30 +114,249 @@ should_restore_from_r2() {
     fi
 }
 
+# Copy the files of a snapshot manifest ($1) from the object store into place.
+# Backups are snapshots (src/gateway/snapshots.ts): each manifest line is
+# "<area>\t<sha256>\t<size>\t<path>", and objects/<sha256> holds the content.
+# Objects of an encrypted snapshot are objects/<sha256>.<key ID> ($2),
+# decrypted with the data key in $BACKUP_DATA_KEY.
+# Each file's checksum is verified before it is put in place; returns 2 on a
+# mismatch, 1 if a copy failed.
+restore_snapshot() {
+    local area hash size path dest
+    while IFS=$'\t' read -r area hash size path; do
+        case "$area" in
+            config) dest="$CONFIG_DIR/$path" ;;
+            workspace) dest="$WORKSPACE_DIR/$path" ;;
+            skills) dest="$SKILLS_DIR/$path" ;;
+            *) continue ;;
+        esac
+        mkdir -p "$(dirname "$dest")"
+        if [ -n "$2" ]; then
+            $OPENSSL_ENC -d -pass env:BACKUP_DATA_KEY -in "$BACKUP_DIR/objects/$hash.$2" -out "$dest.restoring" || return 1
+        else
+            cp "$BACKUP_DIR/objects/$hash" "$dest.restoring" || return 1
+        fi
+        if [ "$(sha256sum < "$dest.restoring" | cut -c1-64)" != "$hash" ]; then
+            rm -f "$dest.restoring"
+            echo "Checksum mismatch: $path" >&2
+            return 2
+        fi
+        mv -f "$dest.restoring" "$dest" || return 1
+    done < "$1"
+}
+export -f restore_snapshot
+
+# Same format as src/gateway/backup-crypto.ts
+OPENSSL_ENC="openssl enc -aes-256-cbc -pbkdf2 -iter 1000 -md sha256"
+export OPENSSL_ENC
+
+# Print the data key with ID $1, decrypted with BACKUP_ENCRYPTION_KEY or, during
+# a rotation, BACKUP_ENCRYPTION_KEY_PREVIOUS. Its ID is a hash of the key, which
+# tells a wrong passphrase apart.
+unlock_data_key() {
+    local passphrase key
+    for passphrase in "$BACKUP_ENCRYPTION_KEY" "$BACKUP_ENCRYPTION_KEY_PREVIOUS"; do
+        [ -n "$passphrase" ] || continue
+        key=$(BACKUP_PASSPHRASE="$passphrase" $OPENSSL_ENC -d -a -A -pass env:BACKUP_PASSPHRASE \
+            -in "$BACKUP_DIR/keys/$1.key" 2>/dev/null) || continue
+        if [ "$(printf '%s' "$key" | sha256sum | cut -c1-12)" = "$1" ]; then
+            printf '%s' "$key"
+            return 0
+        fi
+    done
+    return 1
+}
+export CONFIG_DIR WORKSPACE_DIR SKILLS_DIR BACKUP_DIR
+
 # R2 restore timeout (seconds). s3fs-backed copies can hang if the mount is slow.
 R2_RESTORE_TIMEOUT=60
 
-# Check for backup data in R2
-if [ -f "$BACKUP_DIR/openclaw/openclaw.json" ]; then
+phase restore start
+RESTORE_RESULT="local data is up to date"
+
+# Snapshots newest first, as "<id>\t<key ID>" lines (the key ID is empty
+# unless encrypted). Quarantined snapshots are left out.
+list_snapshots() {
+    node -e '
+const index = JSON.parse(require("fs").readFileSync(process.argv[1], "utf8"));
+for (const s of [...index.snapshots].reverse()) {
+  if (!s.quarantined) console.log(`${s.id}\t${s.keyId ?? ""}`);
+}' "$BACKUP_DIR/snapshots/index.json" 2>/dev/null || true
+}
+
+# Mark snapshot $1 as damaged because of $2, so later boots skip it
+quarantine_snapshot() {
+    node -e '
+const fs = require("fs");
+const [path, id, reason] = process.argv.slice(1);
+const index = JSON.parse(fs.readFileSync(path, "utf8"));
+const snapshot = index.snapshots.find((s) => s.id === id);
+if (snapshot) snapshot.quarantined = reason;
+fs.writeFileSync(path, JSON.stringify(index, null, 2));' "$BACKUP_DIR/snapshots/index.json" "$1" "$2" || true
+}
+
+# Print the critical config files (openclaw.json and auth profiles) that
+# don't parse, one per line; nothing if all do
+broken_config_files() {
+    node -e '
+const fs = require("fs");
+const dir = process.argv[1];
+const agents = fs.existsSync(`${dir}/agents`) ? fs.readdirSync(`${dir}/agents`, { recursive: true }) : [];
+const files = ["openclaw.json", "clawdbot.json", ...agents.map((f) => `agents/${f}`)]
+  .filter((f) => !f.startsWith("agents/") || f.endsWith("/auth-profiles.json"))
+  .filter((f) => fs.existsSync(`${dir}/${f}`));
+for (const file of files) {
+  try { JSON.parse(fs.readFileSync(`${dir}/${file}`, "utf8")); } catch { console.log(file); }
+}' "$CONFIG_DIR"
+}
+
+# Print the lines of the manifest on stdin that the sync spec in R2 includes,
+# with the same rules as src/gateway/sync-spec.ts: a file belongs to the first
+# rule of its area it matches, and files no rule takes aren't restored. Without
+# a valid spec, every line is printed.
+filter_by_sync_spec() {
+    node -e '
+const fs = require("fs");
+const lines = fs.readFileSync(0, "utf8").split("\n").filter(Boolean);
+let rules = null;
+try {
+  rules = JSON.parse(fs.readFileSync(process.argv[1], "utf8")).rules;
+  if (!Array.isArray(rules) || rules.length === 0) rules = null;
+} catch {}
+const globToRegExp = (pattern) => {
+  let glob = pattern.replace(/^\.?\//, "");
+  if (glob.endsWith("/")) glob += "**";
+  if (!glob.includes("/")) glob = `**/${glob}`;
+  let source = "";
+  for (let i = 0; i < glob.length; i++) {
+    if (glob.startsWith("**/", i)) { source += "(?:.*/)?"; i += 2; }
+    else if (glob.startsWith("**", i)) { source += ".*"; i += 1; }
+    else if (glob[i] === "*") source += "[^/]*";
+    else if (glob[i] === "?") source += "[^/]";
+    else source += glob[i].replace(/[.+^${}()|[\]\\]/g, "\\$&");
+  }
+  return new RegExp(`^${source}$`);
+};
+const matchesAny = (patterns, path) => (patterns ?? []).some((p) => globToRegExp(p).test(path));
+for (const line of lines) {
+  const [area, , , path] = line.split("\t");
+  const rule = rules?.find((r) => r.area === area &&
+    (!r.include?.length || matchesAny(r.include, path)) && !matchesAny(r.exclude, path));
+  if (!rules || rule) console.log(line);
+}' "$BACKUP_DIR/sync-spec.json"
+}
+
+# Restore snapshot $1, encrypted with data key $2 if set. Returns 2 if the
+# snapshot is damaged (a checksum mismatch or a config that doesn't parse),
+# 1 on other failures. RESTORE_ERROR says why.
+try_restore_snapshot() {
+    local id="$1" key_id="$2" source="$BACKUP_DIR/snapshots/$1.tsv" data_key="" status=0 broken
+    local manifest=/tmp/openclaw-restore-manifest.tsv
+    if [ -n "$key_id" ]; then
+        source=/tmp/openclaw-restore-manifest.all
+        if ! data_key=$(unlock_data_key "$key_id") || ! BACKUP_DATA_KEY="$data_key" \
+            $OPENSSL_ENC -d -a -A -pass env:BACKUP_DATA_KEY -in "$BACKUP_DIR/snapshots/$id.$key_id.enc" -out "$source"; then
+            RESTORE_ERROR="BACKUP_ENCRYPTION_KEY can't decrypt it"
+            return 1
+        fi
+    fi
+    if ! filter_by_sync_spec < "$source" > "$manifest"; then
+        rm -f /tmp/openclaw-restore-manifest.all
+        RESTORE_ERROR="can't read its manifest"
+        return 1
+    fi
+    rm -f /tmp/openclaw-restore-manifest.all
+
+    echo "Restoring snapshot $id (timeout: ${R2_RESTORE_TIMEOUT}s)..."
+    BACKUP_DATA_KEY="$data_key" timeout "$R2_RESTORE_TIMEOUT" \
+        bash -c 'restore_snapshot "$1" "$2"' _ "$manifest" "$key_id" 2>/tmp/openclaw-restore-error || status=$?
+    rm -f /tmp/openclaw-restore-manifest.tsv
+    if [ "$status" -eq 2 ]; then
+        RESTORE_ERROR=$(tail -1 /tmp/openclaw-restore-error)
+        return 2
+    elif [ "$status" -ne 0 ]; then
+        RESTORE_ERROR="restore timed out or failed"
+        return 1
+    fi
+
+    broken=$(broken_config_files)
+    if [ -n "$broken" ]; then
+        RESTORE_ERROR="not valid JSON: $(echo $broken)"
+        return 2
+    fi
+}
+
+# Snapshot IDs are UTC timestamps, so the last one sorted is the newest.
+# Manifests are <id>.tsv, or <id>.<key ID>.enc if encrypted.
+LATEST_SNAPSHOT=$(ls "$BACKUP_DIR/snapshots" 2>/dev/null | grep -E '\.(tsv|enc)$' | sort | tail -1 || true)
+
+if [ -n "$LATEST_SNAPSHOT" ]; then
+    if should_restore_from_r2; then
+        # A damaged snapshot is quarantined, and the one before it restored
+        # instead, up to 3 tries
+        RESTORE_RESULT="no usable snapshot, starting fresh"
+        QUARANTINED=""
+        ATTEMPTS=0
+        while [ "$ATTEMPTS" -lt 3 ] && IFS=$'\t' read -r SNAPSHOT_ID KEY_ID <&3; do
+            ATTEMPTS=$((ATTEMPTS + 1))
+            STATUS=0
+            try_restore_snapshot "$SNAPSHOT_ID" "$KEY_ID" || STATUS=$?
+            if [ "$STATUS" -eq 0 ]; then
+                cp -f "$BACKUP_DIR/.last-sync" "$CONFIG_DIR/.last-sync" 2>/dev/null || true
+                echo "Restored snapshot $SNAPSHOT_ID"
+                RESTORE_RESULT="restored snapshot $SNAPSHOT_ID${QUARANTINED:+ (quarantined$QUARANTINED)}"
+                break
+            elif [ "$STATUS" -eq 2 ]; then
+                echo "WARNING: Snapshot $SNAPSHOT_ID is damaged ($RESTORE_ERROR), quarantining it"
+                quarantine_snapshot "$SNAPSHOT_ID" "$RESTORE_ERROR"
+                QUARANTINED="$QUARANTINED $SNAPSHOT_ID"
+                RESTORE_RESULT="quarantined$QUARANTINED, starting fresh"
+            else
+                echo "WARNING: Snapshot $SNAPSHOT_ID: $RESTORE_ERROR, starting fresh"
+                RESTORE_RESULT="snapshot $SNAPSHOT_ID: $RESTORE_ERROR, starting fresh"
+                break
+            fi
+        done 3< <(list_snapshots)
+        unset BACKUP_DATA_KEY
+
+        # Don't start the gateway with a config it can't parse; onboard instead
+        if [[ "$RESTORE_RESULT" != restored* ]]; then
+            for file in $(broken_config_files); do
+                echo "WARNING: Setting aside $CONFIG_DIR/$file, which is not valid JSON"
+                mv -f "$CONFIG_DIR/$file" "$CONFIG_DIR/$file.broken"
+            done
+        fi
+        rm -f /tmp/openclaw-restore-error
+    fi
+# Backups from before snapshots are a plain copy in openclaw/, workspace/ and skills/
+elif [ -f "$BACKUP_DIR/openclaw/openclaw.json" ]; then
     if should_restore_from_r2; then
         echo "Restoring from R2 backup at $BACKUP_DIR/openclaw (timeout: ${R2_RESTORE_TIMEOUT}s)..."
         if timeout "$R2_RESTORE_TIMEOUT" cp -a "$BACKUP_DIR/openclaw/." "$CONFIG_DIR/"; then
             cp -f "$BACKUP_DIR/.last-sync" "$CONFIG_DIR/.last-sync" 2>/dev/null || true
             echo "Restored config from R2 backup"
+            RESTORE_RESULT="restored from R2 backup"
         else
             echo "WARNING: R2 config restore timed out or failed, starting fresh"
+            RESTORE_RESULT="config restore timed out or failed, starting fresh"
         fi
     fi
 elif [ -d "$BACKUP_DIR" ]; then
     echo "R2 mounted at $BACKUP_DIR but no backup data found yet"
+    RESTORE_RESULT="no backup yet"
+# With BACKUP_STORAGE=binding, the Worker restored through the R2 binding before starting us
+elif [ -f /tmp/openclaw-restore-result ]; then
+    RESTORE_RESULT=$(cat /tmp/openclaw-restore-result)
+    rm -f /tmp/openclaw-restore-result
+    echo "Restore through the R2 binding: $RESTORE_RESULT"
 else
     echo "R2 not mounted, starting fresh"
+    RESTORE_RESULT="R2 not mounted"
 fi
 
-# Restore workspace from R2 backup if available (only if R2 is newer)
+# Restore workspace from a pre-snapshot R2 backup if available (only if R2 is newer)
 # This includes IDENTITY.md, USER.md, MEMORY.md, memory/, and assets/
-WORKSPACE_DIR="/root/clawd"
-if [ -d "$BACKUP_DIR/workspace" ] && [ "$(ls -A $BACKUP_DIR/workspace 2>/dev/null)" ]; then
+if [ -z "$LATEST_SNAPSHOT" ] && [ -d "$BACKUP_DIR/workspace" ] && [ "$(ls -A $BACKUP_DIR/workspace 2>/dev/null)" ]; then
     if should_restore_from_r2; then
         echo "Restoring workspace from $BACKUP_DIR/workspace (timeout: ${R2_RESTORE_TIMEOUT}s)..."
         mkdir -p "$WORKSPACE_DIR"
@@ -114,9 +368,8 @@ if [ -d "$BACKUP_DIR/workspace" ] && [ "$(ls -A $BACKUP_DIR/workspace 2>/dev/nul
     fi
 fi
 
-# Restore skills from R2 backup if available (only if R2 is newer)
-SKILLS_DIR="/root/clawd/skills"
-if [ -d "$BACKUP_DIR/skills" ] && [ "$(ls -A $BACKUP_DIR/skills 2>/dev/null)" ]; then
+# Restore skills from a pre-snapshot R2 backup if available (only if R2 is newer)
+if [ -z "$LATEST_SNAPSHOT" ] && [ -d "$BACKUP_DIR/skills" ] && [ "$(ls -A $BACKUP_DIR/skills 2>/dev/null)" ]; then
     if should_restore_from_r2; then
         echo "Restoring skills from $BACKUP_DIR/skills (timeout: ${R2_RESTORE_TIMEOUT}s)..."
         mkdir -p "$SKILLS_DIR"
@@ -128,11 +381,20 @@ if [ -d "$BACKUP_DIR/skills" ] && [ "$(ls -A $BACKUP_DIR/skills 2>/dev/null)" ];
     fi
 fi
 
+if [ "$RESTORE_RESULT" = "R2 not mounted" ]; then
+    phase restore skip "$RESTORE_RESULT"
+else
+    phase restore done "$RESTORE_RESULT"
+fi
+# Backups are encrypted by the Worker; the gateway has no use for the keys
+unset BACKUP_ENCRYPTION_KEY BACKUP_ENCRYPTION_KEY_PREVIOUS
+
 # ============================================================
 # ONBOARD (only if no config exists yet)
 # ============================================================
 if [ ! -f "$CONFIG_FILE" ]; then
     echo "No existing config found, running openclaw onboard..."
+    phase onboard start
 
     AUTH_ARGS=""
     if [ -n "$CLOUDFLARE_AI_GATEWAY_API_KEY" ] && [ -n "$CF_AI_GATEWAY_ACCOUNT_ID" ] && [ -n "$CF_AI_GATEWAY_GATEWAY_ID" ]; then
@@ -156,8 +418,10 @@ if [ ! -f "$CONFIG_FILE" ]; then
         --skip-health
 
     echo "Onboard completed"
+    phase onboard done
 else
     echo "Using existing config"
+    phase onboard skip "existing config"
 fi
 
 # ============================================================
@@ -168,6 +432,7 @@ fi
 # - Gateway token auth
 # - Trusted proxies for sandbox networking
 # - Base URL override for legacy AI Gateway path
+phase config start
 node << 'EOFPATCH'
 const fs = require('fs');
 
@@ -199,6 +464,12 @@ if (process.env.OPENCLAW_DEV_MODE === 'true') {
     config.gateway.controlUi.allowInsecureAuth = true;
 }
 
+// Gateways routed by path prefix serve the Control UI under that prefix
+if (process.env.OPENCLAW_BASE_PATH) {
+    config.gateway.controlUi = config.gateway.controlUi || {};
+    config.gateway.controlUi.basePath = process.env.OPENCLAW_BASE_PATH;
+}
+
 // Enable HTTP REST endpoints for programmatic access (A2A, MCP, CLI)
 // This enables the OpenAI-compatible POST /v1/chat/completions endpoint
 config.gateway.http = config.gateway.http || {};
@@ -423,11 +694,13 @@ if (!profiles.profiles[profileId] || !profiles.profiles[profileId].token) {
 EOFTOKEN
 fi
 
+phase config done
+
 # ============================================================
 # START GATEWAY
 # ============================================================
 echo "Starting OpenClaw Gateway..."
-echo "Gateway will be available on port 18789"
+echo "Gateway will be available on port $GATEWAY_PORT"
 
 rm -f /tmp/openclaw-gateway.lock 2>/dev/null || true
 rm -f "$CONFIG_DIR/gateway.lock" 2>/dev/null || true
@@ -439,14 +712,16 @@ echo "Dev mode: ${OPENCLAW_DEV_MODE:-false}"
 # trap would never fire, leaving a stale lockfile that blocks future starts.
 if [ -n "$OPENCLAW_GATEWAY_TOKEN" ]; then
     echo "Starting gateway with token auth..."
-    openclaw gateway --port 18789 --verbose --allow-unconfigured --bind lan --token "$OPENCLAW_GATEWAY_TOKEN" &
+    openclaw gateway --port "$GATEWAY_PORT" --verbose --allow-unconfigured --bind lan --token "$OPENCLAW_GATEWAY_TOKEN" &
 else
     echo "Starting gateway with device pairing (no token)..."
-    openclaw gateway --port 18789 --verbose --allow-unconfigured --bind lan &
+    openclaw gateway --port "$GATEWAY_PORT" --verbose --allow-unconfigured --bind lan &
 fi
 
 GATEWAY_PID=$!
 echo "Gateway started with PID $GATEWAY_PID"
+# The Worker reports the port as done once it opens
+phase port start
 
 # Wait for the gateway process. When it exits (crash or shutdown), the
 # EXIT trap will clean up the lockfile so a new start can proceed.